@@ -0,0 +1,185 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { hasTransactionChanged } from '@tuwaio/nova-transactions';
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+import { Transaction, TransactionPool, TransactionStatus } from '@tuwaio/pulsar-core';
+import { useState } from 'react';
+
+import { createMockTx } from '../../../utils/mockTransactions';
+
+type BenchmarkProps = {
+  /** Number of transactions in the pool */
+  poolSize: number;
+  /** Number of pool updates measured */
+  updates: number;
+};
+
+type BenchmarkResult = {
+  name: string;
+  totalMs: number;
+  perUpdateMs: number;
+  changed: number;
+};
+
+/**
+ * Builds a pool of mock transactions with realistic payloads.
+ */
+function createPool(size: number): TransactionPool<Transaction> {
+  const pool: TransactionPool<Transaction> = {};
+  for (let index = 0; index < size; index++) {
+    const txKey = `0x${index.toString(16).padStart(64, '0')}`;
+    pool[txKey] = createMockTx(index % 4 === 0 ? OrbitAdapter.SOLANA : OrbitAdapter.EVM, {
+      txKey,
+      hash: txKey,
+      pending: index % 3 === 0,
+      status: index % 3 === 0 ? undefined : TransactionStatus.Success,
+      input: `0xa9059cbb${'0'.repeat(128)}`,
+      payload: { amount: index, recipient: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' },
+    });
+  }
+  return pool;
+}
+
+/**
+ * Produces the next pool the way the store does: one transaction is replaced by an updated copy,
+ * every other transaction keeps its reference.
+ */
+function updateOneTransaction(pool: TransactionPool<Transaction>, step: number): TransactionPool<Transaction> {
+  const keys = Object.keys(pool);
+  const txKey = keys[step % keys.length];
+  const tx = pool[txKey];
+  return {
+    ...pool,
+    [txKey]: { ...tx, confirmations: Number(tx.confirmations ?? 0) + 1 },
+  };
+}
+
+/**
+ * Runs the pool diffing of the toast effect over a sequence of pool updates.
+ */
+function measure(
+  name: string,
+  pools: TransactionPool<Transaction>[],
+  isChanged: (prevTx: Transaction, currentTx: Transaction) => boolean,
+): BenchmarkResult {
+  let changed = 0;
+  const start = performance.now();
+  for (let index = 1; index < pools.length; index++) {
+    const prevPool = pools[index - 1];
+    Object.values(pools[index]).forEach((currentTx) => {
+      const prevTx = prevPool[currentTx.txKey];
+      if (prevTx && isChanged(prevTx, currentTx)) changed++;
+    });
+  }
+  const totalMs = performance.now() - start;
+  return { name, totalMs, perUpdateMs: totalMs / (pools.length - 1), changed };
+}
+
+function PoolChangeDetectionBenchmark({ poolSize, updates }: BenchmarkProps) {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+
+  const run = () => {
+    const pools = [createPool(poolSize)];
+    for (let step = 0; step < updates; step++) {
+      pools.push(updateOneTransaction(pools[step], step));
+    }
+
+    setResults([
+      measure('JSON.stringify (previous)', pools, (prevTx, currentTx) => {
+        return JSON.stringify(prevTx) !== JSON.stringify(currentTx);
+      }),
+      measure('hasTransactionChanged', pools, hasTransactionChanged),
+    ]);
+  };
+
+  const [baseline, current] = results;
+
+  return (
+    <div className="flex max-w-xl flex-col gap-4 font-mono text-sm text-[var(--tuwa-text-primary)]">
+      <p className="text-[var(--tuwa-text-secondary)]">
+        Diffs {updates} pool updates of {poolSize} transactions, each updating a single transaction, the way the toast
+        effect of <code>NovaTransactionsProvider</code> does.
+      </p>
+      <button
+        type="button"
+        onClick={run}
+        className="cursor-pointer self-start rounded-lg bg-[var(--tuwa-bg-muted)] px-4 py-2 font-semibold"
+      >
+        Run benchmark
+      </button>
+      {results.length > 0 && (
+        <table className="w-full text-left">
+          <thead className="text-[var(--tuwa-text-tertiary)]">
+            <tr>
+              <th className="py-1">Detector</th>
+              <th className="py-1">Total (ms)</th>
+              <th className="py-1">Per update (ms)</th>
+              <th className="py-1">Changed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result) => (
+              <tr key={result.name}>
+                <td className="py-1">{result.name}</td>
+                <td className="py-1">{result.totalMs.toFixed(2)}</td>
+                <td className="py-1">{result.perUpdateMs.toFixed(4)}</td>
+                <td className="py-1">{result.changed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {baseline && current && (
+        <p className="font-bold text-[var(--tuwa-success-text)]">
+          {(baseline.totalMs / Math.max(current.totalMs, 0.001)).toFixed(0)}× faster, same changes detected.
+        </p>
+      )}
+    </div>
+  );
+}
+
+const meta: Meta<typeof PoolChangeDetectionBenchmark> = {
+  title: 'Nova Transactions/Toasts/Pool Change Detection',
+  component: PoolChangeDetectionBenchmark,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'Compares the field-level change detection used by `NovaTransactionsProvider` with the previous `JSON.stringify` comparison of every transaction on every pool update.',
+      },
+    },
+  },
+  args: {
+    poolSize: 1000,
+    updates: 200,
+  },
+  argTypes: {
+    poolSize: {
+      control: { type: 'number', min: 10, max: 10000, step: 10 },
+      description: 'Number of transactions in the pool.',
+    },
+    updates: {
+      control: { type: 'number', min: 1, max: 1000 },
+      description: 'Number of pool updates measured.',
+    },
+  },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+/**
+ * A pool of 1,000 transactions receiving 200 single-transaction updates.
+ */
+export const Default: Story = {};
+
+/**
+ * A large pool of 5,000 transactions.
+ */
+export const LargePool: Story = {
+  args: {
+    poolSize: 5000,
+    updates: 100,
+  },
+};
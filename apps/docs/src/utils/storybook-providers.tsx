@@ -1,6 +1,6 @@
 import type { Meta, StoryContext } from '@storybook/react-vite';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { NovaConnectProvider, NovaConnectProviderProps } from '@tuwaio/nova-connect';
+import { createStaticPriceProvider, NovaConnectProvider, NovaConnectProviderProps } from '@tuwaio/nova-connect';
 import { LegalConfig, NovaConnectProviderCustomization } from '@tuwaio/nova-connect';
 import { ConnectButtonProps } from '@tuwaio/nova-connect/components';
 import { EVMConnectorsWatcher } from '@tuwaio/nova-connect/evm';
@@ -125,6 +125,30 @@ export const usePulsarStore = createBoundedUseStore(
   }),
 );
 
+// ============================================================================
+// Mock Prices
+// ============================================================================
+
+/**
+ * Static prices used for the fiat values of the balances, no external API is called.
+ * Native coins are priced by symbol, tokens by address.
+ */
+const storybookPriceProvider = createStaticPriceProvider(
+  {
+    ETH: { USD: 3200, EUR: 2950 },
+    SOL: { USD: 150, EUR: 138 },
+    POL: { USD: 0.4, EUR: 0.37 },
+    AVAX: { USD: 35, EUR: 32 },
+    BNB: { USD: 580, EUR: 535 },
+    // USDC on Ethereum, Polygon, Base and Solana
+    '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': 1,
+    '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359': 1,
+    '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913': 1,
+    EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 1,
+  },
+  { delay: 300 },
+);
+
 // ============================================================================
 // Shared Props Interface
 // ============================================================================
@@ -185,6 +209,7 @@ function SatelliteConnectProvidersInner({
         customConnectorGroups={customConnectorGroups}
         popularConnectors={popularConnectors}
         legal={legal}
+        priceProvider={storybookPriceProvider}
       >
         {children}
       </NovaConnectProvider>
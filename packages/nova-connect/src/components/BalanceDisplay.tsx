@@ -27,6 +27,8 @@ export type BalanceData = {
   symbol: string;
   /** Optional icon URL or ReactNode */
   icon?: string | React.ReactNode;
+  /** Optional formatted fiat value (e.g., "$1,234.56"), shown as "≈ $1,234.56" */
+  fiatValue?: string;
 };
 
 /**
@@ -37,6 +39,7 @@ export type BalanceDisplayLabels = {
   walletBalance?: string;
   refreshBalance?: string;
   noBalanceAvailable?: string;
+  approximateValue?: string;
 };
 
 const DEFAULT_LABELS: Required<BalanceDisplayLabels> = {
@@ -44,6 +47,7 @@ const DEFAULT_LABELS: Required<BalanceDisplayLabels> = {
   walletBalance: 'Balance',
   refreshBalance: 'Refresh balance',
   noBalanceAvailable: 'No balance information available',
+  approximateValue: 'Approximate value',
 };
 
 /**
@@ -72,6 +76,8 @@ export type BalanceValueProps = {
   balance: BalanceData;
   labels: Required<BalanceDisplayLabels>;
   className?: string;
+  /** Class name of the fiat value */
+  fiatValueClassName?: string;
 };
 
 /**
@@ -129,6 +135,8 @@ export type BalanceDisplayCustomization = {
     balanceSymbol?: () => string;
     /** Function to generate balance icon classes */
     balanceIcon?: () => string;
+    /** Function to generate fiat value classes */
+    fiatValue?: () => string;
     /** Function to generate refresh button classes */
     refreshButton?: (params: { isLoading: boolean; showSuccess: boolean }) => string;
     /** Function to generate refresh icon classes */
@@ -153,6 +161,8 @@ export type BalanceDisplayCustomization = {
     showRefreshButton?: boolean;
     /** Whether to show icon */
     showIcon?: boolean;
+    /** Whether to show the fiat value when the balance has one */
+    showFiatValue?: boolean;
     /** Success indicator duration in ms */
     successDuration?: number;
     /** Whether to disable animations */
@@ -182,7 +192,11 @@ export interface BalanceDisplayProps {
 
 // --- Default Sub-Components ---
 
-const DefaultRefreshButton: React.FC<RefreshButtonProps> = ({
+/**
+ * Default refresh button of BalanceDisplay, spinning while loading and showing a check once refreshed.
+ * Exported to give other balance lists the same refresh UX.
+ */
+export const BalanceRefreshButton: React.FC<RefreshButtonProps> = ({
   isLoading,
   showSuccess,
   onRefetch,
@@ -251,7 +265,9 @@ const DefaultLoadingState: React.FC<LoadingStateProps> = ({ labels, className })
   );
 };
 
-const DefaultBalanceValue: React.FC<BalanceValueProps> = ({ balance, labels, className }) => {
+const DefaultBalanceValue: React.FC<BalanceValueProps> = ({ balance, labels, className, fiatValueClassName }) => {
+  const fiatLabel = balance.fiatValue ? `, ${labels.approximateValue}: ${balance.fiatValue}` : '';
+
   return (
     <p
       className={cn(
@@ -259,14 +275,20 @@ const DefaultBalanceValue: React.FC<BalanceValueProps> = ({ balance, labels, cla
         className,
       )}
       role="text"
-      aria-label={`${labels.walletBalance}: ${balance.value} ${balance.symbol}`}
+      aria-label={`${labels.walletBalance}: ${balance.value} ${balance.symbol}${fiatLabel}`}
     >
       <span aria-hidden="true">{balance.value}</span>
       <span aria-hidden="true">{balance.symbol}</span>
+      {balance.fiatValue && (
+        <span aria-hidden="true" className={cn('novacon:ml-1 novacon:opacity-75', fiatValueClassName)}>
+          ≈ {balance.fiatValue}
+        </span>
+      )}
 
       {/* Screen reader friendly version */}
       <span className="novacon:sr-only">
         {labels.walletBalance}: {balance.value} {balance.symbol}
+        {fiatLabel}
       </span>
     </p>
   );
@@ -328,14 +350,14 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
 
   // Extract components
   const {
-    RefreshButton = DefaultRefreshButton,
+    RefreshButton = BalanceRefreshButton,
     LoadingState = DefaultLoadingState,
     BalanceValue = DefaultBalanceValue,
     EmptyState = DefaultEmptyState,
   } = customization?.components ?? {};
 
   // Extract config
-  const { showRefreshButton = true, successDuration = 1500 } = customization?.config ?? {};
+  const { showRefreshButton = true, showFiatValue = true, successDuration = 1500 } = customization?.config ?? {};
 
   // Show success indicator when loading completes
   useEffect(() => {
@@ -373,7 +395,12 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
   if (hasBalance && balance) {
     return (
       <div className={containerClasses} data-testid={testId}>
-        <BalanceValue balance={balance} labels={labels} className={customization?.classNames?.balanceValue?.()} />
+        <BalanceValue
+          balance={showFiatValue ? balance : { ...balance, fiatValue: undefined }}
+          labels={labels}
+          className={customization?.classNames?.balanceValue?.()}
+          fiatValueClassName={customization?.classNames?.fiatValue?.()}
+        />
         {showRefreshButton && onRefetch && (
           <RefreshButton
             isLoading={isLoading}
@@ -3,6 +3,8 @@
  * @module ChainListRenderer
  */
 
+import { StarIcon as StarOutlineIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
 import * as Select from '@radix-ui/react-select';
 import { cn, getChainName, NetworkIcon } from '@tuwaio/nova-core';
 import {
@@ -20,6 +22,8 @@ import React, {
   forwardRef,
   ReactNode,
   useCallback,
+  useId,
+  useRef,
 } from 'react';
 
 import { useNovaConnectLabels } from '../../hooks/useNovaConnectLabels';
@@ -73,6 +77,40 @@ interface CustomActiveIndicatorProps {
   className?: string;
 }
 
+/**
+ * Props for custom group header component
+ */
+interface CustomGroupHeaderProps {
+  title: string;
+  groupId: string;
+  chainCount: number;
+  isMobile: boolean;
+}
+
+/**
+ * Props for custom pin button component
+ */
+interface CustomPinButtonProps {
+  chainId: string | number;
+  isPinned: boolean;
+  isMobile: boolean;
+  onToggle: () => void;
+  className?: string;
+  'aria-label': string;
+}
+
+/**
+ * A titled section of the chain list
+ */
+export interface ChainListGroup {
+  /** Stable group identifier */
+  id: string;
+  /** Section title, the header is omitted without it */
+  title?: string;
+  /** Chains of the section */
+  chains: (string | number)[];
+}
+
 /**
  * Animation configuration for container
  */
@@ -106,6 +144,10 @@ export interface ChainListRendererCustomization {
     ActiveIndicatorWrapper?: ComponentType<CustomActiveIndicatorWrapperProps>;
     /** Custom active indicator component */
     ActiveIndicator?: ComponentType<CustomActiveIndicatorProps>;
+    /** Custom group header content */
+    GroupHeader?: ComponentType<CustomGroupHeaderProps>;
+    /** Custom pin button component */
+    PinButton?: ComponentType<CustomPinButtonProps>;
   };
   /** Custom class name generators */
   classNames?: {
@@ -123,6 +165,12 @@ export interface ChainListRendererCustomization {
     activeIndicatorWrapper?: (params: { isActive: boolean; isMobile: boolean }) => string;
     /** Active indicator classes */
     activeIndicator?: (params: { isMobile: boolean }) => string;
+    /** Group container classes */
+    group?: (params: { isMobile: boolean; groupId: string }) => string;
+    /** Group header classes */
+    groupHeader?: (params: { isMobile: boolean; groupId: string }) => string;
+    /** Pin button classes */
+    pinButton?: (params: { isPinned: boolean; isMobile: boolean }) => string;
   };
   /** Custom event handlers */
   handlers?: {
@@ -143,6 +191,12 @@ export interface ChainListRendererCustomization {
       chainId: string,
       context: { chainName: string; isActive: boolean },
     ) => void;
+    /** Pin toggle handler wrapper */
+    onTogglePin?: (
+      originalHandler: (chainId: string) => void,
+      chainId: string,
+      context: { chainName: string; isPinned: boolean },
+    ) => void;
   };
   /** Animation configuration */
   animations?: {
@@ -161,6 +215,8 @@ export interface ChainListRendererCustomization {
     showLoading?: boolean;
     /** Custom loading message */
     loadingMessage?: string;
+    /** Arrow key navigation and type-ahead between items on mobile (the desktop Select provides its own) */
+    typeAhead?: boolean;
   };
 }
 
@@ -192,6 +248,16 @@ export interface ChainListRendererProps {
   isLoading?: boolean;
   /** Error state */
   error?: string | null;
+  /** Sections of the list. When provided, they are rendered with their titles instead of `chainsList`. */
+  groups?: ChainListGroup[];
+  /** Formatted IDs of the pinned chains */
+  pinnedChains?: string[];
+  /** Pins or unpins a chain. Pin buttons are shown only when provided. */
+  onTogglePin?: (chainId: string) => void;
+  /** Message of the empty state */
+  emptyMessage?: string;
+  /** ID of the list container */
+  id?: string;
 }
 
 // === DEFAULT COMPONENTS ===
@@ -263,40 +329,135 @@ const DefaultActiveIndicator: React.FC<CustomActiveIndicatorProps> = ({ isActive
   );
 };
 
+/**
+ * Default group header content
+ */
+const DefaultGroupHeader: React.FC<CustomGroupHeaderProps> = ({ title }) => <span>{title}</span>;
+
+/**
+ * Default pin button. It stops pointer and key events so that pinning doesn't select the chain.
+ */
+const DefaultPinButton: React.FC<CustomPinButtonProps> = ({
+  isPinned,
+  isMobile,
+  onToggle,
+  className,
+  'aria-label': ariaLabel,
+}) => {
+  const Icon = isPinned ? StarSolidIcon : StarOutlineIcon;
+  const stop = (event: React.SyntheticEvent) => event.stopPropagation();
+
+  return (
+    <button
+      type="button"
+      aria-label={ariaLabel}
+      aria-pressed={isPinned}
+      // Items of the desktop Select are focused as a whole, so the button is reachable by pointer only there
+      tabIndex={isMobile ? 0 : -1}
+      onPointerDown={stop}
+      onPointerUp={stop}
+      onKeyDown={(event) => {
+        stop(event);
+        if (event.key === 'Enter' || event.key === ' ') {
+          event.preventDefault();
+          onToggle();
+        }
+      }}
+      onClick={(event) => {
+        stop(event);
+        onToggle();
+      }}
+      className={className}
+    >
+      <Icon className="novacon:h-4 novacon:w-4" aria-hidden="true" />
+    </button>
+  );
+};
+
+/**
+ * Focuses the next option whose chain name starts with the typed text, or moves focus with arrow keys.
+ */
+function moveOptionFocus(
+  container: HTMLElement,
+  event: React.KeyboardEvent,
+  typeAheadRef: React.MutableRefObject<{ query: string; timeout?: ReturnType<typeof setTimeout> }>,
+) {
+  const options = Array.from(container.querySelectorAll<HTMLElement>('[role="option"]'));
+  if (!options.length) return;
+
+  const currentIndex = options.findIndex((option) => option.contains(document.activeElement));
+  const focus = (index: number) => {
+    event.preventDefault();
+    options[(index + options.length) % options.length]?.focus();
+  };
+
+  if (event.key === 'ArrowDown') return focus(currentIndex + 1);
+  if (event.key === 'ArrowUp') return focus(currentIndex === -1 ? -1 : currentIndex - 1);
+  if (event.key === 'Home') return focus(0);
+  if (event.key === 'End') return focus(-1);
+
+  const isPrintable = event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+  if (!isPrintable || event.key === ' ') return;
+
+  const state = typeAheadRef.current;
+  clearTimeout(state.timeout);
+  state.query += event.key.toLowerCase();
+  state.timeout = setTimeout(() => {
+    state.query = '';
+  }, 700);
+
+  // Repeating the same character cycles through the chains starting with it
+  const isCycling = state.query.split('').every((char) => char === state.query[0]);
+  const query = isCycling ? state.query[0] : state.query;
+  const ordered = [...options.slice(currentIndex + 1), ...options.slice(0, currentIndex + 1)];
+  const candidates = isCycling ? ordered : [...options.slice(Math.max(currentIndex, 0)), ...options];
+  const match = candidates.find((option) => option.dataset.chainName?.toLowerCase().startsWith(query));
+  if (match) {
+    event.preventDefault();
+    match.focus();
+  }
+}
+
 /**
  * Enhanced SelectItem component for desktop use
  */
-const SelectItemBase = forwardRef<ElementRef<typeof Select.Item>, ComponentPropsWithoutRef<typeof Select.Item>>(
-  ({ children, className, ...props }, forwardedRef) => {
-    const labels = useNovaConnectLabels();
-    const isActive = props.value === props['aria-selected'];
-    return (
-      <Select.Item
-        ref={forwardedRef}
-        className={cn(
-          // Base styles
-          'novacon:flex novacon:items-center novacon:w-full novacon:text-left novacon:px-2 novacon:py-2',
-          'novacon:rounded-[var(--tuwa-rounded-corners)] novacon:transition-colors novacon:space-x-3 novacon:cursor-pointer novacon:outline-none',
-          // Interactive states
-          'novacon:text-[var(--tuwa-text-primary)] novacon:hover:bg-[var(--tuwa-bg-muted)]',
-          'novacon:focus:bg-[var(--tuwa-bg-muted)] novacon:focus:outline-none',
-          'novacon:focus:ring-[length:var(--tuwa-ring-width)] novacon:focus:ring-[var(--tuwa-border-primary)] novacon:focus:ring-offset-[length:var(--tuwa-ring-width)] novacon:focus:ring-offset-[var(--tuwa-border-secondary)]',
-          // Active state
-          { 'novacon:bg-[var(--tuwa-bg-muted)]': isActive },
-          // Custom classes
-          className,
-        )}
-        role="option"
-        aria-selected={isActive}
-        tabIndex={0}
-        {...props}
-      >
-        {children}
-        {isActive && <DefaultActiveIndicator isActive={true} label={labels.connected} className="novacon:ml-auto" />}
-      </Select.Item>
-    );
-  },
-);
+const SelectItemBase = forwardRef<
+  ElementRef<typeof Select.Item>,
+  ComponentPropsWithoutRef<typeof Select.Item> & { accessory?: ReactNode }
+>(({ children, className, accessory, ...props }, forwardedRef) => {
+  const labels = useNovaConnectLabels();
+  const isActive = props.value === props['aria-selected'];
+  return (
+    <Select.Item
+      ref={forwardedRef}
+      className={cn(
+        // Base styles
+        'novacon:flex novacon:items-center novacon:w-full novacon:text-left novacon:px-2 novacon:py-2',
+        'novacon:rounded-[var(--tuwa-rounded-corners)] novacon:transition-colors novacon:space-x-3 novacon:cursor-pointer novacon:outline-none',
+        // Interactive states
+        'novacon:text-[var(--tuwa-text-primary)] novacon:hover:bg-[var(--tuwa-bg-muted)]',
+        'novacon:focus:bg-[var(--tuwa-bg-muted)] novacon:focus:outline-none',
+        'novacon:focus:ring-[length:var(--tuwa-ring-width)] novacon:focus:ring-[var(--tuwa-border-primary)] novacon:focus:ring-offset-[length:var(--tuwa-ring-width)] novacon:focus:ring-offset-[var(--tuwa-border-secondary)]',
+        // Active state
+        { 'novacon:bg-[var(--tuwa-bg-muted)]': isActive },
+        // Custom classes
+        className,
+      )}
+      role="option"
+      aria-selected={isActive}
+      tabIndex={0}
+      {...props}
+    >
+      {children}
+      {(isActive || accessory) && (
+        <div className="novacon:ml-auto novacon:flex novacon:items-center novacon:gap-2">
+          {isActive && <DefaultActiveIndicator isActive={true} label={labels.connected} />}
+          {accessory}
+        </div>
+      )}
+    </Select.Item>
+  );
+});
 SelectItemBase.displayName = 'SelectItemBase';
 
 // === MAIN COMPONENT ===
@@ -317,8 +478,16 @@ export const ChainListRenderer: React.FC<ChainListRendererProps> = ({
   'aria-label': ariaLabel,
   isLoading = false,
   error = null,
+  groups,
+  pinnedChains = [],
+  onTogglePin,
+  emptyMessage,
+  id,
 }) => {
   const labels = useNovaConnectLabels();
+  const generatedId = useId();
+  const listId = id ?? generatedId;
+  const typeAheadRef = useRef<{ query: string; timeout?: ReturnType<typeof setTimeout> }>({ query: '' });
 
   // Extract customization options with defaults
   const {
@@ -326,17 +495,36 @@ export const ChainListRenderer: React.FC<ChainListRendererProps> = ({
     ChainContent = DefaultChainContent,
     ActiveIndicatorWrapper = DefaultActiveIndicatorWrapper,
     ActiveIndicator = DefaultActiveIndicator,
+    GroupHeader = DefaultGroupHeader,
+    PinButton = DefaultPinButton,
   } = customization?.components ?? {};
 
   const animations = customization?.animations;
   const behavior = customization?.behavior ?? {};
 
+  const itemCount = groups ? groups.reduce((count, group) => count + group.chains.length, 0) : chainsList.length;
+
   // Container classes
-  const containerClasses = cn(
-    customization?.classNames?.container?.({ isMobile, itemCount: chainsList.length }),
-    className,
+  const containerClasses = cn(customization?.classNames?.container?.({ isMobile, itemCount }), className);
+
+  const handleTogglePin = useCallback(
+    (chainId: string, chainName: string, isPinned: boolean) => {
+      if (!onTogglePin) return;
+      if (customization?.handlers?.onTogglePin) {
+        customization.handlers.onTogglePin(onTogglePin, chainId, { chainName, isPinned });
+      } else {
+        onTogglePin(chainId);
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [customization?.handlers?.onTogglePin, onTogglePin],
   );
 
+  const handleContainerKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!isMobile || behavior.typeAhead === false || event.defaultPrevented) return;
+    moveOptionFocus(event.currentTarget, event, typeAheadRef);
+  };
+
   // Create event handlers at top level to avoid hooks violations
   const createClickHandler = useCallback(
     (formattedChainId: string | number, chainName: string, isActive: boolean) => {
@@ -418,13 +606,15 @@ export const ChainListRenderer: React.FC<ChainListRendererProps> = ({
   }
 
   // Handle empty state
-  if (chainsList.length === 0) {
+  if (itemCount === 0) {
     return (
       <div
         className={cn('novacon:flex novacon:justify-center novacon:items-center novacon:py-4', containerClasses)}
         role="status"
       >
-        <span className="novacon:text-sm novacon:text-[var(--tuwa-text-secondary)]">{labels.noConnectorsFound}</span>
+        <span className="novacon:text-sm novacon:text-[var(--tuwa-text-secondary)]">
+          {emptyMessage ?? labels.noConnectorsFound}
+        </span>
       </div>
     );
   }
@@ -495,6 +685,27 @@ export const ChainListRenderer: React.FC<ChainListRendererProps> = ({
 
     const ariaLabel = `${labels.chainOption}: ${chainName}`;
 
+    const isPinned = pinnedChains.includes(String(formattedChainId));
+    const pinButton = onTogglePin ? (
+      <PinButton
+        chainId={formattedChainId}
+        isPinned={isPinned}
+        isMobile={isMobile}
+        onToggle={() => handleTogglePin(String(formattedChainId), chainName, isPinned)}
+        aria-label={`${isPinned ? labels.unpinNetwork : labels.pinNetwork}: ${chainName}`}
+        className={
+          customization?.classNames?.pinButton?.({ isPinned, isMobile }) ??
+          cn(
+            'novacon:cursor-pointer novacon:rounded-full novacon:p-1 novacon:transition-colors',
+            'novacon:focus:outline-none novacon:focus-visible:ring-[length:var(--tuwa-ring-width)] novacon:focus-visible:ring-[var(--tuwa-border-primary)]',
+            isPinned
+              ? 'novacon:text-[var(--tuwa-text-accent)]'
+              : 'novacon:text-[var(--tuwa-text-tertiary)] novacon:hover:text-[var(--tuwa-text-primary)]',
+          )
+        }
+      />
+    ) : null;
+
     // Render mobile version
     if (isMobile) {
       const MotionItem = animations?.item ? motion.div : 'div';
@@ -509,11 +720,15 @@ export const ChainListRenderer: React.FC<ChainListRendererProps> = ({
           role="option"
           aria-selected={isActive}
           aria-label={ariaLabel}
+          data-chain-name={chainName}
           tabIndex={0}
           {...motionProps}
         >
           {contentElement}
-          {activeIndicatorWrapper}
+          <div className="novacon:flex novacon:items-center novacon:gap-2">
+            {activeIndicatorWrapper}
+            {pinButton}
+          </div>
         </MotionItem>
       );
     }
@@ -526,24 +741,64 @@ export const ChainListRenderer: React.FC<ChainListRendererProps> = ({
         aria-label={ariaLabel}
         onSelect={handleClick}
         className={itemClasses}
+        accessory={pinButton}
       >
         {contentElement}
       </SelectItemBase>
     );
   };
 
+  // Render a titled section: a Select group on desktop, an ARIA group on mobile
+  const renderGroup = (group: ChainListGroup) => {
+    const headerId = `${listId}-${group.id}`;
+    const groupClasses = customization?.classNames?.group?.({ isMobile, groupId: group.id });
+    const headerClasses =
+      customization?.classNames?.groupHeader?.({ isMobile, groupId: group.id }) ??
+      'novacon:px-2 novacon:pt-2 novacon:pb-1 novacon:text-xs novacon:font-semibold novacon:uppercase novacon:tracking-wide novacon:text-[var(--tuwa-text-tertiary)]';
+    const headerContent = group.title ? (
+      <GroupHeader title={group.title} groupId={group.id} chainCount={group.chains.length} isMobile={isMobile} />
+    ) : null;
+
+    if (!isMobile) {
+      return (
+        <Select.Group key={group.id} className={groupClasses}>
+          {headerContent && <Select.Label className={headerClasses}>{headerContent}</Select.Label>}
+          {group.chains.map(renderChainItem)}
+        </Select.Group>
+      );
+    }
+
+    return (
+      <div
+        key={group.id}
+        role="group"
+        aria-labelledby={headerContent ? headerId : undefined}
+        className={cn('novacon:flex novacon:flex-col novacon:gap-1', groupClasses)}
+      >
+        {headerContent && (
+          <div id={headerId} className={headerClasses}>
+            {headerContent}
+          </div>
+        )}
+        {group.chains.map(renderChainItem)}
+      </div>
+    );
+  };
+
   // Container animation wrapper
   const MotionContainer = animations?.container ? motion.div : 'div';
   const containerMotionProps = animations?.container || {};
 
   return (
     <MotionContainer
+      id={listId}
       role="listbox"
       aria-label={ariaLabel || labels.selectChain}
       className={containerClasses}
+      onKeyDown={handleContainerKeyDown}
       {...containerMotionProps}
     >
-      {chainsList.map(renderChainItem)}
+      {groups ? groups.map(renderGroup) : chainsList.map(renderChainItem)}
     </MotionContainer>
   );
 };
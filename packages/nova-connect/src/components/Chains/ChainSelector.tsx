@@ -1,8 +1,10 @@
 /**
  * @file ChainSelector component - A highly customizable chain selector with support for desktop and mobile devices.
+ * Long chain lists get a search field, mainnet/testnet (and per-adapter) sections and user-pinned networks.
  * @module ChainSelector
  */
 
+import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import * as Select from '@radix-ui/react-select';
 import {
   ChevronArrowWithAnim,
@@ -13,17 +15,28 @@ import {
   DialogContent,
   DialogHeader,
   DialogTitle,
+  fuzzyFilter,
   getChainName,
   NetworkIcon,
 } from '@tuwaio/nova-core';
-import { formatConnectorChainId, getAdapterFromConnectorType } from '@tuwaio/orbit-core';
-import React, { ComponentPropsWithoutRef, ComponentType, ReactNode, useCallback } from 'react';
-
-import { useNovaConnect, useNovaConnectLabels, useWalletChainsList } from '../../hooks';
+import { formatConnectorChainId, getAdapterFromConnectorType, getNetworkData } from '@tuwaio/orbit-core';
+import React, {
+  ComponentPropsWithoutRef,
+  ComponentType,
+  ReactNode,
+  useCallback,
+  useId,
+  useMemo,
+  useState,
+} from 'react';
+
+import { useFavoriteChains, useNovaConnect, useNovaConnectLabels, useWalletChainsList } from '../../hooks';
 import { useSatelliteConnectStore } from '../../satellite';
 import { InitialChains } from '../../types';
+import { ChainGroup, groupChains, GroupChainsOptions } from '../../utils/chainGroups';
+import { FavoriteChainsOptions } from '../../utils/favoriteChains';
 import { SelectContentAnimated, SelectContentAnimatedProps } from '../SelectContentAnimated';
-import { ChainListRenderer, ChainListRendererCustomization } from './ChainListRenderer';
+import { ChainListGroup, ChainListRenderer, ChainListRendererCustomization } from './ChainListRenderer';
 import { ScrollableChainList, ScrollableChainListCustomization } from './ScrollableChainList';
 
 /**
@@ -157,6 +170,28 @@ type CustomDialogHeaderProps = {
   };
 };
 
+/**
+ * Props for a custom chain search input component.
+ */
+type CustomChainSearchInputProps = {
+  /** Current query */
+  value: string;
+  /** Query change handler */
+  onChange: (value: string) => void;
+  /** Key handler: `Enter` selects the best match, `ArrowDown` moves to the list */
+  onKeyDown: (event: React.KeyboardEvent<HTMLInputElement>) => void;
+  /** Whether rendered in the mobile dialog */
+  isMobile: boolean;
+  /** CSS class */
+  className?: string;
+  /** Placeholder text */
+  placeholder: string;
+  /** ARIA label */
+  'aria-label': string;
+  /** ID of the filtered list */
+  'aria-controls': string;
+};
+
 /**
  * Animation easing parameters for framer-motion.
  */
@@ -237,6 +272,8 @@ export type ChainSelectorCustomization = {
     MobileSelector?: ComponentType<CustomMobileSelectorProps>;
     /** Custom dialog header component */
     DialogHeader?: ComponentType<CustomDialogHeaderProps>;
+    /** Custom chain search input component */
+    SearchInput?: ComponentType<CustomChainSearchInputProps>;
   };
   /** Custom CSS class generators */
   classNames?: {
@@ -260,6 +297,8 @@ export type ChainSelectorCustomization = {
     dialogHeaderTitle?: () => string;
     /** Classes for the dialog header close button wrapper */
     dialogHeaderCloseButtonWrapper?: () => string;
+    /** Classes for the search input wrapper */
+    searchInput?: (params: { isMobile: boolean }) => string;
   };
   /** Custom event handlers */
   handlers?: {
@@ -267,6 +306,28 @@ export type ChainSelectorCustomization = {
     onChainChange?: (originalHandler: (newChainId: string) => void, newChainId: string) => void;
     /** Wrapper for the dialog close handler */
     onDialogClose?: (originalHandler: () => void) => void;
+    /** Called when the search query changes */
+    onSearchChange?: (query: string) => void;
+  };
+  /** Behavior configuration */
+  config?: {
+    /** Chain search */
+    search?: {
+      /** Force the search field on or off. By default it is shown from `threshold` chains. */
+      enabled?: boolean;
+      /** Number of chains from which the search field is shown (default: 8) */
+      threshold?: number;
+    };
+    /** Sections of the list: pinned, mainnets and testnets, per adapter when the list spans several */
+    grouping?: Pick<GroupChainsOptions, 'byNetworkType' | 'byAdapter' | 'isTestnet'> & {
+      /** Disable to render a flat list (default: true) */
+      enabled?: boolean;
+    };
+    /** Networks pinned by the user, persisted in `localStorage` by default */
+    favorites?: FavoriteChainsOptions & {
+      /** Disable to hide the pin buttons (default: true) */
+      enabled?: boolean;
+    };
   };
   /** Dialog header customization */
   dialogHeader?: {
@@ -436,6 +497,52 @@ const DefaultDialogHeader = ({ title, onClose, className, closeButton }: CustomD
   );
 };
 
+/**
+ * Default chain search input component.
+ */
+const DefaultChainSearchInput = ({
+  value,
+  onChange,
+  onKeyDown,
+  className,
+  placeholder,
+  'aria-label': ariaLabel,
+  'aria-controls': ariaControls,
+}: CustomChainSearchInputProps) => {
+  const labels = useNovaConnectLabels();
+
+  return (
+    <div className={className}>
+      <MagnifyingGlassIcon
+        className="novacon:pointer-events-none novacon:absolute novacon:left-3 novacon:top-1/2 novacon:-translate-y-1/2 novacon:h-4 novacon:w-4 novacon:text-[var(--tuwa-text-tertiary)]"
+        aria-hidden="true"
+      />
+      <input
+        type="search"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onKeyDown={onKeyDown}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        aria-controls={ariaControls}
+        autoComplete="off"
+        spellCheck={false}
+        className="novacon:w-full novacon:rounded-[var(--tuwa-rounded-corners)] novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:bg-[var(--tuwa-bg-secondary)] novacon:py-2 novacon:pl-9 novacon:pr-8 novacon:text-sm novacon:text-[var(--tuwa-text-primary)] novacon:placeholder:text-[var(--tuwa-text-tertiary)] novacon:outline-none novacon:focus:border-[var(--tuwa-text-accent)] novacon:[&::-webkit-search-cancel-button]:appearance-none"
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          aria-label={labels.clearSearch}
+          className="novacon:absolute novacon:right-2 novacon:top-1/2 novacon:-translate-y-1/2 novacon:cursor-pointer novacon:rounded-full novacon:p-1 novacon:text-[var(--tuwa-text-secondary)] novacon:hover:text-[var(--tuwa-text-primary)]"
+        >
+          <XMarkIcon className="novacon:h-4 novacon:w-4" aria-hidden="true" />
+        </button>
+      )}
+    </div>
+  );
+};
+
 // --- Default Event Handlers ---
 
 const defaultClickHandler = (
@@ -636,6 +743,9 @@ export interface ChainSelectorProps extends InitialChains {
 /**
  * The main chain selector component.
  * Supports both desktop (dropdown) and mobile (dialog modal) interfaces.
+ *
+ * Chains are split into pinned, mainnet and testnet sections (per adapter when the list spans several),
+ * and a search field is shown for long lists. Both lists support keyboard type-ahead.
  */
 export function ChainSelector({
   appChains,
@@ -654,19 +764,30 @@ export function ChainSelector({
     DesktopSelector = DefaultDesktopSelector,
     MobileSelector = DefaultMobileSelector,
     DialogHeader = DefaultDialogHeader,
+    SearchInput = DefaultChainSearchInput,
   } = customization?.components ?? {};
 
   const {
     onChainChange: customChainChangeHandler = defaultChainChangeHandler,
     onDialogClose: customDialogCloseHandler = defaultDialogCloseHandler,
+    onSearchChange,
   } = customization?.handlers ?? {};
 
+  const { search: searchConfig, grouping: groupingConfig, favorites: favoritesConfig } = customization?.config ?? {};
+
   const { chainsList } = useWalletChainsList({
     activeConnection,
     appChains,
     solanaRPCUrls,
   });
 
+  const listId = useId();
+  const [searchQuery, setSearchQuery] = useState('');
+  const { favorites, toggle: toggleFavorite } = useFavoriteChains(favoritesConfig);
+  const isPinningEnabled = favoritesConfig?.enabled ?? true;
+  const isSearchVisible = searchConfig?.enabled ?? chainsList.length >= (searchConfig?.threshold ?? 8);
+  const isSearching = isSearchVisible && searchQuery.trim().length > 0;
+
   const containerClasses = customization?.classNames?.container
     ? customization.classNames.container({
         hasMultipleChains: chainsList.length > 1,
@@ -719,10 +840,140 @@ export function ChainSelector({
     [activeConnection],
   );
 
+  const handleDesktopOpenChange = useCallback(
+    (open: boolean) => {
+      setIsChainsListOpen(open);
+      if (!open) setSearchQuery('');
+    },
+    [setIsChainsListOpen],
+  );
+
+  const handleMobileOpenChange = useCallback(
+    (open: boolean) => {
+      setIsChainsListOpenMobile(open);
+      if (!open) setSearchQuery('');
+    },
+    [setIsChainsListOpenMobile],
+  );
+
   const handleDialogClose = useCallback(() => {
-    const originalHandler = () => setIsChainsListOpenMobile(false);
+    const originalHandler = () => handleMobileOpenChange(false);
     customDialogCloseHandler(originalHandler);
-  }, [customDialogCloseHandler, setIsChainsListOpenMobile]);
+  }, [customDialogCloseHandler, handleMobileOpenChange]);
+
+  const handleSearchChange = useCallback(
+    (query: string) => {
+      setSearchQuery(query);
+      onSearchChange?.(query);
+    },
+    [onSearchChange],
+  );
+
+  /**
+   * Chains matching the search query, best match first
+   */
+  const filteredChains = useMemo(() => {
+    if (!isSearching) return chainsList;
+    return fuzzyFilter(chainsList, searchQuery, (chain) => {
+      const { formattedChainId } = getChainData(chain);
+      return [getChainName(formattedChainId).name, String(formattedChainId)];
+    });
+  }, [chainsList, getChainData, isSearching, searchQuery]);
+
+  /**
+   * Sections of the list. Search results are shown as a single untitled section.
+   */
+  const chainGroups = useMemo((): ChainListGroup[] | undefined => {
+    if (isSearching || groupingConfig?.enabled === false) return undefined;
+
+    const groups = groupChains(chainsList, {
+      formatChainId: (chain) => getChainData(chain).formattedChainId,
+      pinned: isPinningEnabled ? favorites : [],
+      byNetworkType: groupingConfig?.byNetworkType,
+      byAdapter: groupingConfig?.byAdapter,
+      isTestnet: groupingConfig?.isTestnet,
+    });
+
+    const getGroupTitle = (group: ChainGroup) => {
+      const typeTitle = {
+        pinned: labels.pinnedNetworks,
+        mainnets: labels.mainnets,
+        testnets: labels.testnets,
+        all: '',
+      }[group.type];
+      const adapterName = group.adapter ? getNetworkData(group.adapter)?.chain?.name : undefined;
+      return [adapterName, typeTitle].filter(Boolean).join(' · ');
+    };
+
+    // A single section needs no header
+    return groups.map((group) => ({
+      id: group.id,
+      title: groups.length > 1 ? getGroupTitle(group) : undefined,
+      chains: group.chains,
+    }));
+  }, [chainsList, getChainData, isSearching, groupingConfig, isPinningEnabled, favorites, labels]);
+
+  /**
+   * Search field keys: `Enter` picks the best match, `ArrowDown` moves to the list,
+   * other keys stay in the field instead of triggering the list type-ahead.
+   */
+  const createSearchKeyDownHandler = useCallback(
+    (isMobile: boolean) => (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Escape' || event.key === 'Tab') return;
+
+      if (event.key === 'ArrowDown') {
+        // The desktop Select moves focus to its first item by itself
+        if (isMobile) {
+          event.preventDefault();
+          document.getElementById(listId)?.querySelector<HTMLElement>('[role="option"]')?.focus();
+        }
+        return;
+      }
+
+      event.stopPropagation();
+
+      if (event.key === 'Enter' && filteredChains.length) {
+        event.preventDefault();
+        handleChainChange(String(getChainData(filteredChains[0]).formattedChainId));
+        if (isMobile) {
+          handleMobileOpenChange(false);
+        } else {
+          handleDesktopOpenChange(false);
+        }
+      }
+    },
+    [listId, filteredChains, getChainData, handleChainChange, handleMobileOpenChange, handleDesktopOpenChange],
+  );
+
+  const renderSearchInput = (isMobile: boolean) =>
+    isSearchVisible ? (
+      <SearchInput
+        value={searchQuery}
+        onChange={handleSearchChange}
+        onKeyDown={createSearchKeyDownHandler(isMobile)}
+        isMobile={isMobile}
+        placeholder={labels.searchNetworksPlaceholder}
+        aria-label={labels.searchNetworks}
+        aria-controls={isMobile ? listId : `${listId}-select`}
+        className={
+          customization?.classNames?.searchInput?.({ isMobile }) ??
+          cn(
+            'novacon:relative',
+            isMobile
+              ? 'novacon:mt-2'
+              : 'novacon:sticky novacon:top-0 novacon:z-10 novacon:bg-[var(--tuwa-bg-primary)] novacon:pb-1',
+          )
+        }
+      />
+    ) : null;
+
+  const listProps = {
+    chainsList: filteredChains,
+    groups: chainGroups,
+    pinnedChains: favorites,
+    onTogglePin: isPinningEnabled && !isSearching ? toggleFavorite : undefined,
+    emptyMessage: isSearching ? labels.noNetworksMatchSearch : undefined,
+  };
 
   if (!activeConnection) return null;
 
@@ -754,7 +1005,7 @@ export function ChainSelector({
           value={selectValue}
           onValueChange={handleChainChange}
           open={isChainsListOpen}
-          onOpenChange={setIsChainsListOpen}
+          onOpenChange={handleDesktopOpenChange}
         >
           <ChainTriggerButton
             currentFormattedChainId={currentFormattedChainId}
@@ -765,13 +1016,18 @@ export function ChainSelector({
             hasMultipleChains={chainsList.length > 1}
             customization={customization?.triggerButton}
           />
-          <SelectContentAnimated className="novacon:w-[210px]" {...customization?.selectContent}>
+          <SelectContentAnimated
+            className={isSearchVisible ? 'novacon:w-[240px]' : 'novacon:w-[210px]'}
+            {...customization?.selectContent}
+          >
+            {renderSearchInput(false)}
             <ChainListRenderer
-              chainsList={chainsList}
+              {...listProps}
+              id={`${listId}-select`}
               selectValue={selectValue}
               handleValueChange={handleChainChange}
               getChainData={getChainData}
-              onClose={() => setIsChainsListOpen(false)}
+              onClose={() => handleDesktopOpenChange(false)}
               isMobile={false}
               customization={customization?.chainListRenderer}
             />
@@ -790,8 +1046,12 @@ export function ChainSelector({
           customization={customization?.triggerButton}
         />
 
-        <Dialog open={isChainsListOpenMobile} onOpenChange={setIsChainsListOpenMobile}>
-          <DialogContent className={dialogContentClasses} aria-describedby="chain-selector-description">
+        <Dialog open={isChainsListOpenMobile} onOpenChange={handleMobileOpenChange}>
+          <DialogContent
+            modalId="nova-chain-selector"
+            className={dialogContentClasses}
+            aria-describedby="chain-selector-description"
+          >
             <div className={dialogInnerContainerClasses}>
               <DialogHeader
                 title={labels.switchNetworks}
@@ -804,12 +1064,15 @@ export function ChainSelector({
                 {labels.selectChain}
               </div>
 
+              {renderSearchInput(true)}
+
               <ScrollableChainList
-                chainsList={chainsList}
+                {...listProps}
+                listId={listId}
                 selectValue={selectValue}
                 handleValueChange={handleChainChange}
                 getChainData={getChainData}
-                onClose={() => setIsChainsListOpenMobile(false)}
+                onClose={() => handleMobileOpenChange(false)}
                 customization={customization?.scrollableChainList}
               />
             </div>
@@ -17,7 +17,7 @@ import React, { type ComponentType, ReactNode, useCallback, useEffect, useRef, u
 import { useNovaConnectLabels } from '../../hooks';
 import { ToBottomButton, ToBottomButtonCustomization } from '../ToBottomButton';
 import { ToTopButton, ToTopButtonCustomization } from '../ToTopButton';
-import { ChainListRenderer, ChainListRendererCustomization } from './ChainListRenderer';
+import { ChainListGroup, ChainListRenderer, ChainListRendererCustomization } from './ChainListRenderer';
 
 // === TYPES AND INTERFACES ===
 
@@ -177,6 +177,16 @@ export interface ScrollableChainListProps {
   isLoading?: boolean;
   /** Error state */
   error?: string | null;
+  /** Sections of the list, see {@link ChainListRenderer} */
+  groups?: ChainListGroup[];
+  /** Formatted IDs of the pinned chains */
+  pinnedChains?: string[];
+  /** Pins or unpins a chain. Pin buttons are shown only when provided. */
+  onTogglePin?: (chainId: string) => void;
+  /** Message of the empty state */
+  emptyMessage?: string;
+  /** ID of the list element */
+  listId?: string;
 }
 
 // === DEFAULT COMPONENTS ===
@@ -242,6 +252,11 @@ export const ScrollableChainList: React.FC<ScrollableChainListProps> = ({
   'aria-label': ariaLabel,
   isLoading = false,
   error = null,
+  groups,
+  pinnedChains,
+  onTogglePin,
+  emptyMessage,
+  listId,
 }) => {
   const labels = useNovaConnectLabels();
   const containerRef = useRef<HTMLDivElement>(null);
@@ -355,7 +370,7 @@ export const ScrollableChainList: React.FC<ScrollableChainListProps> = ({
       resizeObserver.disconnect();
       clearTimeout(scrollTimeout);
     };
-  }, [chainsList, updateScrollButtons]);
+  }, [chainsList, groups, updateScrollButtons]);
 
   // Scroll to extreme positions
   const scrollToExtreme = useCallback(
@@ -526,6 +541,11 @@ export const ScrollableChainList: React.FC<ScrollableChainListProps> = ({
           isMobile={true}
           isLoading={isLoading}
           error={error}
+          groups={groups}
+          pinnedChains={pinnedChains}
+          onTogglePin={onTogglePin}
+          emptyMessage={emptyMessage}
+          id={listId}
           customization={customization?.chainListRenderer}
         />
       </ScrollContainer>
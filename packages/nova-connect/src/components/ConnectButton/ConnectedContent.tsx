@@ -17,6 +17,7 @@ import React, {
 import {
   ButtonTxStatus,
   NovaConnectProviderProps,
+  useFiatValue,
   useGetWalletNameAndAvatar,
   useNovaConnect,
   useNovaConnectLabels,
@@ -35,6 +36,8 @@ type StatusDisplayData = {
 
 type CustomBalanceContainerProps = {
   formattedBalance: string;
+  /** Approximate fiat value of the balance (e.g., "$1,234.56"), when a price provider is configured */
+  fiatValue?: string;
   labels: Record<string, string>;
   className?: string;
   'aria-label'?: string;
@@ -128,7 +131,13 @@ export interface ConnectedContentProps extends Pick<NovaConnectProviderProps, 't
 }
 
 // --- Default Sub-Components ---
-const DefaultBalanceContainer = ({ formattedBalance, labels, className, ...props }: CustomBalanceContainerProps) => {
+const DefaultBalanceContainer = ({
+  formattedBalance,
+  fiatValue,
+  labels,
+  className,
+  ...props
+}: CustomBalanceContainerProps) => {
   return (
     <div
       className={cn(
@@ -136,12 +145,17 @@ const DefaultBalanceContainer = ({ formattedBalance, labels, className, ...props
         className,
       )}
       role="text"
-      aria-label={`${labels.walletBalance}: ${formattedBalance}`}
+      aria-label={`${labels.walletBalance}: ${formattedBalance}${fiatValue ? `, ${labels.approximateValue}: ${fiatValue}` : ''}`}
       {...props}
     >
       <span className="novacon:font-semibold novacon:mr-1" aria-hidden="true">
         {formattedBalance}
       </span>
+      {fiatValue && (
+        <span className="novacon:text-sm novacon:text-[var(--tuwa-text-tertiary)]" aria-hidden="true">
+          ≈ {fiatValue}
+        </span>
+      )}
     </div>
   );
 };
@@ -283,12 +297,14 @@ export const ConnectedContent = forwardRef<HTMLDivElement, ConnectedContentProps
     });
 
     const { balance } = useWalletNativeBalance();
+    const { fiatValue } = useFiatValue(balance);
 
     const formattedBalance = balance?.value ? parseFloat(balance.value).toFixed(3) : '0.000';
 
     const prevTxPoolRef = useRef<Transaction[]>(
       Object.values(transactionPool ?? {}).filter(
-        (tx) => tx?.from && activeConnection?.address && tx.from.toLowerCase() === activeConnection.address.toLowerCase(),
+        (tx) =>
+          tx?.from && activeConnection?.address && tx.from.toLowerCase() === activeConnection.address.toLowerCase(),
       ),
     );
 
@@ -325,7 +341,8 @@ export const ConnectedContent = forwardRef<HTMLDivElement, ConnectedContentProps
 
       const currentPool =
         Object.values(transactionPool ?? {}).filter(
-          (tx) => tx?.from && activeConnection?.address && tx.from.toLowerCase() === activeConnection.address.toLowerCase(),
+          (tx) =>
+            tx?.from && activeConnection?.address && tx.from.toLowerCase() === activeConnection.address.toLowerCase(),
         ) || [];
 
       const prevPool = prevTxPoolRef.current || [];
@@ -524,6 +541,7 @@ export const ConnectedContent = forwardRef<HTMLDivElement, ConnectedContentProps
           <div className="novacon:relative novacon:hidden novacon:sm:block" onClick={handleBalanceClick}>
             <BalanceContainer
               formattedBalance={formattedBalance}
+              fiatValue={fiatValue}
               labels={labels}
               className={customization?.classNames?.balanceContainer?.({ formattedBalance })}
             />
@@ -126,6 +126,8 @@ type CardContainerProps = {
   onClick?: () => void;
   'aria-label'?: string;
   'aria-describedby'?: string;
+  /** Marks the card as a target of the wallet list arrow-key navigation */
+  'data-nova-connector-card'?: boolean;
   cardData: ConnectCardData;
 } & React.RefAttributes<HTMLButtonElement>;
 
@@ -743,6 +745,7 @@ export const ConnectCard = memo(
           onClick={handleClick}
           aria-label={cardAriaLabel}
           aria-describedby={subtitle ? `${title}-subtitle` : undefined}
+          data-nova-connector-card
           cardData={cardData}
         >
           <CustomContent
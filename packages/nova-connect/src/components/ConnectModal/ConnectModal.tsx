@@ -7,36 +7,16 @@ import {
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogVariant,
   standardButtonClasses,
 } from '@tuwaio/nova-core';
-import {
-  ConnectorType,
-  delay,
-  formatConnectorName,
-  getConnectorTypeFromName,
-  getNetworkData,
-  impersonatedHelpers,
-  isAddress,
-  OrbitAdapter,
-  TuwaErrorState,
-  waitFor,
-} from '@tuwaio/orbit-core';
+import { getNetworkData, OrbitAdapter, TuwaErrorState } from '@tuwaio/orbit-core';
 import { motion } from 'framer-motion';
-import React, {
-  ComponentPropsWithoutRef,
-  ComponentType,
-  forwardRef,
-  memo,
-  useCallback,
-  useContext,
-  useEffect,
-  useMemo,
-} from 'react';
+import React, { ComponentPropsWithoutRef, ComponentType, forwardRef, memo, useCallback, useMemo } from 'react';
 
-import { ConnectContentType, useNovaConnect, useNovaConnectLabels } from '../../hooks';
-import { Connector, SatelliteStoreContext, useSatelliteConnectStore } from '../../satellite';
+import { ConnectContentType, useConnectFlow, useNovaConnectLabels } from '../../hooks';
+import { Connector } from '../../satellite';
 import { InitialChains } from '../../types';
-import { getConnectChainId, getFilteredConnectors } from '../../utils';
 import { AboutWallets, AboutWalletsCustomization } from './AboutWallets';
 import { Connecting, ConnectingCustomization } from './Connecting';
 import { ConnectorsSelections, ConnectorsSelectionsCustomization } from './ConnectorsSelections';
@@ -274,6 +254,8 @@ export type ConnectModalCustomization = {
       /** Disable animations */
       disabled?: boolean;
     };
+    /** Dialog layout on touch devices (e.g. `'sheet'`). Defaults to the regular modal */
+    mobileVariant?: DialogVariant;
   };
   /** Child component customizations */
   childComponents?: {
@@ -296,39 +278,6 @@ export type ConnectModalCustomization = {
   };
 };
 
-/**
- * Helper function to safely get connector name from array
- */
-function getConnectorName(
-  connectors: Connector[] | undefined,
-  activeConnector: string | undefined,
-): string | undefined {
-  if (!connectors || !Array.isArray(connectors) || !activeConnector) {
-    return undefined;
-  }
-
-  // Use a more direct approach with explicit type casting
-  const connector = connectors.find((c) => {
-    // Safely check if c is a valid object with a name property
-    if (c && typeof c === 'object' && 'name' in c && typeof (c as any).name === 'string') {
-      return formatConnectorName((c as { name: string }).name) === activeConnector;
-    }
-    return false;
-  });
-
-  // Safely access the name property with type checking
-  if (
-    connector &&
-    typeof connector === 'object' &&
-    'name' in connector &&
-    typeof (connector as any).name === 'string'
-  ) {
-    return (connector as { name: string }).name;
-  }
-
-  return undefined;
-}
-
 // --- Default Sub-Components ---
 const DefaultModalContainer = forwardRef<HTMLDivElement, ModalContainerProps>(
   // eslint-disable-next-line
@@ -560,33 +509,33 @@ export interface ConnectModalProps extends InitialChains {
  * @public
  */
 export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls, customization = {} }) => {
+  const flow = useConnectFlow({ appChains, solanaRPCUrls });
   const {
-    isConnectModalOpen,
-    setIsConnectModalOpen,
-    setConnectModalContentType,
-    setActiveConnector,
-    setImpersonatedAddress,
-    setIsConnected,
-    connectModalContentType,
+    isOpen: isConnectModalOpen,
+    contentType: connectModalContentType,
     selectedAdapter,
-    setSelectedAdapter,
-    isConnected,
     activeConnector,
+    activeConnectorName,
     impersonatedAddress,
-  } = useNovaConnect();
-
-  const connectionError = useSatelliteConnectStore((store) => store.connectionError);
-  const getConnectors = useSatelliteConnectStore((store) => store.getConnectors);
-  const connect = useSatelliteConnectStore((store) => store.connect);
-  const activeConnection = useSatelliteConnectStore((store) => store.activeConnection);
+    isConnected,
+    error: connectionError,
+    connectors,
+    filteredConnectors,
+    canRetry,
+    setOpen,
+    back,
+    goTo,
+    selectAdapter,
+    selectConnector,
+    selectNetwork,
+    retry,
+    reconnect,
+    setImpersonatedAddress,
+    connectImpersonated,
+    setIsConnected,
+  } = flow;
 
   const labels = useNovaConnectLabels();
-  const store = useContext(SatelliteStoreContext);
-
-  // Memoize connectors to avoid recalculation on every render
-  const connectors = isConnectModalOpen ? getConnectors() : undefined;
-
-  const filteredConnectors = getFilteredConnectors({ connectors: connectors!, selectedAdapter });
 
   // Memoize modal data for customization context
   const modalData = useMemo<ConnectModalData>(
@@ -616,18 +565,6 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
     ],
   );
 
-  // Reset modal state when opened
-  useEffect(() => {
-    if (isConnectModalOpen) {
-      setConnectModalContentType('connectors');
-      setSelectedAdapter(undefined);
-      setActiveConnector(undefined);
-      setImpersonatedAddress('');
-      setIsConnected(false);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isConnectModalOpen]);
-
   // Extract customization options
   const { components = {}, classNames = {}, handlers = {}, config = {}, childComponents = {} } = customization;
 
@@ -657,27 +594,13 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
       case 'getWallet':
         return labels.getWallet;
       case 'connecting':
-        if (selectedAdapter && activeConnector && connectors) {
-          const connectorName = getConnectorName(connectors[selectedAdapter], activeConnector);
-          return connectorName || labels.connectingEllipsis;
-        }
-        return labels.connectingEllipsis;
+        return activeConnectorName || labels.connectingEllipsis;
       case 'impersonate':
         return labels.connectImpersonatedWallet;
       default:
         return labels.connectWallet;
     }
-  }, [connectModalContentType, selectedAdapter, activeConnector, connectors, labels]);
-
-  /**
-   * Determines the content type to navigate back to
-   */
-  const goBackContentType = useCallback((): ConnectContentType => {
-    switch (connectModalContentType) {
-      default:
-        return 'connectors';
-    }
-  }, [connectModalContentType]);
+  }, [connectModalContentType, activeConnectorName, labels]);
 
   /**
    * Handle modal open/close with custom handler
@@ -687,26 +610,24 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
       if (handlers?.onOpenChange) {
         handlers.onOpenChange(open, modalData);
       } else {
-        setIsConnectModalOpen(open);
+        setOpen(open);
       }
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [handlers?.onOpenChange, modalData, setIsConnectModalOpen],
+    [handlers?.onOpenChange, modalData, setOpen],
   );
 
   /**
    * Handle back navigation with custom handler
    */
   const handleBack = useCallback(() => {
-    const originalHandler = () => setConnectModalContentType(goBackContentType());
-
     if (handlers?.onBack) {
-      handlers.onBack(modalData, originalHandler);
+      handlers.onBack(modalData, back);
     } else {
-      originalHandler();
+      back();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [handlers?.onBack, modalData, setConnectModalContentType, goBackContentType]);
+  }, [handlers?.onBack, modalData, back]);
 
   /**
    * Handle info button click
@@ -715,74 +636,10 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
     if (handlers?.onInfoClick) {
       handlers.onInfoClick(modalData);
     } else {
-      setConnectModalContentType('about');
+      goTo('about');
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [handlers?.onInfoClick, modalData, setConnectModalContentType]);
-
-  /**
-   * Generic connection handler
-   */
-  const handleConnect = useCallback(
-    async (connectorType: ConnectorType, adapter: OrbitAdapter) => {
-      await connect({
-        connectorType,
-        chainId: getConnectChainId({ appChains, selectedAdapter: adapter, solanaRPCUrls }),
-      });
-
-      try {
-        await waitFor(() => store?.getState().activeConnection?.isConnected);
-        setIsConnected(true);
-        const modalCloseTime = setTimeout(() => setIsConnectModalOpen(false), 400);
-        const isConnectedTimer = setTimeout(() => setIsConnected(false), 500);
-        await delay(null, 500);
-        clearTimeout(modalCloseTime);
-        clearTimeout(isConnectedTimer);
-      } catch (error) {
-        console.error(error);
-      }
-    },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [connect, appChains, selectedAdapter, solanaRPCUrls],
-  );
-
-  /**
-   * Handle network selection click
-   */
-  const handleNetworkClick = useCallback(
-    async (adapter: OrbitAdapter, connectorType: ConnectorType) => {
-      setSelectedAdapter(adapter);
-      setConnectModalContentType('connecting');
-      await handleConnect(connectorType, adapter);
-    },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [handleConnect],
-  );
-
-  /**
-   * Handle connector selection click
-   */
-  const handleConnectorClick = useCallback(
-    (connector: GroupedConnector) => {
-      setActiveConnector(formatConnectorName(connector.name));
-      if (connector.adapters.length === 1) {
-        setSelectedAdapter(connector.adapters[0]);
-        setConnectModalContentType(
-          formatConnectorName(connector.name) === 'impersonatedwallet' ? 'impersonate' : 'connecting',
-        );
-      } else if (selectedAdapter) {
-        setConnectModalContentType(
-          formatConnectorName(connector.name) === 'impersonatedwallet' ? 'impersonate' : 'connecting',
-        );
-      } else if (formatConnectorName(connector.name) === 'impersonatedwallet') {
-        setConnectModalContentType('impersonate');
-      } else {
-        setConnectModalContentType('network');
-      }
-    },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [selectedAdapter],
-  );
+  }, [handlers?.onInfoClick, modalData, goTo]);
 
   /**
    * Renders the main content based on current modal state
@@ -794,7 +651,7 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
           <NetworkSelections
             activeConnector={activeConnector}
             connectors={filteredConnectors}
-            onClick={handleNetworkClick}
+            onClick={selectNetwork}
             customization={childComponents.networkSelections}
           />
         );
@@ -804,7 +661,7 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
             <NetworkTabs
               networks={Object.keys(connectors) as OrbitAdapter[]}
               selectedAdapter={selectedAdapter}
-              onSelect={(adapter) => setSelectedAdapter(adapter)}
+              onSelect={(adapter) => selectAdapter(adapter)}
               customization={childComponents.networkTabs}
             />
 
@@ -812,12 +669,12 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
               isOnlyOneNetwork={Object.keys(connectors).length === 1}
               connectors={filteredConnectors}
               selectedAdapter={selectedAdapter}
-              onClick={handleConnectorClick}
-              setContentType={setConnectModalContentType}
+              onClick={selectConnector}
+              setContentType={goTo}
               appChains={appChains}
               solanaRPCUrls={solanaRPCUrls}
               setIsConnected={setIsConnected}
-              setIsOpen={setIsConnectModalOpen}
+              setIsOpen={setOpen}
               customization={childComponents.connectorsSelections}
             />
 
@@ -839,6 +696,7 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
             connectors={filteredConnectors}
             activeConnector={activeConnector}
             isConnected={isConnected}
+            onRefreshUri={reconnect}
             customization={childComponents.connecting}
           />
         );
@@ -848,6 +706,7 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
             selectedAdapter={selectedAdapter}
             impersonatedAddress={impersonatedAddress}
             setImpersonatedAddress={setImpersonatedAddress}
+            onImpersonateAddress={connectImpersonated}
             customization={childComponents.impersonateForm}
           />
         );
@@ -857,13 +716,20 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
     connectModalContentType,
     activeConnector,
     filteredConnectors,
-    handleNetworkClick,
     childComponents,
     connectors,
     selectedAdapter,
-    handleConnectorClick,
     isConnected,
     impersonatedAddress,
+    selectNetwork,
+    selectAdapter,
+    selectConnector,
+    goTo,
+    setIsConnected,
+    setOpen,
+    reconnect,
+    setImpersonatedAddress,
+    connectImpersonated,
   ]);
 
   /**
@@ -878,7 +744,7 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
             if (handlers.onActionClick?.connectors) {
               handlers.onActionClick.connectors(modalData);
             } else {
-              setConnectModalContentType('getWallet');
+              goTo('getWallet');
             }
           },
         };
@@ -919,36 +785,24 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
             if (handlers.onActionClick?.impersonate) {
               await handlers.onActionClick.impersonate(modalData);
             } else {
-              const trimmedAddress = impersonatedAddress.trim();
-              if (connectionError || !trimmedAddress || !isAddress(trimmedAddress) || !!activeConnection?.isConnected)
-                return;
-              impersonatedHelpers.setImpersonated(trimmedAddress);
-              setConnectModalContentType('connecting');
-              await handleConnect(
-                getConnectorTypeFromName(selectedAdapter ?? OrbitAdapter.EVM, activeConnector ?? '') as ConnectorType,
-                selectedAdapter ?? OrbitAdapter.EVM,
-              );
+              await connectImpersonated();
             }
           },
         };
       case 'connecting':
-        return connectionError && selectedAdapter && activeConnector
+        return canRetry
           ? {
               title: labels.tryAgain,
               onClick: async () => {
                 if (handlers.onActionClick?.connecting) {
                   await handlers.onActionClick.connecting(modalData);
                 } else {
-                  await handleConnect(
-                    getConnectorTypeFromName(selectedAdapter, activeConnector) as ConnectorType,
-                    selectedAdapter,
-                  );
+                  await retry();
                 }
               },
             }
           : undefined;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     connectModalContentType,
     labels,
@@ -956,10 +810,10 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
     modalData,
     selectedAdapter,
     connectors,
-    impersonatedAddress,
-    connectionError,
-    handleConnect,
-    activeConnector,
+    canRetry,
+    goTo,
+    connectImpersonated,
+    retry,
   ]);
 
   const bottomButtonConfig = getBottomButtonConfig();
@@ -984,7 +838,11 @@ export const ConnectModal = memo<ConnectModalProps>(({ appChains, solanaRPCUrls,
 
   return (
     <CustomDialog open={isConnectModalOpen} onOpenChange={handleOpenChange}>
-      <CustomDialogContent className={cn('novacon:w-full novacon:sm:max-w-md')}>
+      <CustomDialogContent
+        modalId="nova-connect-modal"
+        mobileVariant={config.mobileVariant}
+        className={cn('novacon:w-full novacon:sm:max-w-md')}
+      >
         <CustomMotionDiv
           layout
           transition={{
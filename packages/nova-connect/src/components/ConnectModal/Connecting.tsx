@@ -7,10 +7,11 @@ import { cn } from '@tuwaio/nova-core';
 import { formatConnectorName, OrbitAdapter } from '@tuwaio/orbit-core';
 import React, { ComponentType, forwardRef, memo, useEffect, useRef } from 'react';
 
-import { useNovaConnectLabels } from '../../hooks';
+import { useConnectorDisplayUri, useNovaConnectLabels } from '../../hooks';
 import { useSatelliteConnectStore } from '../../satellite';
 import { WalletIcon, WalletIconCustomization } from '../WalletIcon';
 import { GroupedConnector } from './ConnectModal';
+import { WalletConnectQrCode, WalletConnectQrCodeCustomization } from './WalletConnectQrCode';
 
 // --- Types ---
 
@@ -39,6 +40,8 @@ export interface ConnectingStatusData {
   showDetailedError: boolean;
   /** Raw error object */
   rawError: unknown;
+  /** WalletConnect display URI emitted by the connector, if any */
+  displayUri: string | undefined;
 }
 
 // --- Component Props Types ---
@@ -203,6 +206,8 @@ export type ConnectingCustomization = {
   };
   /** WalletIcon customization (for the wallet icon shown during connection) */
   walletIcon?: WalletIconCustomization;
+  /** WalletConnect QR code panel customization (shown instead of the status circle while a display URI is available) */
+  qrCode?: WalletConnectQrCodeCustomization;
 };
 
 /**
@@ -223,6 +228,8 @@ export interface ConnectingProps {
   showDetailedError?: boolean;
   /** Custom CSS classes for styling the container */
   className?: string;
+  /** Restarts the connection, used to refresh an expired WalletConnect URI */
+  onRefreshUri?: () => void | Promise<void>;
   /** Customization options */
   customization?: ConnectingCustomization;
 }
@@ -355,6 +362,9 @@ DefaultLoadingPlaceholder.displayName = 'DefaultLoadingPlaceholder';
  * - Visual status indicators with semantic colors and icons
  * - Screen reader announcements for state changes
  *
+ * While a WalletConnect connector is connecting, its display URI is shown as a QR code
+ * (or as deep links on touch devices) instead of the status circle.
+ *
  * The component automatically detects connection state and displays appropriate
  * visual feedback with proper semantic markup for accessibility tools.
  *
@@ -364,6 +374,7 @@ DefaultLoadingPlaceholder.displayName = 'DefaultLoadingPlaceholder';
  * @param isConnected - Boolean flag indicating successful connection
  * @param customErrorMessage - Optional custom error message override
  * @param showDetailedError - Flag to show detailed error information
+ * @param onRefreshUri - Restarts the connection when the WalletConnect URI expires
  * @returns JSX element displaying connection status with visual feedback
  *
  * @example
@@ -413,6 +424,7 @@ export const Connecting = memo(
         customErrorMessage,
         showDetailedError = false,
         className,
+        onRefreshUri,
         customization,
       },
       ref,
@@ -463,6 +475,18 @@ export const Connecting = memo(
           ) || null
         : null;
 
+      /**
+       * Connector instance of the selected adapter, used to listen for a WalletConnect display URI
+       */
+      const connectorInstance =
+        currentConnector?.connectors.find((connector) => connector.adapter === selectedAdapter) ??
+        currentConnector?.connectors[0];
+      const displayUri = useConnectorDisplayUri(
+        customization?.qrCode?.config?.disabled ? undefined : connectorInstance,
+        currentConnector && selectedAdapter ? `${selectedAdapter}:${currentConnector.name}` : undefined,
+        customization?.qrCode?.config?.subscribeToUri,
+      );
+
       /**
        * Determine current connection state
        */
@@ -510,6 +534,7 @@ export const Connecting = memo(
         currentConnector,
         showDetailedError,
         rawError: connectionError,
+        displayUri,
       };
 
       /**
@@ -647,68 +672,79 @@ export const Connecting = memo(
           statusData={statusData}
           data-connecting-component="true"
         >
-          {/* Connection Status Container */}
-          <CustomStatusContainer className={statusContainerClasses} statusData={statusData}>
-            {/* Loading Spinner for Connecting State */}
-            {connectionState === 'connecting' && (
-              <CustomSpinner
+          {/* WalletConnect QR Code */}
+          {connectionState === 'connecting' && displayUri ? (
+            <WalletConnectQrCode
+              uri={displayUri}
+              walletIcon={currentConnector.icon}
+              walletName={activeConnector}
+              onRefresh={onRefreshUri}
+              customization={customization?.qrCode}
+            />
+          ) : (
+            /* Connection Status Container */
+            <CustomStatusContainer className={statusContainerClasses} statusData={statusData}>
+              {/* Loading Spinner for Connecting State */}
+              {connectionState === 'connecting' && (
+                <CustomSpinner
+                  className={
+                    customization?.classNames?.spinner?.({ statusData }) ??
+                    cn(
+                      'novacon:absolute novacon:animate-spin novacon:rounded-full novacon:-inset-[2px]',
+                      'novacon:w-[calc(100%_+_4px)] novacon:h-[calc(100%_+_4px)]',
+                      'novacon:border-2 novacon:border-[var(--tuwa-pending-text)]',
+                      'novacon:border-t-transparent',
+                    )
+                  }
+                  role="progressbar"
+                  aria-label={customConfig?.ariaLabels?.spinner ?? labels.connecting}
+                  aria-describedby="connecting-message"
+                  statusData={statusData}
+                />
+              )}
+
+              {/* Success/Error Icons */}
+              {(connectionState === 'success' || connectionState === 'error') && (
+                <CustomStatusIcon
+                  className={
+                    customization?.classNames?.statusIcon?.({ statusData }) ??
+                    cn(
+                      'novacon:absolute novacon:-top-2 novacon:-right-2 novacon:w-8 novacon:h-8 novacon:rounded-full novacon:flex novacon:items-center novacon:justify-center novacon:bg-[var(--tuwa-error-text)]',
+                      {
+                        'novacon:bg-[var(--tuwa-success-text)]': connectionState === 'success',
+                      },
+                    )
+                  }
+                  role="img"
+                  aria-label={
+                    connectionState === 'success'
+                      ? (customConfig?.ariaLabels?.successIcon ?? labels.successIcon)
+                      : (customConfig?.ariaLabels?.errorIcon ?? labels.errorIcon)
+                  }
+                  statusData={statusData}
+                />
+              )}
+
+              {/* Wallet Icon */}
+              <CustomWalletIconContainer
                 className={
-                  customization?.classNames?.spinner?.({ statusData }) ??
+                  customization?.classNames?.walletIconContainer?.({ statusData }) ??
                   cn(
-                    'novacon:absolute novacon:animate-spin novacon:rounded-full novacon:-inset-[2px]',
-                    'novacon:w-[calc(100%_+_4px)] novacon:h-[calc(100%_+_4px)]',
-                    'novacon:border-2 novacon:border-[var(--tuwa-pending-text)]',
-                    'novacon:border-t-transparent',
+                    'novacon:[&_svg]:w-[100px]! novacon:[&_svg]:h-[auto]! novacon:md:[&_svg]:w-[80px]! novacon:[&_img]:w-[100px]! novacon:[&_img]:h-[auto]! novacon:md:[&_img]:w-[80px]! novacon:leading-[0]',
                   )
                 }
-                role="progressbar"
-                aria-label={customConfig?.ariaLabels?.spinner ?? labels.connecting}
-                aria-describedby="connecting-message"
                 statusData={statusData}
-              />
-            )}
-
-            {/* Success/Error Icons */}
-            {(connectionState === 'success' || connectionState === 'error') && (
-              <CustomStatusIcon
-                className={
-                  customization?.classNames?.statusIcon?.({ statusData }) ??
-                  cn(
-                    'novacon:absolute novacon:-top-2 novacon:-right-2 novacon:w-8 novacon:h-8 novacon:rounded-full novacon:flex novacon:items-center novacon:justify-center novacon:bg-[var(--tuwa-error-text)]',
-                    {
-                      'novacon:bg-[var(--tuwa-success-text)]': connectionState === 'success',
-                    },
-                  )
-                }
-                role="img"
-                aria-label={
-                  connectionState === 'success'
-                    ? (customConfig?.ariaLabels?.successIcon ?? labels.successIcon)
-                    : (customConfig?.ariaLabels?.errorIcon ?? labels.errorIcon)
-                }
-                statusData={statusData}
-              />
-            )}
-
-            {/* Wallet Icon */}
-            <CustomWalletIconContainer
-              className={
-                customization?.classNames?.walletIconContainer?.({ statusData }) ??
-                cn(
-                  'novacon:[&_svg]:w-[100px]! novacon:[&_svg]:h-[auto]! novacon:md:[&_svg]:w-[80px]! novacon:[&_img]:w-[100px]! novacon:[&_img]:h-[auto]! novacon:md:[&_img]:w-[80px]! novacon:leading-[0]',
-                )
-              }
-              statusData={statusData}
-            >
-              <WalletIcon
-                icon={currentConnector.icon}
-                name={activeConnector}
-                altText={`${activeConnector} ${labels.walletIcon}`}
-                showLoading={connectionState === 'connecting'}
-                customization={customization?.walletIcon}
-              />
-            </CustomWalletIconContainer>
-          </CustomStatusContainer>
+              >
+                <WalletIcon
+                  icon={currentConnector.icon}
+                  name={activeConnector}
+                  altText={`${activeConnector} ${labels.walletIcon}`}
+                  showLoading={connectionState === 'connecting'}
+                  customization={customization?.walletIcon}
+                />
+              </CustomWalletIconContainer>
+            </CustomStatusContainer>
+          )}
 
           {/* Status Message */}
           <CustomMessageContainer
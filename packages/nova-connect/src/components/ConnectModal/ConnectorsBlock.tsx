@@ -15,7 +15,9 @@ import {
 } from '@tuwaio/orbit-core';
 import React, { ComponentType, forwardRef, memo, useCallback, useContext, useMemo, useRef } from 'react';
 
+import { useConnectorHistory } from '../../hooks';
 import { SatelliteStoreContext, useSatelliteConnectStore } from '../../satellite';
+import { ConnectorHistoryEntry } from '../../utils/connectorHistory';
 import { getConnectChainId } from '../../utils/getConnectedChainId';
 import { WalletIcon, WalletIconCustomization } from '../WalletIcon';
 import { ConnectCard, ConnectCardCustomization } from './ConnectCard';
@@ -44,6 +46,8 @@ export interface ConnectorsBlockData {
   hasConnectors: boolean;
   /** Recent wallets data */
   recentWallets: [string, RecentlyConnectedConnectorData][] | null;
+  /** Connector history entries, most recently used first */
+  historyEntries: ConnectorHistoryEntry[];
   /** Section ID for accessibility */
   sectionId: string;
 }
@@ -404,6 +408,20 @@ export const ConnectorsBlock = memo(
         return top3Recent;
       }, []);
 
+      const { entries: historyEntries } = useConnectorHistory();
+
+      /**
+       * Connector types marked as recent: the top 3 of the connector history,
+       * falling back to the recently connected wallets tracked by the satellite store
+       */
+      const recentConnectorTypes = useMemo(
+        () =>
+          historyEntries.length
+            ? historyEntries.slice(0, 3).map((entry) => entry.connectorType)
+            : (recentWallets ?? []).map(([recentType]) => recentType),
+        [historyEntries, recentWallets],
+      );
+
       /**
        * Memoized section ID
        */
@@ -418,6 +436,7 @@ export const ConnectorsBlock = memo(
         isTouch,
         hasConnectors: Boolean(connectors?.length),
         recentWallets,
+        historyEntries,
         sectionId,
       };
 
@@ -444,12 +463,11 @@ export const ConnectorsBlock = memo(
             const name = formatConnectorName(group.name);
 
             let isRecent = false;
-            if (customConfig?.features?.showRecentIndicators !== false && recentWallets && recentWallets.length > 0) {
+            if (customConfig?.features?.showRecentIndicators !== false && recentConnectorTypes.length > 0) {
               // Check if any adapter in the group matches a recent connector
-              isRecent = group.adapters.some((adapter) => {
-                const typeToCheck = getConnectorTypeFromName(adapter, name);
-                return recentWallets.some(([recentType]) => recentType === typeToCheck);
-              });
+              isRecent = group.adapters.some((adapter) =>
+                recentConnectorTypes.includes(getConnectorTypeFromName(adapter, name)),
+              );
             }
 
             return {
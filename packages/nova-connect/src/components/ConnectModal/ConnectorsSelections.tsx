@@ -2,13 +2,24 @@
  * @file ConnectorsSelections component with comprehensive customization options and categorized connector display.
  */
 
-import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
-import { cn, isTouchDevice } from '@tuwaio/nova-core';
+import { ExclamationTriangleIcon, MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { cn, fuzzyFilter, isTouchDevice } from '@tuwaio/nova-core';
 import { detectSafeApp, formatConnectorName, OrbitAdapter } from '@tuwaio/orbit-core';
-import React, { ComponentType, forwardRef, memo, useCallback, useEffect, useMemo, useState } from 'react';
-
-import { ConnectContentType, useNovaConnect, useNovaConnectLabels } from '../../hooks';
+import React, {
+  ComponentType,
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { ConnectContentType, useConnectorHistory, useNovaConnect, useNovaConnectLabels } from '../../hooks';
 import { InitialChains } from '../../types';
+import { getRecentConnectors, sortConnectorsByHistory } from '../../utils/connectorHistory';
 import { WalletIcon } from '../WalletIcon';
 import { ConnectCard, ConnectCardCustomization } from './ConnectCard';
 import { GroupedConnector } from './ConnectModal';
@@ -25,6 +36,10 @@ export interface ConnectorsSelectionsData {
   selectedAdapter: OrbitAdapter | undefined;
   /** All available connectors */
   connectors: GroupedConnector[];
+  /** Current search query */
+  searchQuery: string;
+  /** Connectors matching the search query, best match first (all connectors when the query is empty) */
+  searchResults: GroupedConnector[];
   /** Whether only one network is available */
   isOnlyOneNetwork: boolean;
   /** Whether device is touch-enabled */
@@ -35,6 +50,7 @@ export interface ConnectorsSelectionsData {
   showImpersonated: boolean;
   /** Filtered connector groups */
   connectorGroups: {
+    recent: GroupedConnector[];
     installed: GroupedConnector[];
     popular: GroupedConnector[];
     impersonated?: GroupedConnector;
@@ -64,6 +80,7 @@ type ContainerProps = {
   children: React.ReactNode;
   role?: string;
   'aria-label'?: string;
+  onKeyDown?: React.KeyboardEventHandler<HTMLDivElement>;
   selectionsData: ConnectorsSelectionsData;
 } & React.RefAttributes<HTMLDivElement>;
 
@@ -76,11 +93,22 @@ type ContentWrapperProps = {
 type ConnectorsAreaProps = {
   className?: string;
   children: React.ReactNode;
+  id?: string;
   role?: string;
   'aria-label'?: string;
   selectionsData: ConnectorsSelectionsData;
 } & React.RefAttributes<HTMLDivElement>;
 
+type SearchInputProps = {
+  className?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  'aria-label'?: string;
+  'aria-controls'?: string;
+  selectionsData: ConnectorsSelectionsData;
+} & React.RefAttributes<HTMLInputElement>;
+
 type ImpersonateSectionProps = {
   className?: string;
   children: React.ReactNode;
@@ -124,6 +152,8 @@ export type ConnectorsSelectionsCustomization = {
     ContentWrapper?: ComponentType<ContentWrapperProps>;
     /** Custom connectors area wrapper */
     ConnectorsArea?: ComponentType<ConnectorsAreaProps>;
+    /** Custom search field */
+    SearchInput?: ComponentType<SearchInputProps>;
     /** Custom impersonate section */
     ImpersonateSection?: ComponentType<ImpersonateSectionProps>;
     /** Custom impersonate title */
@@ -141,6 +171,8 @@ export type ConnectorsSelectionsCustomization = {
     contentWrapper?: (params: { selectionsData: ConnectorsSelectionsData }) => string;
     /** Function to generate connectors area classes */
     connectorsArea?: (params: { selectionsData: ConnectorsSelectionsData }) => string;
+    /** Function to generate search field classes */
+    searchInput?: (params: { selectionsData: ConnectorsSelectionsData }) => string;
     /** Function to generate impersonate section classes */
     impersonateSection?: (params: {
       impersonateData: ImpersonateSectionData;
@@ -166,6 +198,8 @@ export type ConnectorsSelectionsCustomization = {
     ) => void;
     /** Custom empty state action handler */
     onEmptyStateAction?: (selectionsData: ConnectorsSelectionsData) => void;
+    /** Called when the search query changes */
+    onSearchChange?: (query: string, selectionsData: ConnectorsSelectionsData) => void;
     /** Custom disclaimer learn more action handler */
     onDisclaimerLearnMore?: (selectionsData: ConnectorsSelectionsData, originalHandler: () => void) => void;
   };
@@ -176,7 +210,10 @@ export type ConnectorsSelectionsCustomization = {
       container?: (selectionsData: ConnectorsSelectionsData) => string;
       connectorsArea?: (selectionsData: ConnectorsSelectionsData) => string;
       impersonateSection?: (impersonateData: ImpersonateSectionData) => string;
+      searchInput?: (selectionsData: ConnectorsSelectionsData) => string;
     };
+    /** Minimum number of connectors for the search field to be shown automatically (default: 6) */
+    searchThreshold?: number;
     /** Layout configuration */
     layout?: {
       /** Touch device classes for connectors area */
@@ -196,10 +233,14 @@ export type ConnectorsSelectionsCustomization = {
       showDisclaimer?: boolean;
       /** Whether to show impersonate section */
       showImpersonate?: boolean;
+      /** Whether to show the search field (default: when there are at least `searchThreshold` connectors) */
+      showSearch?: boolean;
     };
   };
   /** ConnectorsBlock customization for each connector block */
   connectorsBlock?: {
+    /** Customization for recent connectors block */
+    recent?: ConnectorsBlockCustomization;
     /** Customization for installed connectors block */
     installed?: ConnectorsBlockCustomization;
     /** Customization for popular connectors block */
@@ -271,6 +312,38 @@ const DefaultConnectorsArea = forwardRef<HTMLDivElement, ConnectorsAreaProps>(
 );
 DefaultConnectorsArea.displayName = 'DefaultConnectorsArea';
 
+const DefaultSearchInput = forwardRef<HTMLInputElement, SearchInputProps>(
+  ({ className, value, onChange, selectionsData, ...props }, ref) => (
+    <div className={className}>
+      <MagnifyingGlassIcon
+        className="novacon:pointer-events-none novacon:absolute novacon:left-3 novacon:top-1/2 novacon:-translate-y-1/2 novacon:h-4 novacon:w-4 novacon:text-[var(--tuwa-text-tertiary)]"
+        aria-hidden="true"
+      />
+      <input
+        ref={ref}
+        type="search"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        autoComplete="off"
+        spellCheck={false}
+        className="novacon:w-full novacon:rounded-[var(--tuwa-rounded-corners)] novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:bg-[var(--tuwa-bg-secondary)] novacon:py-2 novacon:pl-9 novacon:pr-9 novacon:text-sm novacon:text-[var(--tuwa-text-primary)] novacon:placeholder:text-[var(--tuwa-text-tertiary)] novacon:outline-none novacon:focus:border-[var(--tuwa-text-accent)] novacon:[&::-webkit-search-cancel-button]:appearance-none"
+        {...props}
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          aria-label={selectionsData.labels.clearSearch}
+          className="novacon:absolute novacon:right-2 novacon:top-1/2 novacon:-translate-y-1/2 novacon:cursor-pointer novacon:rounded-full novacon:p-1 novacon:text-[var(--tuwa-text-secondary)] novacon:hover:text-[var(--tuwa-text-primary)]"
+        >
+          <XMarkIcon className="novacon:h-4 novacon:w-4" aria-hidden="true" />
+        </button>
+      )}
+    </div>
+  ),
+);
+DefaultSearchInput.displayName = 'DefaultSearchInput';
+
 const DefaultImpersonateSection = forwardRef<HTMLDivElement, ImpersonateSectionProps>(
   ({ children, className, ...props }, ref) => {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -343,11 +416,13 @@ function createCustomSort<T>(items: T[], getKey: (item: T) => string, desiredOrd
  * - Responsive layout adapting to touch/mouse interfaces
  * - Safe App environment detection and filtering
  * - Empty state handling for missing connectors
+ * - Fuzzy search by wallet name and network, with arrow-key navigation across all groups
  * - Educational content integration for touch devices
  * - Full accessibility support with semantic structure
  * - Complete customization of all child components and styling
  *
  * Wallet categorization:
+ * - Recent: Last used wallets from the connector history, reconnecting on the network they were used on
  * - Installed: Detected browser extension wallets (excluding popular ones)
  * - Popular: Coinbase Wallet and WalletConnect for broader compatibility
  * - Impersonate: Development/testing wallet for address simulation
@@ -367,6 +442,11 @@ function createCustomSort<T>(items: T[], getKey: (item: T) => string, desiredOrd
  * - Proper error state accessibility
  * - Customizable empty state content and styling
  *
+ * Search and keyboard navigation:
+ * - The search field appears once there are `config.searchThreshold` (6) connectors, or via `features.showSearch`
+ * - `ArrowDown` in the search field focuses the first result, `Enter` selects it
+ * - Arrow keys, `Home` and `End` move between wallet cards across the Installed, custom and Popular groups
+ *
  * Accessibility features:
  * - Semantic HTML structure with proper headings
  * - ARIA labels for screen readers
@@ -452,13 +532,22 @@ export const ConnectorsSelections = memo(
       },
       ref,
     ) => {
-      const { withImpersonated, popularConnectors: popularConnectorsProp, customConnectorGroups } = useNovaConnect();
+      const {
+        withImpersonated,
+        popularConnectors: popularConnectorsProp,
+        customConnectorGroups,
+        connectorHistory,
+      } = useNovaConnect();
+      const { entries: historyEntries } = useConnectorHistory();
+      const ordering = connectorHistory?.ordering ?? 'recent';
+      const recentLimit = connectorHistory?.recentLimit ?? 3;
 
       // Extract customization options
       const {
         Container: CustomContainer = DefaultContainer,
         ContentWrapper: CustomContentWrapper = DefaultContentWrapper,
         ConnectorsArea: CustomConnectorsArea = DefaultConnectorsArea,
+        SearchInput: CustomSearchInput = DefaultSearchInput,
         ImpersonateSection: CustomImpersonateSection = DefaultImpersonateSection,
         ImpersonateTitle: CustomImpersonateTitle = DefaultImpersonateTitle,
         EmptyState: CustomEmptyState = DefaultEmptyState,
@@ -491,6 +580,26 @@ export const ConnectorsSelections = memo(
         };
       }, []);
 
+      /**
+       * Search state
+       */
+      const [searchQuery, setSearchQuery] = useState('');
+      const searchInputRef = useRef<HTMLInputElement>(null);
+      const connectorsAreaId = useId();
+
+      const searchResults = useMemo(
+        () =>
+          fuzzyFilter(connectors ?? [], searchQuery, (group) => [
+            group.name,
+            formatConnectorName(group.name),
+            ...group.adapters,
+          ]),
+        [connectors, searchQuery],
+      );
+      const isSearching = searchQuery.trim().length > 0;
+      const showSearch =
+        customConfig?.features?.showSearch ?? (connectors?.length ?? 0) >= (customConfig?.searchThreshold ?? 6);
+
       /**
        * Memoized connector filtering
        */
@@ -505,25 +614,41 @@ export const ConnectorsSelections = memo(
         const customGroupsConnectorsNamesRaw = customConnectorGroups ? Object.values(customConnectorGroups).flat() : [];
         const customGroupsConnectorsNames = customGroupsConnectorsNamesRaw.map((name) => formatConnectorName(name));
 
-        const installedConnectorsInitial = connectors.filter((group) => {
+        // Search results keep their relevance order; otherwise used wallets come first in every section
+        const orderByHistory = (groups: GroupedConnector[]) =>
+          isSearching ? groups : sortConnectorsByHistory(groups, historyEntries, ordering);
+
+        const selectableConnectors = searchResults.filter((group) => {
           const formattedName = formatConnectorName(group.name);
-          return (
-            formattedName !== 'impersonatedwallet' &&
-            !popularDesiredOrder.includes(formattedName) &&
-            !customGroupsConnectorsNames.includes(formattedName)
-          );
+          return formattedName !== 'impersonatedwallet' && (isSafeVisible || formattedName !== 'safe');
         });
 
-        const installedConnectors = isSafeVisible
-          ? installedConnectorsInitial
-          : installedConnectorsInitial.filter((group) => formatConnectorName(group.name) !== 'safe');
+        // Recent wallets reconnect on their last adapter. Single-network wallets move to the Recent section,
+        // multi-network ones also stay in their own section so the other networks remain reachable.
+        const recentConnectors =
+          isSearching || recentLimit <= 0 ? [] : getRecentConnectors(selectableConnectors, historyEntries, recentLimit);
+        const movedToRecent = recentConnectors
+          .filter((recent) => selectableConnectors.find((group) => group.name === recent.name)?.adapters.length === 1)
+          .map((recent) => recent.name);
+        const sectionConnectors = searchResults.filter((group) => !movedToRecent.includes(group.name));
+
+        const installedConnectors = orderByHistory(
+          selectableConnectors.filter((group) => {
+            const formattedName = formatConnectorName(group.name);
+            return (
+              !movedToRecent.includes(group.name) &&
+              !popularDesiredOrder.includes(formattedName) &&
+              !customGroupsConnectorsNames.includes(formattedName)
+            );
+          }),
+        );
 
-        const popularConnectors = connectors.filter((group) => {
+        const popularConnectors = sectionConnectors.filter((group) => {
           const formattedName = formatConnectorName(group.name);
           return popularDesiredOrder.includes(formattedName);
         });
 
-        const impersonatedConnector = connectors.find(
+        const impersonatedConnector = searchResults.find(
           (group) => formatConnectorName(group.name) === 'impersonatedwallet',
         );
 
@@ -533,29 +658,39 @@ export const ConnectorsSelections = memo(
             const desiredOrderRaw = customConnectorGroups[key];
             const desiredOrder = desiredOrderRaw.map((name) => formatConnectorName(name));
 
-            const groupConnectors = connectors.filter((group) => {
+            const groupConnectors = sectionConnectors.filter((group) => {
               const formattedName = formatConnectorName(group.name);
               return desiredOrder.includes(formattedName);
             });
-            customGroups[key] = createCustomSort(
-              groupConnectors,
-              (connector) => formatConnectorName(connector.name),
-              desiredOrder,
+            customGroups[key] = orderByHistory(
+              createCustomSort(groupConnectors, (connector) => formatConnectorName(connector.name), desiredOrder),
             );
           });
         }
 
         return {
+          recent: recentConnectors,
           installed: installedConnectors,
-          popular: createCustomSort(
-            popularConnectors,
-            (connector) => formatConnectorName(connector.name),
-            popularDesiredOrder,
+          popular: orderByHistory(
+            createCustomSort(
+              popularConnectors,
+              (connector) => formatConnectorName(connector.name),
+              popularDesiredOrder,
+            ),
           ),
           impersonated: impersonatedConnector,
           ...customGroups,
         };
-      }, [connectors, popularConnectorsProp, customConnectorGroups, isSafeVisible]);
+      }, [
+        searchResults,
+        isSearching,
+        popularConnectorsProp,
+        customConnectorGroups,
+        isSafeVisible,
+        historyEntries,
+        ordering,
+        recentLimit,
+      ]);
 
       /**
        * Memoized selections data
@@ -566,6 +701,8 @@ export const ConnectorsSelections = memo(
       const selectionsData: ConnectorsSelectionsData = {
         selectedAdapter,
         connectors,
+        searchQuery,
+        searchResults,
         isOnlyOneNetwork,
         isTouch,
         hasImpersonatedConnector: Boolean(connectorGroups.impersonated),
@@ -657,6 +794,71 @@ export const ConnectorsSelections = memo(
         // eslint-disable-next-line react-hooks/exhaustive-deps
       }, [customHandlers?.onImpersonateClick, impersonateData, selectionsData, handleImpersonateClick]);
 
+      /**
+       * Updates the search query and notifies the custom handler
+       */
+      const handleSearchChange = useCallback(
+        (query: string) => {
+          setSearchQuery(query);
+          customHandlers?.onSearchChange?.(query, { ...selectionsData, searchQuery: query });
+        },
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [customHandlers?.onSearchChange, selectionsData],
+      );
+
+      /**
+       * Arrow-key navigation between the search field and the wallet cards of all groups
+       */
+      const handleKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLDivElement>) => {
+          const target = event.target as HTMLElement;
+          const cards = Array.from(event.currentTarget.querySelectorAll<HTMLElement>('[data-nova-connector-card]'));
+          if (!cards.length) return;
+
+          const focusCard = (index: number) => {
+            event.preventDefault();
+            cards[index].focus();
+            cards[index].scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+          };
+
+          if (target === searchInputRef.current) {
+            if (event.key === 'ArrowDown') {
+              focusCard(0);
+            } else if (event.key === 'Enter' && isSearching) {
+              event.preventDefault();
+              cards[0].click();
+            }
+            return;
+          }
+
+          const index = cards.indexOf(target);
+          if (index === -1) return;
+
+          switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowRight':
+              if (index < cards.length - 1) focusCard(index + 1);
+              break;
+            case 'ArrowUp':
+            case 'ArrowLeft':
+              if (index > 0) {
+                focusCard(index - 1);
+              } else if (searchInputRef.current) {
+                event.preventDefault();
+                searchInputRef.current.focus();
+              }
+              break;
+            case 'Home':
+              focusCard(0);
+              break;
+            case 'End':
+              focusCard(cards.length - 1);
+              break;
+          }
+        },
+        [isSearching],
+      );
+
       /**
        * Handler for disclaimer learn more action
        */
@@ -702,6 +904,8 @@ export const ConnectorsSelections = memo(
             'novacon:block novacon:opacity-0': isTouch,
           }),
 
+        searchInput: customization?.classNames?.searchInput?.({ selectionsData }) ?? 'novacon:relative novacon:w-full',
+
         emptyState:
           customization?.classNames?.emptyState?.({ selectionsData }) ??
           'novacon:flex novacon:flex-col novacon:items-center novacon:justify-center novacon:p-8 novacon:text-center novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:rounded-[var(--tuwa-rounded-corners)] novacon:bg-[var(--tuwa-bg-secondary)] novacon:text-[var(--tuwa-text-secondary)]',
@@ -740,11 +944,22 @@ export const ConnectorsSelections = memo(
         );
       }
 
+      const showImpersonateSection =
+        selectionsData.showImpersonated && !!impersonateData && customConfig?.features?.showImpersonate !== false;
+      // The search can match connectors that are not listed (hidden Safe, impersonated wallet without its section)
+      const hasVisibleConnectors =
+        showImpersonateSection ||
+        !!connectorGroups.recent.length ||
+        !!connectorGroups.installed.length ||
+        !!connectorGroups.popular.length ||
+        Object.keys(customConnectorGroups ?? {}).some((key) => !!(connectorGroups[key] as GroupedConnector[])?.length);
+
       const containerAriaLabel = customConfig?.ariaLabels?.container?.(selectionsData) ?? labels.connectWallet;
       const connectorsAreaAriaLabel =
         customConfig?.ariaLabels?.connectorsArea?.(selectionsData) ?? 'Available wallet connectors';
       const impersonateAriaLabel =
         (impersonateData && customConfig?.ariaLabels?.impersonateSection?.(impersonateData)) ?? labels.impersonate;
+      const searchAriaLabel = customConfig?.ariaLabels?.searchInput?.(selectionsData) ?? labels.searchWallets;
 
       return (
         <CustomContainer
@@ -752,96 +967,153 @@ export const ConnectorsSelections = memo(
           className={cssClasses.container}
           role="region"
           aria-label={containerAriaLabel}
+          onKeyDown={handleKeyDown}
           selectionsData={selectionsData}
         >
-          <CustomContentWrapper className={cssClasses.contentWrapper} selectionsData={selectionsData}>
-            <CustomConnectorsArea
-              className={cssClasses.connectorsArea}
-              role="region"
-              aria-label={connectorsAreaAriaLabel}
+          {showSearch && (
+            <CustomSearchInput
+              ref={searchInputRef}
+              className={cssClasses.searchInput}
+              value={searchQuery}
+              onChange={handleSearchChange}
+              placeholder={labels.searchWalletsPlaceholder}
+              aria-label={searchAriaLabel}
+              aria-controls={connectorsAreaId}
+              selectionsData={selectionsData}
+            />
+          )}
+
+          {isSearching && !hasVisibleConnectors ? (
+            <CustomEmptyState
+              className={cssClasses.emptyState}
+              role="status"
+              aria-live="polite"
               selectionsData={selectionsData}
             >
-              <ConnectorsBlock
-                connectors={connectorGroups.installed}
-                title={labels.installed}
-                selectedAdapter={selectedAdapter}
-                onClick={onClick}
-                solanaRPCUrls={solanaRPCUrls}
-                setIsConnected={setIsConnected}
-                setIsOpen={setIsOpen}
-                appChains={appChains}
-                isOnlyOneNetwork={isOnlyOneNetwork}
-                isTitleBold
-                customization={customization?.connectorsBlock?.installed}
+              <MagnifyingGlassIcon
+                width={32}
+                height={32}
+                className="novacon:text-[var(--tuwa-text-accent)] novacon:mb-3"
+                aria-hidden="true"
               />
-
-              {customConnectorGroups &&
-                Object.keys(customConnectorGroups).map((key) => {
-                  const groupConnectors = connectorGroups[key] as GroupedConnector[];
-                  if (!groupConnectors || groupConnectors.length === 0) return null;
-
-                  return (
-                    <ConnectorsBlock
-                      key={key}
-                      connectors={groupConnectors}
-                      title={key}
-                      selectedAdapter={selectedAdapter}
-                      onClick={onClick}
-                      solanaRPCUrls={solanaRPCUrls}
-                      setIsConnected={setIsConnected}
-                      setIsOpen={setIsOpen}
-                      appChains={appChains}
-                      isOnlyOneNetwork={isOnlyOneNetwork}
-                      customization={customization?.connectorsBlock?.popular}
-                    />
-                  );
-                })}
-
-              {!!connectorGroups.popular.length && (
-                <ConnectorsBlock
-                  connectors={connectorGroups.popular}
-                  title={labels.popular}
-                  selectedAdapter={selectedAdapter}
-                  onClick={onClick}
-                  solanaRPCUrls={solanaRPCUrls}
-                  setIsConnected={setIsConnected}
-                  setIsOpen={setIsOpen}
-                  appChains={appChains}
-                  isOnlyOneNetwork={isOnlyOneNetwork}
-                  customization={customization?.connectorsBlock?.popular}
-                />
-              )}
-            </CustomConnectorsArea>
-
-            {selectionsData.showImpersonated &&
-              impersonateData &&
-              customConfig?.features?.showImpersonate !== false && (
-                <CustomImpersonateSection
-                  className={cssClasses.impersonateSection}
-                  role="region"
-                  aria-label={impersonateAriaLabel}
-                  impersonateData={impersonateData}
-                  selectionsData={selectionsData}
-                >
-                  <CustomImpersonateTitle
-                    className={cssClasses.impersonateTitle}
+              <h2 className="novacon:text-lg novacon:font-semibold novacon:font-mono novacon:text-[var(--tuwa-text-primary)] novacon:mb-1">
+                {labels.noConnectorsFound}
+              </h2>
+              <p className="novacon:text-sm">{labels.noWalletsMatchSearch}</p>
+            </CustomEmptyState>
+          ) : (
+            <CustomContentWrapper className={cssClasses.contentWrapper} selectionsData={selectionsData}>
+              <CustomConnectorsArea
+                className={cssClasses.connectorsArea}
+                id={connectorsAreaId}
+                role="region"
+                aria-label={connectorsAreaAriaLabel}
+                selectionsData={selectionsData}
+              >
+                {!!connectorGroups.recent.length && (
+                  <ConnectorsBlock
+                    connectors={connectorGroups.recent}
+                    title={labels.recent}
+                    selectedAdapter={selectedAdapter}
+                    onClick={onClick}
+                    solanaRPCUrls={solanaRPCUrls}
+                    setIsConnected={setIsConnected}
+                    setIsOpen={setIsOpen}
+                    appChains={appChains}
+                    isOnlyOneNetwork={isOnlyOneNetwork}
+                    isTitleBold
+                    customization={
+                      customization?.connectorsBlock?.recent ?? {
+                        config: { features: { showRecentIndicators: false } },
+                      }
+                    }
+                  />
+                )}
+
+                {(!isSearching || !!connectorGroups.installed.length) && (
+                  <ConnectorsBlock
+                    connectors={connectorGroups.installed}
+                    title={labels.installed}
+                    selectedAdapter={selectedAdapter}
+                    onClick={onClick}
+                    solanaRPCUrls={solanaRPCUrls}
+                    setIsConnected={setIsConnected}
+                    setIsOpen={setIsOpen}
+                    appChains={appChains}
+                    isOnlyOneNetwork={isOnlyOneNetwork}
+                    isTitleBold
+                    customization={customization?.connectorsBlock?.installed}
+                  />
+                )}
+
+                {customConnectorGroups &&
+                  Object.keys(customConnectorGroups).map((key) => {
+                    const groupConnectors = connectorGroups[key] as GroupedConnector[];
+                    if (!groupConnectors || groupConnectors.length === 0) return null;
+
+                    return (
+                      <ConnectorsBlock
+                        key={key}
+                        connectors={groupConnectors}
+                        title={key}
+                        selectedAdapter={selectedAdapter}
+                        onClick={onClick}
+                        solanaRPCUrls={solanaRPCUrls}
+                        setIsConnected={setIsConnected}
+                        setIsOpen={setIsOpen}
+                        appChains={appChains}
+                        isOnlyOneNetwork={isOnlyOneNetwork}
+                        customization={customization?.connectorsBlock?.popular}
+                      />
+                    );
+                  })}
+
+                {!!connectorGroups.popular.length && (
+                  <ConnectorsBlock
+                    connectors={connectorGroups.popular}
+                    title={labels.popular}
+                    selectedAdapter={selectedAdapter}
+                    onClick={onClick}
+                    solanaRPCUrls={solanaRPCUrls}
+                    setIsConnected={setIsConnected}
+                    setIsOpen={setIsOpen}
+                    appChains={appChains}
+                    isOnlyOneNetwork={isOnlyOneNetwork}
+                    customization={customization?.connectorsBlock?.popular}
+                  />
+                )}
+              </CustomConnectorsArea>
+
+              {selectionsData.showImpersonated &&
+                impersonateData &&
+                customConfig?.features?.showImpersonate !== false && (
+                  <CustomImpersonateSection
+                    className={cssClasses.impersonateSection}
+                    role="region"
+                    aria-label={impersonateAriaLabel}
                     impersonateData={impersonateData}
                     selectionsData={selectionsData}
                   >
-                    {labels.impersonate}
-                  </CustomImpersonateTitle>
-                  <ConnectCard
-                    icon={<WalletIcon name="impersonatedwallet" />}
-                    adapters={!selectedAdapter ? [OrbitAdapter.EVM] : undefined}
-                    onClick={handleImpersonateClickWrapper}
-                    title={labels.impersonate}
-                    subtitle={labels.readOnlyMode}
-                    isOnlyOneNetwork={isOnlyOneNetwork}
-                    customization={customization?.impersonateCard}
-                  />
-                </CustomImpersonateSection>
-              )}
-          </CustomContentWrapper>
+                    <CustomImpersonateTitle
+                      className={cssClasses.impersonateTitle}
+                      impersonateData={impersonateData}
+                      selectionsData={selectionsData}
+                    >
+                      {labels.impersonate}
+                    </CustomImpersonateTitle>
+                    <ConnectCard
+                      icon={<WalletIcon name="impersonatedwallet" />}
+                      adapters={!selectedAdapter ? [OrbitAdapter.EVM] : undefined}
+                      onClick={handleImpersonateClickWrapper}
+                      title={labels.impersonate}
+                      subtitle={labels.readOnlyMode}
+                      isOnlyOneNetwork={isOnlyOneNetwork}
+                      customization={customization?.impersonateCard}
+                    />
+                  </CustomImpersonateSection>
+                )}
+            </CustomContentWrapper>
+          )}
 
           {isTouch && customConfig?.features?.showDisclaimer !== false && (
             <CustomDisclaimerSection className={cssClasses.disclaimerSection} selectionsData={selectionsData}>
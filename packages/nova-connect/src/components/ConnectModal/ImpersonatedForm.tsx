@@ -2,12 +2,14 @@
  * @file ImpersonateForm component with comprehensive customization options and validation.
  */
 
-import { cn } from '@tuwaio/nova-core';
+import { cn, textCenterEllipsis } from '@tuwaio/nova-core';
 import { isAddress, normalizeError, OrbitAdapter } from '@tuwaio/orbit-core';
 import React, { ComponentType, forwardRef, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { useNovaConnectLabels } from '../../hooks/useNovaConnectLabels';
 import { useSatelliteConnectStore } from '../../satellite';
+import { WalletAvatar } from '../WalletAvatar';
+import { ImpersonatedRecentAddresses, ImpersonatedRecentAddressesCustomization } from './ImpersonatedRecentAddresses';
 
 // --- Types ---
 
@@ -69,6 +71,10 @@ type ResolvingStatusProps = {
 
 type ResolvedAddressProps = {
   resolvedAddress: string;
+  /** The typed name (e.g., "alice.eth") */
+  name: string;
+  /** Avatar of the name, `null` when it has none or it is not loaded yet */
+  avatar: string | null;
   className?: string;
 };
 
@@ -141,6 +147,11 @@ export type ImpersonateFormCustomization = {
       spellCheck?: boolean;
     };
   };
+  /** Customization options for child components */
+  childCustomizations?: {
+    /** Customization of the recently impersonated addresses list */
+    recentAddresses?: ImpersonatedRecentAddressesCustomization;
+  };
 };
 
 /**
@@ -151,8 +162,13 @@ export interface ImpersonateFormProps {
   selectedAdapter?: OrbitAdapter;
   /** Current impersonated wallet address value */
   impersonatedAddress: string;
-  /** Callback to update the impersonated address */
-  setImpersonatedAddress: (value: string) => void;
+  /** Callback to update the impersonated address, with the name it was resolved from (e.g. "alice.eth") */
+  setImpersonatedAddress: (value: string, name?: string) => void;
+  /**
+   * Called when a recently impersonated address is clicked, to impersonate it right away.
+   * Without it, the click only fills the input.
+   */
+  onImpersonateAddress?: (address: string) => void | Promise<void>;
   /** Custom CSS classes for styling the container */
   className?: string;
   /** Customization options */
@@ -208,11 +224,30 @@ const DefaultResolvingStatus: React.FC<ResolvingStatusProps> = ({ isResolving, d
   );
 };
 
-const DefaultResolvedAddress: React.FC<ResolvedAddressProps> = ({ resolvedAddress, className }) => {
+const DefaultResolvedAddress: React.FC<ResolvedAddressProps> = ({ resolvedAddress, name, avatar, className }) => {
+  const labels = useNovaConnectLabels();
+
   return (
-    <p className={cn('novacon:mt-1 novacon:text-sm novacon:text-green-600', className)}>
-      Resolved to: {resolvedAddress}
-    </p>
+    <div
+      className={cn(
+        'novacon:mt-2 novacon:flex novacon:items-center novacon:gap-3 novacon:rounded-[var(--tuwa-rounded-corners)] novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:bg-[var(--tuwa-bg-muted)] novacon:p-2',
+        className,
+      )}
+      aria-live="polite"
+    >
+      <WalletAvatar address={resolvedAddress} ensAvatar={avatar ?? undefined} size="lg" />
+      <div className="novacon:flex novacon:min-w-0 novacon:flex-col">
+        <span className="novacon:truncate novacon:text-sm novacon:font-medium novacon:text-[var(--tuwa-text-primary)]">
+          {name}
+        </span>
+        <span
+          className="novacon:truncate novacon:text-xs novacon:text-[var(--tuwa-text-secondary)]"
+          title={resolvedAddress}
+        >
+          {labels.resolvedTo} <span className="novacon:font-mono">{textCenterEllipsis(resolvedAddress, 6, 4)}</span>
+        </span>
+      </div>
+    </div>
   );
 };
 
@@ -241,7 +276,10 @@ function isDomainName(value: string): boolean {
  * Form component for entering wallet address to impersonate with comprehensive customization
  */
 export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
-  ({ impersonatedAddress, setImpersonatedAddress, className, customization, selectedAdapter }, ref) => {
+  (
+    { impersonatedAddress, setImpersonatedAddress, onImpersonateAddress, className, customization, selectedAdapter },
+    ref,
+  ) => {
     // Get labels from context
     const labels = useNovaConnectLabels();
 
@@ -256,12 +294,15 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
     // Core state - separated concerns
     const [inputValue, setInputValue] = useState(''); // What user sees in input
     const [resolvedAddress, setResolvedAddress] = useState<string | null>(null); // Resolved domain address
+    const [resolvedName, setResolvedName] = useState<string | null>(null); // Domain name the address was resolved from
+    const [resolvedAvatar, setResolvedAvatar] = useState<string | null>(null); // Avatar of the resolved domain name
     const [isResolving, setIsResolving] = useState(false);
     const [hasInteracted, setHasInteracted] = useState(false);
 
     // Validation timeout ref
     const validationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const isInitializedRef = useRef(false);
+    const avatarRequestRef = useRef<string | null>(null);
 
     // Extract customization options
     const {
@@ -333,14 +374,37 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
       [supportsNameResolution, adapter, selectedAdapter],
     );
 
+    /**
+     * Load the avatar of a resolved domain name for the preview
+     */
+    const loadAvatar = useCallback(
+      (domainName: string) => {
+        avatarRequestRef.current = domainName;
+        setResolvedAvatar(null);
+        if (!adapter || typeof adapter.getAvatar !== 'function') return;
+
+        adapter
+          .getAvatar(domainName)
+          .then((avatar: string | null | undefined) => {
+            // Ignore avatars of names the user has typed over in the meantime
+            if (avatarRequestRef.current === domainName) setResolvedAvatar(avatar ?? null);
+          })
+          .catch((error: unknown) => console.warn(`Failed to load avatar of ${domainName}:`, error));
+      },
+      [adapter],
+    );
+
     /**
      * Update parent with final address (what goes to localStorage)
      */
     const updateParentAddress = useCallback(
       (displayValue: string, resolved: string | null) => {
-        // Parent always gets the actual address, not the display value
-        const finalAddress = resolved || displayValue;
-        setImpersonatedAddress(finalAddress);
+        // Parent always gets the actual address, and the typed name when the address was resolved from it
+        if (resolved) {
+          setImpersonatedAddress(resolved, displayValue);
+        } else {
+          setImpersonatedAddress(displayValue);
+        }
       },
       [setImpersonatedAddress],
     );
@@ -398,6 +462,8 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
 
           // Update resolved address state and parent
           setResolvedAddress(resolved);
+          setResolvedName(value);
+          loadAvatar(value);
           updateParentAddress(value, resolved);
           customHandlers?.onAddressResolved?.(value, resolved);
           customHandlers?.onValidationComplete?.(value, null);
@@ -420,6 +486,7 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
 
         // Clear resolved address for regular addresses
         setResolvedAddress(null);
+        setResolvedName(null);
         updateParentAddress(value, null);
         customHandlers?.onValidationComplete?.(value, null);
         return null;
@@ -433,6 +500,7 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
         supportsNameResolution,
         selectedAdapter,
         resolveDomainName,
+        loadAvatar,
         activeConnection?.isConnected,
         updateParentAddress,
       ],
@@ -552,6 +620,29 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
       resolvedAddress,
     ]);
 
+    /**
+     * Handle a click on a recently impersonated address
+     */
+    const handleRecentAddressSelect = useCallback(
+      (address: string) => {
+        clearValidationTimeout();
+        setInputValue(address);
+        setHasInteracted(true);
+        setResolvedAddress(null);
+        setResolvedName(null);
+
+        if (onImpersonateAddress) {
+          // Already validated when it was impersonated before
+          resetConnectionError();
+          updateParentAddress(address, null);
+          void onImpersonateAddress(address);
+        } else {
+          triggerValidation(address, true);
+        }
+      },
+      [clearValidationTimeout, onImpersonateAddress, resetConnectionError, updateParentAddress, triggerValidation],
+    );
+
     // Initialize input value from parent prop
     useEffect(() => {
       if (!isInitializedRef.current && impersonatedAddress) {
@@ -667,9 +758,11 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
         />
 
         {/* Resolved address display */}
-        {resolvedAddress && isDomainName(inputValue) && !isResolving && (
+        {resolvedAddress && resolvedName === inputValue && !isResolving && (
           <CustomResolvedAddress
             resolvedAddress={resolvedAddress}
+            name={resolvedName}
+            avatar={resolvedAvatar}
             className={customization?.classNames?.resolvedAddress?.()}
           />
         )}
@@ -680,6 +773,14 @@ export const ImpersonateForm = forwardRef<HTMLDivElement, ImpersonateFormProps>(
             {connectionError.message}
           </CustomErrorMessage>
         )}
+
+        {/* Recently impersonated addresses */}
+        <ImpersonatedRecentAddresses
+          selectedAdapter={selectedAdapter}
+          onSelect={handleRecentAddressSelect}
+          disabled={isResolving}
+          customization={customization?.childCustomizations?.recentAddresses}
+        />
       </CustomContainer>
     );
   },
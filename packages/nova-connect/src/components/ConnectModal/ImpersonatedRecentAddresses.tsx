@@ -0,0 +1,219 @@
+/**
+ * @file ImpersonatedRecentAddresses component listing recently impersonated addresses, with labels and one-click re-impersonation.
+ */
+
+import { CheckIcon, PencilSquareIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { cn, textCenterEllipsis, useResolvedName } from '@tuwaio/nova-core';
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+import React, { ComponentType, useState } from 'react';
+
+import { useImpersonationHistory, useNovaConnect, useNovaConnectLabels } from '../../hooks';
+import { ImpersonationHistoryEntry } from '../../utils/impersonationHistory';
+import { WalletAvatar } from '../WalletAvatar';
+
+// --- Types for Customization ---
+type RecentAddressRowProps = {
+  entry: ImpersonationHistoryEntry;
+  onSelect: () => void;
+  onRemove: () => void;
+  onLabelChange: (label: string) => void;
+  disabled: boolean;
+  labels: Record<string, string>;
+  className?: string;
+};
+
+/**
+ * Customization options for ImpersonatedRecentAddresses component
+ */
+export type ImpersonatedRecentAddressesCustomization = {
+  /** Custom components */
+  components?: {
+    /** Custom address row component */
+    RecentAddressRow?: ComponentType<RecentAddressRowProps>;
+  };
+  /** Custom class name generators */
+  classNames?: {
+    /** Function to generate container classes */
+    container?: () => string;
+    /** Function to generate title classes */
+    title?: () => string;
+    /** Function to generate list classes */
+    list?: () => string;
+    /** Function to generate address row classes */
+    row?: (params: { entry: ImpersonationHistoryEntry }) => string;
+  };
+  /** Configuration options */
+  config?: {
+    /** Maximum number of addresses shown (default: 5) */
+    maxAddresses?: number;
+  };
+};
+
+/**
+ * Props for the ImpersonatedRecentAddresses component
+ */
+export interface ImpersonatedRecentAddressesProps {
+  /** Adapter whose addresses are listed (default: EVM) */
+  selectedAdapter?: OrbitAdapter;
+  /** Called with the address of a clicked row */
+  onSelect: (address: string) => void;
+  /** Disables the rows, e.g. while connecting */
+  disabled?: boolean;
+  /** Custom CSS classes for styling the container */
+  className?: string;
+  /** Customization options */
+  customization?: ImpersonatedRecentAddressesCustomization;
+}
+
+// --- Default Sub-Components ---
+const DefaultRecentAddressRow = ({
+  entry,
+  onSelect,
+  onRemove,
+  onLabelChange,
+  disabled,
+  labels,
+  className,
+}: RecentAddressRowProps) => {
+  const { name } = useResolvedName(entry.address);
+  const [draftLabel, setDraftLabel] = useState<string | null>(null);
+
+  const shortAddress = textCenterEllipsis(entry.address, 6, 4);
+  const title = entry.label || name;
+
+  const saveLabel = () => {
+    if (draftLabel !== null) onLabelChange(draftLabel);
+    setDraftLabel(null);
+  };
+
+  const iconButtonClasses =
+    'novacon:cursor-pointer novacon:rounded-[var(--tuwa-rounded-corners)] novacon:p-1.5 novacon:text-[var(--tuwa-text-tertiary)] novacon:transition-colors novacon:hover:bg-[var(--tuwa-bg-muted)] novacon:hover:text-[var(--tuwa-text-primary)]';
+
+  return (
+    <li
+      className={cn(
+        'novacon:flex novacon:items-center novacon:gap-2 novacon:rounded-[var(--tuwa-rounded-corners)] novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:p-2',
+        className,
+      )}
+    >
+      {draftLabel !== null ? (
+        <div className="novacon:flex novacon:min-w-0 novacon:flex-1 novacon:items-center novacon:gap-2">
+          <WalletAvatar address={entry.address} size="lg" />
+          <input
+            type="text"
+            value={draftLabel}
+            onChange={(event) => setDraftLabel(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') saveLabel();
+              if (event.key === 'Escape') {
+                event.stopPropagation();
+                setDraftLabel(null);
+              }
+            }}
+            placeholder={labels.addressLabelPlaceholder}
+            aria-label={labels.editAddressLabel}
+            autoFocus
+            className="novacon:min-w-0 novacon:flex-1 novacon:rounded-[var(--tuwa-rounded-corners)] novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:bg-[var(--tuwa-bg-secondary)] novacon:px-2 novacon:py-1 novacon:text-sm novacon:text-[var(--tuwa-text-primary)] novacon:focus:outline-none"
+          />
+          <button type="button" onClick={saveLabel} className={iconButtonClasses} aria-label={labels.editAddressLabel}>
+            <CheckIcon className="novacon:h-4 novacon:w-4" />
+          </button>
+        </div>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={onSelect}
+            disabled={disabled}
+            title={`${labels.impersonateRecentAddress} ${entry.address}`}
+            className="novacon:flex novacon:min-w-0 novacon:flex-1 novacon:cursor-pointer novacon:items-center novacon:gap-2 novacon:text-left novacon:disabled:cursor-not-allowed novacon:disabled:opacity-50"
+          >
+            <WalletAvatar address={entry.address} size="lg" />
+            <span className="novacon:flex novacon:min-w-0 novacon:flex-col">
+              <span className="novacon:truncate novacon:text-sm novacon:font-medium novacon:text-[var(--tuwa-text-primary)]">
+                {title || shortAddress}
+              </span>
+              {title && (
+                <span className="novacon:truncate novacon:font-mono novacon:text-xs novacon:text-[var(--tuwa-text-secondary)]">
+                  {shortAddress}
+                </span>
+              )}
+            </span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraftLabel(entry.label ?? '')}
+            className={iconButtonClasses}
+            aria-label={labels.editAddressLabel}
+            title={labels.editAddressLabel}
+          >
+            <PencilSquareIcon className="novacon:h-4 novacon:w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            className={iconButtonClasses}
+            aria-label={labels.removeRecentAddress}
+            title={labels.removeRecentAddress}
+          >
+            <XMarkIcon className="novacon:h-4 novacon:w-4" />
+          </button>
+        </>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Lists the addresses recently impersonated on the selected adapter, so they can be impersonated again in one click.
+ * Labels are edited inline and persisted with the impersonation history. Renders nothing without impersonated
+ * wallets (`withImpersonated`) or without history.
+ */
+export function ImpersonatedRecentAddresses({
+  selectedAdapter = OrbitAdapter.EVM,
+  onSelect,
+  disabled = false,
+  className,
+  customization,
+}: ImpersonatedRecentAddressesProps) {
+  const labels = useNovaConnectLabels();
+  const { withImpersonated } = useNovaConnect();
+  const { entries, setLabel, remove } = useImpersonationHistory();
+
+  const { RecentAddressRow = DefaultRecentAddressRow } = customization?.components ?? {};
+  const { maxAddresses = 5 } = customization?.config ?? {};
+
+  const adapterEntries = entries.filter((entry) => entry.adapter === selectedAdapter).slice(0, maxAddresses);
+
+  if (!withImpersonated || !adapterEntries.length) return null;
+
+  return (
+    <section
+      className={cn('novacon:mt-4 novacon:space-y-2', customization?.classNames?.container?.(), className)}
+      aria-label={labels.recentImpersonatedAddresses}
+    >
+      <h3
+        className={cn(
+          'novacon:text-xs novacon:font-medium novacon:uppercase novacon:text-[var(--tuwa-text-tertiary)]',
+          customization?.classNames?.title?.(),
+        )}
+      >
+        {labels.recentImpersonatedAddresses}
+      </h3>
+      <ul className={cn('novacon:space-y-2', customization?.classNames?.list?.())}>
+        {adapterEntries.map((entry) => (
+          <RecentAddressRow
+            key={entry.address}
+            entry={entry}
+            onSelect={() => onSelect(entry.address)}
+            onRemove={() => remove(entry.address)}
+            onLabelChange={(label) => setLabel(entry.address, label)}
+            disabled={disabled}
+            labels={labels}
+            className={customization?.classNames?.row?.({ entry })}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,369 @@
+/**
+ * @file WalletConnect QR code panel shown in the Connecting step, with copy-link, refresh on expiry and mobile deep links.
+ */
+
+import { ArrowPathIcon, CheckIcon, DocumentDuplicateIcon } from '@heroicons/react/24/solid';
+import {
+  cn,
+  isTouchDevice,
+  QrCode,
+  QrErrorCorrectionLevel,
+  standardButtonClasses,
+  useCopyToClipboard,
+} from '@tuwaio/nova-core';
+import React, { ComponentType, forwardRef, memo, useEffect, useState } from 'react';
+
+import { useNovaConnectLabels } from '../../hooks/useNovaConnectLabels';
+import { defaultMobileWalletLinks, getDisplayUriExpiry, MobileWalletLink, SubscribeToDisplayUri } from '../../utils';
+import { WalletIcon } from '../WalletIcon';
+
+// --- Types ---
+
+/**
+ * QR code panel data passed to custom components and class name generators
+ */
+export interface WalletConnectQrCodeData {
+  /** The WalletConnect display URI */
+  uri: string;
+  /** Whether the URI has passed its expiry */
+  isExpired: boolean;
+  /** Whether the deep-link (mobile) layout is shown instead of the QR code */
+  isMobile: boolean;
+}
+
+// --- Component Props Types ---
+type ContainerProps = {
+  className?: string;
+  children: React.ReactNode;
+  'aria-label'?: string;
+  qrData: WalletConnectQrCodeData;
+} & React.RefAttributes<HTMLDivElement>;
+
+type QrCodeComponentProps = {
+  className?: string;
+  uri: string;
+  logo?: React.ReactNode;
+  ecc?: QrErrorCorrectionLevel;
+  'aria-label'?: string;
+  qrData: WalletConnectQrCodeData;
+};
+
+type ActionButtonProps = {
+  className?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+  'aria-label'?: string;
+  qrData: WalletConnectQrCodeData;
+};
+
+type MobileLinkProps = {
+  className?: string;
+  link: MobileWalletLink;
+  href: string;
+  onClick?: () => void;
+  qrData: WalletConnectQrCodeData;
+};
+
+/**
+ * Customization options for the WalletConnect QR code panel
+ */
+export type WalletConnectQrCodeCustomization = {
+  /** Custom components */
+  components?: {
+    /** Custom container wrapper */
+    Container?: ComponentType<ContainerProps>;
+    /** Custom QR code renderer */
+    QrCode?: ComponentType<QrCodeComponentProps>;
+    /** Custom copy-link button */
+    CopyButton?: ComponentType<ActionButtonProps>;
+    /** Custom refresh button (shown when the URI expired) */
+    RefreshButton?: ComponentType<ActionButtonProps>;
+    /** Custom mobile deep-link button */
+    MobileLink?: ComponentType<MobileLinkProps>;
+  };
+  /** Custom class name generators */
+  classNames?: {
+    container?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    title?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    description?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    qrCode?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    expiredOverlay?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    actions?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    copyButton?: (params: { qrData: WalletConnectQrCodeData; isCopied: boolean }) => string;
+    refreshButton?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    mobileLinks?: (params: { qrData: WalletConnectQrCodeData }) => string;
+    mobileLink?: (params: { qrData: WalletConnectQrCodeData; link: MobileWalletLink }) => string;
+  };
+  /** Custom event handlers */
+  handlers?: {
+    /** Called when the URI has been copied */
+    onCopy?: (uri: string) => void;
+    /** Called before the connection is restarted to refresh an expired URI */
+    onRefresh?: (qrData: WalletConnectQrCodeData) => void;
+    /** Called when a mobile deep link is opened */
+    onMobileLinkClick?: (link: MobileWalletLink, uri: string) => void;
+  };
+  /** Configuration options */
+  config?: {
+    /** Hide the QR code panel entirely */
+    disabled?: boolean;
+    /** Custom display URI subscription for connectors with a non-standard event API */
+    subscribeToUri?: SubscribeToDisplayUri;
+    /** Wallets offered as deep links on mobile (defaults to MetaMask, Trust Wallet, Rainbow and Zerion) */
+    mobileWalletLinks?: MobileWalletLink[];
+    /** Force the mobile (deep-link) or desktop (QR code) layout instead of detecting touch devices */
+    layout?: 'auto' | 'desktop' | 'mobile';
+    /** QR code error correction level (defaults to `H` because of the wallet logo) */
+    ecc?: QrErrorCorrectionLevel;
+    /** Hide the wallet logo in the center of the QR code */
+    hideLogo?: boolean;
+  };
+};
+
+/**
+ * WalletConnect QR code panel props
+ */
+export interface WalletConnectQrCodeProps {
+  /** The WalletConnect display URI */
+  uri: string;
+  /** Icon of the connecting wallet, rendered in the center of the QR code */
+  walletIcon?: string;
+  /** Formatted name of the connecting wallet */
+  walletName?: string;
+  /** Restarts the connection to get a fresh URI. The refresh button is hidden when omitted. */
+  onRefresh?: () => void | Promise<void>;
+  /** Custom CSS classes for the container */
+  className?: string;
+  /** Customization options */
+  customization?: WalletConnectQrCodeCustomization;
+}
+
+// --- Default Sub-Components ---
+const DefaultContainer = forwardRef<HTMLDivElement, ContainerProps>(
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  ({ children, className, qrData: _qrData, ...props }, ref) => (
+    <div ref={ref} className={className} {...props}>
+      {children}
+    </div>
+  ),
+);
+DefaultContainer.displayName = 'DefaultContainer';
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const DefaultQrCode = ({ qrData: _qrData, uri, ...props }: QrCodeComponentProps) => <QrCode value={uri} {...props} />;
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const DefaultActionButton = ({ qrData: _qrData, children, ...props }: ActionButtonProps) => (
+  <button type="button" {...props}>
+    {children}
+  </button>
+);
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const DefaultMobileLink = ({ link, href, className, onClick, qrData: _qrData }: MobileLinkProps) => (
+  <a href={href} className={className} onClick={onClick} rel="noopener noreferrer">
+    <WalletIcon name={link.id} />
+    <span>{link.name}</span>
+  </a>
+);
+
+/**
+ * QR code panel for WalletConnect connections.
+ *
+ * - On desktop, renders the display URI as a QR code (encoded locally, the URI never leaves the app)
+ *   with the wallet icon in the center and a copy-link button.
+ * - On touch devices, renders deep-link buttons to popular wallets and a generic "Open in wallet" link.
+ * - When the URI carries an `expiryTimestamp`, the code is dimmed once it expires and a refresh button
+ *   restarts the connection via `onRefresh`.
+ *
+ * @example
+ * ```tsx
+ * <WalletConnectQrCode uri={displayUri} walletName="walletconnect" onRefresh={flow.reconnect} />
+ * ```
+ *
+ * @public
+ */
+export const WalletConnectQrCode = memo(
+  forwardRef<HTMLDivElement, WalletConnectQrCodeProps>(
+    ({ uri, walletIcon, walletName, onRefresh, className, customization }, ref) => {
+      const labels = useNovaConnectLabels();
+      const { copy, isCopied } = useCopyToClipboard();
+      const [expiredUri, setExpiredUri] = useState<string | null>(null);
+      const [isTouch, setIsTouch] = useState(false);
+
+      const {
+        Container: CustomContainer = DefaultContainer,
+        QrCode: CustomQrCode = DefaultQrCode,
+        CopyButton: CustomCopyButton = DefaultActionButton,
+        RefreshButton: CustomRefreshButton = DefaultActionButton,
+        MobileLink: CustomMobileLink = DefaultMobileLink,
+      } = customization?.components ?? {};
+      const customClassNames = customization?.classNames;
+      const customHandlers = customization?.handlers;
+      const customConfig = customization?.config;
+
+      useEffect(() => {
+        // eslint-disable-next-line react-hooks/set-state-in-effect
+        setIsTouch(isTouchDevice());
+      }, []);
+
+      // Mark the URI as expired once its expiry timestamp passes
+      useEffect(() => {
+        const expiry = getDisplayUriExpiry(uri);
+        if (!expiry) return;
+        const timeout = setTimeout(() => setExpiredUri(uri), Math.max(0, expiry - Date.now()));
+        return () => clearTimeout(timeout);
+      }, [uri]);
+
+      const layout = customConfig?.layout ?? 'auto';
+      const qrData: WalletConnectQrCodeData = {
+        uri,
+        isExpired: expiredUri === uri,
+        isMobile: layout === 'mobile' || (layout === 'auto' && isTouch),
+      };
+
+      // The raw `wc:` URI is handled by whichever wallet is registered for the scheme
+      const mobileLinks: MobileWalletLink[] = [
+        ...(customConfig?.mobileWalletLinks ?? defaultMobileWalletLinks),
+        { id: 'walletconnect', name: labels.openInWallet, getUrl: (value) => value },
+      ];
+
+      const handleCopy = async () => {
+        await copy(uri);
+        customHandlers?.onCopy?.(uri);
+      };
+
+      const handleRefresh = async () => {
+        customHandlers?.onRefresh?.(qrData);
+        await onRefresh?.();
+      };
+
+      const actionButtonClasses = cn(standardButtonClasses, 'novacon:justify-center');
+
+      const copyButton = (
+        <CustomCopyButton
+          className={customClassNames?.copyButton?.({ qrData, isCopied }) ?? actionButtonClasses}
+          onClick={handleCopy}
+          aria-label={labels.copyLink}
+          qrData={qrData}
+        >
+          {isCopied ? (
+            <CheckIcon className="novacon:h-4 novacon:w-4" aria-hidden="true" />
+          ) : (
+            <DocumentDuplicateIcon className="novacon:h-4 novacon:w-4" aria-hidden="true" />
+          )}
+          {isCopied ? labels.copied : labels.copyLink}
+        </CustomCopyButton>
+      );
+
+      const refreshButton = qrData.isExpired && onRefresh && (
+        <CustomRefreshButton
+          className={customClassNames?.refreshButton?.({ qrData }) ?? actionButtonClasses}
+          onClick={handleRefresh}
+          aria-label={labels.refreshQrCode}
+          qrData={qrData}
+        >
+          <ArrowPathIcon className="novacon:h-4 novacon:w-4" aria-hidden="true" />
+          {labels.refreshQrCode}
+        </CustomRefreshButton>
+      );
+
+      return (
+        <CustomContainer
+          ref={ref}
+          className={
+            customClassNames?.container?.({ qrData }) ??
+            cn('novacon:flex novacon:flex-col novacon:items-center novacon:gap-3 novacon:w-full', className)
+          }
+          aria-label={labels.walletConnectQrCode}
+          qrData={qrData}
+        >
+          {qrData.isMobile ? (
+            <div
+              className={
+                customClassNames?.mobileLinks?.({ qrData }) ??
+                'novacon:grid novacon:grid-cols-2 novacon:gap-2 novacon:w-full'
+              }
+            >
+              {mobileLinks.map((link) => (
+                <CustomMobileLink
+                  key={link.id}
+                  link={link}
+                  href={link.getUrl(uri)}
+                  onClick={() => customHandlers?.onMobileLinkClick?.(link, uri)}
+                  className={
+                    customClassNames?.mobileLink?.({ qrData, link }) ??
+                    cn(actionButtonClasses, 'novacon:w-full novacon:[&_img]:w-5 novacon:[&_svg]:w-5')
+                  }
+                  qrData={qrData}
+                />
+              ))}
+            </div>
+          ) : (
+            <>
+              <h3
+                className={
+                  customClassNames?.title?.({ qrData }) ??
+                  'novacon:text-base novacon:font-semibold novacon:text-[var(--tuwa-text-primary)]'
+                }
+              >
+                {labels.scanWithPhone}
+              </h3>
+              <div className="novacon:relative novacon:w-full novacon:max-w-[260px]">
+                <CustomQrCode
+                  uri={uri}
+                  ecc={customConfig?.ecc}
+                  logo={
+                    customConfig?.hideLogo ? undefined : (
+                      <WalletIcon icon={walletIcon} name={walletName ?? 'walletconnect'} />
+                    )
+                  }
+                  aria-label={labels.walletConnectQrCode}
+                  className={
+                    customClassNames?.qrCode?.({ qrData }) ??
+                    cn(
+                      'novacon:border novacon:border-[var(--tuwa-border-primary)] novacon:rounded-[var(--tuwa-rounded-corners)] novacon:transition-opacity',
+                      { 'novacon:opacity-20': qrData.isExpired },
+                    )
+                  }
+                  qrData={qrData}
+                />
+                {qrData.isExpired && (
+                  <div
+                    className={
+                      customClassNames?.expiredOverlay?.({ qrData }) ??
+                      'novacon:absolute novacon:inset-0 novacon:flex novacon:items-center novacon:justify-center novacon:text-sm novacon:font-semibold novacon:text-[var(--tuwa-text-primary)]'
+                    }
+                    role="alert"
+                  >
+                    {labels.qrCodeExpired}
+                  </div>
+                )}
+              </div>
+              <p
+                className={
+                  customClassNames?.description?.({ qrData }) ??
+                  'novacon:text-sm novacon:text-center novacon:text-[var(--tuwa-text-secondary)]'
+                }
+              >
+                {labels.scanQrCodeDescription}
+              </p>
+            </>
+          )}
+
+          <div
+            className={
+              customClassNames?.actions?.({ qrData }) ??
+              'novacon:flex novacon:flex-wrap novacon:justify-center novacon:gap-2'
+            }
+          >
+            {refreshButton}
+            {copyButton}
+          </div>
+        </CustomContainer>
+      );
+    },
+  ),
+);
+
+WalletConnectQrCode.displayName = 'WalletConnectQrCode';
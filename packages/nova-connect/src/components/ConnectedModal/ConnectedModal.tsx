@@ -3,7 +3,16 @@
  */
 
 import { ChevronLeftIcon } from '@heroicons/react/24/solid';
-import { CloseIcon, cn, Dialog, DialogClose, DialogContent, DialogHeader, DialogTitle } from '@tuwaio/nova-core';
+import {
+  CloseIcon,
+  cn,
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogVariant,
+} from '@tuwaio/nova-core';
 import { ConnectorType, formatConnectorChainId, getAdapterFromConnectorType } from '@tuwaio/orbit-core';
 import { type Easing, motion, type Transition, type Variants } from 'framer-motion';
 import React, { ComponentPropsWithoutRef, ComponentType, forwardRef, useCallback, useEffect } from 'react';
@@ -296,6 +305,8 @@ export type ConnectedModalCustomization = {
     reduceMotion?: boolean;
     /** Whether to auto-reset to main view when opening */
     autoResetToMain?: boolean;
+    /** Dialog layout on touch devices (e.g. `'sheet'`). Defaults to the regular modal */
+    mobileVariant?: DialogVariant;
     /** Custom ARIA labels for different states */
     ariaLabels?: {
       dialog?: string;
@@ -611,6 +622,7 @@ export const ConnectedModal = forwardRef<HTMLDivElement, ConnectedModalProps>(
       disableAnimation = false,
       reduceMotion = false,
       autoResetToMain = true,
+      mobileVariant,
       ariaLabels,
       hooks: hooksConfig,
     } = customization?.config ?? {};
@@ -883,6 +895,8 @@ export const ConnectedModal = forwardRef<HTMLDivElement, ConnectedModalProps>(
       <CustomDialog open={isConnectedModalOpen} onOpenChange={handleOpenChange} {...customization?.dialogProps}>
         <CustomDialogContent
           ref={ref}
+          modalId="nova-connected-modal"
+          mobileVariant={mobileVariant}
           className={dialogContentClasses}
           role="dialog"
           aria-modal="true"
@@ -16,6 +16,11 @@ import {
   ConnectedModalNameAndBalanceCustomization,
   ConnectedModalNameAndBalanceProps,
 } from './ConnectedModalNameAndBalance';
+import {
+  ConnectedModalTokenBalances,
+  ConnectedModalTokenBalancesCustomization,
+  ConnectedModalTokenBalancesProps,
+} from './ConnectedModalTokenBalances';
 import { IconButton, IconButtonProps } from './IconButton';
 
 // --- Default Motion Variants ---
@@ -147,6 +152,8 @@ export type ConnectedModalMainContentCustomization = {
     InfoSection?: ComponentType<InfoSectionProps>;
     /** Custom name and balance component */
     NameAndBalance?: ComponentType<ConnectedModalNameAndBalanceProps>;
+    /** Custom token balances section component */
+    TokenBalances?: ComponentType<ConnectedModalTokenBalancesProps>;
     /** Custom transactions section component */
     TransactionsSection?: ComponentType<TransactionsSectionProps>;
     /** Custom no transactions indicator component */
@@ -175,6 +182,8 @@ export type ConnectedModalMainContentCustomization = {
     switchNetworkButton?: (params: { chainsCount: number }) => string;
     /** Function to generate info section classes */
     infoSection?: () => string;
+    /** Function to generate token balances section classes */
+    tokenBalances?: () => string;
     /** Function to generate transactions section classes */
     transactionsSection?: (params: { transactionsCount: number; hasPendingTransactions: boolean }) => string;
     /** Function to generate transactions button classes */
@@ -252,6 +261,8 @@ export type ConnectedModalMainContentCustomization = {
   childCustomizations?: {
     /** Customization for ConnectedModalNameAndBalance component */
     nameAndBalance?: ConnectedModalNameAndBalanceCustomization;
+    /** Customization for ConnectedModalTokenBalances component */
+    tokenBalances?: ConnectedModalTokenBalancesCustomization;
     /** Customization for WalletAvatar component */
     walletAvatar?: WalletAvatarCustomization;
     /** Customization for switch wallet IconButton */
@@ -490,6 +501,7 @@ const DefaultNoTransactionsIndicator: React.FC<NoTransactionsIndicatorProps> = (
  * - Large wallet avatar with ENS support
  * - Wallet and network switching controls via IconButton components
  * - Loading indicators for avatar and balance states
+ * - Token (ERC-20 / SPL) balances configured on NovaConnectProvider
  * - Transaction history access when transactions are available
  * - Animated pending transaction indicator
  * - Comprehensive customization for all UI elements and behaviors
@@ -607,6 +619,7 @@ export const ConnectedModalMainContent = forwardRef<HTMLDivElement, ConnectedMod
       LoadingIndicator = DefaultLoadingIndicator,
       AvatarSection = DefaultAvatarSection,
       InfoSection = DefaultInfoSection,
+      TokenBalances = ConnectedModalTokenBalances,
       TransactionsSection = DefaultTransactionsSection,
       NoTransactionsIndicator = DefaultNoTransactionsIndicator,
     } = customComponents ?? {};
@@ -668,7 +681,8 @@ export const ConnectedModalMainContent = forwardRef<HTMLDivElement, ConnectedMod
     const walletTransactions =
       activeConnection && transactionPool
         ? Object.values(transactionPool).filter(
-            (tx) => tx?.from && activeConnection?.address && tx.from.toLowerCase() === activeConnection.address.toLowerCase(),
+            (tx) =>
+              tx?.from && activeConnection?.address && tx.from.toLowerCase() === activeConnection.address.toLowerCase(),
           )
         : [];
 
@@ -798,6 +812,12 @@ export const ConnectedModalMainContent = forwardRef<HTMLDivElement, ConnectedMod
           nameAndBalanceCustomization={customization?.childCustomizations?.nameAndBalance}
         />
 
+        {/* Token Balances (configured via the tokenBalances prop of NovaConnectProvider) */}
+        <TokenBalances
+          className={customization?.classNames?.tokenBalances?.()}
+          customization={customization?.childCustomizations?.tokenBalances}
+        />
+
         {/* Extra Balances Slot (tokens like USDC, ETH) */}
         {customization?.renderExtraBalances && (
           <div className={customization?.classNames?.extraBalancesContainer?.()}>
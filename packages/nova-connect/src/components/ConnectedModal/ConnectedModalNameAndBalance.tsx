@@ -8,7 +8,7 @@ import { BaseConnector } from '@tuwaio/satellite-core';
 import { AnimatePresence, type Easing, motion, type Variants } from 'framer-motion';
 import React, { ComponentPropsWithoutRef, ComponentType, forwardRef, useCallback } from 'react';
 
-import { useNovaConnectLabels } from '../../hooks';
+import { useFiatValue, useNovaConnectLabels } from '../../hooks';
 import { useSatelliteConnectStore } from '../../satellite';
 import { BalanceDisplay as BalanceDisplayComponent, type BalanceDisplayCustomization } from '../BalanceDisplay';
 import { ConnectedModalMainContentProps } from './ConnectedModalMainContent';
@@ -333,6 +333,9 @@ const DefaultBalanceDisplay: React.FC<BalanceDisplayProps> = ({
   className,
   customization,
 }) => {
+  // Approximate fiat value, when a price provider is configured
+  const { fiatValue } = useFiatValue(balance);
+
   // Convert balance format for BalanceDisplayComponent
   // Convert balance format for BalanceDisplayComponent
   const balanceData =
@@ -340,6 +343,7 @@ const DefaultBalanceDisplay: React.FC<BalanceDisplayProps> = ({
       ? {
           value: balance.value,
           symbol: balance.symbol,
+          fiatValue,
         }
       : null;
 
@@ -350,6 +354,7 @@ const DefaultBalanceDisplay: React.FC<BalanceDisplayProps> = ({
     walletBalance: labels.walletBalance,
     refreshBalance: 'Refresh balance',
     noBalanceAvailable: 'No balance information available',
+    approximateValue: labels.approximateValue,
   };
 
   return (
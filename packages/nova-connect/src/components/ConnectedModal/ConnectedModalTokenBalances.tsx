@@ -0,0 +1,306 @@
+/**
+ * @file ConnectedModalTokenBalances component listing the token (ERC-20 / SPL) balances of the connected wallet.
+ */
+
+import { cn } from '@tuwaio/nova-core';
+import { AnimatePresence, motion, type Variants } from 'framer-motion';
+import React, { ComponentType, useEffect, useRef, useState } from 'react';
+
+import { useFiatValue, useNovaConnectLabels, useWalletTokenBalances } from '../../hooks';
+import { TokenBalance } from '../../utils/tokenBalances';
+import { BalanceRefreshButton, type RefreshButtonProps } from '../BalanceDisplay';
+
+// --- Default Motion Variants ---
+const DEFAULT_SECTION_ANIMATION_VARIANTS: Variants = {
+  initial: { opacity: 0, y: 10 },
+  animate: { opacity: 1, y: 0, transition: { duration: 0.3, delay: 0.25 } },
+  exit: { opacity: 0, y: -10, transition: { duration: 0.2 } },
+};
+
+const DEFAULT_ROW_ANIMATION_VARIANTS: Variants = {
+  initial: { opacity: 0 },
+  animate: { opacity: 1 },
+  exit: { opacity: 0 },
+};
+
+// --- Types for Customization ---
+type TokenRowProps = {
+  token: TokenBalance;
+  showIcon: boolean;
+  labels: Record<string, string>;
+  className?: string;
+};
+
+type TokenLoadingStateProps = {
+  rowsCount: number;
+  labels: Record<string, string>;
+  className?: string;
+};
+
+type TokenEmptyStateProps = {
+  labels: Record<string, string>;
+  className?: string;
+};
+
+/**
+ * Customization options for ConnectedModalTokenBalances component
+ */
+export type ConnectedModalTokenBalancesCustomization = {
+  /** Custom components */
+  components?: {
+    /** Custom token row component */
+    TokenRow?: ComponentType<TokenRowProps>;
+    /** Custom loading state component */
+    LoadingState?: ComponentType<TokenLoadingStateProps>;
+    /** Custom empty state component */
+    EmptyState?: ComponentType<TokenEmptyStateProps>;
+    /** Custom refresh button component */
+    RefreshButton?: ComponentType<RefreshButtonProps>;
+  };
+  /** Custom class name generators */
+  classNames?: {
+    /** Function to generate container classes */
+    container?: (params: { isLoading: boolean; tokensCount: number }) => string;
+    /** Function to generate header classes */
+    header?: () => string;
+    /** Function to generate title classes */
+    title?: () => string;
+    /** Function to generate list classes */
+    list?: () => string;
+    /** Function to generate token row classes */
+    tokenRow?: (params: { token: TokenBalance }) => string;
+    /** Function to generate loading state classes */
+    loadingState?: () => string;
+    /** Function to generate empty state classes */
+    emptyState?: () => string;
+    /** Function to generate refresh button classes */
+    refreshButton?: (params: { isLoading: boolean; showSuccess: boolean }) => string;
+  };
+  /** Custom animation variants */
+  variants?: {
+    /** Section animation variants */
+    section?: Variants;
+  };
+  /** Configuration options */
+  config?: {
+    /** Whether to show refresh button */
+    showRefreshButton?: boolean;
+    /** Whether to show token icons */
+    showIcons?: boolean;
+    /** Number of placeholder rows while the balances load for the first time */
+    loadingRowsCount?: number;
+    /** Success indicator duration in ms */
+    successDuration?: number;
+  };
+};
+
+/**
+ * Props for the ConnectedModalTokenBalances component
+ */
+export interface ConnectedModalTokenBalancesProps {
+  /** Additional CSS classes for the container */
+  className?: string;
+  /** Customization options */
+  customization?: ConnectedModalTokenBalancesCustomization;
+}
+
+// --- Default Sub-Components ---
+const DefaultTokenRow: React.FC<TokenRowProps> = ({ token, showIcon, labels, className }) => {
+  // Approximate fiat value, when a price provider is configured
+  const { fiatValue } = useFiatValue(token);
+
+  return (
+    <motion.li
+      variants={DEFAULT_ROW_ANIMATION_VARIANTS}
+      initial="initial"
+      animate="animate"
+      exit="exit"
+      className={cn(
+        'novacon:flex novacon:items-center novacon:justify-between novacon:gap-3 novacon:py-1.5 novacon:text-sm',
+        className,
+      )}
+      aria-label={`${labels.walletBalance}: ${token.value} ${token.symbol}${fiatValue ? `, ${labels.approximateValue}: ${fiatValue}` : ''}`}
+    >
+      <span className="novacon:flex novacon:items-center novacon:gap-2 novacon:min-w-0" aria-hidden="true">
+        {showIcon &&
+          (token.icon ? (
+            <img
+              src={token.icon}
+              alt=""
+              className="novacon:w-5 novacon:h-5 novacon:rounded-full novacon:shrink-0"
+              loading="lazy"
+            />
+          ) : (
+            <span className="novacon:w-5 novacon:h-5 novacon:rounded-full novacon:shrink-0 novacon:bg-[var(--tuwa-bg-muted)]" />
+          ))}
+        <span
+          className="novacon:truncate novacon:font-medium novacon:text-[var(--tuwa-text-primary)]"
+          title={token.name}
+        >
+          {token.symbol}
+        </span>
+      </span>
+      <span className="novacon:flex novacon:flex-col novacon:items-end novacon:font-mono" aria-hidden="true">
+        <span className="novacon:text-[var(--tuwa-text-tertiary)]">{token.value}</span>
+        {fiatValue && (
+          <span className="novacon:text-xs novacon:text-[var(--tuwa-text-tertiary)] novacon:opacity-75">
+            ≈ {fiatValue}
+          </span>
+        )}
+      </span>
+    </motion.li>
+  );
+};
+
+const DefaultTokenLoadingState: React.FC<TokenLoadingStateProps> = ({ rowsCount, labels, className }) => {
+  return (
+    <div className={cn('novacon:flex novacon:flex-col novacon:gap-2', className)} role="status">
+      {Array.from({ length: rowsCount }, (_, index) => (
+        <div
+          key={index}
+          className="novacon:animate-pulse novacon:rounded-[var(--tuwa-rounded-corners)] novacon:h-5 novacon:w-full novacon:bg-[var(--tuwa-bg-muted)]"
+          aria-hidden="true"
+        />
+      ))}
+      <span className="novacon:sr-only">
+        {labels.loading} {labels.tokenBalances}
+      </span>
+    </div>
+  );
+};
+
+const DefaultTokenEmptyState: React.FC<TokenEmptyStateProps> = ({ labels, className }) => {
+  return (
+    <p className={cn('novacon:text-sm novacon:text-[var(--tuwa-text-tertiary)] novacon:opacity-75', className)}>
+      {labels.noTokenBalances}
+    </p>
+  );
+};
+
+/**
+ * Token balances section of the connected modal.
+ *
+ * Lists the balances of the tokens configured in the `tokenBalances` prop of `NovaConnectProvider`
+ * for the active chain, with the same loading and refresh behavior as `BalanceDisplay`.
+ * Renders nothing when no tokens are configured for the active chain or balances cannot be read.
+ *
+ * @example
+ * ```tsx
+ * <ConnectedModalTokenBalances
+ *   customization={{
+ *     config: { showIcons: false },
+ *     classNames: { tokenRow: () => 'py-2' },
+ *   }}
+ * />
+ * ```
+ */
+export const ConnectedModalTokenBalances: React.FC<ConnectedModalTokenBalancesProps> = ({
+  className,
+  customization,
+}) => {
+  const labels = useNovaConnectLabels();
+  const { balances, hasTokens, isLoading, refetch } = useWalletTokenBalances();
+
+  const [showSuccess, setShowSuccess] = useState(false);
+  const prevLoading = useRef(isLoading);
+
+  const {
+    TokenRow = DefaultTokenRow,
+    LoadingState = DefaultTokenLoadingState,
+    EmptyState = DefaultTokenEmptyState,
+    RefreshButton = BalanceRefreshButton,
+  } = customization?.components ?? {};
+
+  const {
+    showRefreshButton = true,
+    showIcons = true,
+    loadingRowsCount = 2,
+    successDuration = 1500,
+  } = customization?.config ?? {};
+
+  // Show success indicator when loading completes
+  useEffect(() => {
+    if (prevLoading.current && !isLoading) {
+      setShowSuccess(true);
+      const timer = setTimeout(() => setShowSuccess(false), successDuration);
+      return () => clearTimeout(timer);
+    }
+    prevLoading.current = isLoading;
+  }, [isLoading, successDuration]);
+
+  if (!hasTokens) return null;
+
+  const containerClasses = customization?.classNames?.container
+    ? customization.classNames.container({ isLoading, tokensCount: balances.length })
+    : cn(
+        'novacon:w-full novacon:max-w-xs novacon:mt-2 novacon:px-3 novacon:py-2 novacon:rounded-[var(--tuwa-rounded-corners)] novacon:border novacon:border-[var(--tuwa-border-primary)]',
+        className,
+      );
+
+  return (
+    <motion.section
+      variants={customization?.variants?.section || DEFAULT_SECTION_ANIMATION_VARIANTS}
+      className={containerClasses}
+      role="region"
+      aria-label={labels.tokenBalances}
+      aria-busy={isLoading}
+    >
+      <div
+        className={
+          customization?.classNames?.header?.() ??
+          'novacon:flex novacon:items-center novacon:justify-between novacon:mb-1'
+        }
+      >
+        <h4
+          className={
+            customization?.classNames?.title?.() ??
+            'novacon:text-xs novacon:font-semibold novacon:uppercase novacon:text-[var(--tuwa-text-secondary)]'
+          }
+        >
+          {labels.tokenBalances}
+        </h4>
+        {showRefreshButton && (
+          <RefreshButton
+            isLoading={isLoading}
+            showSuccess={showSuccess}
+            onRefetch={refetch}
+            labels={{
+              loading: labels.loading,
+              walletBalance: labels.tokenBalances,
+              refreshBalance: labels.refreshTokenBalances,
+              noBalanceAvailable: labels.noTokenBalances,
+              approximateValue: labels.approximateValue,
+            }}
+            className={customization?.classNames?.refreshButton?.({ isLoading, showSuccess })}
+          />
+        )}
+      </div>
+
+      {isLoading && balances.length === 0 ? (
+        <LoadingState
+          rowsCount={loadingRowsCount}
+          labels={labels}
+          className={customization?.classNames?.loadingState?.()}
+        />
+      ) : balances.length > 0 ? (
+        <ul className={customization?.classNames?.list?.() ?? 'novacon:flex novacon:flex-col'}>
+          <AnimatePresence initial={false}>
+            {balances.map((token) => (
+              <TokenRow
+                key={token.address}
+                token={token}
+                showIcon={showIcons}
+                labels={labels}
+                className={customization?.classNames?.tokenRow?.({ token })}
+              />
+            ))}
+          </AnimatePresence>
+        </ul>
+      ) : (
+        <EmptyState labels={labels} className={customization?.classNames?.emptyState?.()} />
+      )}
+    </motion.section>
+  );
+};
+
+ConnectedModalTokenBalances.displayName = 'ConnectedModalTokenBalances';
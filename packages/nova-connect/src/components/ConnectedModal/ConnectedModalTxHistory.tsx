@@ -54,6 +54,20 @@ export type LocalTxPagination = {
   fetchNextPage: (walletAddress: string) => Promise<void>;
 };
 
+/**
+ * Local mirror of TransactionsHistoryFilters from @tuwaio/nova-transactions.
+ */
+export type LocalTransactionsHistoryFilters = {
+  /** Selected statuses. Empty means every status. */
+  statuses: ('pending' | 'success' | 'failed' | 'replaced')[];
+  /** Selected chain IDs. Empty means every chain. */
+  chainIds: (string | number)[];
+  /** Selected transaction types. Empty means every type. */
+  types: string[];
+  /** Free-text query matched against title, description and hash */
+  search: string;
+};
+
 /**
  * Local customization options for TransactionsHistory component.
  * This is a copy of the type from @tuwaio/nova-transactions to avoid
@@ -84,6 +98,23 @@ export type LocalTransactionsHistoryCustomization = {
     errorContainer?: string;
     /** Classes for the error indicator icon */
     errorIcon?: string;
+    // --- Filters and date sections classNames ---
+    /** Classes for the filters toolbar container */
+    toolbar?: string;
+    /** Classes for the search input */
+    searchInput?: string;
+    /** Classes for a filter chip */
+    filterChip?: string;
+    /** Classes added to a selected filter chip */
+    filterChipActive?: string;
+    /** Classes for the clear filters button */
+    clearFiltersButton?: string;
+    /** Classes for the sticky date section headers */
+    dateGroupHeader?: string;
+    /** Classes for the export actions container */
+    exportActions?: string;
+    /** Classes for an export button */
+    exportButton?: string;
     // --- TransactionHistoryItem classNames ---
     /** Classes for individual transaction item container */
     itemContainer?: string;
@@ -120,6 +151,41 @@ export type LocalTransactionsHistoryCustomization = {
     /** Classes for the original hash copy button (replaced transactions) */
     itemOriginalHashCopyButton?: string;
   };
+  /** Behavior configuration */
+  config?: {
+    /** Force the filters toolbar on or off. By default it is shown from `filtersThreshold` transactions. */
+    showFilters?: boolean;
+    /** Number of transactions from which the filters toolbar is shown (default: 5) */
+    filtersThreshold?: number;
+    /** Split the list into date sections (default: true) */
+    groupByDate?: boolean;
+    /** Keep the selected filters across openings of the modal (default: true) */
+    persistFilters?: boolean;
+    /** Storage key of the persisted filters */
+    filtersStorageKey?: string;
+    /** Windowed rendering of long lists */
+    virtualization?: {
+      /** Render only the rows close to the visible area (default: true) */
+      enabled?: boolean;
+      /** Number of rows from which the list is virtualized (default: 50) */
+      threshold?: number;
+      /** Height (px) assumed for a history item until it is measured (default: 88) */
+      estimatedItemHeight?: number;
+      /** Extra distance (px) rendered above and below the visible area (default: 480) */
+      overscan?: number;
+    };
+    /** Export of the active wallet's history */
+    export?: {
+      /** Show the export actions (default: true) */
+      enabled?: boolean;
+      /** Offered formats (default: `['csv', 'json']`) */
+      formats?: ('csv' | 'json')[];
+      /** File name without extension (default: `transactions-YYYY-MM-DD`) */
+      fileName?: string;
+      /** Receives the export instead of downloading it as a file */
+      onExport?: (content: string, format: 'csv' | 'json') => void;
+    };
+  };
 };
 
 // --- Types for Customization ---
@@ -321,6 +387,12 @@ export interface ConnectedModalTxHistoryProps extends Pick<
   customization?: ConnectedModalTxHistoryCustomization;
   /** Pagination state for infinite scroll, forwarded to TransactionsHistory. */
   pagination?: LocalTxPagination;
+  /** Controlled history filters, forwarded to TransactionsHistory. */
+  filters?: LocalTransactionsHistoryFilters;
+  /** Initial filters of an uncontrolled history, forwarded to TransactionsHistory. */
+  defaultFilters?: Partial<LocalTransactionsHistoryFilters>;
+  /** Called whenever the user changes the history filters */
+  onFiltersChange?: (filters: LocalTransactionsHistoryFilters) => void;
 }
 
 /**
@@ -603,7 +675,18 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
  */
 export const ConnectedModalTxHistory = forwardRef<HTMLDivElement, ConnectedModalTxHistoryProps>(
   (
-    { transactionPool, pulsarAdapter, className, 'aria-label': ariaLabel, customization, pagination, ...props },
+    {
+      transactionPool,
+      pulsarAdapter,
+      className,
+      'aria-label': ariaLabel,
+      customization,
+      pagination,
+      filters,
+      defaultFilters,
+      onFiltersChange,
+      ...props
+    },
     ref,
   ) => {
     const labels = useNovaConnectLabels();
@@ -749,6 +832,9 @@ export const ConnectedModalTxHistory = forwardRef<HTMLDivElement, ConnectedModal
                   customization={customization?.transactionsHistory}
                   pagination={pagination}
                   canViewDetails={false}
+                  filters={filters}
+                  defaultFilters={defaultFilters}
+                  onFiltersChange={onFiltersChange}
                 />
               </TransactionsHistoryWrapper>
             </ErrorBoundary>
@@ -9,7 +9,7 @@ import {
   DocumentDuplicateIcon,
   TrashIcon,
 } from '@heroicons/react/24/outline';
-import { cn, NetworkIcon, textCenterEllipsis, useCopyToClipboard } from '@tuwaio/nova-core';
+import { cn, NetworkIcon, textCenterEllipsis, useCopyToClipboard, useResolvedName } from '@tuwaio/nova-core';
 import {
   ConnectorType,
   formatConnectorName,
@@ -32,7 +32,7 @@ import {
   useState,
 } from 'react';
 
-import { useGetWalletNameAndAvatar, useNovaConnect, useNovaConnectLabels } from '../../hooks';
+import { useNovaConnect, useNovaConnectLabels } from '../../hooks';
 import { useSatelliteConnectStore } from '../../satellite';
 import { InitialChains } from '../../types';
 import { WalletIcon } from '../WalletIcon';
@@ -116,6 +116,7 @@ type CustomActiveRowProps = {
 type CustomConnectedRowProps = {
   connectorType: ConnectorType;
   address: string;
+  fullAddress?: string;
   chainId?: number | string;
   onSwitch: () => void;
   onDisconnect: (e: React.MouseEvent) => void;
@@ -141,6 +142,7 @@ type CustomConnectedRowProps = {
 type CustomRecentRowProps = {
   connectorType: ConnectorType;
   address: string;
+  fullAddress?: string;
   timestamp: number;
   onConnect?: () => void;
   onRemove: (e: React.MouseEvent) => void;
@@ -469,7 +471,7 @@ interface ConnectorRowProps {
   className?: string;
   explorerLink?: string;
   icon?: string;
-  /** Optional display name (e.g. ENS name) to show instead of address */
+  /** Optional display name to show instead of the name resolved from `fullAddress` */
   displayName?: string;
   /** Granular classNames for sub-elements - union of active and connected row classNames */
   classNames?: CustomActiveRowProps['classNames'] & CustomConnectedRowProps['classNames'];
@@ -478,6 +480,7 @@ interface ConnectorRowProps {
 interface RecentlyConnectedRowProps {
   connectorType: ConnectorType;
   address: string;
+  fullAddress?: string;
   timestamp: number;
   onConnect?: () => void;
   onRemove: (e: React.MouseEvent) => void;
@@ -490,6 +493,12 @@ interface RecentlyConnectedRowProps {
 
 // --- Helper Functions ---
 
+/**
+ * Shortens long resolved names (e.g. ENS names) to fit a connection row.
+ */
+const formatResolvedName = (name: string | null): string | undefined =>
+  name ? (name.length > 20 ? textCenterEllipsis(name, 6, 6) : name) : undefined;
+
 const getFormattedConnectorName = (connectorType: string): string => {
   function capitalizeFirstLetter(str: string) {
     if (typeof str !== 'string' || str.length === 0) {
@@ -655,6 +664,7 @@ const DefaultActiveConnectorRow = forwardRef<HTMLDivElement, ConnectorRowProps>(
   ) => {
     const labels = useNovaConnectLabels();
     const { copy, isCopied } = useCopyToClipboard();
+    const { name } = useResolvedName(fullAddress, chainId);
 
     const handleCopy = (e: React.MouseEvent) => {
       e.stopPropagation();
@@ -707,7 +717,7 @@ const DefaultActiveConnectorRow = forwardRef<HTMLDivElement, ConnectorRowProps>(
                 classNames?.walletName,
               )}
             >
-              {displayName || address}
+              {displayName || formatResolvedName(name) || address}
             </span>
             <span
               className={cn('novacon:text-xs novacon:text-[var(--tuwa-text-secondary)]', classNames?.connectorName)}
@@ -767,8 +777,9 @@ const DefaultActiveConnectorRow = forwardRef<HTMLDivElement, ConnectorRowProps>(
 DefaultActiveConnectorRow.displayName = 'DefaultActiveConnectorRow';
 
 const DefaultConnectedConnectorRow = forwardRef<HTMLDivElement, ConnectorRowProps>(
-  ({ connectorType, address, chainId, onSwitch, onDisconnect, className, icon, classNames }, ref) => {
+  ({ connectorType, address, fullAddress, chainId, onSwitch, onDisconnect, className, icon, classNames }, ref) => {
     const labels = useNovaConnectLabels();
+    const { name } = useResolvedName(fullAddress, chainId);
 
     return (
       <div
@@ -815,7 +826,7 @@ const DefaultConnectedConnectorRow = forwardRef<HTMLDivElement, ConnectorRowProp
                 classNames?.walletName,
               )}
             >
-              {address}
+              {formatResolvedName(name) || address}
             </span>
             <span
               className={cn('novacon:text-[10px] novacon:text-[var(--tuwa-text-secondary)]', classNames?.connectorName)}
@@ -844,8 +855,12 @@ const DefaultConnectedConnectorRow = forwardRef<HTMLDivElement, ConnectorRowProp
 DefaultConnectedConnectorRow.displayName = 'DefaultConnectedConnectorRow';
 
 const DefaultRecentlyConnectedRow = forwardRef<HTMLDivElement, RecentlyConnectedRowProps>(
-  ({ connectorType, address, onConnect, onRemove, className, icon, isConnecting = false, classNames }, ref) => {
+  (
+    { connectorType, address, fullAddress, onConnect, onRemove, className, icon, isConnecting = false, classNames },
+    ref,
+  ) => {
     const labels = useNovaConnectLabels();
+    const { name } = useResolvedName(fullAddress);
 
     return (
       <div
@@ -873,7 +888,7 @@ const DefaultRecentlyConnectedRow = forwardRef<HTMLDivElement, RecentlyConnected
                 classNames?.walletName,
               )}
             >
-              {address}
+              {formatResolvedName(name) || address}
             </span>
             <span
               className={cn('novacon:text-[10px] novacon:text-[var(--tuwa-text-secondary)]', classNames?.connectorName)}
@@ -938,7 +953,7 @@ DefaultRecentlyConnectedRow.displayName = 'DefaultRecentlyConnectedRow';
  */
 export const ConnectionsContent: React.FC<ConnectionsContentProps> = ({ className, customization }) => {
   const labels = useNovaConnectLabels();
-  const { setIsConnectModalOpen } = useNovaConnect();
+  const { setIsConnectModalOpen, connectorHistoryStore } = useNovaConnect();
   const connections = useSatelliteConnectStore((store) => store.connections);
   const activeConnection = useSatelliteConnectStore((store) => store.activeConnection);
   const switchConnection = useSatelliteConnectStore((store) => store.switchConnection);
@@ -948,12 +963,6 @@ export const ConnectionsContent: React.FC<ConnectionsContentProps> = ({ classNam
   const connecting = useSatelliteConnectStore((store) => store.connecting);
   const getConnectors = useSatelliteConnectStore((store) => store.getConnectors);
 
-  // Fetch ENS/SNS name and avatar for active connection
-  const { ensNameAbbreviated } = useGetWalletNameAndAvatar({
-    abbreviateSymbols: 6,
-    maxNameLength: 20,
-  });
-
   // Track which recent connector is currently connecting
   const [connectingRecent, setConnectingRecent] = useState<ConnectorType | null>(null);
 
@@ -1167,9 +1176,10 @@ export const ConnectionsContent: React.FC<ConnectionsContentProps> = ({ classNam
     (connectorType: ConnectorType, event: React.MouseEvent) => {
       event.stopPropagation();
       recentlyConnectedConnectorsListHelpers.removeConnector(connectorType);
+      connectorHistoryStore.remove(connectorType);
       updateRecentList(); // Manually update state to reflect changes immediately
     },
-    [updateRecentList],
+    [updateRecentList, connectorHistoryStore],
   );
 
   /**
@@ -1284,7 +1294,6 @@ export const ConnectionsContent: React.FC<ConnectionsContentProps> = ({ classNam
               connectorType={activeConnection.connectorType}
               address={textCenterEllipsis(activeConnection.address, 6, 4)}
               fullAddress={activeConnection.address}
-              displayName={ensNameAbbreviated}
               chainId={activeConnection.chainId}
               isActive={true}
               onDisconnect={(e) => handleDisconnect(activeConnection.connectorType, e)}
@@ -1329,6 +1338,7 @@ export const ConnectionsContent: React.FC<ConnectionsContentProps> = ({ classNam
                 key={connection.connectorType}
                 connectorType={connection.connectorType}
                 address={textCenterEllipsis(connection.address, 6, 4)}
+                fullAddress={connection.address}
                 chainId={connection.chainId}
                 isActive={false}
                 onSwitch={() => handleSwitch(connection.connectorType)}
@@ -1378,6 +1388,7 @@ export const ConnectionsContent: React.FC<ConnectionsContentProps> = ({ classNam
                 key={connectorType}
                 connectorType={connectorType}
                 address={textCenterEllipsis(data.address, 6, 4)}
+                fullAddress={data.address}
                 timestamp={data.disconnectedTimestamp}
                 onConnect={isAvailable ? () => handleConnectRecent(data.address, connectorType) : undefined}
                 onRemove={(e) => handleRemoveRecent(connectorType, e)}
@@ -4,7 +4,7 @@
  */
 
 import * as Select from '@radix-ui/react-select';
-import { cn } from '@tuwaio/nova-core';
+import { cn, useNovaTheme } from '@tuwaio/nova-core';
 import { AnimatePresence, type Easing, motion } from 'framer-motion';
 import { type ComponentPropsWithoutRef, type ElementRef, forwardRef } from 'react';
 
@@ -182,8 +182,12 @@ export const SelectContentAnimated = forwardRef<
       viewportClassName,
     );
 
+    // Portaled content lives outside the theme container, so re-apply the active theme here
+    const novaTheme = useNovaTheme();
+
     // Inline styles for containers
     const selectContentStyles = {
+      ...novaTheme?.themeProps.style,
       // Apply maxHeight as inline style (can be overridden by style prop)
       maxHeight: `${maxHeight}px`,
     };
@@ -196,6 +200,8 @@ export const SelectContentAnimated = forwardRef<
         <Select.Content
           className={selectContentClasses}
           style={selectContentStyles}
+          data-nova-theme={novaTheme?.themeProps['data-nova-theme']}
+          data-nova-font={novaTheme?.themeProps['data-nova-font']}
           // @ts-expect-error - type changed for better using
           ref={forwardedRef}
           position={position}
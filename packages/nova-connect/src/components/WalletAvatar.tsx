@@ -1,8 +1,8 @@
 /**
- * @file This file contains the `WalletAvatar` component, a customizable user avatar renderer with ENS support and blockie fallback.
+ * @file This file contains the `WalletAvatar` component, a customizable user avatar renderer with name service avatars and blockie fallback.
  */
 
-import { cn } from '@tuwaio/nova-core';
+import { cn, useResolvedName } from '@tuwaio/nova-core';
 import makeBlockie from 'ethereum-blockies-base64';
 import { ComponentPropsWithoutRef, ComponentType, forwardRef, useCallback, useEffect, useState } from 'react';
 
@@ -76,8 +76,13 @@ export type WalletAvatarCustomization = {
 export interface WalletAvatarProps extends Omit<ComponentPropsWithoutRef<'div'>, 'role'> {
   /** The user's wallet address, used for the blockie fallback and background color. */
   address: string;
-  /** An optional URL for the user's ENS avatar image. */
+  /**
+   * An optional URL for the user's ENS avatar image.
+   * When omitted, the avatar is resolved from the address with `useResolvedName`; pass `null` to skip resolution.
+   */
   ensAvatar?: string | null;
+  /** The chain of the address, used to pick chain-specific name resolvers (e.g., Basenames). */
+  chainId?: number | string;
   /** Custom alt text for the avatar image */
   altText?: string;
   /** Size variant for the avatar */
@@ -191,7 +196,8 @@ export const WalletAvatar = forwardRef<HTMLDivElement, WalletAvatarProps>(
   (
     {
       address,
-      ensAvatar,
+      ensAvatar: ensAvatarProp,
+      chainId,
       className,
       altText,
       size = 'md',
@@ -206,6 +212,10 @@ export const WalletAvatar = forwardRef<HTMLDivElement, WalletAvatarProps>(
   ) => {
     const labels = useNovaConnectLabels();
 
+    // Resolve the avatar from the address unless it is provided
+    const { avatar: resolvedAvatar } = useResolvedName(ensAvatarProp === undefined ? address : null, chainId);
+    const ensAvatar = ensAvatarProp === undefined ? resolvedAvatar : ensAvatarProp;
+
     // State management
     const [imageSrc, setImageSrc] = useState<string | null>(ensAvatar ?? null);
     const [isLoading, setIsLoading] = useState(Boolean(ensAvatar));
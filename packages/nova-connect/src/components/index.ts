@@ -10,6 +10,7 @@ export * from './ConnectedModal/ConnectedModal';
 export * from './ConnectedModal/ConnectedModalFooter';
 export * from './ConnectedModal/ConnectedModalMainContent';
 export * from './ConnectedModal/ConnectedModalNameAndBalance';
+export * from './ConnectedModal/ConnectedModalTokenBalances';
 export * from './ConnectedModal/ConnectedModalTxHistory';
 export * from './ConnectedModal/ConnectionsContent';
 export * from './ConnectedModal/IconButton';
@@ -22,11 +23,13 @@ export * from './ConnectModal/ConnectorsSelections';
 export * from './ConnectModal/Disclaimer';
 export * from './ConnectModal/GetWallet';
 export * from './ConnectModal/ImpersonatedForm';
+export * from './ConnectModal/ImpersonatedRecentAddresses';
 export * from './ConnectModal/LegalDisclaimer';
 export * from './ConnectModal/NetworkSelections';
 export * from './ConnectModal/NetworkSelections';
 export * from './ConnectModal/NetworkTabs';
 export * from './ConnectModal/RecentBadge';
+export * from './ConnectModal/WalletConnectQrCode';
 export * from './SelectContentAnimated';
 export * from './ToastError';
 export * from './ToBottomButton';
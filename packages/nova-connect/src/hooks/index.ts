@@ -1,6 +1,13 @@
+export * from './useConnectFlow';
+export * from './useConnectorDisplayUri';
+export * from './useConnectorHistory';
+export * from './useFavoriteChains';
+export * from './useFiatValue';
 export * from './useGetWalletNameAndAvatar';
+export * from './useImpersonationHistory';
 export * from './useNovaConnect';
 export * from './useNovaConnectLabels';
 export * from './useNovaSiwx';
 export * from './useWalletChainsList';
 export * from './useWalletNativeBalance';
+export * from './useWalletTokenBalances';
@@ -0,0 +1,357 @@
+import {
+  ConnectorType,
+  delay,
+  formatConnectorName,
+  getConnectorTypeFromName,
+  impersonatedHelpers,
+  isAddress,
+  OrbitAdapter,
+  TuwaErrorState,
+  waitFor,
+} from '@tuwaio/orbit-core';
+import { useCallback, useContext, useEffect, useRef } from 'react';
+
+import type { GroupedConnector } from '../components';
+import { Connector, SatelliteStoreContext, useSatelliteConnectStore } from '../satellite';
+import { InitialChains } from '../types';
+import { getConnectChainId, getFilteredConnectors } from '../utils';
+import { ConnectContentType, useNovaConnect } from './useNovaConnect';
+
+/**
+ * Content types reachable from each step of the connect flow.
+ * Every step can always go back to `connectors`.
+ */
+export const connectFlowTransitions: Record<ConnectContentType, readonly ConnectContentType[]> = {
+  connectors: ['network', 'connecting', 'impersonate', 'about', 'getWallet'],
+  network: ['connectors', 'connecting'],
+  connecting: ['connectors'],
+  impersonate: ['connectors', 'connecting'],
+  about: ['connectors'],
+  getWallet: ['connectors'],
+};
+
+/**
+ * @interface ConnectFlow
+ * The state and actions returned by the useConnectFlow hook.
+ */
+export interface ConnectFlow {
+  // --- State ---
+  /** Whether the connect flow (modal) is open */
+  isOpen: boolean;
+  /** Current step of the flow */
+  contentType: ConnectContentType;
+  /** Selected network adapter */
+  selectedAdapter: OrbitAdapter | undefined;
+  /** Formatted name of the selected connector (e.g. `metamask`) */
+  activeConnector: string | undefined;
+  /** Display name of the selected connector (e.g. `MetaMask`) */
+  activeConnectorName: string | undefined;
+  /** Address typed into the impersonation form */
+  impersonatedAddress: string;
+  /** Whether the impersonated address is a valid address */
+  isImpersonatedAddressValid: boolean;
+  /** Whether the connection has just been established */
+  isConnected: boolean;
+  /** Connection error if any */
+  error: Error | TuwaErrorState | null | undefined;
+  /** Available connectors by adapter (only resolved while the flow is open) */
+  connectors: Record<string, Connector[]> | undefined;
+  /** Connectors grouped by wallet and filtered by the selected adapter */
+  filteredConnectors: GroupedConnector[];
+  /** Steps reachable from the current one via `goTo` */
+  allowedTransitions: readonly ConnectContentType[];
+  /** Whether `back` leads anywhere (every step except `connectors`) */
+  canGoBack: boolean;
+  /** Whether the last failed connection can be retried */
+  canRetry: boolean;
+
+  // --- Actions ---
+  /** Opens or closes the flow */
+  setOpen: (open: boolean) => void;
+  /** Navigates to a step if it is allowed from the current one. Returns whether the transition happened. */
+  goTo: (contentType: ConnectContentType) => boolean;
+  /** Navigates to the previous step */
+  back: () => void;
+  /** Selects a network adapter (`undefined` shows all networks) */
+  selectAdapter: (adapter: OrbitAdapter | undefined) => void;
+  /** Selects a wallet and moves to the next step (`network`, `impersonate` or `connecting`) */
+  selectConnector: (connector: GroupedConnector) => void;
+  /** Selects the network of a multi-network wallet and connects */
+  selectNetwork: (adapter: OrbitAdapter, connectorType: ConnectorType) => Promise<void>;
+  /** Connects a connector on the given adapter and closes the flow on success */
+  connect: (connectorType: ConnectorType, adapter: OrbitAdapter) => Promise<void>;
+  /** Retries the last failed connection */
+  retry: () => Promise<void>;
+  /** Restarts the connection of the active connector, e.g. to get a fresh WalletConnect URI */
+  reconnect: () => Promise<void>;
+  /** Updates the impersonated address, with the name it was resolved from (e.g. "alice.eth") */
+  setImpersonatedAddress: (address: string, name?: string) => void;
+  /**
+   * Validates the impersonated address and connects the impersonated wallet.
+   * Pass an address (e.g. a recently impersonated one) to impersonate it directly.
+   * Successful impersonations are recorded in the impersonation history, labeled with `label`
+   * or the name the address was resolved from, unless the address already has a label.
+   */
+  connectImpersonated: (address?: string, label?: string) => Promise<void>;
+  /** Updates the "just connected" flag */
+  setIsConnected: (value: boolean) => void;
+}
+
+/**
+ * Finds the display name of a connector by its formatted name.
+ */
+function getConnectorName(
+  connectors: Connector[] | undefined,
+  activeConnector: string | undefined,
+): string | undefined {
+  if (!connectors || !Array.isArray(connectors) || !activeConnector) {
+    return undefined;
+  }
+
+  const connector = connectors.find((c) => {
+    const name = (c as { name?: unknown } | null)?.name;
+    return typeof name === 'string' && formatConnectorName(name) === activeConnector;
+  });
+
+  return (connector as { name: string } | undefined)?.name;
+}
+
+/**
+ * Headless state machine behind `ConnectModal`. Use it to build a fully custom connect UI
+ * while reusing the step transitions, adapter selection, chain resolution, impersonation
+ * validation and back navigation of the default modal.
+ *
+ * The flow state lives in `NovaConnectProvider`, so it must be used inside it. It resets to
+ * the `connectors` step every time the flow is opened.
+ *
+ * @param options - Chains used to resolve the chain to connect to. Defaults to the provider's chains.
+ * @returns {ConnectFlow} The flow state and actions.
+ *
+ * @example
+ * ```tsx
+ * function MyConnectUI() {
+ *   const flow = useConnectFlow();
+ *
+ *   if (flow.contentType === 'connectors') {
+ *     return flow.filteredConnectors.map((connector) => (
+ *       <button key={connector.name} onClick={() => flow.selectConnector(connector)}>
+ *         {connector.name}
+ *       </button>
+ *     ));
+ *   }
+ *
+ *   return <button onClick={flow.back}>Back</button>;
+ * }
+ * ```
+ */
+export function useConnectFlow(options: InitialChains = {}): ConnectFlow {
+  const {
+    isConnectModalOpen,
+    setIsConnectModalOpen,
+    setConnectModalContentType,
+    setActiveConnector,
+    setImpersonatedAddress: setProviderImpersonatedAddress,
+    setIsConnected,
+    connectModalContentType,
+    selectedAdapter,
+    setSelectedAdapter,
+    isConnected,
+    activeConnector,
+    impersonatedAddress,
+    impersonationHistoryStore,
+    appChains: providerAppChains,
+    solanaRPCUrls: providerSolanaRPCUrls,
+  } = useNovaConnect();
+
+  const appChains = options.appChains ?? providerAppChains;
+  const solanaRPCUrls = options.solanaRPCUrls ?? providerSolanaRPCUrls;
+
+  const connectionError = useSatelliteConnectStore((store) => store.connectionError);
+  const resetConnectionError = useSatelliteConnectStore((store) => store.resetConnectionError);
+  const getConnectors = useSatelliteConnectStore((store) => store.getConnectors);
+  const connectToWallet = useSatelliteConnectStore((store) => store.connect);
+  const activeConnection = useSatelliteConnectStore((store) => store.activeConnection);
+  const store = useContext(SatelliteStoreContext);
+
+  // Name the impersonated address was resolved from, used as its default label in the impersonation history
+  const impersonatedNameRef = useRef<{ address: string; name: string }>(undefined);
+  const setImpersonatedAddress = useCallback(
+    (address: string, name?: string) => {
+      impersonatedNameRef.current = name ? { address: address.trim(), name } : undefined;
+      setProviderImpersonatedAddress(address);
+    },
+    [setProviderImpersonatedAddress],
+  );
+
+  const connectors = isConnectModalOpen ? getConnectors() : undefined;
+  const filteredConnectors = getFilteredConnectors({ connectors: connectors!, selectedAdapter });
+
+  // Reset flow state when opened
+  useEffect(() => {
+    if (isConnectModalOpen) {
+      setConnectModalContentType('connectors');
+      setSelectedAdapter(undefined);
+      setActiveConnector(undefined);
+      setImpersonatedAddress('');
+      setIsConnected(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnectModalOpen]);
+
+  const allowedTransitions = connectFlowTransitions[connectModalContentType];
+  const trimmedImpersonatedAddress = impersonatedAddress.trim();
+
+  const goTo = useCallback(
+    (contentType: ConnectContentType) => {
+      if (contentType !== connectModalContentType && !allowedTransitions.includes(contentType)) {
+        if (process.env.NODE_ENV === 'development') {
+          console.warn(
+            `useConnectFlow: the "${connectModalContentType}" -> "${contentType}" transition is not allowed and was ignored`,
+          );
+        }
+        return false;
+      }
+      setConnectModalContentType(contentType);
+      return true;
+    },
+    [connectModalContentType, allowedTransitions, setConnectModalContentType],
+  );
+
+  const back = useCallback(() => {
+    setConnectModalContentType('connectors');
+  }, [setConnectModalContentType]);
+
+  const connect = useCallback(
+    async (connectorType: ConnectorType, adapter: OrbitAdapter) => {
+      await connectToWallet({
+        connectorType,
+        chainId: getConnectChainId({ appChains, selectedAdapter: adapter, solanaRPCUrls }),
+      });
+
+      try {
+        await waitFor(() => store?.getState().activeConnection?.isConnected);
+        setIsConnected(true);
+        const modalCloseTime = setTimeout(() => setIsConnectModalOpen(false), 400);
+        const isConnectedTimer = setTimeout(() => setIsConnected(false), 500);
+        await delay(null, 500);
+        clearTimeout(modalCloseTime);
+        clearTimeout(isConnectedTimer);
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [connectToWallet, appChains, solanaRPCUrls],
+  );
+
+  const selectNetwork = useCallback(
+    async (adapter: OrbitAdapter, connectorType: ConnectorType) => {
+      setSelectedAdapter(adapter);
+      setConnectModalContentType('connecting');
+      await connect(connectorType, adapter);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [connect],
+  );
+
+  const selectConnector = useCallback(
+    (connector: GroupedConnector) => {
+      const name = formatConnectorName(connector.name);
+      const nextStep = name === 'impersonatedwallet' ? 'impersonate' : 'connecting';
+
+      setActiveConnector(name);
+      if (connector.adapters.length === 1) {
+        setSelectedAdapter(connector.adapters[0]);
+        setConnectModalContentType(nextStep);
+      } else if (selectedAdapter || name === 'impersonatedwallet') {
+        setConnectModalContentType(nextStep);
+      } else {
+        setConnectModalContentType('network');
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [selectedAdapter],
+  );
+
+  const canRetry = !!connectionError && !!selectedAdapter && !!activeConnector;
+
+  const reconnect = useCallback(async () => {
+    if (!selectedAdapter || !activeConnector) return;
+    await connect(getConnectorTypeFromName(selectedAdapter, activeConnector) as ConnectorType, selectedAdapter);
+  }, [connect, selectedAdapter, activeConnector]);
+
+  const retry = useCallback(async () => {
+    if (!canRetry) return;
+    await reconnect();
+  }, [canRetry, reconnect]);
+
+  const connectImpersonated = useCallback(
+    async (address?: string, label?: string) => {
+      // A validation error of the typed address does not block an explicitly passed one
+      const targetAddress = address?.trim() ?? trimmedImpersonatedAddress;
+      const resolvedName = impersonatedNameRef.current;
+      if (
+        (connectionError && address === undefined) ||
+        !targetAddress ||
+        !isAddress(targetAddress) ||
+        !!activeConnection?.isConnected
+      )
+        return;
+      const adapter = selectedAdapter ?? OrbitAdapter.EVM;
+      if (address !== undefined) {
+        resetConnectionError();
+        setImpersonatedAddress(targetAddress);
+      }
+      impersonatedHelpers.setImpersonated(targetAddress);
+      setConnectModalContentType('connecting');
+      await connect(getConnectorTypeFromName(adapter, activeConnector ?? '') as ConnectorType, adapter);
+      if (store?.getState().activeConnection?.isConnected) {
+        impersonationHistoryStore.record({
+          address: targetAddress,
+          adapter,
+          label: label ?? (resolvedName?.address === targetAddress ? resolvedName.name : undefined),
+        });
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [
+      connectionError,
+      trimmedImpersonatedAddress,
+      activeConnection,
+      connect,
+      selectedAdapter,
+      activeConnector,
+      impersonationHistoryStore,
+    ],
+  );
+
+  return {
+    isOpen: isConnectModalOpen,
+    contentType: connectModalContentType,
+    selectedAdapter,
+    activeConnector,
+    activeConnectorName:
+      selectedAdapter && connectors ? getConnectorName(connectors[selectedAdapter], activeConnector) : undefined,
+    impersonatedAddress,
+    isImpersonatedAddressValid: !!trimmedImpersonatedAddress && isAddress(trimmedImpersonatedAddress),
+    isConnected,
+    error: connectionError,
+    connectors,
+    filteredConnectors,
+    allowedTransitions,
+    canGoBack: connectModalContentType !== 'connectors',
+    canRetry,
+    setOpen: setIsConnectModalOpen,
+    goTo,
+    back,
+    selectAdapter: setSelectedAdapter,
+    selectConnector,
+    selectNetwork,
+    connect,
+    retry,
+    reconnect,
+    setImpersonatedAddress,
+    connectImpersonated,
+    setIsConnected,
+  };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { SubscribeToDisplayUri, subscribeToDisplayUri } from '../utils/walletConnectUri';
+
+/**
+ * Custom hook that returns the latest WalletConnect display URI emitted by a connector while it connects.
+ *
+ * The subscription is keyed by `connectorKey` rather than by the connector object, so re-created
+ * connector objects with the same identity do not reset the URI.
+ *
+ * @param connector - The connector instance (or `undefined` while none is selected)
+ * @param connectorKey - Stable identity of the connector (e.g. `${adapter}:${name}`)
+ * @param subscribe - Custom subscription, defaults to {@link subscribeToDisplayUri}
+ * @returns {string | undefined} The latest display URI, if any.
+ */
+export function useConnectorDisplayUri(
+  connector: unknown,
+  connectorKey: string | undefined,
+  subscribe: SubscribeToDisplayUri = subscribeToDisplayUri,
+): string | undefined {
+  const [displayUri, setDisplayUri] = useState<{ key: string; uri: string }>();
+  const connectorRef = useRef(connector);
+  const subscribeRef = useRef(subscribe);
+
+  useEffect(() => {
+    connectorRef.current = connector;
+    subscribeRef.current = subscribe;
+  });
+
+  useEffect(() => {
+    if (!connectorKey || !connectorRef.current) return;
+    return subscribeRef.current(connectorRef.current, (uri) => setDisplayUri({ key: connectorKey, uri }));
+  }, [connectorKey]);
+
+  return displayUri?.key === connectorKey ? displayUri?.uri : undefined;
+}
@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from 'react';
+
+import { ConnectorHistory, ConnectorHistoryEntry } from '../utils/connectorHistory';
+import { useNovaConnect } from './useNovaConnect';
+
+/**
+ * Custom hook to read and manage the wallet connection history of `NovaConnectProvider`.
+ * Re-renders whenever a connection is recorded or an entry is removed.
+ *
+ * @returns {{ entries: ConnectorHistoryEntry[] } & Pick<ConnectorHistory, 'record' | 'remove' | 'clear'>}
+ * The history entries (most recently used first) and the store actions.
+ *
+ * @example
+ * ```tsx
+ * const { entries, remove } = useConnectorHistory();
+ *
+ * return entries.map((entry) => (
+ *   <button key={entry.connectorType} onClick={() => remove(entry.connectorType)}>
+ *     Forget {entry.name} ({entry.useCount} connections)
+ *   </button>
+ * ));
+ * ```
+ */
+export function useConnectorHistory(): { entries: ConnectorHistoryEntry[] } & Pick<
+  ConnectorHistory,
+  'record' | 'remove' | 'clear'
+> {
+  const { connectorHistoryStore: store } = useNovaConnect();
+  const entries = useSyncExternalStore(store.subscribe, store.getEntries, store.getEntries);
+
+  return { entries, record: store.record, remove: store.remove, clear: store.clear };
+}
@@ -0,0 +1,31 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+import { FavoriteChains, FavoriteChainsOptions, getFavoriteChains } from '../utils/favoriteChains';
+
+/**
+ * Custom hook to read and toggle the networks pinned by the user in the chain selector.
+ * Selectors using the same storage and storage key share one store, so pins stay in sync between them.
+ *
+ * @param options - {@link FavoriteChainsOptions}
+ * @returns {{ favorites: string[] } & Pick<FavoriteChains, 'toggle'>} Pinned chain IDs and the toggle action.
+ *
+ * @example
+ * ```tsx
+ * const { favorites, toggle } = useFavoriteChains({ storageKey: `nova:favorite-chains:${address}` });
+ * ```
+ */
+export function useFavoriteChains(
+  options: FavoriteChainsOptions = {},
+): { favorites: string[] } & Pick<FavoriteChains, 'toggle'> {
+  const { storage, storageKey, defaultFavorites } = options;
+
+  const store = useMemo(
+    () => getFavoriteChains({ storage, storageKey, defaultFavorites }),
+    // Defaults only apply to a list the user has not changed yet
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [storage, storageKey],
+  );
+  const favorites = useSyncExternalStore(store.subscribe, store.getFavorites, store.getFavorites);
+
+  return { favorites, toggle: store.toggle };
+}
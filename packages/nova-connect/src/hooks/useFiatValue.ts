@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+
+import { formatFiatValue, parseBalanceValue } from '../utils/prices';
+import { useNovaConnect } from './useNovaConnect';
+
+/**
+ * @interface FiatValueInput
+ * A balance to value. Tokens are priced by address, native coins by symbol.
+ * @property {string} value The formatted balance (e.g., "1,250.5").
+ * @property {string} symbol The asset symbol (e.g., "ETH").
+ * @property {string} [address] The token address, when the balance is a token balance.
+ */
+interface FiatValueInput {
+  value: string;
+  symbol: string;
+  address?: string;
+}
+
+/**
+ * @interface FiatValueData
+ * The object returned by the useFiatValue hook.
+ * @property {string | undefined} fiatValue The formatted fiat value (e.g., "$1,234.56"), or undefined without a price.
+ * @property {number | undefined} price The price of one unit of the asset in the selected currency.
+ * @property {string} currency The selected fiat currency.
+ */
+interface FiatValueData {
+  fiatValue: string | undefined;
+  price: number | undefined;
+  currency: string;
+}
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Custom hook valuing a balance in the fiat currency selected on `NovaConnectProvider`, through its `priceProvider`.
+ * Prices are shared by all balances of the provider: requests made in the same render are batched into a single
+ * `getPrices` call, and cached prices are refetched once they become stale.
+ * Without a `priceProvider`, no fiat value is returned.
+ *
+ * @param balance - The balance to value, or null while it is not loaded
+ * @returns {FiatValueData} An object containing the formatted fiat value and price.
+ *
+ * @example
+ * ```typescript
+ * function NativeBalance() {
+ *   const { balance } = useWalletNativeBalance();
+ *   const { fiatValue } = useFiatValue(balance);
+ *
+ *   return <p>{balance?.value} {balance?.symbol} {fiatValue && `≈ ${fiatValue}`}</p>;
+ * }
+ * ```
+ */
+export function useFiatValue(balance: FiatValueInput | null | undefined): FiatValueData {
+  const { priceCache, fiatCurrency, priceOptions } = useNovaConnect();
+
+  const priceId = balance ? (balance.address ?? balance.symbol) : undefined;
+
+  const subscribe = useCallback(
+    (listener: () => void) => priceCache?.subscribe(listener) ?? noopUnsubscribe,
+    [priceCache],
+  );
+  const entry = useSyncExternalStore(
+    subscribe,
+    () => (priceCache && priceId ? priceCache.get(priceId, fiatCurrency) : undefined),
+    () => undefined,
+  );
+
+  // Request missing prices, and refetch cached prices once they become stale
+  useEffect(() => {
+    if (!priceCache || !priceId) return;
+    priceCache.request([priceId], fiatCurrency);
+    if (!entry) return;
+    const timer = setTimeout(
+      () => priceCache.request([priceId], fiatCurrency),
+      Math.max(priceCache.staleTime - (Date.now() - entry.updatedAt), 0),
+    );
+    return () => clearTimeout(timer);
+  }, [priceCache, priceId, fiatCurrency, entry]);
+
+  const amount = balance ? parseBalanceValue(balance.value) : undefined;
+
+  return {
+    fiatValue:
+      entry && amount !== undefined
+        ? formatFiatValue(amount * entry.price, fiatCurrency, priceOptions?.locale)
+        : undefined,
+    price: entry?.price,
+    currency: fiatCurrency,
+  };
+}
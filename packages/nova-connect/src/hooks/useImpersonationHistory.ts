@@ -0,0 +1,30 @@
+import { useSyncExternalStore } from 'react';
+
+import { ImpersonationHistory, ImpersonationHistoryEntry } from '../utils/impersonationHistory';
+import { useNovaConnect } from './useNovaConnect';
+
+/**
+ * Custom hook to read and manage the recently impersonated addresses of `NovaConnectProvider`.
+ * Re-renders whenever an address is impersonated, labeled or removed.
+ *
+ * @returns {{ entries: ImpersonationHistoryEntry[] } & Pick<ImpersonationHistory, 'record' | 'setLabel' | 'remove' | 'clear'>}
+ * The history entries (most recently impersonated first) and the store actions.
+ *
+ * @example
+ * ```tsx
+ * const { entries, setLabel } = useImpersonationHistory();
+ *
+ * return entries.map((entry) => (
+ *   <input key={entry.address} defaultValue={entry.label} onBlur={(e) => setLabel(entry.address, e.target.value)} />
+ * ));
+ * ```
+ */
+export function useImpersonationHistory(): { entries: ImpersonationHistoryEntry[] } & Pick<
+  ImpersonationHistory,
+  'record' | 'setLabel' | 'remove' | 'clear'
+> {
+  const { impersonationHistoryStore: store } = useNovaConnect();
+  const entries = useSyncExternalStore(store.subscribe, store.getEntries, store.getEntries);
+
+  return { entries, record: store.record, setLabel: store.setLabel, remove: store.remove, clear: store.clear };
+}
@@ -1,3 +1,4 @@
+import { NameResolver } from '@tuwaio/nova-core';
 import { OrbitAdapter } from '@tuwaio/orbit-core';
 import { Transaction, TransactionPool, TxAdapter } from '@tuwaio/pulsar-core';
 import { createContext, useContext } from 'react';
@@ -5,6 +6,11 @@ import { createContext, useContext } from 'react';
 import { LocalTxPagination } from '../components';
 import { NovaConnectLabels } from '../i18n';
 import { InitialChains } from '../types';
+import { BalanceOptions, BalanceStore } from '../utils/balanceStore';
+import { ConnectorHistory, ConnectorHistoryOptions, ConnectorOrdering } from '../utils/connectorHistory';
+import { ImpersonationHistory, ImpersonationHistoryOptions } from '../utils/impersonationHistory';
+import { PriceCache, PriceOptions, PriceProvider } from '../utils/prices';
+import { TokenBalancesConfig } from '../utils/tokenBalances';
 import { NovaSiwxWatcherProps } from '../watchers/NovaSiwxWatcher';
 
 export type ButtonTxStatus = 'idle' | 'loading' | 'succeed' | 'failed' | 'replaced';
@@ -17,6 +23,14 @@ export interface LegalConfig {
   privacyUrl?: string;
 }
 
+/** Wallet connection history configuration */
+export interface ConnectorHistoryConfig extends ConnectorHistoryOptions {
+  /** Ordering of the wallets inside each section of the wallet list (default: `recent`) */
+  ordering?: ConnectorOrdering;
+  /** Number of wallets in the "Recent" section, `0` hides the section (default: 3) */
+  recentLimit?: number;
+}
+
 // Provider props interface
 export interface NovaConnectProviderProps extends InitialChains {
   /** Transaction pool for pending transactions display */
@@ -25,14 +39,28 @@ export interface NovaConnectProviderProps extends InitialChains {
   pulsarAdapter?: TxAdapter<Transaction> | TxAdapter<Transaction>[];
   /** Whether balance should be shown */
   withBalance?: boolean;
+  /** Freshness of the shared balance cache: TTL, interval polling and refetch on window focus */
+  balanceOptions?: BalanceOptions;
   /** Whether chain selector should be shown */
   withChain?: boolean;
   /** Whether impersonated wallets are enabled */
   withImpersonated?: boolean;
+  /** Recently impersonated addresses listed in the impersonation form: storage backend and size */
+  impersonationHistory?: ImpersonationHistoryOptions;
   /** Custom list of popular connector names to show in the popular section */
   popularConnectors?: string[];
   /** Custom connector groups to show in the modal */
   customConnectorGroups?: Record<string, string[]>;
+  /** Wallet connection history: storage backend, wallet ordering and the "Recent" section */
+  connectorHistory?: ConnectorHistoryConfig;
+  /** Tokens (ERC-20 / SPL) whose balances are listed in the ConnectedModal, per chain */
+  tokenBalances?: TokenBalancesConfig;
+  /** Source of fiat prices; when set, balances show their approximate fiat value */
+  priceProvider?: PriceProvider;
+  /** Fiat valuation options: initial currency, formatting locale and price staleness */
+  priceOptions?: PriceOptions;
+  /** Name resolvers (ENS, SNS, Basenames, a custom directory…) used next to the adapters' name services */
+  nameResolvers?: NameResolver[];
   /** Legal configuration for Terms of Service and Privacy Policy links */
   legal?: LegalConfig;
   /** SIWX auto-authentication watcher configuration */
@@ -55,7 +83,7 @@ export interface WalletBalance {
 // Provider context type with better organization
 export interface NovaConnectProviderType extends Omit<
   NovaConnectProviderProps,
-  'pulsarAdapter' | 'children' | 'labels' | 'transactionPool'
+  'pulsarAdapter' | 'children' | 'labels' | 'transactionPool' | 'nameResolvers'
 > {
   // Modal states
   isConnectModalOpen: boolean;
@@ -90,6 +118,18 @@ export interface NovaConnectProviderType extends Omit<
   // Impersonation
   impersonatedAddress: string;
   setImpersonatedAddress: (value: string) => void;
+  impersonationHistoryStore: ImpersonationHistory;
+
+  // Connection history
+  connectorHistoryStore: ConnectorHistory;
+
+  // Shared balance cache
+  balanceStore: BalanceStore;
+
+  // Fiat valuation
+  priceCache: PriceCache | undefined;
+  fiatCurrency: string;
+  setFiatCurrency: (value: string) => void;
 
   // Legal configuration
   legal?: LegalConfig;
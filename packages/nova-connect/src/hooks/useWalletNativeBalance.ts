@@ -1,26 +1,16 @@
 import { getAdapterFromConnectorType } from '@tuwaio/orbit-core';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect } from 'react';
+import { useStore } from 'zustand';
 
 import { useSatelliteConnectStore } from '../satellite';
+import { DEFAULT_BALANCE_TTL, getBalanceKey, NativeBalanceResult } from '../utils/balanceStore';
+import { useNovaConnect } from './useNovaConnect';
 
-/**
- * @interface NativeBalanceResult
- * Represents the native token balance returned by the adapter.
- * The value is already formatted for human readability.
- * @property {string} value The native token balance formatted to standard decimals (e.g., "1.5").
- * @property {string} symbol The symbol of the native token (e.g., "ETH").
- */
-export interface NativeBalanceResult {
-  value: string;
-  symbol: string;
-}
+export type { NativeBalanceResult } from '../utils/balanceStore';
 
 // Type for the balance state within the hook (the fetched data or null).
 type NativeBalanceState = NativeBalanceResult | null;
 
-// Type for the local cache: "walletAddress-chainId" -> { value, symbol }.
-type BalanceCache = Record<string, NativeBalanceResult>;
-
 /**
  * @interface NativeBalanceData
  * The object returned by the useWalletNativeBalance hook.
@@ -36,8 +26,12 @@ interface NativeBalanceData {
 
 /**
  * Custom hook to fetch the native token balance for the currently connected wallet
- * on the active chain. It includes a local cache layer to prevent redundant network calls
- * when switching between components or on re-renders for the same wallet/chain.
+ * on the active chain. Balances live in the balance store shared by the whole `NovaConnectProvider`,
+ * so every component displaying the same wallet/chain reuses one cached value and one in-flight request.
+ *
+ * Freshness is configured with the `balanceOptions` prop of the provider: balances younger than `ttl`
+ * are not refetched on mount, stale balances are refetched when the window regains focus, mounted balances
+ * can be polled with `pollingInterval`, and a balance is refetched once a transaction of its wallet succeeds.
  *
  * @returns {NativeBalanceData} An object containing the balance data and loading state.
  *
@@ -63,16 +57,10 @@ interface NativeBalanceData {
  * ```
  */
 export function useWalletNativeBalance(): NativeBalanceData {
-  // --- 1. STATE & CACHE SETUP ---
+  // --- 1. STORE SETUP ---
 
-  // Local cache storage. Keys combine wallet address and chain ID.
-  const [balanceCache, setBalanceCache] = useState<BalanceCache>({});
-
-  // Local loading state, managed alongside the cache check.
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-
-  // Track the current fetch operation to prevent race conditions
-  const fetchOperationRef = useRef<string | null>(null);
+  const { balanceStore, balanceOptions } = useNovaConnect();
+  const { ttl = DEFAULT_BALANCE_TTL, pollingInterval = 0, refetchOnWindowFocus = true } = balanceOptions ?? {};
 
   // Store state selectors - memoized for performance
   const activeConnection = useSatelliteConnectStore((store) => store.activeConnection);
@@ -80,128 +68,77 @@ export function useWalletNativeBalance(): NativeBalanceData {
 
   // --- 2. COMPUTED INPUTS ---
 
+  const address = activeConnection?.address;
+  const chainId = activeConnection?.chainId;
+
   // Create the unique key for cache lookups: "address-chainId".
-  // Create the unique key for cache lookups: "address-chainId".
-  const cacheKey =
-    activeConnection?.chainId && activeConnection?.address
-      ? `${activeConnection.address}-${activeConnection.chainId}`
-      : null;
+  const cacheKey = chainId && address ? getBalanceKey(address, chainId) : null;
 
-  // Find the actual adapter object from the adapter map.
   // Find the actual adapter object from the adapter map.
   const foundAdapter = activeConnection?.connectorType
     ? getAdapter(getAdapterFromConnectorType(activeConnection.connectorType))
     : null;
 
-  // Check if the adapter has balance functionality
   // Check if the adapter has balance functionality
   const hasBalanceResolver =
     foundAdapter && 'getBalance' in foundAdapter && typeof foundAdapter.getBalance === 'function';
 
+  const entry = useStore(balanceStore, (state) => (cacheKey ? state.entries[cacheKey] : undefined));
+
   // --- 3. BALANCE FETCHING LOGIC ---
 
   const fetchBalance = useCallback(
-    async (forceRefresh = false) => {
+    (maxAge: number) => {
       // Exit early if essential data is missing (not connected).
-      if (
-        !activeConnection?.address ||
-        !foundAdapter ||
-        !activeConnection?.chainId ||
-        !cacheKey ||
-        !hasBalanceResolver
-      ) {
-        setIsLoading(false);
-        return;
-      }
-
-      // Set the current operation ID to prevent race conditions
-      const operationId = `${cacheKey}-${Date.now()}`;
-      fetchOperationRef.current = operationId;
-
-      // Check cache unless forcing a refresh
-      if (!forceRefresh) {
-        const cachedBalance = balanceCache[cacheKey];
-        if (cachedBalance) {
-          setIsLoading(false);
-          return;
-        }
-      }
-
-      setIsLoading(true);
-
-      try {
-        // Call the adapter's getBalance method
-        const balanceResult: NativeBalanceResult = await foundAdapter.getBalance(
-          activeConnection.address,
-          activeConnection.chainId,
-        );
-
-        // Only update if this operation is still the latest one
-        if (fetchOperationRef.current === operationId) {
-          setBalanceCache((prevCache) => ({
-            ...prevCache,
-            [cacheKey]: balanceResult,
-          }));
-        }
-      } catch (error) {
-        console.error(`Failed to fetch native balance for ${cacheKey}:`, error);
-
-        // Optionally clear cache entry on error (if you want to retry on next call)
-        if (forceRefresh && fetchOperationRef.current === operationId) {
-          setBalanceCache((prevCache) => {
-            const newCache = { ...prevCache };
-            delete newCache[cacheKey];
-            return newCache;
-          });
-        }
-      } finally {
-        // Only update loading state if this operation is still current
-        if (fetchOperationRef.current === operationId) {
-          setIsLoading(false);
-        }
-      }
+      if (!address || !chainId || !foundAdapter || !hasBalanceResolver) return;
+
+      balanceStore
+        .getState()
+        .fetchBalance({ address, chainId }, () => foundAdapter.getBalance(address, chainId), { maxAge });
     },
-    [activeConnection, foundAdapter, cacheKey, hasBalanceResolver, balanceCache],
+    [balanceStore, address, chainId, foundAdapter, hasBalanceResolver],
   );
 
   // Memoized refetch function that forces a refresh
   const refetch = useCallback(() => {
-    fetchBalance(true);
+    fetchBalance(0);
   }, [fetchBalance]);
 
-  // --- 4. EFFECT FOR INITIAL FETCH ---
+  // --- 4. EFFECTS ---
 
+  // Fetch on mount and whenever the balance is invalidated, unless the cached one is still fresh
+  const updatedAt = entry?.updatedAt;
   useEffect(() => {
-    // Only fetch if we have all required data and no cached result
-    if (cacheKey && hasBalanceResolver && !balanceCache[cacheKey]) {
-      // eslint-disable-next-line react-hooks/set-state-in-effect
-      fetchBalance(false);
-    } else if (!cacheKey || !hasBalanceResolver) {
-      // Reset loading state if we can't fetch
+    fetchBalance(ttl);
+  }, [fetchBalance, ttl, updatedAt]);
 
-      setIsLoading(false);
-    }
-  }, [cacheKey, hasBalanceResolver, balanceCache, fetchBalance]);
-
-  // --- 5. CLEANUP EFFECT ---
+  // Interval polling. Balances fetched during the last half interval (e.g. by another mounted component) are reused.
+  useEffect(() => {
+    if (!pollingInterval) return;
+    const interval = setInterval(() => fetchBalance(pollingInterval / 2), pollingInterval);
+    return () => clearInterval(interval);
+  }, [fetchBalance, pollingInterval]);
 
+  // Refetch stale balances when the window regains focus
   useEffect(() => {
+    if (!refetchOnWindowFocus || typeof window === 'undefined') return;
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') fetchBalance(ttl);
+    };
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
     return () => {
-      // Cancel any ongoing operations when component unmounts
-      fetchOperationRef.current = null;
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
     };
-  }, []);
-
-  // --- 6. RETURNED DATA ---
+  }, [fetchBalance, refetchOnWindowFocus, ttl]);
 
-  // The definitive balance is always derived from the cache based on the current key.
-  // The definitive balance is always derived from the cache based on the current key.
-  const balance: NativeBalanceState = cacheKey ? balanceCache[cacheKey] || null : null;
+  // --- 5. RETURNED DATA ---
 
   // Return the fetched balance data and the loading status.
   return {
-    balance, // { value: "1.5", symbol: "ETH" } or null
-    isLoading,
+    balance: entry?.balance ?? null, // { value: "1.5", symbol: "ETH" } or null
+    isLoading: Boolean(hasBalanceResolver && entry?.isLoading),
     refetch,
   };
 }
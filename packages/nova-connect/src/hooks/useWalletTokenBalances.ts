@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useSatelliteConnectStore } from '../satellite';
+import { getChainTokens, readTokenBalances, TokenBalance } from '../utils/tokenBalances';
+import { useNovaConnect } from './useNovaConnect';
+
+// Type for the local cache: "walletAddress-chainId-tokenAddresses" -> token balances.
+type TokenBalancesCache = Record<string, TokenBalance[]>;
+
+/**
+ * @interface TokenBalancesData
+ * The object returned by the useWalletTokenBalances hook.
+ * @property {TokenBalance[]} balances The balances of the tokens configured for the active chain.
+ * @property {boolean} hasTokens True when tokens are configured for the active chain and their balances can be read.
+ * @property {boolean} isLoading True while the balances are being fetched for the current wallet/chain combination.
+ * @property {() => void} refetch Function to manually trigger a balances refresh.
+ */
+interface TokenBalancesData {
+  balances: TokenBalance[];
+  hasTokens: boolean;
+  isLoading: boolean;
+  refetch: () => void;
+}
+
+/**
+ * Custom hook to fetch the balances of the tokens (ERC-20 / SPL) configured in the `tokenBalances`
+ * prop of `NovaConnectProvider` for the currently connected wallet on the active chain.
+ * All tokens of the chain are read in a single batched call, through `tokenBalances.readBalances`.
+ * Results are cached per wallet and chain.
+ *
+ * @returns {TokenBalancesData} An object containing the token balances and loading state.
+ *
+ * @example
+ * ```typescript
+ * import { useWalletTokenBalances } from './useWalletTokenBalances';
+ *
+ * function TokensDisplay() {
+ *   const { balances, isLoading, refetch } = useWalletTokenBalances();
+ *
+ *   if (isLoading) {
+ *     return <p>Loading balances...</p>;
+ *   }
+ *
+ *   return (
+ *     <ul>
+ *       {balances.map((token) => (
+ *         <li key={token.address}>{`${token.value} ${token.symbol}`}</li>
+ *       ))}
+ *       <button onClick={refetch}>Refresh</button>
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useWalletTokenBalances(): TokenBalancesData {
+  // --- 1. STATE & CACHE SETUP ---
+
+  const { tokenBalances } = useNovaConnect();
+
+  // Local cache storage. Keys combine wallet address, chain ID and token addresses.
+  const [balancesCache, setBalancesCache] = useState<TokenBalancesCache>({});
+
+  // Key being refreshed on demand, while its cached balances stay displayed.
+  const [refreshingKey, setRefreshingKey] = useState<string | null>(null);
+
+  // Track the current fetch operation to prevent race conditions
+  const fetchOperationRef = useRef<string | null>(null);
+
+  const activeConnection = useSatelliteConnectStore((store) => store.activeConnection);
+
+  // --- 2. COMPUTED INPUTS ---
+
+  const tokens = getChainTokens(tokenBalances, activeConnection?.chainId);
+
+  // Checked at runtime too, for configs written in plain JavaScript
+  const reader = typeof tokenBalances?.readBalances === 'function' ? tokenBalances.readBalances : undefined;
+  const isReaderMissing = tokens.length > 0 && !reader;
+
+  // Create the unique key for cache lookups: "address-chainId-tokenAddresses".
+  const cacheKey =
+    activeConnection?.chainId && activeConnection?.address && tokens.length
+      ? `${activeConnection.address}-${activeConnection.chainId}-${tokens.map((token) => token.address).join(',')}`
+      : null;
+
+  const hasTokens = Boolean(cacheKey && reader);
+
+  // Latest inputs, so an inline `tokenBalances` config does not re-create the fetcher on every render.
+  const latestInputsRef = useRef({ tokenBalances, tokens, reader, activeConnection });
+  useEffect(() => {
+    latestInputsRef.current = { tokenBalances, tokens, reader, activeConnection };
+  });
+
+  useEffect(() => {
+    if (process.env.NODE_ENV === 'development' && isReaderMissing) {
+      console.warn(
+        'useWalletTokenBalances: tokens are configured without tokenBalances.readBalances, their balances are not read',
+      );
+    }
+  }, [isReaderMissing]);
+
+  // --- 3. BALANCES FETCHING LOGIC ---
+
+  const fetchBalances = useCallback(async (key: string) => {
+    const {
+      tokenBalances: config,
+      tokens: chainTokens,
+      reader: read,
+      activeConnection: connection,
+    } = latestInputsRef.current;
+    if (!read || !connection?.address || !connection?.chainId) return;
+
+    // Set the current operation ID to prevent race conditions
+    const operationId = `${key}-${Date.now()}`;
+    fetchOperationRef.current = operationId;
+
+    try {
+      const balances = await readTokenBalances(
+        read,
+        { address: connection.address, chainId: connection.chainId, tokens: chainTokens },
+        config,
+      );
+
+      // Only update if this operation is still the latest one
+      if (fetchOperationRef.current === operationId) {
+        setBalancesCache((prevCache) => ({ ...prevCache, [key]: balances }));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch token balances for ${key}:`, error);
+
+      // Keep previously fetched balances, or cache an empty list to avoid retry loops
+      if (fetchOperationRef.current === operationId) {
+        setBalancesCache((prevCache) => ({ ...prevCache, [key]: prevCache[key] ?? [] }));
+      }
+    } finally {
+      if (fetchOperationRef.current === operationId) {
+        fetchOperationRef.current = null;
+        setRefreshingKey(null);
+      }
+    }
+  }, []);
+
+  // Memoized refetch function that forces a refresh
+  const refetch = useCallback(() => {
+    if (!cacheKey || !hasTokens) return;
+    setRefreshingKey(cacheKey);
+    fetchBalances(cacheKey);
+  }, [cacheKey, hasTokens, fetchBalances]);
+
+  // --- 4. EFFECT FOR INITIAL FETCH ---
+
+  const isCached = cacheKey ? cacheKey in balancesCache : false;
+
+  useEffect(() => {
+    // Only fetch if we have all required data and no cached result
+    if (cacheKey && hasTokens && !isCached) {
+      fetchBalances(cacheKey);
+    }
+  }, [cacheKey, hasTokens, isCached, fetchBalances]);
+
+  // --- 5. CLEANUP EFFECT ---
+
+  useEffect(() => {
+    return () => {
+      // Cancel any ongoing operations when component unmounts
+      fetchOperationRef.current = null;
+    };
+  }, []);
+
+  // --- 6. RETURNED DATA ---
+
+  const balances = cacheKey ? (balancesCache[cacheKey] ?? []) : [];
+  const isLoading = hasTokens && (!isCached || refreshingKey === cacheKey);
+
+  return {
+    balances,
+    hasTokens,
+    isLoading,
+    refetch,
+  };
+}
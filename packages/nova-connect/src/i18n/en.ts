@@ -70,6 +70,12 @@ export const defaultLabels: NovaConnectLabels = {
   // Impersonation form - Labels for wallet address impersonation feature
   enterWalletAddressOrAddressName: 'Enter wallet address or address name to impersonate',
   walletAddressPlaceholder: '0x...',
+  resolvedTo: 'Resolves to',
+  recentImpersonatedAddresses: 'Recent addresses',
+  impersonateRecentAddress: 'Impersonate',
+  editAddressLabel: 'Edit label',
+  addressLabelPlaceholder: 'Label, e.g. Treasury multisig',
+  removeRecentAddress: 'Remove from recent addresses',
 
   // Error messages - User-facing error notifications and descriptions
   noConnectorsFound: 'No Connectors Found',
@@ -132,6 +138,14 @@ export const defaultLabels: NovaConnectLabels = {
   ensAvatar: 'ENS avatar',
   walletIcon: 'Wallet icon',
 
+  // Token balances - Token (ERC-20 / SPL) list in the connected modal
+  tokenBalances: 'Tokens',
+  refreshTokenBalances: 'Refresh token balances',
+  noTokenBalances: 'No token balances available',
+
+  // Fiat valuation - Approximate fiat value of the balances
+  approximateValue: 'Approximate value',
+
   // Impersonate errors
   impersonateAddressEmpty: 'Enter a wallet address or name to impersonate.',
   impersonateAddressNotCorrect: 'Entered wallet address or name is not correct. Please try again.',
@@ -142,4 +156,29 @@ export const defaultLabels: NovaConnectLabels = {
   legalTerms: 'Terms of Service',
   legalPrivacy: 'Privacy Policy',
   legalAnd: 'and',
+
+  // WalletConnect QR code - Scanning and deep-linking during connection
+  scanWithPhone: 'Scan with your phone',
+  scanQrCodeDescription: 'Open your mobile wallet and scan this QR code to connect.',
+  walletConnectQrCode: 'WalletConnect QR code',
+  copyLink: 'Copy link',
+  qrCodeExpired: 'QR code expired',
+  refreshQrCode: 'Refresh QR code',
+  openInWallet: 'Open in wallet',
+
+  // Wallet search - Filtering and keyboard navigation of the wallet list
+  searchWallets: 'Search wallets',
+  searchWalletsPlaceholder: 'Search by wallet or network...',
+  clearSearch: 'Clear search',
+  noWalletsMatchSearch: 'No wallets match your search. Try a different wallet name or network.',
+
+  // Network selector - Search, grouping and pinned networks
+  searchNetworks: 'Search networks',
+  searchNetworksPlaceholder: 'Search by name or chain ID...',
+  noNetworksMatchSearch: 'No networks match your search.',
+  mainnets: 'Mainnets',
+  testnets: 'Testnets',
+  pinnedNetworks: 'Pinned',
+  pinNetwork: 'Pin network',
+  unpinNetwork: 'Unpin network',
 };
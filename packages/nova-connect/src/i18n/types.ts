@@ -66,6 +66,12 @@ export type NovaConnectLabels = {
   // Impersonation form - Labels for wallet address impersonation feature
   enterWalletAddressOrAddressName: string;
   walletAddressPlaceholder: string;
+  resolvedTo: string;
+  recentImpersonatedAddresses: string;
+  impersonateRecentAddress: string;
+  editAddressLabel: string;
+  addressLabelPlaceholder: string;
+  removeRecentAddress: string;
 
   // Error messages - User-facing error notifications and descriptions
   noConnectorsFound: string;
@@ -124,6 +130,14 @@ export type NovaConnectLabels = {
   ensAvatar: string;
   walletIcon: string;
 
+  // Token balances - Token (ERC-20 / SPL) list in the connected modal
+  tokenBalances: string;
+  refreshTokenBalances: string;
+  noTokenBalances: string;
+
+  // Fiat valuation - Approximate fiat value of the balances
+  approximateValue: string;
+
   // Impersonate errors
   impersonateAddressEmpty: string;
   impersonateAddressNotCorrect: string;
@@ -134,4 +148,29 @@ export type NovaConnectLabels = {
   legalTerms: string;
   legalPrivacy: string;
   legalAnd: string;
+
+  // WalletConnect QR code - Scanning and deep-linking during connection
+  scanWithPhone: string;
+  scanQrCodeDescription: string;
+  walletConnectQrCode: string;
+  copyLink: string;
+  qrCodeExpired: string;
+  refreshQrCode: string;
+  openInWallet: string;
+
+  // Wallet search - Filtering and keyboard navigation of the wallet list
+  searchWallets: string;
+  searchWalletsPlaceholder: string;
+  clearSearch: string;
+  noWalletsMatchSearch: string;
+
+  // Network selector - Search, grouping and pinned networks
+  searchNetworks: string;
+  searchNetworksPlaceholder: string;
+  noNetworksMatchSearch: string;
+  mainnets: string;
+  testnets: string;
+  pinnedNetworks: string;
+  pinNetwork: string;
+  unpinNetwork: string;
 };
@@ -70,6 +70,12 @@ export const ukrainianLabels: NovaConnectLabels = {
   // Форма імітації - Підписи для функції імітації адреси гаманця
   enterWalletAddressOrAddressName: 'Введіть адресу гаманця або його імя для імітації',
   walletAddressPlaceholder: '0x...',
+  resolvedTo: 'Вказує на',
+  recentImpersonatedAddresses: 'Нещодавні адреси',
+  impersonateRecentAddress: 'Імітувати',
+  editAddressLabel: 'Змінити мітку',
+  addressLabelPlaceholder: 'Мітка, напр. Мультипідпис скарбниці',
+  removeRecentAddress: 'Видалити з нещодавніх адрес',
 
   // Повідомлення про помилки - Повідомлення про помилки для користувача
   noConnectorsFound: `З'єднувачі не знайдені`,
@@ -132,6 +138,14 @@ export const ukrainianLabels: NovaConnectLabels = {
   ensAvatar: 'ENS аватар',
   walletIcon: 'Іконка гаманця',
 
+  // Баланси токенів - Список токенів (ERC-20 / SPL) у модальному вікні підключення
+  tokenBalances: 'Токени',
+  refreshTokenBalances: 'Оновити баланси токенів',
+  noTokenBalances: 'Баланси токенів недоступні',
+
+  // Оцінка у фіаті - Приблизна вартість балансів у фіатній валюті
+  approximateValue: 'Приблизна вартість',
+
   // Помилки імітації
   impersonateAddressEmpty: 'Введіть адресу або імя гаманця для імітації.',
   impersonateAddressNotCorrect: 'Введена адреса або імя гаманця неправильна. Спробуйте знову.',
@@ -142,4 +156,29 @@ export const ukrainianLabels: NovaConnectLabels = {
   legalTerms: 'Умовами використання',
   legalPrivacy: 'Політикою конфіденційності',
   legalAnd: 'та',
+
+  // QR-код WalletConnect - Сканування та глибокі посилання під час підключення
+  scanWithPhone: 'Відскануйте телефоном',
+  scanQrCodeDescription: 'Відкрийте мобільний гаманець і відскануйте цей QR-код для підключення.',
+  walletConnectQrCode: 'QR-код WalletConnect',
+  copyLink: 'Скопіювати посилання',
+  qrCodeExpired: 'Термін дії QR-коду минув',
+  refreshQrCode: 'Оновити QR-код',
+  openInWallet: 'Відкрити в гаманці',
+
+  // Пошук гаманців - Фільтрація та навігація клавіатурою у списку гаманців
+  searchWallets: 'Пошук гаманців',
+  searchWalletsPlaceholder: 'Пошук за гаманцем або мережею...',
+  clearSearch: 'Очистити пошук',
+  noWalletsMatchSearch: 'Жоден гаманець не відповідає пошуку. Спробуйте іншу назву гаманця або мережі.',
+
+  // Вибір мережі - Пошук, групування та закріплені мережі
+  searchNetworks: 'Пошук мереж',
+  searchNetworksPlaceholder: 'Пошук за назвою або ID мережі...',
+  noNetworksMatchSearch: 'Немає мереж, що відповідають запиту.',
+  mainnets: 'Основні мережі',
+  testnets: 'Тестові мережі',
+  pinnedNetworks: 'Закріплені',
+  pinNetwork: 'Закріпити мережу',
+  unpinNetwork: 'Відкріпити мережу',
 };
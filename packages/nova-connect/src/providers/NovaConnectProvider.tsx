@@ -20,6 +20,13 @@ import {
 } from '../hooks';
 import { defaultLabels, NovaConnectLabels } from '../i18n';
 import { useSatelliteConnectStore } from '../satellite';
+import { createBalanceStore } from '../utils/balanceStore';
+import { createConnectorHistory } from '../utils/connectorHistory';
+import { createImpersonationHistory } from '../utils/impersonationHistory';
+import { createPriceCache, DEFAULT_FIAT_CURRENCY } from '../utils/prices';
+import { BalanceInvalidationWatcher } from '../watchers/BalanceInvalidationWatcher';
+import { ConnectorHistoryWatcher } from '../watchers/ConnectorHistoryWatcher';
+import { NameResolverWatcher } from '../watchers/NameResolverWatcher';
 import { NovaSiwxWatcher } from '../watchers/NovaSiwxWatcher';
 import { ErrorsProvider, ErrorsProviderCustomization } from './ErrorsProvider';
 import { NovaConnectLabelsProvider } from './NovaConnectLabelsProvider';
@@ -197,6 +204,8 @@ const defaultProviderTreeRenderer = (
  * - Customizable error handling through ErrorsProvider
  * - Flexible internationalization system
  * - Modal and UI state coordination
+ * - Shared balance cache, refreshed after successful transactions
+ * - Address name resolution through the adapters' name services and custom resolvers
  * - Extensive customization API for all aspects
  * - Custom component replacement capabilities
  *
@@ -252,10 +261,17 @@ export function NovaConnectProvider({
   transactionPool,
   pulsarAdapter,
   withImpersonated,
+  impersonationHistory,
   withBalance,
+  balanceOptions,
   withChain,
   popularConnectors,
   customConnectorGroups,
+  connectorHistory,
+  tokenBalances,
+  priceProvider,
+  priceOptions,
+  nameResolvers,
   legal,
   siwx,
   customization,
@@ -294,13 +310,72 @@ export function NovaConnectProvider({
   const [isConnected, setIsConnected] = useState(false);
   const [connectedModalContentType, setConnectedModalContentType] = useState<ConnectedContentType>('main');
 
+  // Connection history store, re-created only when its storage changes. Custom storages are not compared
+  // by reference, so an inline one doesn't re-create the store (and drop its subscribers) on every render.
+  const connectorHistoryStorageId =
+    typeof connectorHistory?.storage === 'object' ? 'custom' : connectorHistory?.storage;
+  const connectorHistoryStore = useMemo(
+    () =>
+      createConnectorHistory({
+        storage: connectorHistory?.storage,
+        storageKey: connectorHistory?.storageKey,
+        maxEntries: connectorHistory?.maxEntries,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [connectorHistoryStorageId, connectorHistory?.storageKey, connectorHistory?.maxEntries],
+  );
+
+  // Recently impersonated addresses, re-created only when their storage changes (custom storages included,
+  // like the connection history)
+  const impersonationHistoryStorageId =
+    typeof impersonationHistory?.storage === 'object' ? 'custom' : impersonationHistory?.storage;
+  const impersonationHistoryStore = useMemo(
+    () =>
+      createImpersonationHistory({
+        storage: impersonationHistory?.storage,
+        storageKey: impersonationHistory?.storageKey,
+        maxEntries: impersonationHistory?.maxEntries,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [impersonationHistoryStorageId, impersonationHistory?.storageKey, impersonationHistory?.maxEntries],
+  );
+
+  // Balance cache shared by every balance display, for the lifetime of the provider
+  const [balanceStore] = useState(createBalanceStore);
+
+  // Price cache shared by all fiat values, re-created only when the provider or staleness changes
+  const priceCache = useMemo(
+    () => (priceProvider ? createPriceCache(priceProvider, { staleTime: priceOptions?.staleTime }) : undefined),
+    [priceProvider, priceOptions?.staleTime],
+  );
+  // Currency selected with `setFiatCurrency`, reset when the `priceOptions.currency` prop changes
+  const currencyOption = priceOptions?.currency ?? DEFAULT_FIAT_CURRENCY;
+  const [fiatCurrency, setFiatCurrency] = useState(currencyOption);
+  const [prevCurrencyOption, setPrevCurrencyOption] = useState(currencyOption);
+  if (prevCurrencyOption !== currencyOption) {
+    setPrevCurrencyOption(currencyOption);
+    setFiatCurrency(currencyOption);
+  }
+
   const defaultContextValue: NovaConnectProviderType = {
     appChains,
     solanaRPCUrls,
     withImpersonated,
+    impersonationHistory,
+    impersonationHistoryStore,
     popularConnectors,
     customConnectorGroups,
+    connectorHistory,
+    connectorHistoryStore,
+    tokenBalances,
+    priceProvider,
+    priceOptions,
+    priceCache,
+    fiatCurrency,
+    setFiatCurrency,
     withBalance,
+    balanceOptions,
+    balanceStore,
     withChain,
     isConnectModalOpen,
     setIsConnectModalOpen,
@@ -398,6 +473,9 @@ export function NovaConnectProvider({
   const mainContentElement = (
     <NovaConnectProviderContext.Provider value={contextValue}>
       <NovaSiwxWatcher {...siwx} />
+      <ConnectorHistoryWatcher history={connectorHistoryStore} />
+      <BalanceInvalidationWatcher store={balanceStore} transactionPool={transactionPool} />
+      <NameResolverWatcher resolvers={nameResolvers} />
       {errorsProviderElement}
       {labelsProviderElement}
       {connectModalElement}
@@ -409,6 +487,9 @@ export function NovaConnectProvider({
   const defaultProviderTree = (
     <NovaConnectProviderContext.Provider value={contextValue}>
       <NovaSiwxWatcher {...siwx} />
+      <ConnectorHistoryWatcher history={connectorHistoryStore} />
+      <BalanceInvalidationWatcher store={balanceStore} transactionPool={transactionPool} />
+      <NameResolverWatcher resolvers={nameResolvers} />
       {errorsProviderElement}
       {labelsProviderElement}
       {connectModalElement}
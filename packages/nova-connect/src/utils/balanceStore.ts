@@ -0,0 +1,164 @@
+/**
+ * @file Shared native balance cache (zustand vanilla store), keyed by wallet address and chain,
+ * with TTL-based freshness, in-flight request deduplication and invalidation by address.
+ */
+
+import { createStore, StoreApi } from 'zustand/vanilla';
+
+/**
+ * @interface NativeBalanceResult
+ * Represents the native token balance returned by the adapter.
+ * The value is already formatted for human readability.
+ * @property {string} value The native token balance formatted to standard decimals (e.g., "1.5").
+ * @property {string} symbol The symbol of the native token (e.g., "ETH").
+ */
+export interface NativeBalanceResult {
+  value: string;
+  symbol: string;
+}
+
+/**
+ * Freshness options of the shared balance cache, set through the `balanceOptions` prop of `NovaConnectProvider`.
+ */
+export interface BalanceOptions {
+  /**
+   * Time in ms during which a fetched balance is considered fresh and is not refetched on mount or focus.
+   * @default 30000
+   */
+  ttl?: number;
+  /**
+   * Interval in ms at which the balances of mounted components are refetched. `0` disables polling.
+   * @default 0
+   */
+  pollingInterval?: number;
+  /**
+   * Whether stale balances are refetched when the window regains focus.
+   * @default true
+   */
+  refetchOnWindowFocus?: boolean;
+}
+
+/**
+ * A cached balance.
+ */
+export interface BalanceEntry {
+  /** Wallet address */
+  address: string;
+  /** Chain of the balance */
+  chainId: string | number;
+  /** Last fetched balance, `null` before the first successful fetch */
+  balance: NativeBalanceResult | null;
+  /** Timestamp of the last successful fetch (ms), `0` when invalidated */
+  updatedAt: number;
+  /** Whether the balance is being fetched */
+  isLoading: boolean;
+}
+
+/**
+ * State and actions of the balance store.
+ */
+export interface BalanceStoreState {
+  /** Cached balances by key (see {@link getBalanceKey}) */
+  entries: Record<string, BalanceEntry>;
+  /**
+   * Fetches a balance unless the cached one is younger than `maxAge` or a fetch is already in flight.
+   * Failed fetches keep the previous balance. A balance invalidated while its fetch is in flight
+   * is fetched again once that fetch settles.
+   */
+  fetchBalance: (
+    params: { address: string; chainId: string | number },
+    fetcher: () => Promise<NativeBalanceResult>,
+    options?: { maxAge?: number },
+  ) => Promise<void>;
+  /** Marks the balances of an address (on every chain, or on one chain) as stale, so mounted components refetch them */
+  invalidate: (address: string, chainId?: string | number) => void;
+}
+
+export type BalanceStore = StoreApi<BalanceStoreState>;
+
+export const DEFAULT_BALANCE_TTL = 30_000;
+
+/**
+ * Returns the cache key of a balance: "address-chainId".
+ */
+export const getBalanceKey = (address: string, chainId: string | number) => `${address}-${chainId}`;
+
+/**
+ * Creates the balance store shared by every balance display of a `NovaConnectProvider`.
+ *
+ * @returns {BalanceStore} The balance store.
+ *
+ * @example
+ * ```ts
+ * const balanceStore = createBalanceStore();
+ * await balanceStore.getState().fetchBalance({ address, chainId }, () => adapter.getBalance(address, chainId));
+ * ```
+ */
+export function createBalanceStore(): BalanceStore {
+  const inFlight = new Map<string, Promise<void>>();
+  // Incremented by every invalidation of a key, to detect the ones happening while a fetch is in flight
+  const generations = new Map<string, number>();
+
+  return createStore<BalanceStoreState>()((set, get) => {
+    const updateEntry = (key: string, patch: Partial<BalanceEntry>) =>
+      set((state) => {
+        const entry = state.entries[key];
+        return entry ? { entries: { ...state.entries, [key]: { ...entry, ...patch } } } : state;
+      });
+
+    return {
+      entries: {},
+
+      fetchBalance: (params, fetcher, options = {}) => {
+        const { maxAge = DEFAULT_BALANCE_TTL } = options;
+        const key = getBalanceKey(params.address, params.chainId);
+
+        const pending = inFlight.get(key);
+        if (pending) return pending;
+
+        const entry = get().entries[key];
+        if (entry?.balance && Date.now() - entry.updatedAt < maxAge) return Promise.resolve();
+
+        set((state) => ({
+          entries: {
+            ...state.entries,
+            [key]: entry ? { ...entry, isLoading: true } : { ...params, balance: null, updatedAt: 0, isLoading: true },
+          },
+        }));
+
+        const generation = generations.get(key) ?? 0;
+        const isInvalidated = () => (generations.get(key) ?? 0) !== generation;
+
+        const request = fetcher()
+          // A balance invalidated meanwhile may predate the change, so it stays stale
+          .then((balance) =>
+            updateEntry(key, { balance, updatedAt: isInvalidated() ? 0 : Date.now(), isLoading: false }),
+          )
+          .catch((error) => {
+            console.error(`Failed to fetch native balance for ${key}:`, error);
+            updateEntry(key, { isLoading: false });
+          })
+          .finally(() => inFlight.delete(key))
+          .then(() => (isInvalidated() ? get().fetchBalance(params, fetcher, options) : undefined));
+
+        inFlight.set(key, request);
+        return request;
+      },
+
+      invalidate: (address, chainId) =>
+        set((state) => {
+          const normalizedAddress = address.toLowerCase();
+          const entries = Object.fromEntries(
+            Object.entries(state.entries).map(([key, entry]) => {
+              const matches =
+                entry.address.toLowerCase() === normalizedAddress &&
+                (chainId === undefined || String(entry.chainId) === String(chainId));
+              if (matches) generations.set(key, (generations.get(key) ?? 0) + 1);
+              return [key, matches ? { ...entry, updatedAt: 0 } : entry];
+            }),
+          );
+          return { entries };
+        }),
+    };
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * @file Grouping of the chain selector list into pinned, mainnet and testnet sections, per adapter.
+ */
+
+import { getChainName } from '@tuwaio/nova-core';
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+
+/**
+ * Kind of a chain group:
+ * - `pinned`: chains pinned by the user
+ * - `mainnets` / `testnets`: production and test networks
+ * - `all`: every chain of an adapter (or of the list) when grouping by network type is disabled
+ */
+export type ChainGroupType = 'pinned' | 'mainnets' | 'testnets' | 'all';
+
+/**
+ * A section of the chain list.
+ */
+export interface ChainGroup {
+  /** Stable identifier, e.g. `evm-mainnets` */
+  id: string;
+  /** Kind of the group */
+  type: ChainGroupType;
+  /** Adapter of the chains, set only when the list spans several adapters */
+  adapter?: OrbitAdapter;
+  /** Chains of the group, in their original order */
+  chains: (string | number)[];
+}
+
+/**
+ * Options for {@link groupChains}.
+ */
+export interface GroupChainsOptions {
+  /** Maps a chain of the list to its formatted chain ID (e.g. `devnet` → `solana:devnet`). Defaults to identity. */
+  formatChainId?: (chain: string | number) => string | number;
+  /** Formatted chain IDs pinned by the user, listed first in their own group */
+  pinned?: string[];
+  /**
+   * Split the chains into mainnets and testnets.
+   * @default true
+   */
+  byNetworkType?: boolean;
+  /**
+   * Split the chains per adapter (EVM, Solana, ...) when the list contains several adapters.
+   * @default true
+   */
+  byAdapter?: boolean;
+  /** Testnet detection, defaults to the `isTestnet` flag of `getChainName` */
+  isTestnet?: (formattedChainId: string | number) => boolean;
+}
+
+/**
+ * Resolves the adapter of a formatted chain ID: numeric IDs are EVM chains,
+ * prefixed IDs (e.g. `solana:devnet`) use their prefix.
+ *
+ * @param formattedChainId - Formatted chain ID
+ * @returns {OrbitAdapter | undefined} The adapter, if it can be determined.
+ */
+export function getChainAdapter(formattedChainId: string | number): OrbitAdapter | undefined {
+  if (typeof formattedChainId === 'number') return OrbitAdapter.EVM;
+  const [prefix] = formattedChainId.split(':');
+  return Object.values(OrbitAdapter).find((adapter) => adapter === prefix);
+}
+
+/**
+ * Splits a chain list into sections. Empty sections are omitted.
+ *
+ * @param chains - Chains to group
+ * @param options - {@link GroupChainsOptions}
+ * @returns {ChainGroup[]} Pinned chains first, then mainnets and testnets of every adapter in order of appearance.
+ *
+ * @example
+ * ```ts
+ * groupChains([1, 11155111, 137], { pinned: ['137'] });
+ * // [
+ * //   { id: 'pinned', type: 'pinned', chains: [137] },
+ * //   { id: 'mainnets', type: 'mainnets', chains: [1] },
+ * //   { id: 'testnets', type: 'testnets', chains: [11155111] },
+ * // ]
+ * ```
+ */
+export function groupChains(chains: (string | number)[], options: GroupChainsOptions = {}): ChainGroup[] {
+  const {
+    formatChainId = (chain) => chain,
+    pinned = [],
+    byNetworkType = true,
+    byAdapter = true,
+    isTestnet = (formattedChainId) => getChainName(formattedChainId).isTestnet,
+  } = options;
+
+  const pinnedChains = chains.filter((chain) => pinned.includes(String(formatChainId(chain))));
+  const otherChains = chains.filter((chain) => !pinnedChains.includes(chain));
+
+  const adapters = [...new Set(otherChains.map((chain) => getChainAdapter(formatChainId(chain))))];
+  const splitByAdapter = byAdapter && adapters.length > 1;
+
+  const groups: ChainGroup[] = [{ id: 'pinned', type: 'pinned', chains: pinnedChains }];
+
+  (splitByAdapter ? adapters : [undefined]).forEach((adapter) => {
+    const adapterChains = splitByAdapter
+      ? otherChains.filter((chain) => getChainAdapter(formatChainId(chain)) === adapter)
+      : otherChains;
+    const prefix = adapter ? `${adapter}-` : '';
+
+    if (!byNetworkType) {
+      groups.push({ id: `${prefix}all`, type: 'all', adapter, chains: adapterChains });
+      return;
+    }
+
+    groups.push(
+      {
+        id: `${prefix}mainnets`,
+        type: 'mainnets',
+        adapter,
+        chains: adapterChains.filter((chain) => !isTestnet(formatChainId(chain))),
+      },
+      {
+        id: `${prefix}testnets`,
+        type: 'testnets',
+        adapter,
+        chains: adapterChains.filter((chain) => isTestnet(formatChainId(chain))),
+      },
+    );
+  });
+
+  return groups.filter((group) => group.chains.length > 0);
+}
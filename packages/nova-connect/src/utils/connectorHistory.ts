@@ -0,0 +1,210 @@
+/**
+ * @file Persistent history of used wallet connectors, with pluggable storage, used for the "Recent" section
+ * and for most-recently/most-frequently-used ordering of the wallet list.
+ */
+
+import { createPersistedList, NovaStorage, NovaStorageOption } from '@tuwaio/nova-core';
+import { formatConnectorName, OrbitAdapter } from '@tuwaio/orbit-core';
+
+import type { GroupedConnector } from './getGroupedConnectors';
+
+/**
+ * Storage used to persist the connector history.
+ */
+export type ConnectorHistoryStorage = NovaStorage;
+
+/**
+ * Built-in storage backends, or a custom {@link ConnectorHistoryStorage}.
+ */
+export type ConnectorHistoryStorageOption = NovaStorageOption;
+
+/**
+ * Ordering of the wallets inside each section of the wallet list:
+ * - `recent`: most recently used first
+ * - `frequent`: most frequently used first (ties broken by recency)
+ * - `none`: default order
+ */
+export type ConnectorOrdering = 'recent' | 'frequent' | 'none';
+
+/**
+ * A connector in the history.
+ */
+export interface ConnectorHistoryEntry {
+  /** Connector type, e.g. `evm:metamask` */
+  connectorType: string;
+  /** Formatted connector name, e.g. `metamask` */
+  name: string;
+  /** Adapter the connector was last connected on */
+  adapter: OrbitAdapter;
+  /** Chain the connector was last connected to */
+  chainId?: string | number;
+  /** Timestamp of the last use (ms) */
+  lastUsedAt: number;
+  /** Number of connections */
+  useCount: number;
+}
+
+/**
+ * Connector history store.
+ */
+export interface ConnectorHistory {
+  /** All entries, most recently used first */
+  getEntries: () => ConnectorHistoryEntry[];
+  /**
+   * Records a connection. Pass `countUse: false` to only update the chain and timestamp
+   * (e.g. after a chain switch of the same connection).
+   */
+  record: (entry: { connectorType: string; chainId?: string | number }, options?: { countUse?: boolean }) => void;
+  /** Removes a connector from the history */
+  remove: (connectorType: string) => void;
+  /** Removes all entries */
+  clear: () => void;
+  /** Subscribes to changes. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for {@link createConnectorHistory}.
+ */
+export interface ConnectorHistoryOptions {
+  /**
+   * Where the history is persisted. `NovaConnectProvider` keeps the custom storage it was created with,
+   * so it can be declared inline; change `storageKey` to switch to another custom storage.
+   * @default 'localStorage'
+   */
+  storage?: ConnectorHistoryStorageOption;
+  /**
+   * Storage key (or cookie name).
+   * @default 'nova:connector-history'
+   */
+  storageKey?: string;
+  /**
+   * Maximum number of connectors kept. The least recently used are evicted first.
+   * @default 20
+   */
+  maxEntries?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'nova:connector-history';
+const DEFAULT_MAX_ENTRIES = 20;
+
+/**
+ * Checks the shape of a persisted entry.
+ */
+const isConnectorHistoryEntry = (entry: unknown): entry is ConnectorHistoryEntry =>
+  typeof (entry as ConnectorHistoryEntry)?.connectorType === 'string' &&
+  typeof (entry as ConnectorHistoryEntry)?.lastUsedAt === 'number';
+
+/**
+ * Creates a connector history store, optionally persisted to the given storage.
+ *
+ * @param options - {@link ConnectorHistoryOptions}
+ * @returns {ConnectorHistory} The history store.
+ *
+ * @example
+ * ```ts
+ * const history = createConnectorHistory({ storage: 'sessionStorage' });
+ * history.record({ connectorType: 'evm:metamask', chainId: 1 });
+ * history.getEntries(); // [{ connectorType: 'evm:metamask', name: 'metamask', adapter: 'evm', chainId: 1, useCount: 1, ... }]
+ * ```
+ */
+export function createConnectorHistory(options: ConnectorHistoryOptions = {}): ConnectorHistory {
+  const { storageKey = DEFAULT_STORAGE_KEY, maxEntries = DEFAULT_MAX_ENTRIES } = options;
+  const list = createPersistedList<ConnectorHistoryEntry>({
+    storage: options.storage ?? 'localStorage',
+    storageKey,
+    isValid: isConnectorHistoryEntry,
+    normalize: (entries) => [...entries].sort((a, b) => b.lastUsedAt - a.lastUsedAt).slice(0, maxEntries),
+  });
+
+  return {
+    getEntries: list.get,
+    record: ({ connectorType, chainId }, { countUse = true } = {}) => {
+      const [adapter, ...nameParts] = connectorType.split(':');
+      const entries = list.get();
+      const existing = entries.find((entry) => entry.connectorType === connectorType);
+      const entry: ConnectorHistoryEntry = {
+        connectorType,
+        name: formatConnectorName(nameParts.join(':') || connectorType),
+        adapter: adapter as OrbitAdapter,
+        chainId: chainId ?? existing?.chainId,
+        lastUsedAt: Date.now(),
+        useCount: (existing?.useCount ?? 0) + (countUse || !existing ? 1 : 0),
+      };
+      list.set([entry, ...entries.filter((item) => item !== existing)]);
+    },
+    remove: (connectorType) => list.set(list.get().filter((entry) => entry.connectorType !== connectorType)),
+    clear: () => list.set([]),
+    subscribe: list.subscribe,
+  };
+}
+
+/**
+ * Aggregates the history entries of a wallet across adapters.
+ */
+function getGroupUsage(group: GroupedConnector, entries: ConnectorHistoryEntry[]) {
+  const name = formatConnectorName(group.name);
+  return entries.reduce(
+    (usage, entry) =>
+      entry.name === name
+        ? { lastUsedAt: Math.max(usage.lastUsedAt, entry.lastUsedAt), useCount: usage.useCount + entry.useCount }
+        : usage,
+    { lastUsedAt: 0, useCount: 0 },
+  );
+}
+
+/**
+ * Sorts wallets by usage: used wallets first (by recency or frequency), then the rest in their original order.
+ *
+ * @param groups - Wallets to sort
+ * @param entries - Connector history entries
+ * @param ordering - {@link ConnectorOrdering}
+ * @returns {GroupedConnector[]} A new sorted array (the input array for `none`).
+ */
+export function sortConnectorsByHistory(
+  groups: GroupedConnector[],
+  entries: ConnectorHistoryEntry[],
+  ordering: ConnectorOrdering = 'recent',
+): GroupedConnector[] {
+  if (ordering === 'none' || !entries.length) return groups;
+
+  return groups
+    .map((group, index) => ({ group, index, usage: getGroupUsage(group, entries) }))
+    .sort((a, b) => {
+      if (ordering === 'frequent' && a.usage.useCount !== b.usage.useCount) {
+        return b.usage.useCount - a.usage.useCount;
+      }
+      return b.usage.lastUsedAt - a.usage.lastUsedAt || a.index - b.index;
+    })
+    .map(({ group }) => group);
+}
+
+/**
+ * Returns the most recently used wallets among the given ones, restricted to the adapter they were last used on.
+ *
+ * @param groups - Available wallets
+ * @param entries - Connector history entries
+ * @param limit - Maximum number of wallets
+ * @returns {GroupedConnector[]} Recent wallets, most recent first.
+ */
+export function getRecentConnectors(
+  groups: GroupedConnector[],
+  entries: ConnectorHistoryEntry[],
+  limit: number,
+): GroupedConnector[] {
+  const recent: GroupedConnector[] = [];
+
+  for (const entry of entries) {
+    if (recent.length >= limit) break;
+    const group = groups.find((item) => formatConnectorName(item.name) === entry.name);
+    if (!group || !group.adapters.includes(entry.adapter) || recent.some((item) => item.name === group.name)) continue;
+
+    recent.push({
+      ...group,
+      adapters: [entry.adapter],
+      connectors: group.connectors.filter((connector) => connector.adapter === entry.adapter),
+    });
+  }
+
+  return recent;
+}
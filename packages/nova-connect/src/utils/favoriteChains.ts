@@ -0,0 +1,99 @@
+/**
+ * @file Persistent list of networks pinned by the user in the chain selector.
+ */
+
+import { createPersistedList, NovaStorage, NovaStorageOption } from '@tuwaio/nova-core';
+
+/**
+ * Pinned networks store. Chains are identified by their formatted chain ID as a string (e.g. `1`, `solana:devnet`).
+ */
+export interface FavoriteChains {
+  /** Pinned chain IDs, in pinning order */
+  getFavorites: () => string[];
+  /** Pins or unpins a chain */
+  toggle: (chainId: string) => void;
+  /** Subscribes to changes. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for {@link createFavoriteChains}.
+ */
+export interface FavoriteChainsOptions {
+  /**
+   * Where the pinned networks are persisted.
+   * @default 'localStorage'
+   */
+  storage?: NovaStorageOption;
+  /**
+   * Storage key. Include a user identifier to keep separate lists per user.
+   * @default 'nova:favorite-chains'
+   */
+  storageKey?: string;
+  /** Chains pinned until the user changes the list */
+  defaultFavorites?: string[];
+}
+
+const DEFAULT_STORAGE_KEY = 'nova:favorite-chains';
+
+/**
+ * Creates a pinned networks store, optionally persisted to the given storage.
+ *
+ * @param options - {@link FavoriteChainsOptions}
+ * @returns {FavoriteChains} The store.
+ */
+export function createFavoriteChains(options: FavoriteChainsOptions = {}): FavoriteChains {
+  const { storageKey = DEFAULT_STORAGE_KEY, defaultFavorites = [] } = options;
+  const list = createPersistedList<string>({
+    storage: options.storage ?? 'localStorage',
+    storageKey,
+    normalize: (favorites) => favorites.map(String),
+    initialItems: defaultFavorites,
+    // An empty list is persisted so that the defaults don't come back
+    removeWhenEmpty: false,
+  });
+
+  return {
+    getFavorites: list.get,
+    toggle: (chainId) => {
+      const favorites = list.get();
+      list.set(
+        favorites.includes(chainId) ? favorites.filter((favorite) => favorite !== chainId) : [...favorites, chainId],
+      );
+    },
+    subscribe: list.subscribe,
+  };
+}
+
+// Stores shared by every chain selector using the same storage and key
+const sharedStores = new Map<string, FavoriteChains>();
+const customStorageStores = new WeakMap<NovaStorage, Map<string, FavoriteChains>>();
+
+/**
+ * Returns the pinned networks store of a storage and key, creating it on first use.
+ * Every chain selector using the same storage and key shares one store, so pinning a chain
+ * in one selector (e.g. the desktop dropdown) updates the others (e.g. the mobile dialog).
+ *
+ * @param options - {@link FavoriteChainsOptions}. `defaultFavorites` only applies when the store is created.
+ * @returns {FavoriteChains} The shared store.
+ */
+export function getFavoriteChains(options: FavoriteChainsOptions = {}): FavoriteChains {
+  const { storage = 'localStorage', storageKey = DEFAULT_STORAGE_KEY } = options;
+
+  let stores: Map<string, FavoriteChains>;
+  let cacheKey = storageKey;
+  if (typeof storage === 'object') {
+    stores = customStorageStores.get(storage) ?? new Map();
+    customStorageStores.set(storage, stores);
+  } else {
+    stores = sharedStores;
+    cacheKey = `${storage}:${storageKey}`;
+  }
+
+  let store = stores.get(cacheKey);
+  if (!store) {
+    store = createFavoriteChains(options);
+    stores.set(cacheKey, store);
+  }
+  return store;
+}
@@ -0,0 +1,123 @@
+/**
+ * @file Persistent address book of impersonated wallets: recently impersonated addresses with optional labels,
+ * listed in the `ImpersonateForm` for one-click re-impersonation.
+ */
+
+import { createPersistedList, NovaStorageOption } from '@tuwaio/nova-core';
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+
+/**
+ * An impersonated address.
+ */
+export interface ImpersonationHistoryEntry {
+  /** Impersonated address */
+  address: string;
+  /** Adapter the address was impersonated on */
+  adapter: OrbitAdapter;
+  /** User-defined label, e.g. "Treasury multisig" */
+  label?: string;
+  /** Timestamp of the last impersonation (ms) */
+  lastUsedAt: number;
+}
+
+/**
+ * Impersonation history store.
+ */
+export interface ImpersonationHistory {
+  /** All entries, most recently impersonated first */
+  getEntries: () => ImpersonationHistoryEntry[];
+  /** Records an impersonation, keeping the label of a known address. `label` is used when it has none. */
+  record: (entry: { address: string; adapter: OrbitAdapter; label?: string }) => void;
+  /** Sets the label of an address. An empty label removes it. */
+  setLabel: (address: string, label: string) => void;
+  /** Removes an address from the history */
+  remove: (address: string) => void;
+  /** Removes all entries */
+  clear: () => void;
+  /** Subscribes to changes. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for {@link createImpersonationHistory}.
+ */
+export interface ImpersonationHistoryOptions {
+  /**
+   * Where the history is persisted. `NovaConnectProvider` keeps the custom storage it was created with,
+   * so it can be declared inline; change `storageKey` to switch to another custom storage.
+   * @default 'localStorage'
+   */
+  storage?: NovaStorageOption;
+  /**
+   * Storage key (or cookie name).
+   * @default 'nova:impersonation-history'
+   */
+  storageKey?: string;
+  /**
+   * Maximum number of addresses kept. The least recently impersonated are evicted first.
+   * @default 12
+   */
+  maxEntries?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'nova:impersonation-history';
+const DEFAULT_MAX_ENTRIES = 12;
+
+/**
+ * Compares addresses, ignoring the case of EVM addresses.
+ */
+const isSameAddress = (a: string, b: string) =>
+  a.startsWith('0x') && b.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+/**
+ * Checks the shape of a persisted entry.
+ */
+const isImpersonationHistoryEntry = (entry: unknown): entry is ImpersonationHistoryEntry =>
+  typeof (entry as ImpersonationHistoryEntry)?.address === 'string' &&
+  typeof (entry as ImpersonationHistoryEntry)?.lastUsedAt === 'number';
+
+/**
+ * Creates an impersonation history store, optionally persisted to the given storage.
+ *
+ * @param options - {@link ImpersonationHistoryOptions}
+ * @returns {ImpersonationHistory} The history store.
+ *
+ * @example
+ * ```ts
+ * const history = createImpersonationHistory({ storage: 'sessionStorage' });
+ * history.record({ address: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045', adapter: OrbitAdapter.EVM });
+ * history.setLabel('0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045', 'Vitalik');
+ * ```
+ */
+export function createImpersonationHistory(options: ImpersonationHistoryOptions = {}): ImpersonationHistory {
+  const { storageKey = DEFAULT_STORAGE_KEY, maxEntries = DEFAULT_MAX_ENTRIES } = options;
+  const list = createPersistedList<ImpersonationHistoryEntry>({
+    storage: options.storage ?? 'localStorage',
+    storageKey,
+    isValid: isImpersonationHistoryEntry,
+    normalize: (entries) => [...entries].sort((a, b) => b.lastUsedAt - a.lastUsedAt).slice(0, maxEntries),
+  });
+
+  return {
+    getEntries: list.get,
+    record: ({ address, adapter, label }) => {
+      const entries = list.get();
+      const existing = entries.find((entry) => isSameAddress(entry.address, address));
+      list.set([
+        { address, adapter, label: existing?.label ?? (label?.trim() || undefined), lastUsedAt: Date.now() },
+        ...entries.filter((entry) => entry !== existing),
+      ]);
+    },
+    setLabel: (address, label) =>
+      list.set(
+        list
+          .get()
+          .map((entry) =>
+            isSameAddress(entry.address, address) ? { ...entry, label: label.trim() || undefined } : entry,
+          ),
+      ),
+    remove: (address) => list.set(list.get().filter((entry) => !isSameAddress(entry.address, address))),
+    clear: () => list.set([]),
+    subscribe: list.subscribe,
+  };
+}
@@ -181,6 +181,15 @@ export function isValidSolanaCluster(cluster: string): boolean {
  * These utilities provide general functionality for wallet and network management.
  */
 
+export * from './balanceStore';
+export * from './chainGroups';
+export * from './connectorHistory';
+export * from './favoriteChains';
 export * from './getConnectedChainId';
 export * from './getFilteredConnectors';
 export * from './getGroupedConnectors';
+export * from './impersonationHistory';
+export * from './prices';
+export * from './storage';
+export * from './tokenBalances';
+export * from './walletConnectUri';
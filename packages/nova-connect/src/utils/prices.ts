@@ -0,0 +1,208 @@
+/**
+ * @file Pluggable fiat price provider, a batched price cache with staleness, and fiat formatting helpers.
+ */
+
+/**
+ * Source of fiat prices. No external API is wired in: plug in your own backend, an aggregator,
+ * or {@link createStaticPriceProvider} for tests and Storybook.
+ */
+export interface PriceProvider {
+  /**
+   * Returns the price of one unit of each asset in the given currency.
+   * Assets are identified by symbol (native coins, e.g. "ETH") or token address; assets without a price are omitted.
+   *
+   * @param ids - Symbols or token addresses
+   * @param currency - ISO 4217 currency code (e.g., "USD")
+   */
+  getPrices: (ids: string[], currency: string) => Promise<Record<string, number>>;
+}
+
+/**
+ * Fiat valuation options of `NovaConnectProvider`.
+ */
+export interface PriceOptions {
+  /**
+   * ISO 4217 currency of the fiat values. It can be changed at runtime with `setFiatCurrency`,
+   * and a new value of this option replaces the selected currency.
+   * @default 'USD'
+   */
+  currency?: string;
+  /** Locale used to format the fiat values (default: the browser locale) */
+  locale?: string;
+  /**
+   * Time in ms after which a cached price is refetched.
+   * @default 60000
+   */
+  staleTime?: number;
+}
+
+/**
+ * A cached price.
+ */
+export interface PriceEntry {
+  /** Price of one unit of the asset */
+  price: number;
+  /** Timestamp of the fetch (ms) */
+  updatedAt: number;
+}
+
+/**
+ * Price cache shared by all fiat values of the provider.
+ */
+export interface PriceCache {
+  /** The cached price of an asset in a currency */
+  get: (id: string, currency: string) => PriceEntry | undefined;
+  /** Whether the price of an asset is missing or older than the stale time */
+  isStale: (id: string, currency: string) => boolean;
+  /**
+   * Requests the prices of assets. Requests made in the same tick are merged into a single
+   * `getPrices` call per currency; fresh and in-flight prices are not requested again.
+   */
+  request: (ids: string[], currency: string) => void;
+  /** Stale time of the cache (ms) */
+  staleTime: number;
+  /** Subscribes to price updates. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const DEFAULT_FIAT_CURRENCY = 'USD';
+const DEFAULT_STALE_TIME = 60_000;
+
+const getCacheKey = (id: string, currency: string) => `${currency}:${id}`;
+
+/**
+ * Creates a {@link PriceCache} reading through the given provider.
+ *
+ * @param provider - {@link PriceProvider}
+ * @param options - Stale time of the cached prices (default: 60 seconds)
+ * @returns {PriceCache} The price cache.
+ */
+export function createPriceCache(provider: PriceProvider, options: Pick<PriceOptions, 'staleTime'> = {}): PriceCache {
+  const { staleTime = DEFAULT_STALE_TIME } = options;
+  const entries = new Map<string, PriceEntry>();
+  const inFlight = new Set<string>();
+  const queue = new Map<string, Set<string>>();
+  const listeners = new Set<() => void>();
+  let isFlushScheduled = false;
+
+  const isStale = (id: string, currency: string) => {
+    const entry = entries.get(getCacheKey(id, currency));
+    return !entry || Date.now() - entry.updatedAt >= staleTime;
+  };
+
+  const fetchCurrency = async (currency: string, ids: string[]) => {
+    try {
+      const prices = await provider.getPrices(ids, currency);
+      const updatedAt = Date.now();
+      Object.entries(prices).forEach(([id, price]) => {
+        if (Number.isFinite(price)) entries.set(getCacheKey(id, currency), { price, updatedAt });
+      });
+      listeners.forEach((listener) => listener());
+    } catch (error) {
+      console.error(`Failed to fetch ${currency} prices for ${ids.join(', ')}:`, error);
+    } finally {
+      ids.forEach((id) => inFlight.delete(getCacheKey(id, currency)));
+    }
+  };
+
+  const flush = () => {
+    isFlushScheduled = false;
+    const batches = [...queue.entries()];
+    queue.clear();
+    batches.forEach(([currency, ids]) => fetchCurrency(currency, [...ids]));
+  };
+
+  return {
+    get: (id, currency) => entries.get(getCacheKey(id, currency)),
+    isStale,
+    request: (ids, currency) => {
+      ids.forEach((id) => {
+        const key = getCacheKey(id, currency);
+        if (inFlight.has(key) || !isStale(id, currency)) return;
+        inFlight.add(key);
+        const currencyQueue = queue.get(currency) ?? new Set<string>();
+        currencyQueue.add(id);
+        queue.set(currency, currencyQueue);
+      });
+      if (queue.size && !isFlushScheduled) {
+        isFlushScheduled = true;
+        queueMicrotask(flush);
+      }
+    },
+    staleTime,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Creates a {@link PriceProvider} returning fixed prices, for tests, Storybook and local development.
+ * Prices are given per asset either as a single number (same price in every currency) or per currency.
+ * Native coins are priced by symbol and tokens by address, both matched case-insensitively.
+ *
+ * @param prices - Prices by symbol or token address
+ * @param options - Artificial `delay` of the responses in ms (default: 0)
+ * @returns {PriceProvider} The static provider.
+ *
+ * @example
+ * ```ts
+ * const priceProvider = createStaticPriceProvider(
+ *   { ETH: { USD: 3200, EUR: 2950 }, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': 1 },
+ *   { delay: 300 },
+ * );
+ * ```
+ */
+export function createStaticPriceProvider(
+  prices: Record<string, number | Record<string, number>>,
+  options: { delay?: number } = {},
+): PriceProvider {
+  const normalizedPrices = new Map(Object.entries(prices).map(([id, price]) => [id.toUpperCase(), price]));
+
+  return {
+    getPrices: async (ids, currency) => {
+      if (options.delay) await new Promise((resolve) => setTimeout(resolve, options.delay));
+      return ids.reduce<Record<string, number>>((result, id) => {
+        const price = prices[id] ?? normalizedPrices.get(id.toUpperCase());
+        const value = typeof price === 'number' ? price : price?.[currency];
+        if (value !== undefined) result[id] = value;
+        return result;
+      }, {});
+    },
+  };
+}
+
+/**
+ * Parses a formatted balance (e.g., "1,250.5") into a number.
+ *
+ * @param value - Formatted balance
+ * @returns {number | undefined} The amount, or `undefined` when it is not a number.
+ */
+export function parseBalanceValue(value: string): number | undefined {
+  const amount = Number(value.replace(/,/g, ''));
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Formats a fiat amount with the currency symbol of the locale (e.g., "$1,234.56").
+ *
+ * @param amount - Fiat amount
+ * @param currency - ISO 4217 currency code
+ * @param locale - Formatting locale (default: the browser locale)
+ * @returns {string} The formatted amount.
+ */
+export function formatFiatValue(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: amount !== 0 && Math.abs(amount) < 1 ? 4 : 2,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * @file Re-exports the pluggable storage of `@tuwaio/nova-core`, used to persist the connector history,
+ * pinned networks and impersonated addresses.
+ */
+
+export type { NovaStorage, NovaStorageOption } from '@tuwaio/nova-core';
+export { createCookieStorage, resolveStorage } from '@tuwaio/nova-core';
@@ -0,0 +1,121 @@
+/**
+ * @file Token (ERC-20 / SPL) balances configuration, batched reading through the app's reader and formatting.
+ */
+
+/**
+ * A token whose balance is shown for the connected wallet.
+ */
+export interface TokenConfig {
+  /** Token contract address (EVM) or mint address (Solana) */
+  address: string;
+  /** Number of decimals of the token */
+  decimals: number;
+  /** Token symbol (e.g., "USDC") */
+  symbol: string;
+  /** Token name, used for accessibility labels */
+  name?: string;
+  /** Token icon URL */
+  icon?: string;
+}
+
+/**
+ * Balance of a configured token.
+ */
+export interface TokenBalance extends TokenConfig {
+  /** Balance formatted with the token decimals (e.g., "1,250.5") */
+  value: string;
+  /** Raw balance in the smallest unit of the token */
+  raw: bigint;
+}
+
+/**
+ * Reads the balances of several tokens of one chain in a single call.
+ * Returns the raw balances (smallest unit) in the order of `tokens`; `null` marks a failed read.
+ */
+export type TokenBalancesReader = (params: {
+  address: string;
+  chainId: string | number;
+  tokens: TokenConfig[];
+}) => Promise<(bigint | string | null)[]>;
+
+/**
+ * Token balances configuration of `NovaConnectProvider`.
+ */
+export interface TokenBalancesConfig {
+  /** Tokens per chain, keyed by the chain id of the active connection */
+  tokens: Record<string | number, TokenConfig[]>;
+  /**
+   * Batched reader of the balances, e.g. a multicall of `balanceOf` on EVM or `getTokenAccountsByOwner` on Solana.
+   * The chain adapters don't read token balances, so the app provides the reader.
+   */
+  readBalances: TokenBalancesReader;
+  /**
+   * Whether tokens with a zero balance are hidden.
+   * @default false
+   */
+  hideZeroBalances?: boolean;
+  /**
+   * Maximum number of fraction digits of the formatted balances.
+   * @default 4
+   */
+  maxFractionDigits?: number;
+}
+
+/**
+ * Returns the tokens configured for a chain.
+ *
+ * @param config - {@link TokenBalancesConfig}
+ * @param chainId - Chain id of the active connection
+ * @returns {TokenConfig[]} The configured tokens, empty when none are configured.
+ */
+export function getChainTokens(
+  config: TokenBalancesConfig | undefined,
+  chainId: string | number | undefined,
+): TokenConfig[] {
+  if (!config || chainId === undefined) return [];
+  return config.tokens[chainId] ?? [];
+}
+
+/**
+ * Formats a raw token amount with its decimals, trimming trailing zeros.
+ *
+ * @param raw - Amount in the smallest unit of the token
+ * @param decimals - Number of decimals of the token
+ * @param maxFractionDigits - Maximum number of fraction digits (default: 4)
+ * @returns {string} The formatted amount (e.g., "1,250.5").
+ */
+export function formatTokenAmount(raw: bigint, decimals: number, maxFractionDigits = 4): string {
+  const negative = raw < 0n;
+  const absolute = negative ? -raw : raw;
+  const base = 10n ** BigInt(decimals);
+  const integer = (absolute / base).toLocaleString('en-US');
+  const fraction = (absolute % base).toString().padStart(decimals, '0').slice(0, maxFractionDigits).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Reads the balances of all tokens of a chain in one batched call and formats them.
+ * Tokens whose read failed are skipped.
+ *
+ * @param reader - {@link TokenBalancesReader}
+ * @param params - Wallet address, chain id and configured tokens
+ * @param config - {@link TokenBalancesConfig}
+ * @returns {Promise<TokenBalance[]>} The token balances, in the configured order.
+ */
+export async function readTokenBalances(
+  reader: TokenBalancesReader,
+  params: { address: string; chainId: string | number; tokens: TokenConfig[] },
+  config?: Pick<TokenBalancesConfig, 'hideZeroBalances' | 'maxFractionDigits'>,
+): Promise<TokenBalance[]> {
+  if (!params.tokens.length) return [];
+  const rawBalances = await reader(params);
+
+  return params.tokens.flatMap((token, index) => {
+    const rawBalance = rawBalances[index];
+    if (rawBalance === null || rawBalance === undefined) return [];
+    const raw = BigInt(rawBalance);
+    if (config?.hideZeroBalances && raw === 0n) return [];
+    return [{ ...token, raw, value: formatTokenAmount(raw, token.decimals, config?.maxFractionDigits) }];
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * @file Utilities for the WalletConnect pairing URI ("display URI") emitted by connectors while connecting.
+ */
+
+/**
+ * Subscribes to the display URIs of a connector.
+ * @returns Unsubscribe function
+ */
+export type SubscribeToDisplayUri = (connector: unknown, onUri: (uri: string) => void) => () => void;
+
+/**
+ * A wallet app that can open a WalletConnect URI through a deep link on mobile.
+ */
+export interface MobileWalletLink {
+  /** Wallet identifier, used for the icon (e.g. `metamask`). */
+  id: string;
+  /** Display name. */
+  name: string;
+  /** Builds the deep link for a WalletConnect URI. */
+  getUrl: (uri: string) => string;
+}
+
+type EventTarget = {
+  on?: (event: string, listener: (payload: never) => void) => unknown;
+  off?: (event: string, listener: (payload: never) => void) => unknown;
+  removeListener?: (event: string, listener: (payload: never) => void) => unknown;
+};
+
+/**
+ * Default subscription to a connector's display URI. Supports:
+ * - wagmi-style connectors, which emit `{ type: 'display_uri', data }` on `connector.emitter` (`message` event);
+ * - WalletConnect providers (from `connector.getProvider()`), which emit a `display_uri` event.
+ *
+ * Connectors that expose neither never produce a URI, so the QR code is simply not shown for them.
+ */
+export const subscribeToDisplayUri: SubscribeToDisplayUri = (connector, onUri) => {
+  if (!connector || typeof connector !== 'object') return () => {};
+
+  const source = connector as EventTarget & {
+    emitter?: EventTarget;
+    getProvider?: () => Promise<unknown>;
+    id?: unknown;
+    type?: unknown;
+    name?: unknown;
+  };
+  const cleanups: (() => void)[] = [];
+  let isActive = true;
+
+  const listen = <T>(target: EventTarget | undefined, event: string, listener: (payload: T) => void) => {
+    if (typeof target?.on !== 'function') return;
+    target.on(event, listener as (payload: never) => void);
+    cleanups.push(() => {
+      const off = target.off ?? target.removeListener;
+      off?.call(target, event, listener as (payload: never) => void);
+    });
+  };
+
+  listen<{ type?: string; data?: unknown }>(source.emitter, 'message', (message) => {
+    if (message?.type === 'display_uri' && typeof message.data === 'string') onUri(message.data);
+  });
+
+  // Only WalletConnect connectors are asked for their provider, as it may initialize other SDKs
+  const isWalletConnect = [source.id, source.type, source.name].some(
+    (value) => typeof value === 'string' && /wallet\s?connect/i.test(value),
+  );
+  if (isWalletConnect && typeof source.getProvider === 'function') {
+    source
+      .getProvider()
+      .then((provider) => {
+        if (!isActive) return;
+        listen<unknown>(provider as EventTarget, 'display_uri', (uri) => {
+          if (typeof uri === 'string') onUri(uri);
+        });
+      })
+      .catch(() => undefined);
+  }
+
+  return () => {
+    isActive = false;
+    cleanups.forEach((cleanup) => cleanup());
+  };
+};
+
+/**
+ * Reads the expiry of a WalletConnect v2 pairing URI (`expiryTimestamp` parameter, in seconds).
+ *
+ * @param uri - The WalletConnect URI
+ * @returns Expiry as a millisecond timestamp, or `undefined` if the URI has none
+ */
+export function getDisplayUriExpiry(uri: string): number | undefined {
+  const match = /[?&]expiryTimestamp=(\d+)/.exec(uri);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * Default wallets offered as deep links on mobile.
+ */
+export const defaultMobileWalletLinks: MobileWalletLink[] = [
+  {
+    id: 'metamask',
+    name: 'MetaMask',
+    getUrl: (uri) => `https://metamask.app.link/wc?uri=${encodeURIComponent(uri)}`,
+  },
+  {
+    id: 'trust',
+    name: 'Trust Wallet',
+    getUrl: (uri) => `https://link.trustwallet.com/wc?uri=${encodeURIComponent(uri)}`,
+  },
+  {
+    id: 'rainbow',
+    name: 'Rainbow',
+    getUrl: (uri) => `https://rnbwapp.com/wc?uri=${encodeURIComponent(uri)}`,
+  },
+  {
+    id: 'zerion',
+    name: 'Zerion',
+    getUrl: (uri) => `https://app.zerion.io/wc?uri=${encodeURIComponent(uri)}`,
+  },
+];
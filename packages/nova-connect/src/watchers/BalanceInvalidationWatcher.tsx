@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Headless watcher that invalidates cached balances once a transaction of their wallet succeeds.
+ */
+
+import { Transaction, TransactionPool, TransactionStatus } from '@tuwaio/pulsar-core';
+import { useEffect, useRef } from 'react';
+
+import { BalanceStore } from '../utils/balanceStore';
+
+/**
+ * Props for BalanceInvalidationWatcher component.
+ */
+export interface BalanceInvalidationWatcherProps {
+  /** Balance store whose entries are invalidated */
+  store: BalanceStore;
+  /** Pulsar transaction pool to watch */
+  transactionPool?: TransactionPool<Transaction>;
+}
+
+/**
+ * Headless React component rendered inside `NovaConnectProvider`.
+ * Invalidates the cached balances of a wallet when one of its transactions transitions to success,
+ * so mounted balance displays refetch them. Transactions already successful when first seen are ignored.
+ */
+export function BalanceInvalidationWatcher({ store, transactionPool }: BalanceInvalidationWatcherProps) {
+  const prevPoolRef = useRef(transactionPool);
+
+  useEffect(() => {
+    const prevPool = prevPoolRef.current;
+    prevPoolRef.current = transactionPool;
+    if (!transactionPool || !prevPool || prevPool === transactionPool) return;
+
+    Object.values(transactionPool).forEach((tx) => {
+      if (!tx?.from || tx.status !== TransactionStatus.Success) return;
+      const prevTx = prevPool[tx.txKey];
+      if (!prevTx || prevTx.status === TransactionStatus.Success) return;
+      store.getState().invalidate(tx.from);
+    });
+  }, [store, transactionPool]);
+
+  return null;
+}
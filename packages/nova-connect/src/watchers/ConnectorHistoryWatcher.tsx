@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Headless watcher that records wallet connections in the connector history.
+ */
+
+import { useEffect, useRef } from 'react';
+
+import { useSatelliteConnectStore } from '../satellite';
+import { ConnectorHistory } from '../utils/connectorHistory';
+
+/**
+ * Props for ConnectorHistoryWatcher component.
+ */
+export interface ConnectorHistoryWatcherProps {
+  /** History store the connections are recorded in */
+  history: ConnectorHistory;
+}
+
+/**
+ * Headless React component rendered inside `NovaConnectProvider`.
+ * Records every new connection (connector, adapter and chain) in the connector history.
+ * Chain switches of the same connection only update the recorded chain, without counting as a new use.
+ */
+export function ConnectorHistoryWatcher({ history }: ConnectorHistoryWatcherProps) {
+  const activeConnection = useSatelliteConnectStore((s) => s.activeConnection);
+  const lastConnectorType = useRef<string | null>(null);
+
+  const isConnected = !!activeConnection?.isConnected;
+  const connectorType = activeConnection?.connectorType ? String(activeConnection.connectorType) : undefined;
+  const chainId = activeConnection?.chainId as string | number | undefined;
+
+  useEffect(() => {
+    if (!isConnected || !connectorType) {
+      lastConnectorType.current = null;
+      return;
+    }
+
+    history.record({ connectorType, chainId }, { countUse: lastConnectorType.current !== connectorType });
+    lastConnectorType.current = connectorType;
+  }, [history, isConnected, connectorType, chainId]);
+
+  return null;
+}
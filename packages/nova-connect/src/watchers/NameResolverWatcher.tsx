@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Headless watcher that registers the name services of the wallet adapters in the name resolver registry.
+ */
+
+import {
+  isEvmAddress,
+  isSolanaAddress,
+  NameResolver,
+  useNameResolverRegistry,
+  useRegisterNameResolvers,
+} from '@tuwaio/nova-core';
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+import { useEffect } from 'react';
+
+import { useSatelliteConnectStore } from '../satellite';
+
+/**
+ * Props for NameResolverWatcher component.
+ */
+export interface NameResolverWatcherProps {
+  /** Additional resolvers (ENS, SNS, Basenames, a custom directory…) registered next to the adapters' name services */
+  resolvers?: NameResolver[];
+}
+
+type AdapterNameService = {
+  getName?: (address: string) => Promise<string | null | undefined>;
+  getAvatar?: (name: string) => Promise<string | null | undefined>;
+};
+
+/**
+ * Creates the lowest-priority resolver, backed by the `getName` / `getAvatar` methods of the satellite adapters.
+ * EVM addresses are resolved through the EVM adapter and Solana addresses through the Solana adapter.
+ */
+const createAdapterNameResolver = (getAdapter: (adapter: OrbitAdapter) => unknown): NameResolver => {
+  const getNameService = (address: string): AdapterNameService | null => {
+    const adapterType = isEvmAddress(address)
+      ? OrbitAdapter.EVM
+      : isSolanaAddress(address)
+        ? OrbitAdapter.SOLANA
+        : undefined;
+    return adapterType ? ((getAdapter(adapterType) as AdapterNameService | undefined) ?? null) : null;
+  };
+
+  return {
+    id: 'adapter',
+    priority: 0,
+    supports: (address) => typeof getNameService(address)?.getName === 'function',
+    resolveName: async (address) => (await getNameService(address)?.getName?.(address)) ?? null,
+    resolveAvatar: async (name, address) => (await getNameService(address)?.getAvatar?.(name)) ?? null,
+  };
+};
+
+/**
+ * Headless React component rendered inside `NovaConnectProvider`.
+ * Registers the adapters' name services, and the `nameResolvers` of the provider, in the registry of the
+ * closest `NameResolverProvider` (or the default registry), so `useResolvedName` can resolve any address.
+ */
+export function NameResolverWatcher({ resolvers }: NameResolverWatcherProps) {
+  const registry = useNameResolverRegistry();
+  const getAdapter = useSatelliteConnectStore((store) => store.getAdapter);
+
+  useEffect(() => {
+    return registry.register(createAdapterNameResolver(getAdapter));
+  }, [registry, getAdapter]);
+
+  useRegisterNameResolvers(registry, resolvers);
+
+  return null;
+}
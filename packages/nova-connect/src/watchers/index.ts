@@ -1 +1,4 @@
+export * from './BalanceInvalidationWatcher';
+export * from './ConnectorHistoryWatcher';
+export * from './NameResolverWatcher';
 export * from './NovaSiwxWatcher';
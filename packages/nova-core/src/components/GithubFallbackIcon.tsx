@@ -1,32 +1,38 @@
 import { ComponentProps, useEffect, useState } from 'react';
 
+import { useIconSource } from '../providers/IconSourceProvider';
+import { IconResolver } from '../utils/iconResolvers';
 import { svgToBase64 } from '../utils/svgUtils';
 import { FallbackIcon } from './FallbackIcon';
 import { SvgImg } from './SvgImg';
 
 /**
- * Base URL for fetching raw SVG icons from the web3icons GitHub repository.
- */
-const GITHUB_RAW_URL = 'https://raw.githubusercontent.com/0xa3k5/web3icons/refs/heads/main/raw-svgs';
-
-/**
- * In-memory cache for fetched SVG icons.
- * Key: `${githubSrc}|${firstPathFill ?? ''}` → Value: base64 encoded SVG
- * Persists until page reload.
+ * Loading state for the icon fetch operation.
  */
-const svgCache = new Map<string, string>();
+type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 
 /**
- * Loading state for the icon fetch operation.
+ * Tries each resolver in order and returns the first icon found.
  */
-type LoadingState = 'idle' | 'loading' | 'success' | 'error';
+async function resolveIcon(resolvers: IconResolver[], path: string): Promise<string | null> {
+  for (const resolver of resolvers) {
+    try {
+      const svg = await resolver.resolve(path);
+      if (svg) return svg;
+    } catch {
+      // Fall through to the next resolver
+    }
+  }
+  return null;
+}
 
 /**
  * Props for the GithubFallbackIcon component.
  */
 interface GithubFallbackIconProps extends Omit<ComponentProps<'img'>, 'src'> {
   /**
-   * Path to the SVG file within the web3icons repository.
+   * Path to the SVG file within the web3icons repository layout.
+   * Passed to every resolver from the nearest `IconSourceProvider`.
    * @example "networks/background/ethereum.svg"
    */
   githubSrc: string;
@@ -38,7 +44,8 @@ interface GithubFallbackIconProps extends Omit<ComponentProps<'img'>, 'src'> {
 }
 
 /**
- * Fetches and displays an SVG icon from the web3icons GitHub repository.
+ * Loads and displays an SVG icon through the resolvers of the nearest `IconSourceProvider`
+ * (the web3icons GitHub repository by default).
  *
  * Used as a fallback when the bundled `@web3icons/react` library
  * doesn't have a specific icon available.
@@ -47,8 +54,9 @@ interface GithubFallbackIconProps extends Omit<ComponentProps<'img'>, 'src'> {
  * @returns Loading indicator, the fetched icon, or an error fallback
  */
 export function GithubFallbackIcon({ githubSrc, className, alt, firstPathFill, ...props }: GithubFallbackIconProps) {
+  const { resolvers, cache } = useIconSource();
   const cacheKey = `${githubSrc}|${firstPathFill ?? ''}`;
-  const cachedImgSrc = svgCache.get(cacheKey);
+  const cachedImgSrc = cache.get(cacheKey);
 
   const [fetchedImgSrc, setFetchedImgSrc] = useState<string | null>(null);
   const [fetchState, setFetchState] = useState<LoadingState>('idle');
@@ -60,7 +68,14 @@ export function GithubFallbackIcon({ githubSrc, className, alt, firstPathFill, .
     let isMounted = true;
 
     // Check cache first (might be loaded by another instance)
-    if (svgCache.has(cacheKey)) {
+    if (cache.has(cacheKey)) {
+      return;
+    }
+
+    // Nothing to resolve from (e.g., remote fetching disabled without local sources)
+    if (resolvers.length === 0) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setFetchState('error');
       return;
     }
 
@@ -68,18 +83,17 @@ export function GithubFallbackIcon({ githubSrc, className, alt, firstPathFill, .
       setFetchState('loading');
 
       try {
-        const response = await fetch(`${GITHUB_RAW_URL}/${githubSrc}`);
+        const svg = await resolveIcon(resolvers, githubSrc);
 
-        if (!response.ok) {
-          throw new Error(`Failed to load icon: ${response.status}`);
+        if (!svg) {
+          throw new Error(`Failed to load icon: ${githubSrc}`);
         }
 
-        const svg = await response.text();
-
         if (isMounted) {
-          const base64Svg = svgToBase64(svg, firstPathFill);
+          // Resolvers may return ready-to-use data URLs (fill cannot be applied to those)
+          const base64Svg = svg.startsWith('data:') ? svg : svgToBase64(svg, firstPathFill);
           // Cache the result
-          svgCache.set(cacheKey, base64Svg);
+          cache.set(cacheKey, base64Svg);
           setFetchedImgSrc(base64Svg);
           setFetchState('success');
         }
@@ -95,7 +109,7 @@ export function GithubFallbackIcon({ githubSrc, className, alt, firstPathFill, .
     return () => {
       isMounted = false;
     };
-  }, [githubSrc, firstPathFill, cacheKey]);
+  }, [githubSrc, firstPathFill, cacheKey, resolvers, cache]);
 
   if (state === 'loading' || state === 'idle') {
     return <FallbackIcon animate className={className} />;
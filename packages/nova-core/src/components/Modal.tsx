@@ -1,10 +1,44 @@
 import * as DialogPrimitive from '@radix-ui/react-dialog';
-import { AnimatePresence, motion, Variants } from 'framer-motion';
+import { animate, AnimatePresence, motion, PanInfo, useDragControls, useMotionValue, Variants } from 'framer-motion';
 import * as React from 'react';
 
-import { cn, isTouchDevice } from '../utils';
+import { useModalStack } from '../hooks/useModalStack';
+import { useNovaTheme } from '../providers/NovaThemeProvider';
+import { cn, getModalZIndex, isTopmostModal, isTouchDevice, lockModalScroll, pushModal, removeModal } from '../utils';
+
+/**
+ * Shares the `onOpenChange` of a `Dialog` with its `DialogContent`, so the modal stack can close it.
+ */
+type DialogState = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const DialogStateContext = React.createContext<DialogState | undefined>(undefined);
+
+const Dialog = ({ open, defaultOpen, onOpenChange, ...props }: DialogPrimitive.DialogProps) => {
+  // Uncontrolled dialogs are tracked here too, so the content knows when to join the modal stack
+  const [uncontrolledOpen, setUncontrolledOpen] = React.useState(defaultOpen ?? false);
+  const isOpen = open ?? uncontrolledOpen;
+
+  const handleOpenChange = React.useCallback(
+    (nextOpen: boolean) => {
+      if (open === undefined) setUncontrolledOpen(nextOpen);
+      onOpenChange?.(nextOpen);
+    },
+    [open, onOpenChange],
+  );
+
+  const state = React.useMemo(() => ({ open: isOpen, onOpenChange: handleOpenChange }), [isOpen, handleOpenChange]);
+
+  return (
+    <DialogStateContext.Provider value={state}>
+      <DialogPrimitive.Root open={isOpen} onOpenChange={handleOpenChange} {...props} />
+    </DialogStateContext.Provider>
+  );
+};
+Dialog.displayName = DialogPrimitive.Root.displayName;
 
-const Dialog = DialogPrimitive.Root;
 const DialogTrigger = DialogPrimitive.Trigger;
 const DialogPortal = DialogPrimitive.Portal;
 const DialogClose = DialogPrimitive.Close;
@@ -33,23 +67,57 @@ const mobileModalAnimation: Variants = {
   },
 };
 
+const sheetAnimation: Variants = {
+  initial: { y: '100%' },
+  animate: { y: '0%' },
+  exit: {
+    y: '100%',
+    transition: {
+      duration: 0.2,
+    },
+  },
+};
+
+const drawerLeftAnimation: Variants = {
+  initial: { x: '-100%' },
+  animate: { x: '0%' },
+  exit: {
+    x: '-100%',
+    transition: {
+      duration: 0.2,
+    },
+  },
+};
+
+const drawerRightAnimation: Variants = {
+  initial: { x: '100%' },
+  animate: { x: '0%' },
+  exit: {
+    x: '100%',
+    transition: {
+      duration: 0.2,
+    },
+  },
+};
+
 const defaultModalBackdropAnimation: Variants = {
   initial: { opacity: 0 },
   animate: { opacity: 1 },
   exit: { opacity: 0 },
 };
 
-const DialogOverlay = ({ className, backdropAnimation }: { backdropAnimation?: Variants; className?: string }) => {
-  React.useEffect(() => {
-    if (typeof window !== 'undefined') {
-      window.document.body.classList.add('NovaModalOpen');
-    }
-    return () => {
-      if (typeof window !== 'undefined') {
-        window.document.body.classList.remove('NovaModalOpen');
-      }
-    };
-  }, []);
+const DialogOverlay = ({
+  className,
+  backdropAnimation,
+  zIndex,
+}: {
+  backdropAnimation?: Variants;
+  className?: string;
+  zIndex?: number;
+}) => {
+  // Consumers rely on the `NovaModalOpen` class of `<body>` for scroll locking and styling
+  React.useEffect(() => lockModalScroll(), []);
+
   return (
     <AnimatePresence>
       <motion.div
@@ -59,12 +127,14 @@ const DialogOverlay = ({ className, backdropAnimation }: { backdropAnimation?: V
         initial="initial"
         exit="exit"
         className="novacore:relative novacore:overflow-hidden"
+        style={{ zIndex }}
       >
         <div
           className={cn(
             'novacore:fixed novacore:inset-0 novacore:z-50 novacore:bg-black/55 novacore:backdrop-blur-sm novacore:backdrop-saturate-150',
             className,
           )}
+          style={{ zIndex }}
         />
       </motion.div>
     </AnimatePresence>
@@ -72,69 +142,363 @@ const DialogOverlay = ({ className, backdropAnimation }: { backdropAnimation?: V
 };
 DialogOverlay.displayName = DialogPrimitive.Overlay.displayName;
 
-const DialogContent = React.forwardRef<
-  React.ElementRef<typeof DialogPrimitive.Content>,
-  React.ComponentPropsWithoutRef<typeof DialogPrimitive.Content> & {
-    modalAnimation?: Variants;
-    backdropAnimation?: Variants;
-  }
->(({ className, children, modalAnimation, backdropAnimation, ...props }, ref) => {
-  const [isMobile, setIsMobile] = React.useState(false);
+/**
+ * Layout of `DialogContent`:
+ * - `modal` – centered dialog (slides up from the bottom on touch devices).
+ * - `sheet` – bottom sheet with a grab handle, snap points and drag-to-dismiss.
+ * - `drawer-left` / `drawer-right` – full-height side panel, dismissed by dragging it out of the screen.
+ */
+export type DialogVariant = 'modal' | 'sheet' | 'drawer-left' | 'drawer-right';
 
-  React.useEffect(() => {
-    // eslint-disable-next-line react-hooks/set-state-in-effect
-    setIsMobile(isTouchDevice());
-  }, []);
+/** Options shared by the `sheet` and `drawer-*` variants. */
+type DialogPanelOptions = {
+  /**
+   * Sheet heights as fractions of the viewport height (e.g. `[0.5, 1]`).
+   * The sheet is as tall as the largest one and settles on the closest one after a drag.
+   * Without snap points the sheet is as tall as its content.
+   */
+  snapPoints?: number[];
+  /** Index (in ascending order) of the snap point the sheet opens at. Defaults to the largest one. */
+  defaultSnapPoint?: number;
+  /** Called with the index of the snap point the sheet settled on after a drag. */
+  onSnapPointChange?: (index: number) => void;
+  /**
+   * Whether dragging the panel out of the screen closes the dialog.
+   * @default true
+   */
+  dragToDismiss?: boolean;
+  /**
+   * Whether to render the grab handle of the `sheet` variant.
+   * @default true
+   */
+  showGrabHandle?: boolean;
+};
 
-  const selectedAnimation = modalAnimation ?? (isMobile ? mobileModalAnimation : defaultModalAnimation);
+/** Fraction of the panel size it has to be dragged out to be dismissed. */
+const DRAG_DISMISS_THRESHOLD = 0.3;
+/** Drag velocity (px/s) that dismisses the panel regardless of the distance. */
+const DRAG_DISMISS_VELOCITY = 500;
+const panelSpring = { type: 'spring', stiffness: 400, damping: 40 } as const;
 
-  return (
-    <DialogPortal>
-      <DialogOverlay backdropAnimation={backdropAnimation} />
+const variantClasses: Record<DialogVariant, string> = {
+  modal:
+    'novacore:bottom-0 novacore:left-0 novacore:p-0 novacore:sm:bottom-auto novacore:sm:left-[50%] novacore:sm:top-[50%] novacore:sm:translate-x-[-50%] novacore:sm:translate-y-[-50%] novacore:sm:p-4',
+  sheet: 'novacore:bottom-0 novacore:inset-x-0 novacore:mx-auto novacore:p-0',
+  'drawer-left': 'novacore:inset-y-0 novacore:left-0 novacore:max-w-[85vw] novacore:p-0',
+  'drawer-right': 'novacore:inset-y-0 novacore:right-0 novacore:max-w-[85vw] novacore:p-0',
+};
+
+const panelClasses: Record<Exclude<DialogVariant, 'modal'>, string> = {
+  sheet:
+    'novacore:rounded-t-[var(--tuwa-rounded-corners)] novacore:border-b-0 novacore:pb-[env(safe-area-inset-bottom)]',
+  'drawer-left':
+    'novacore:h-[100dvh] novacore:rounded-r-[var(--tuwa-rounded-corners)] novacore:border-l-0 novacore:pt-[env(safe-area-inset-top)] novacore:pb-[env(safe-area-inset-bottom)] novacore:pl-[env(safe-area-inset-left)]',
+  'drawer-right':
+    'novacore:h-[100dvh] novacore:rounded-l-[var(--tuwa-rounded-corners)] novacore:border-r-0 novacore:pt-[env(safe-area-inset-top)] novacore:pb-[env(safe-area-inset-bottom)] novacore:pr-[env(safe-area-inset-right)]',
+};
+
+const panelAnimations: Record<Exclude<DialogVariant, 'modal'>, Variants> = {
+  sheet: sheetAnimation,
+  'drawer-left': drawerLeftAnimation,
+  'drawer-right': drawerRightAnimation,
+};
+
+/**
+ * The draggable surface of the `sheet` and `drawer-*` variants.
+ */
+const DialogPanel = ({
+  variant,
+  snapPoints,
+  defaultSnapPoint,
+  onSnapPointChange,
+  dragToDismiss = true,
+  showGrabHandle = true,
+  onDismiss,
+  children,
+}: DialogPanelOptions & {
+  variant: Exclude<DialogVariant, 'modal'>;
+  onDismiss: () => void;
+  children: React.ReactNode;
+}) => {
+  const axis = variant === 'sheet' ? 'y' : 'x';
+  // Direction (along the axis) in which the panel leaves the screen
+  const dismissDirection = variant === 'drawer-left' ? -1 : 1;
+
+  const panelRef = React.useRef<HTMLDivElement>(null);
+  const dragControls = useDragControls();
+  const sortedSnapPoints = React.useMemo(
+    () => (variant === 'sheet' && snapPoints?.length ? [...snapPoints].sort((a, b) => a - b) : undefined),
+    [variant, snapPoints],
+  );
+  const largestSnapPoint = sortedSnapPoints?.[sortedSnapPoints.length - 1] ?? 1;
+
+  // Vertical offset of a snap point relative to the fully opened sheet
+  const getSnapOffset = (index: number) =>
+    sortedSnapPoints ? (largestSnapPoint - sortedSnapPoints[index]) * window.innerHeight : 0;
+
+  const offset = useMotionValue(
+    sortedSnapPoints && typeof window !== 'undefined'
+      ? getSnapOffset(Math.min(defaultSnapPoint ?? sortedSnapPoints.length - 1, sortedSnapPoints.length - 1))
+      : 0,
+  );
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+    // Let scrolled content scroll back up before the sheet starts moving
+    const scroller = target.closest('.NovaDialogContent__elements');
+    if (axis === 'y' && scroller && scroller.scrollTop > 0 && !target.closest('[data-nova-grab-handle]')) return;
 
-      <DialogPrimitive.Content
-        aria-describedby="tuwa:modal-content"
-        ref={ref}
+    dragControls.start(event);
+  };
+
+  const handleDragEnd = (_: PointerEvent | MouseEvent | TouchEvent, info: PanInfo) => {
+    const size = (axis === 'y' ? panelRef.current?.offsetHeight : panelRef.current?.offsetWidth) ?? 0;
+    const position = offset.get();
+    const velocity = info.velocity[axis];
+
+    if (!sortedSnapPoints) {
+      const distance = position * dismissDirection;
+      if (
+        dragToDismiss &&
+        (distance > size * DRAG_DISMISS_THRESHOLD || velocity * dismissDirection > DRAG_DISMISS_VELOCITY)
+      ) {
+        onDismiss();
+        return;
+      }
+      animate(offset, 0, panelSpring);
+      return;
+    }
+
+    // Project the release position a little ahead to respect the flick direction
+    const projected = position + velocity * 0.2;
+    const snapOffsets = sortedSnapPoints.map((_, index) => getSnapOffset(index));
+    const smallestSheetHeight = sortedSnapPoints[0] * window.innerHeight;
+
+    if (dragToDismiss && projected > snapOffsets[0] + smallestSheetHeight * DRAG_DISMISS_THRESHOLD) {
+      onDismiss();
+      return;
+    }
+
+    const nearest = snapOffsets.reduce(
+      (best, snapOffset, index) =>
+        Math.abs(snapOffset - projected) < Math.abs(snapOffsets[best] - projected) ? index : best,
+      0,
+    );
+    animate(offset, snapOffsets[nearest], panelSpring);
+    onSnapPointChange?.(nearest);
+  };
+
+  return (
+    <motion.div
+      ref={panelRef}
+      drag={axis}
+      dragListener={false}
+      dragControls={dragControls}
+      dragMomentum={false}
+      dragConstraints={axis === 'y' ? { top: 0 } : dismissDirection === 1 ? { left: 0 } : { right: 0 }}
+      dragElastic={{
+        top: 0.05,
+        bottom: 0.5,
+        left: dismissDirection === 1 ? 0.05 : 0.5,
+        right: dismissDirection === 1 ? 0.5 : 0.05,
+      }}
+      onDragEnd={handleDragEnd}
+      onPointerDown={handlePointerDown}
+      style={{
+        ...(axis === 'y' ? { y: offset } : { x: offset }),
+        ...(sortedSnapPoints ? { height: `${largestSnapPoint * 100}dvh` } : {}),
+      }}
+      className={cn(
+        'NovaNoScrolling NovaDialogPanel novacore:relative novacore:flex novacore:flex-col novacore:overflow-hidden',
+        'novacore:bg-[var(--tuwa-bg-primary)] novacore:border novacore:border-[var(--tuwa-border-primary)]',
+        panelClasses[variant],
+      )}
+    >
+      {variant === 'sheet' && showGrabHandle && (
+        <div
+          data-nova-grab-handle=""
+          aria-hidden="true"
+          className="NovaDialogGrabHandle novacore:flex novacore:shrink-0 novacore:justify-center novacore:pt-2 novacore:pb-1 novacore:cursor-grab novacore:touch-none"
+        >
+          <div className="novacore:h-1.5 novacore:w-10 novacore:rounded-full novacore:bg-[var(--tuwa-border-primary)]" />
+        </div>
+      )}
+      <div
         className={cn(
-          'NovaNoScrolling novacore:fixed novacore:bottom-0 novacore:left-0 novacore:p-0 novacore:sm:bottom-auto novacore:sm:left-[50%] novacore:sm:top-[50%] novacore:sm:translate-x-[-50%] novacore:sm:translate-y-[-50%] novacore:z-50 novacore:sm:p-4 novacore:outline-none',
-          className,
+          'NovaNoScrolling NovaDialogContent__elements novacore:relative novacore:flex novacore:min-h-0 novacore:w-full novacore:flex-1 novacore:flex-col novacore:overflow-y-auto',
+          variant === 'sheet' && !sortedSnapPoints && 'novacore:max-h-[90dvh]',
         )}
-        {...props}
       >
-        <motion.div
-          layout
-          className="NovaNoScrolling novacore:relative novacore:overflow-hidden"
-          transition={{
-            layout: {
-              duration: 0.2,
-              ease: [0.1, 0.1, 0.2, 1],
-            },
+        {children}
+      </div>
+    </motion.div>
+  );
+};
+
+const DialogContent = React.forwardRef<
+  React.ElementRef<typeof DialogPrimitive.Content>,
+  React.ComponentPropsWithoutRef<typeof DialogPrimitive.Content> &
+    DialogPanelOptions & {
+      modalAnimation?: Variants;
+      backdropAnimation?: Variants;
+      /** Identifier of the modal in the modal stack (e.g. for `closeModal(id)`). Generated if omitted. */
+      modalId?: string;
+      /**
+       * Layout of the dialog.
+       * @default 'modal'
+       */
+      variant?: DialogVariant;
+      /** Layout used on touch devices instead of `variant` (e.g. `'sheet'`). */
+      mobileVariant?: DialogVariant;
+    }
+>(
+  (
+    {
+      className,
+      children,
+      modalAnimation,
+      backdropAnimation,
+      modalId,
+      variant = 'modal',
+      mobileVariant,
+      snapPoints,
+      defaultSnapPoint,
+      onSnapPointChange,
+      dragToDismiss,
+      showGrabHandle,
+      style,
+      onEscapeKeyDown,
+      ...props
+    },
+    ref,
+  ) => {
+    const [isMobile, setIsMobile] = React.useState(false);
+    // The portal renders outside of any NovaThemeProvider container, so the theme is re-applied here
+    const novaTheme = useNovaTheme();
+
+    const generatedId = React.useId();
+    const id = modalId ?? generatedId;
+    const dialogState = React.useContext(DialogStateContext);
+    // Outside of `Dialog` the open state is unknown, so the content is registered while mounted
+    const isOpen = dialogState?.open ?? true;
+    const onOpenChange = dialogState?.onOpenChange;
+    const onOpenChangeRef = React.useRef(onOpenChange);
+    const modalStack = useModalStack();
+    const zIndex = getModalZIndex(id, modalStack);
+
+    React.useEffect(() => {
+      onOpenChangeRef.current = onOpenChange;
+    }, [onOpenChange]);
+
+    // Registration drives the shared scroll lock and the z-index of stacked modals, so only open dialogs join the stack
+    React.useEffect(() => {
+      if (!isOpen) return;
+      pushModal({ id, close: () => onOpenChangeRef.current?.(false) });
+      return () => removeModal(id);
+    }, [id, isOpen]);
+
+    React.useEffect(() => {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setIsMobile(isTouchDevice());
+    }, []);
+
+    const activeVariant = (isMobile && mobileVariant) || variant;
+    const selectedAnimation =
+      modalAnimation ??
+      (activeVariant === 'modal'
+        ? isMobile
+          ? mobileModalAnimation
+          : defaultModalAnimation
+        : panelAnimations[activeVariant]);
+
+    return (
+      <DialogPortal>
+        <DialogOverlay backdropAnimation={backdropAnimation} zIndex={zIndex?.overlay} />
+
+        <DialogPrimitive.Content
+          aria-describedby="tuwa:modal-content"
+          ref={ref}
+          className={cn(
+            'NovaNoScrolling novacore:fixed novacore:z-50 novacore:outline-none',
+            variantClasses[activeVariant],
+            className,
+          )}
+          data-nova-theme={novaTheme?.themeProps['data-nova-theme']}
+          data-nova-font={novaTheme?.themeProps['data-nova-font']}
+          data-variant={activeVariant}
+          style={{ ...novaTheme?.themeProps.style, zIndex: zIndex?.content, ...style }}
+          onEscapeKeyDown={(event) => {
+            // Escape only closes the topmost modal of the stack
+            if (!isTopmostModal(id)) {
+              event.preventDefault();
+              return;
+            }
+            onEscapeKeyDown?.(event);
           }}
+          {...props}
         >
-          <AnimatePresence>
+          {activeVariant === 'modal' ? (
             <motion.div
-              variants={selectedAnimation}
-              transition={{ duration: 0.2, ease: 'easeInOut' }}
-              animate="animate"
-              initial="initial"
-              exit="exit"
-              className="NovaNoScrolling novacore:relative novacore:overflow-hidden novacore:bg-[var(--tuwa-bg-primary)] novacore:border novacore:border-[var(--tuwa-border-primary)] novacore:rounded-t-[var(--tuwa-rounded-corners)] novacore:sm:rounded-[var(--tuwa-rounded-corners)]"
+              layout
+              className="NovaNoScrolling novacore:relative novacore:overflow-hidden"
+              transition={{
+                layout: {
+                  duration: 0.2,
+                  ease: [0.1, 0.1, 0.2, 1],
+                },
+              }}
             >
-              <div
-                className={cn(
-                  'NovaNoScrolling NovaDialogContent__elements novacore:relative novacore:flex novacore:max-h-[100dvh] novacore:w-full novacore:flex-col novacore:overflow-y-auto',
-                  'novacore:[transform:translateZ(0)] novacore:[backface-visibility:hidden]',
-                )}
-              >
-                {children}
-              </div>
+              <AnimatePresence>
+                <motion.div
+                  variants={selectedAnimation}
+                  transition={{ duration: 0.2, ease: 'easeInOut' }}
+                  animate="animate"
+                  initial="initial"
+                  exit="exit"
+                  className="NovaNoScrolling novacore:relative novacore:overflow-hidden novacore:bg-[var(--tuwa-bg-primary)] novacore:border novacore:border-[var(--tuwa-border-primary)] novacore:rounded-t-[var(--tuwa-rounded-corners)] novacore:sm:rounded-[var(--tuwa-rounded-corners)]"
+                >
+                  <div
+                    className={cn(
+                      'NovaNoScrolling NovaDialogContent__elements novacore:relative novacore:flex novacore:max-h-[100dvh] novacore:w-full novacore:flex-col novacore:overflow-y-auto',
+                      'novacore:[transform:translateZ(0)] novacore:[backface-visibility:hidden]',
+                    )}
+                  >
+                    {children}
+                  </div>
+                </motion.div>
+              </AnimatePresence>
             </motion.div>
-          </AnimatePresence>
-        </motion.div>
-      </DialogPrimitive.Content>
-    </DialogPortal>
-  );
-});
+          ) : (
+            <AnimatePresence>
+              <motion.div
+                variants={selectedAnimation}
+                transition={{ duration: 0.25, ease: 'easeOut' }}
+                animate="animate"
+                initial="initial"
+                exit="exit"
+                className="NovaNoScrolling novacore:relative"
+              >
+                <DialogPanel
+                  variant={activeVariant}
+                  snapPoints={snapPoints}
+                  defaultSnapPoint={defaultSnapPoint}
+                  onSnapPointChange={onSnapPointChange}
+                  dragToDismiss={dragToDismiss}
+                  showGrabHandle={showGrabHandle}
+                  onDismiss={() => onOpenChangeRef.current?.(false)}
+                >
+                  {children}
+                </DialogPanel>
+              </motion.div>
+            </AnimatePresence>
+          )}
+        </DialogPrimitive.Content>
+      </DialogPortal>
+    );
+  },
+);
 DialogContent.displayName = DialogPrimitive.Content.displayName;
 
 const DialogHeader = ({ className, ...props }: React.HTMLAttributes<HTMLDivElement>) => (
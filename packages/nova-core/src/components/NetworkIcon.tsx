@@ -1,8 +1,11 @@
+import { networks } from '@web3icons/common/metadata';
 import { lazy, Suspense } from 'react';
 
-import { cn, formatIconNameForGithub, getChainName, isSolanaDev } from '../utils';
+import { useIconSource } from '../providers/IconSourceProvider';
+import { cn, formatIconNameForGithub, getChainName, getRegisteredChain } from '../utils';
 import { FallbackIcon } from './FallbackIcon';
 import { GithubFallbackIcon } from './GithubFallbackIcon';
+import { SvgImg } from './SvgImg';
 import { SvgToImg } from './SvgToImg';
 
 const NetworkIconLazy = lazy(() =>
@@ -20,19 +23,37 @@ interface NetworkIconProps {
 /** CSS variable for testnet icon styling */
 const TESTNET_FILL = 'var(--tuwa-testnet-icons)';
 
+/**
+ * Checks if a network exists in @web3icons/common metadata.
+ * @param networkId - Numeric chain ID or normalized string network ID (e.g., 'solana')
+ */
+function hasNetworkInMetadata(networkId: number | string): boolean {
+  return networks.some((n) => (typeof networkId === 'number' ? n.chainId === networkId : n.id === networkId));
+}
+
 export function NetworkIcon({ chainId, variant = 'background', className }: NetworkIconProps) {
+  const { resolvers } = useIconSource();
   const chainInfo = getChainName(chainId);
   const isStringId = typeof chainId === 'string';
 
   // Normalize ID for icon library
   const networkId = isStringId ? chainId.split(':')[0].toLowerCase() : chainId;
 
-  // Determine if testnet styling should be applied
-  const isTestnet = (isStringId && isSolanaDev(chainId)) || chainInfo.name.toLowerCase().includes('testnet');
-  const testnetFill = isTestnet ? TESTNET_FILL : undefined;
+  // Determine if testnet styling should be applied (registry value or name heuristic)
+  const testnetFill = chainInfo.isTestnet ? TESTNET_FILL : undefined;
 
   const componentClassName = cn('novacore:w-full novacore:h-full novacore:rounded-full', className);
 
+  // Icons provided through registerChains take precedence over any library lookup
+  if (chainInfo.iconUrl) {
+    return <SvgImg src={chainInfo.iconUrl} alt={chainInfo.name} className={componentClassName} />;
+  }
+
+  // Registered chains unknown to the icon library get a lettered placeholder instead of "?"
+  if (getRegisteredChain(chainId) && !hasNetworkInMetadata(networkId)) {
+    return <FallbackIcon content={chainInfo.name.charAt(0).toUpperCase()} className={className} />;
+  }
+
   // Resolve icon ID for the library
   const iconId = typeof networkId === 'string' ? networkId : chainInfo.filePath;
   const githubSrc = `networks/${variant}/${formatIconNameForGithub(iconId)}`;
@@ -43,8 +64,8 @@ export function NetworkIcon({ chainId, variant = 'background', className }: Netw
 
   if (isUnknownNetwork) {
     // For numeric chainId we can't resolve the icon name, show placeholder
-    // For string chainId (e.g., "base"), try GitHub fallback as the name might match
-    if (typeof chainId === 'number') {
+    // For string chainId (e.g., "base"), try the icon resolvers as the name might match
+    if (typeof chainId === 'number' || resolvers.length === 0) {
       return <FallbackIcon content="?" className={className} />;
     }
     return <GithubFallbackIcon githubSrc={githubSrc} className={componentClassName} firstPathFill={testnetFill} />;
@@ -0,0 +1,78 @@
+import { ReactNode, useMemo } from 'react';
+
+import { cn, encodeQrCode, QrErrorCorrectionLevel } from '../utils';
+
+/**
+ * Props for the QrCode component.
+ */
+export interface QrCodeProps {
+  /** The text to encode (e.g. a WalletConnect URI). */
+  value: string;
+  /**
+   * Error correction level. Defaults to `H` when a `logo` is rendered (it covers the center modules), `M` otherwise.
+   */
+  ecc?: QrErrorCorrectionLevel;
+  /**
+   * Width of the light border around the code, in modules. Scanners need at least 4.
+   * @default 4
+   */
+  quietZone?: number;
+  /** Content rendered over the center of the code, e.g. a wallet icon. */
+  logo?: ReactNode;
+  /** Accessible label of the code. */
+  'aria-label'?: string;
+  /** Additional CSS class names for the container. */
+  className?: string;
+}
+
+/**
+ * Renders a QR code as an SVG. The code is encoded locally with `encodeQrCode`,
+ * so the value is never sent to an external service.
+ *
+ * Modules are drawn in `--tuwa-text-primary` on `--tuwa-bg-primary`; the SVG scales to the container width.
+ *
+ * @param props - {@link QrCodeProps}
+ * @returns The rendered QR code.
+ *
+ * @example
+ * ```tsx
+ * <QrCode value={walletConnectUri} logo={<WalletIcon walletName="walletconnect" />} className="w-64" />
+ * ```
+ */
+export const QrCode = ({ value, ecc, quietZone = 4, logo, 'aria-label': ariaLabel, className }: QrCodeProps) => {
+  const matrix = useMemo(() => encodeQrCode(value, { ecc: ecc ?? (logo ? 'H' : 'M') }), [value, ecc, logo]);
+
+  // A single path keeps the DOM small even for dense codes
+  const path = useMemo(() => {
+    const segments: string[] = [];
+    matrix.modules.forEach((row, y) => {
+      row.forEach((isDark, x) => {
+        if (isDark) segments.push(`M${x + quietZone} ${y + quietZone}h1v1h-1z`);
+      });
+    });
+    return segments.join('');
+  }, [matrix, quietZone]);
+
+  const dimension = matrix.size + quietZone * 2;
+
+  return (
+    <div className={cn('NovaQrCode novacore:relative novacore:aspect-square novacore:w-full', className)}>
+      <svg
+        viewBox={`0 0 ${dimension} ${dimension}`}
+        role="img"
+        aria-label={ariaLabel}
+        shapeRendering="crispEdges"
+        className="novacore:block novacore:h-full novacore:w-full novacore:rounded-[var(--tuwa-rounded-corners)] novacore:bg-[var(--tuwa-bg-primary)]"
+      >
+        <path d={path} fill="var(--tuwa-text-primary)" />
+      </svg>
+      {logo && (
+        <div className="novacore:absolute novacore:inset-0 novacore:flex novacore:items-center novacore:justify-center novacore:pointer-events-none">
+          <div className="novacore:flex novacore:h-[20%] novacore:w-[20%] novacore:items-center novacore:justify-center novacore:rounded-[var(--tuwa-rounded-corners)] novacore:bg-[var(--tuwa-bg-primary)] novacore:p-[2%]">
+            {logo}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
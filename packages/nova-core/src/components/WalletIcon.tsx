@@ -1,6 +1,7 @@
 import { wallets } from '@web3icons/common/metadata';
 import { lazy, Suspense } from 'react';
 
+import { useIconSource } from '../providers/IconSourceProvider';
 import { cn, formatIconNameForGithub } from '../utils';
 import { FallbackIcon } from './FallbackIcon';
 import { GithubFallbackIcon } from './GithubFallbackIcon';
@@ -77,11 +78,13 @@ const ImpersonatedWalletIcon = ({ className, ref }: { className?: string; ref: R
  * 1. Rendering a custom SVG for 'impersonatedwallet' (Watch mode).
  * 2. Normalizing IDs for common wallets (e.g. 'walletconnect' -> 'wallet-connect').
  * 3. Lazy loading other icons from @web3icons/react.
+ * 4. Resolving unknown wallets through the nearest `IconSourceProvider`.
  *
  * @param props - {@link WalletIconProps}
  * @returns The wallet icon or a fallback UI.
  */
 export function WalletIcon({ walletName, variant = 'background', className }: WalletIconProps) {
+  const { resolvers } = useIconSource();
   const componentClassName = cn('novacore:w-full novacore:h-full novacore:rounded-full', className);
   const normalizedName = walletName.toLowerCase();
 
@@ -100,6 +103,10 @@ export function WalletIcon({ walletName, variant = 'background', className }: Wa
 
   // 3. If wallet not found in @web3icons/common metadata, skip WalletIconLazy entirely
   if (!hasWalletInMetadata(libraryId)) {
+    // No icon sources configured (e.g., remote fetching disabled) — show placeholder right away
+    if (resolvers.length === 0) {
+      return <FallbackIcon content="?" className={className} />;
+    }
     return <GithubFallbackIcon githubSrc={githubSrc} className={componentClassName} />;
   }
 
@@ -21,10 +21,15 @@ export function useMediaQuery(query: string): boolean {
     const listener = () => setMatches(media.matches);
 
     // Re-check on mount and subscribe to changes
+    // (`change` covers non-viewport queries such as `prefers-color-scheme`)
     listener();
     window.addEventListener('resize', listener);
+    media.addEventListener('change', listener);
 
-    return () => window.removeEventListener('resize', listener);
+    return () => {
+      window.removeEventListener('resize', listener);
+      media.removeEventListener('change', listener);
+    };
   }, [query]);
 
   return matches;
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+
+import { getModalStack, ModalStackEntry, subscribeToModalStack } from '../utils/modalStack';
+
+const EMPTY_STACK: readonly ModalStackEntry[] = [];
+
+/**
+ * A custom hook that returns the currently open Nova modals (bottom-most first)
+ * and re-renders whenever a modal opens or closes.
+ * Handles SSR gracefully by returning an empty stack on the server.
+ *
+ * @returns {readonly ModalStackEntry[]} The open modals.
+ *
+ * @example
+ * const stack = useModalStack();
+ * const hasOpenModals = stack.length > 0;
+ */
+export function useModalStack(): readonly ModalStackEntry[] {
+  return useSyncExternalStore(subscribeToModalStack, getModalStack, () => EMPTY_STACK);
+}
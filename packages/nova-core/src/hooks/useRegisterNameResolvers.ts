@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+
+import { NameResolver, NameResolverRegistry } from '../utils/nameResolvers';
+
+/**
+ * Registers resolvers in a registry while the calling component is mounted.
+ * Registering clears the cached "no name" results, so the resolvers are only re-registered when their ids,
+ * priorities or `version` change, not when an inline array is re-created on render. The registered resolvers
+ * call the latest functions passed to the hook, so inline resolvers never use stale closures.
+ * Change `version` when a resolver returns different names (e.g. an updated directory) to resolve again
+ * the addresses cached without a name.
+ *
+ * @param registry - The registry the resolvers are registered in
+ * @param resolvers - The resolvers to register
+ * @param version - Re-registers the resolvers when it changes
+ */
+export function useRegisterNameResolvers(
+  registry: NameResolverRegistry,
+  resolvers: NameResolver[] | undefined,
+  version?: string | number,
+) {
+  const resolversKey = resolvers?.map(({ id, priority }) => `${id}:${priority ?? 0}`).join('|') ?? '';
+
+  // Latest resolvers, called by the registered ones
+  const resolversRef = useRef(resolvers);
+  useEffect(() => {
+    resolversRef.current = resolvers;
+  });
+
+  useEffect(() => {
+    const currentResolvers = resolversRef.current;
+    if (!currentResolvers?.length) return;
+
+    const getLatest = (resolver: NameResolver) =>
+      resolversRef.current?.find(({ id }) => id === resolver.id) ?? resolver;
+
+    const unregisterAll = currentResolvers.map((resolver) =>
+      registry.register({
+        id: resolver.id,
+        priority: resolver.priority,
+        supports: (address, chainId) => getLatest(resolver).supports?.(address, chainId) ?? true,
+        resolveName: (address, chainId) => getLatest(resolver).resolveName(address, chainId),
+        resolveAvatar: async (name, address, chainId) =>
+          (await getLatest(resolver).resolveAvatar?.(name, address, chainId)) ?? null,
+      }),
+    );
+    return () => unregisterAll.forEach((unregister) => unregister());
+  }, [registry, resolversKey, version]);
+}
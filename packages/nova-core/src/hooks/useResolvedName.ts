@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+
+import { useNameResolverRegistry } from '../providers/NameResolverProvider';
+import { NameResolutionState } from '../utils/nameResolvers';
+
+/**
+ * The object returned by the useResolvedName hook.
+ */
+export interface ResolvedNameData extends NameResolutionState {
+  /** Resolves the address again, ignoring the cache. */
+  retry: () => void;
+}
+
+const EMPTY_STATE: NameResolutionState = { name: null, avatar: null, isLoading: false, error: null };
+const noopUnsubscribe = () => {};
+
+/**
+ * A custom hook resolving an address to a human-readable name and avatar through the
+ * registry of the closest `NameResolverProvider` (ENS, SNS, Basenames, a custom directory…).
+ * Results are cached and shared by every component rendering the same address.
+ *
+ * @param {string | null | undefined} address - The address to resolve. Nothing is resolved without one.
+ * @param {number | string} [chainId] - The chain of the address; some resolvers only apply on specific chains.
+ * @returns {ResolvedNameData} The resolved name and avatar, the loading and error state, and a retry function.
+ *
+ * @example
+ * ```tsx
+ * function Account({ address, chainId }: { address: string; chainId: number }) {
+ *   const { name, avatar } = useResolvedName(address, chainId);
+ *   return <span title={address}>{name ?? textCenterEllipsis(address, 6, 4)}</span>;
+ * }
+ * ```
+ */
+export function useResolvedName(address: string | null | undefined, chainId?: number | string): ResolvedNameData {
+  const registry = useNameResolverRegistry();
+
+  const subscribe = useCallback(
+    (listener: () => void) => (address ? registry.subscribe(listener) : noopUnsubscribe),
+    [registry, address],
+  );
+  const state = useSyncExternalStore(
+    subscribe,
+    () => (address ? registry.getState(address, chainId) : EMPTY_STATE),
+    () => EMPTY_STATE,
+  );
+
+  // Resolve on mount, and again whenever the cached state is dropped (e.g. a resolver is registered)
+  useEffect(() => {
+    if (address) registry.resolve(address, chainId);
+  }, [registry, address, chainId, state]);
+
+  const retry = useCallback(() => {
+    if (address) registry.resolve(address, chainId, { force: true });
+  }, [registry, address, chainId]);
+
+  return { ...state, retry };
+}
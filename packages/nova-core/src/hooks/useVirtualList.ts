@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+/**
+ * Options for {@link useVirtualList}.
+ */
+export interface VirtualListOptions {
+  /** Number of rows */
+  count: number;
+  /** Stable key of a row, used to remember its measured height */
+  getRowKey: (index: number) => string;
+  /** Estimated height (px) of a row that has not been measured yet */
+  estimateSize: (index: number) => number;
+  /**
+   * Extra distance (px) rendered above and below the visible area.
+   * @default 480
+   */
+  overscan?: number;
+  /**
+   * When `false`, every row is rendered. Visible row tracking and `scrollToIndex` keep working.
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Result of {@link useVirtualList}.
+ */
+export interface VirtualListResult {
+  /** Callback ref for the element containing the rows (the list itself, not its scroll parent) */
+  containerRef: (element: HTMLElement | null) => void;
+  /** Callback ref for a rendered row. The row element must have a `data-row-key` attribute. */
+  measureRow: (element: HTMLElement | null) => (() => void) | void;
+  /** Index of the first rendered row */
+  startIndex: number;
+  /** Index after the last rendered row */
+  endIndex: number;
+  /** Height (px) of the space before the first rendered row */
+  paddingTop: number;
+  /** Height (px) of the space after the last rendered row */
+  paddingBottom: number;
+  /** Index of the row at the top of the visible area */
+  firstVisibleIndex: number;
+  /** Scrolls the scroll parent so that the row is at the top of the visible area */
+  scrollToIndex: (index: number) => void;
+}
+
+const DEFAULT_OVERSCAN = 480;
+const INITIAL_VIEWPORT_HEIGHT = 800;
+
+/**
+ * Finds the element that actually scrolls the container: the container itself when it overflows,
+ * otherwise its nearest scrollable ancestor, or `null` for the window.
+ */
+function getScrollParent(element: HTMLElement): HTMLElement | null {
+  let current: HTMLElement | null = element;
+  while (current && current !== document.body && current !== document.documentElement) {
+    const { overflowY } = window.getComputedStyle(current);
+    if ((overflowY === 'auto' || overflowY === 'scroll') && current.scrollHeight > current.clientHeight) {
+      return current;
+    }
+    current = current.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Returns the position of the top of the container's content in the viewport.
+ */
+function getContentTop(container: HTMLElement, scrollParent: HTMLElement | null): number {
+  const { top } = container.getBoundingClientRect();
+  return scrollParent === container ? top - container.scrollTop : top;
+}
+
+/**
+ * Returns the index of the row containing the offset.
+ */
+function findRowIndex(offsets: number[], offset: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(low, 0);
+}
+
+/**
+ * A custom hook rendering only the rows of a long list that are close to the visible area.
+ * Row heights are dynamic: rows are measured with a `ResizeObserver` once rendered, and estimated before that.
+ * When rows above the visible area are measured, the scroll position is adjusted so the visible rows don't jump.
+ * Memoize `getRowKey` and `estimateSize`, as the row offsets are recomputed whenever they change.
+ * Works with any scroll parent (the list itself, a modal body or the window).
+ *
+ * @param {VirtualListOptions} options - Rows and rendering options.
+ * @returns {VirtualListResult} Refs, rendered range and spacer heights.
+ *
+ * @example
+ * ```tsx
+ * const list = useVirtualList({ count: rows.length, getRowKey: (i) => rows[i].id, estimateSize: () => 80 });
+ *
+ * <div ref={list.containerRef} className="overflow-y-auto max-h-[400px]">
+ *   <div style={{ height: list.paddingTop }} />
+ *   {rows.slice(list.startIndex, list.endIndex).map((row) => (
+ *     <div key={row.id} data-row-key={row.id} ref={list.measureRow}>{row.label}</div>
+ *   ))}
+ *   <div style={{ height: list.paddingBottom }} />
+ * </div>
+ * ```
+ */
+export function useVirtualList({
+  count,
+  getRowKey,
+  estimateSize,
+  overscan = DEFAULT_OVERSCAN,
+  enabled = true,
+}: VirtualListOptions): VirtualListResult {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ top: 0, bottom: INITIAL_VIEWPORT_HEIGHT });
+
+  const containerElementRef = useRef<HTMLElement | null>(null);
+  const offsetsRef = useRef<number[]>([0]);
+  const keyIndexesRef = useRef(new Map<string, number>());
+  const sizesRef = useRef(sizes);
+  const estimateSizeRef = useRef(estimateSize);
+  const viewportRef = useRef(viewport);
+  // Height change of the rows above the visible area, scrolled by once the new sizes are rendered
+  const scrollAdjustmentRef = useRef(0);
+  const pendingSizesRef = useRef<Record<string, number>>({});
+  const frameRef = useRef<number>(undefined);
+  const observerRef = useRef<ResizeObserver>(undefined);
+
+  const containerRef = useCallback((element: HTMLElement | null) => {
+    // The hook anchors the scroll position itself, the browser's anchoring would apply the adjustment twice
+    if (element) element.style.overflowAnchor = 'none';
+    containerElementRef.current = element;
+    setContainer(element);
+  }, []);
+
+  // Row offsets, offsets[i] is the top of row i and offsets[count] the total height
+  const { offsets, keyIndexes } = useMemo(() => {
+    const result = [0];
+    const indexes = new Map<string, number>();
+    for (let index = 0; index < count; index++) {
+      const key = getRowKey(index);
+      indexes.set(key, index);
+      result.push(result[index] + (sizes[key] ?? estimateSize(index)));
+    }
+    return { offsets: result, keyIndexes: indexes };
+  }, [count, sizes, getRowKey, estimateSize]);
+
+  useEffect(() => {
+    offsetsRef.current = offsets;
+    keyIndexesRef.current = keyIndexes;
+    sizesRef.current = sizes;
+    estimateSizeRef.current = estimateSize;
+    viewportRef.current = viewport;
+  });
+
+  // Measured heights are flushed once per frame to re-render a single time for a batch of rows
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    observerRef.current ??= new ResizeObserver((entries) => {
+      entries.forEach((entry) => {
+        const key = (entry.target as HTMLElement).dataset.rowKey;
+        if (!key) return;
+        pendingSizesRef.current[key] = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+      });
+      cancelAnimationFrame(frameRef.current ?? 0);
+      frameRef.current = requestAnimationFrame(() => {
+        const pending = pendingSizesRef.current;
+        pendingSizesRef.current = {};
+
+        // Rows starting above the visible area push the visible rows down (or up) when their height changes
+        const viewportTop = viewportRef.current.top;
+        Object.entries(pending).forEach(([key, size]) => {
+          const index = keyIndexesRef.current.get(key);
+          if (index === undefined || viewportTop <= 0 || offsetsRef.current[index] >= viewportTop) return;
+          scrollAdjustmentRef.current += size - (sizesRef.current[key] ?? estimateSizeRef.current(index));
+        });
+
+        setSizes((current) =>
+          Object.keys(pending).some((key) => current[key] !== pending[key]) ? { ...current, ...pending } : current,
+        );
+      });
+    });
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  useEffect(
+    () => () => {
+      cancelAnimationFrame(frameRef.current ?? 0);
+      observerRef.current?.disconnect();
+    },
+    [],
+  );
+
+  // Scroll anchoring, applied before paint so the adjusted position is the first one shown
+  useLayoutEffect(() => {
+    const adjustment = scrollAdjustmentRef.current;
+    scrollAdjustmentRef.current = 0;
+    const element = containerElementRef.current;
+    if (!adjustment || !element) return;
+    (getScrollParent(element) ?? window).scrollBy({ top: adjustment });
+  }, [sizes]);
+
+  const totalSize = offsets[count];
+
+  // Track the visible area, in coordinates relative to the top of the container.
+  // The scroll parent is resolved again when the list grows, as a list may only start overflowing after more rows load.
+  useEffect(() => {
+    if (!container) return;
+
+    const scrollParent = getScrollParent(container);
+    const scrollTarget: HTMLElement | Window = scrollParent ?? window;
+    let frame = 0;
+
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const contentTop = getContentTop(container, scrollParent);
+        const viewportTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+        const viewportHeight = scrollParent ? scrollParent.clientHeight : window.innerHeight;
+        const top = Math.max(viewportTop - contentTop, 0);
+        setViewport((current) =>
+          current.top === top && current.bottom === top + viewportHeight
+            ? current
+            : { top, bottom: top + viewportHeight },
+        );
+      });
+    };
+
+    update();
+    scrollTarget.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      scrollTarget.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [container, totalSize]);
+
+  const scrollToIndex = useCallback((index: number) => {
+    const element = containerElementRef.current;
+    const rowOffset = offsetsRef.current[index];
+    if (!element || rowOffset === undefined) return;
+
+    const scrollParent = getScrollParent(element);
+    const viewportTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+    const delta = getContentTop(element, scrollParent) + rowOffset - viewportTop;
+    (scrollParent ?? window).scrollBy({ top: delta });
+  }, []);
+
+  const firstVisibleIndex = count ? findRowIndex(offsets, viewport.top) : 0;
+  const startIndex = enabled && count ? findRowIndex(offsets, viewport.top - overscan) : 0;
+  const endIndex = enabled && count ? findRowIndex(offsets, viewport.bottom + overscan) + 1 : count;
+
+  return {
+    containerRef,
+    measureRow,
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: totalSize - offsets[endIndex],
+    firstVisibleIndex,
+    scrollToIndex,
+  };
+}
@@ -4,6 +4,7 @@ export * from './components/FallbackIcon';
 export * from './components/GithubFallbackIcon';
 export * from './components/Modal';
 export * from './components/NetworkIcon';
+export * from './components/QrCode';
 export * from './components/StarsBackground';
 export * from './components/SvgImg';
 export * from './components/SvgToImg';
@@ -11,4 +12,11 @@ export * from './components/ToastCloseButton';
 export * from './components/WalletIcon';
 export * from './hooks/useCopyToClipboard';
 export * from './hooks/useMediaQuery';
+export * from './hooks/useModalStack';
+export * from './hooks/useRegisterNameResolvers';
+export * from './hooks/useResolvedName';
+export * from './hooks/useVirtualList';
+export * from './providers/IconSourceProvider';
+export * from './providers/NameResolverProvider';
+export * from './providers/NovaThemeProvider';
 export * from './utils';
@@ -0,0 +1,114 @@
+/**
+ * @file This file sets up the React Context that controls where fallback icons are loaded from.
+ * It allows self-hosted, bundled, or fully offline icon sources for CSP-restricted
+ * and air-gapped deployments.
+ */
+
+import { createContext, ReactNode, useContext, useEffect, useMemo, useRef } from 'react';
+
+import { createGithubIconResolver, IconResolver } from '../utils/iconResolvers';
+import { defaultSvgCache, SvgCache } from '../utils/svgCache';
+
+/**
+ * The value stored in the icon source context.
+ */
+export interface IconSourceContextValue {
+  /** Resolvers tried in order when an icon is not bundled with `@web3icons/react`. */
+  resolvers: IconResolver[];
+  /** Cache shared by all icon components in the subtree. */
+  cache: SvgCache;
+}
+
+/**
+ * Default value used outside of an `IconSourceProvider`.
+ * Preserves the original behavior: fetch from the web3icons GitHub repository.
+ */
+const defaultIconSource: IconSourceContextValue = {
+  resolvers: [createGithubIconResolver()],
+  cache: defaultSvgCache,
+};
+
+const IconSourceContext = createContext<IconSourceContextValue>(defaultIconSource);
+
+/**
+ * Props for the IconSourceProvider component.
+ */
+export interface IconSourceProviderProps {
+  /**
+   * Resolvers tried in order for icons missing from `@web3icons/react`.
+   * An inline array keeps the loaded icons as long as the ids of its resolvers don't change.
+   * @default [createGithubIconResolver()]
+   */
+  resolvers?: IconResolver[];
+  /**
+   * Drops every resolver flagged as `remote`, so no request leaves the app origin.
+   * When no resolvers remain, unknown icons render the `"?"` fallback immediately.
+   * @default false
+   */
+  disableRemote?: boolean;
+  /**
+   * Cache for resolved icons. Pass a `createSvgCache({ storage })` instance to persist
+   * icons between page loads or to share them across providers. Create it once, outside of render.
+   * @default defaultSvgCache
+   */
+  cache?: SvgCache;
+  children: ReactNode;
+}
+
+/**
+ * Configures how `NetworkIcon`, `WalletIcon` and `GithubFallbackIcon` load icons
+ * that are not bundled with `@web3icons/react`.
+ *
+ * @example
+ * ```tsx
+ * const iconCache = createSvgCache({ storage: window.localStorage });
+ *
+ * <IconSourceProvider
+ *   resolvers={[
+ *     createStaticIconResolver({ 'networks/background/my-chain.svg': myChainSvg }),
+ *     createLocalIconResolver('/static/web3icons'),
+ *   ]}
+ *   cache={iconCache}
+ *   disableRemote
+ * >
+ *   <App />
+ * </IconSourceProvider>
+ * ```
+ */
+export function IconSourceProvider({ resolvers, disableRemote = false, cache, children }: IconSourceProviderProps) {
+  const resolversKey = resolvers?.map(({ id, remote }) => `${id}:${remote}`).join('|');
+
+  // Latest resolvers, called by the ones in the context value
+  const resolversRef = useRef(resolvers);
+  useEffect(() => {
+    resolversRef.current = resolvers;
+  });
+
+  // Re-created only when the resolver ids change, so inline arrays don't reload the icons on every render
+  const value = useMemo((): IconSourceContextValue => {
+    const baseResolvers = resolvers
+      ? resolvers.map((resolver, index) => ({
+          ...resolver,
+          resolve: (path: string) => (resolversRef.current?.[index] ?? resolver).resolve(path),
+        }))
+      : defaultIconSource.resolvers;
+
+    return {
+      resolvers: disableRemote ? baseResolvers.filter((resolver) => !resolver.remote) : baseResolvers,
+      cache: cache ?? defaultSvgCache,
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resolversKey, disableRemote, cache]);
+
+  return <IconSourceContext.Provider value={value}>{children}</IconSourceContext.Provider>;
+}
+
+/**
+ * A custom hook to access the active icon resolvers and cache.
+ * Falls back to the GitHub resolver and the default in-memory cache outside of a provider.
+ *
+ * @returns {IconSourceContextValue} The current icon source configuration.
+ */
+export const useIconSource = (): IconSourceContextValue => {
+  return useContext(IconSourceContext);
+};
@@ -0,0 +1,68 @@
+/**
+ * @file This file sets up the React Context that holds the name resolver registry,
+ * so every address rendered in the subtree is resolved through the same resolvers and cache.
+ */
+
+import { createContext, ReactNode, useContext } from 'react';
+
+import { useRegisterNameResolvers } from '../hooks/useRegisterNameResolvers';
+import { defaultNameResolverRegistry, NameResolver, NameResolverRegistry } from '../utils/nameResolvers';
+
+const NameResolverContext = createContext<NameResolverRegistry>(defaultNameResolverRegistry);
+
+/**
+ * Props for the NameResolverProvider component.
+ */
+export interface NameResolverProviderProps {
+  /**
+   * Registry used by the subtree. Pass a `createNameResolverRegistry({ cache })` instance to isolate
+   * the subtree or to persist its names.
+   * @default defaultNameResolverRegistry
+   */
+  registry?: NameResolverRegistry;
+  /** Resolvers registered in the registry while the provider is mounted. */
+  resolvers?: NameResolver[];
+  /**
+   * Re-registers the resolvers when it changes, so addresses cached without a name are resolved again,
+   * e.g. the version of a directory passed to `createDirectoryResolver`.
+   */
+  resolversVersion?: string | number;
+  children: ReactNode;
+}
+
+/**
+ * Configures how `useResolvedName` turns addresses into names in `WalletAvatar`, `ConnectionsContent`,
+ * `HashLink`, `TransactionDetails` and your own components.
+ *
+ * @example
+ * ```tsx
+ * <NameResolverProvider
+ *   resolvers={[
+ *     createDirectoryResolver(teamWallets),
+ *     createEnsResolver({ getName: (address) => client.getEnsName({ address }) }),
+ *   ]}
+ * >
+ *   <App />
+ * </NameResolverProvider>
+ * ```
+ */
+export function NameResolverProvider({
+  registry = defaultNameResolverRegistry,
+  resolvers,
+  resolversVersion,
+  children,
+}: NameResolverProviderProps) {
+  useRegisterNameResolvers(registry, resolvers, resolversVersion);
+
+  return <NameResolverContext.Provider value={registry}>{children}</NameResolverContext.Provider>;
+}
+
+/**
+ * A custom hook to access the active name resolver registry.
+ * Falls back to `defaultNameResolverRegistry` outside of a provider.
+ *
+ * @returns {NameResolverRegistry} The current registry.
+ */
+export const useNameResolverRegistry = (): NameResolverRegistry => {
+  return useContext(NameResolverContext);
+};
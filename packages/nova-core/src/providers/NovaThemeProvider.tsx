@@ -0,0 +1,145 @@
+/**
+ * @file This file contains the runtime theme provider, which writes `--tuwa-*` CSS variables
+ * for a subtree instead of relying on global CSS overrides.
+ */
+
+import { createContext, CSSProperties, ReactNode, useContext, useMemo } from 'react';
+
+import { useMediaQuery } from '../hooks/useMediaQuery';
+import { cn } from '../utils/cn';
+import { createNovaTheme, NovaTheme, NovaThemeOverrides, themeToCssVariables } from '../utils/theme';
+import { NovaThemePresetName, novaThemePresets } from '../utils/themePresets';
+
+/**
+ * A theme reference: either a preset name or a full theme object.
+ */
+export type NovaThemeInput = NovaThemePresetName | NovaTheme;
+
+/**
+ * The value stored in the theme context.
+ */
+export interface NovaThemeContextValue {
+  /** The resolved theme (after `auto` resolution and overrides). */
+  theme: NovaTheme;
+  /** Preset name of the resolved theme, or `'custom'` for theme objects. */
+  name: NovaThemePresetName | 'custom';
+  /** Whether the provider follows `prefers-color-scheme`. */
+  isAuto: boolean;
+  /** The generated CSS variables. */
+  cssVariables: Record<string, string>;
+  /**
+   * Props that apply the theme to an element. Used by components rendered in portals
+   * (modals, select menus), which live outside the provider's DOM container.
+   */
+  themeProps: {
+    style: CSSProperties;
+    'data-nova-theme': string;
+    'data-nova-font'?: '';
+  };
+}
+
+const NovaThemeContext = createContext<NovaThemeContextValue | null>(null);
+
+/**
+ * Props for the NovaThemeProvider component.
+ */
+export interface NovaThemeProviderProps {
+  /**
+   * Theme to apply: a preset name, a theme object, or `'auto'` to follow `prefers-color-scheme`.
+   * @default 'auto'
+   */
+  theme?: NovaThemeInput | 'auto';
+  /**
+   * Theme used in `auto` mode when the system prefers a light color scheme.
+   * @default 'light'
+   */
+  lightTheme?: NovaThemeInput;
+  /**
+   * Theme used in `auto` mode when the system prefers a dark color scheme.
+   * @default 'dark'
+   */
+  darkTheme?: NovaThemeInput;
+  /** Values deep-merged into the resolved theme. */
+  overrides?: NovaThemeOverrides;
+  /** Additional CSS class names for the container element. */
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Resolves a theme reference into a theme object and its name.
+ */
+function resolveThemeInput(input: NovaThemeInput): { theme: NovaTheme; name: NovaThemePresetName | 'custom' } {
+  return typeof input === 'string' ? { theme: novaThemePresets[input], name: input } : { theme: input, name: 'custom' };
+}
+
+/**
+ * Applies a Nova theme to its subtree by writing `--tuwa-*` CSS variables on a container element.
+ *
+ * Providers can be nested: the innermost one wins, so a single `ConnectButton`, modal or toast
+ * container can be themed differently from the rest of the page. Modals from `@tuwaio/nova-core`
+ * pick up the theme through `useNovaTheme()` even though they render in a portal.
+ *
+ * @example
+ * ```tsx
+ * <NovaThemeProvider theme="auto" overrides={{ colors: { textAccent: '#1ad699' } }}>
+ *   <App />
+ * </NovaThemeProvider>
+ *
+ * <NovaThemeProvider theme="high-contrast">
+ *   <ConnectButton />
+ * </NovaThemeProvider>
+ * ```
+ */
+export function NovaThemeProvider({
+  theme = 'auto',
+  lightTheme = 'light',
+  darkTheme = 'dark',
+  overrides,
+  className,
+  children,
+}: NovaThemeProviderProps) {
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+  const isAuto = theme === 'auto';
+
+  const value = useMemo((): NovaThemeContextValue => {
+    const selected = isAuto ? (prefersDark ? darkTheme : lightTheme) : theme;
+    const { theme: baseTheme, name } = resolveThemeInput(selected);
+    const resolvedTheme = overrides ? createNovaTheme(baseTheme, overrides) : baseTheme;
+    const cssVariables = themeToCssVariables(resolvedTheme);
+
+    return {
+      theme: resolvedTheme,
+      name,
+      isAuto,
+      cssVariables,
+      themeProps: {
+        style: { ...cssVariables, colorScheme: resolvedTheme.colorScheme } as CSSProperties,
+        'data-nova-theme': name,
+        ...(resolvedTheme.fonts?.mono ? { 'data-nova-font': '' as const } : {}),
+      },
+    };
+  }, [isAuto, prefersDark, darkTheme, lightTheme, theme, overrides]);
+
+  return (
+    <NovaThemeContext.Provider value={value}>
+      <div
+        {...value.themeProps}
+        style={{ ...value.themeProps.style, display: 'contents' }}
+        className={cn('NovaThemeRoot', className)}
+      >
+        {children}
+      </div>
+    </NovaThemeContext.Provider>
+  );
+}
+
+/**
+ * A custom hook to access the theme of the nearest `NovaThemeProvider`.
+ *
+ * @returns {NovaThemeContextValue | null} The active theme, or `null` outside of a provider
+ * (in which case the global `--tuwa-*` variables from `variables.css` apply).
+ */
+export const useNovaTheme = (): NovaThemeContextValue | null => {
+  return useContext(NovaThemeContext);
+};
@@ -0,0 +1,77 @@
+/**
+ * @file This file contains a registry for custom chain metadata (appchains, L3s, private networks)
+ * that is consulted by `getChainName` and `NetworkIcon` before falling back to `@web3icons/common`.
+ */
+
+/**
+ * Metadata describing a chain that is not (or not correctly) known to `@web3icons/common`.
+ */
+export interface ChainMetadata {
+  /** Chain identifier (number for EVM, string for non-EVM, e.g. `"solana:devnet"`). */
+  chainId: number | string;
+  /** Human-readable network name. */
+  name: string;
+  /** URL (or `data:` URL) of the network icon. When omitted, the bundled icon set is tried. */
+  iconUrl?: string;
+  /**
+   * Whether the chain is a test/dev network. Testnet icons are tinted with `--tuwa-testnet-icons`.
+   * @default false
+   */
+  isTestnet?: boolean;
+}
+
+/**
+ * Registered chains keyed by normalized chain ID.
+ */
+const chainRegistry = new Map<string, ChainMetadata>();
+
+/**
+ * Normalizes a chain ID into a registry key, so `1`, `"1"` and `"Solana:Devnet"` match consistently.
+ */
+const toRegistryKey = (chainId: number | string): string => String(chainId).toLowerCase();
+
+/**
+ * Registers custom chain metadata. Entries with the same `chainId` are overwritten.
+ *
+ * Call this once at application start-up, before rendering components that display chains.
+ *
+ * @param chains - Chains to register
+ * @returns A function that removes the registered chains again
+ *
+ * @example
+ * ```ts
+ * registerChains([
+ *   { chainId: 42069, name: 'My Appchain', iconUrl: '/icons/appchain.svg' },
+ *   { chainId: 42070, name: 'My Appchain Testnet', iconUrl: '/icons/appchain.svg', isTestnet: true },
+ * ]);
+ * ```
+ */
+export function registerChains(chains: ChainMetadata[]): () => void {
+  chains.forEach((chain) => chainRegistry.set(toRegistryKey(chain.chainId), chain));
+
+  return () => {
+    chains.forEach((chain) => {
+      const key = toRegistryKey(chain.chainId);
+      if (chainRegistry.get(key) === chain) {
+        chainRegistry.delete(key);
+      }
+    });
+  };
+}
+
+/**
+ * Returns the registered metadata for a chain, if any.
+ *
+ * @param chainId - Chain identifier
+ * @returns The registered {@link ChainMetadata} or `undefined`
+ */
+export function getRegisteredChain(chainId: number | string): ChainMetadata | undefined {
+  return chainRegistry.get(toRegistryKey(chainId));
+}
+
+/**
+ * Removes all registered chains.
+ */
+export function clearRegisteredChains(): void {
+  chainRegistry.clear();
+}
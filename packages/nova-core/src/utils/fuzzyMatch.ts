@@ -0,0 +1,82 @@
+/**
+ * @file This file contains small fuzzy search helpers used by the searchable lists of the UI kits.
+ */
+
+const stripAccents = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Start of the text, after a separator, or a camelCase hump (`MetaMask`)
+const isWordStart = (text: string, index: number) =>
+  index === 0 ||
+  !/[\p{L}\p{N}]/u.test(text[index - 1]) ||
+  (/\p{Lu}/u.test(text[index]) && /\p{Ll}/u.test(text[index - 1]));
+
+/**
+ * Scores how well a query matches a text. Every query character must appear in the text in order
+ * (case- and accent-insensitive, whitespace in the query is ignored).
+ *
+ * Substring matches always outrank scattered ones; within each kind, matches at the start of the text
+ * or of a word and consecutive characters score higher.
+ *
+ * @param {string} query - The search query.
+ * @param {string} text - The text to match against.
+ * @returns {number | null} The score (higher is better), `0` for an empty query, or `null` if the text doesn't match.
+ *
+ * @example
+ * fuzzyMatch('meta', 'MetaMask'); // => 150 (prefix)
+ * fuzzyMatch('mm', 'MetaMask'); // => 12 (scattered, both at word starts)
+ * fuzzyMatch('xyz', 'MetaMask'); // => null
+ */
+export function fuzzyMatch(query: string, text: string): number | null {
+  const q = stripAccents(query).toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+
+  const original = stripAccents(text);
+  const t = original.toLowerCase();
+  const compact = t.replace(/\s+/g, '');
+  const index = compact.indexOf(q);
+  if (index !== -1) {
+    return 100 + (index === 0 ? 50 : 0) - Math.min(index, 49);
+  }
+
+  let score = 0;
+  let queryIndex = 0;
+  let previousMatch = -2;
+  for (let i = 0; i < t.length && queryIndex < q.length; i++) {
+    if (t[i] !== q[queryIndex]) continue;
+    score += 1;
+    if (previousMatch === i - 1) score += 3;
+    if (isWordStart(original, i)) score += 5;
+    previousMatch = i;
+    queryIndex++;
+  }
+
+  return queryIndex === q.length ? Math.min(score, 99) : null;
+}
+
+/**
+ * Filters a list by a fuzzy query and sorts the matches by score. Items keep their original order
+ * for equal scores, and the list is returned unchanged for an empty query.
+ *
+ * @template T
+ * @param {T[]} items - The items to filter.
+ * @param {string} query - The search query.
+ * @param {(item: T) => (string | undefined)[]} getSearchableText - Returns the texts an item can be found by (e.g. name and network); the best one wins.
+ * @returns {T[]} The matching items, best match first.
+ *
+ * @example
+ * fuzzyFilter(wallets, 'coin', (wallet) => [wallet.name, ...wallet.adapters]);
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getSearchableText: (item: T) => (string | undefined)[]): T[] {
+  if (!query.trim()) return items;
+
+  return items
+    .map((item, index) => {
+      const scores = getSearchableText(item)
+        .map((text) => (text ? fuzzyMatch(query, text) : null))
+        .filter((score): score is number => score !== null);
+      return { item, index, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter((entry): entry is { item: T; index: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.item);
+}
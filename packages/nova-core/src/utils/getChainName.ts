@@ -1,5 +1,6 @@
 import { networks } from '@web3icons/common/metadata';
 
+import { getRegisteredChain } from './chainRegistry';
 import { isSolanaDev } from './isSolanaDev';
 
 /**
@@ -19,6 +20,10 @@ export interface ChainInfo {
   chainId: number | string;
   /** File path for icon resolution */
   filePath: string;
+  /** Whether the network is a test/dev environment */
+  isTestnet: boolean;
+  /** Icon URL provided through `registerChains`, if any */
+  iconUrl?: string;
 }
 
 /**
@@ -31,6 +36,27 @@ function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
 }
 
+/**
+ * Converts a network name into an identifier (e.g., "My Appchain" → "my-appchain").
+ *
+ * @param name - Network name
+ * @returns Lowercase, hyphen-separated identifier
+ */
+function toNetworkId(name: string): string {
+  return name.trim().replace(/\s+/g, '-').toLowerCase();
+}
+
+/**
+ * Heuristic testnet detection for networks that are not registered via `registerChains`.
+ *
+ * @param chainId - Chain identifier
+ * @param name - Resolved network name
+ * @returns True if the network looks like a test/dev environment
+ */
+function isTestnetByName(chainId: number | string, name: string): boolean {
+  return isSolanaDev(chainId) || name.toLowerCase().includes('testnet');
+}
+
 /**
  * Retrieves blockchain network information based on its chain ID.
  *
@@ -38,6 +64,8 @@ function capitalize(str: string): string {
  * - **Numeric IDs (EVM):** e.g., `1` → "Ethereum", `137` → "Polygon"
  * - **String IDs (Non-EVM):** e.g., `"solana:devnet"` → "Solana Devnet"
  *
+ * Chains registered via `registerChains` take precedence over `@web3icons/common` metadata.
+ *
  * For string IDs with environment suffixes (like "solana:devnet"),
  * the suffix is appended to the name if it's a known dev/test environment.
  *
@@ -48,15 +76,15 @@ function capitalize(str: string): string {
  * ```ts
  * // EVM network
  * getChainName(1)
- * // → { name: "Ethereum", id: "ethereum", chainId: 1 }
+ * // → { name: "Ethereum", id: "ethereum", chainId: 1, isTestnet: false }
  *
  * // Solana devnet
  * getChainName("solana:devnet")
- * // → { name: "Solana Devnet", id: "solana", chainId: "solana:devnet" }
+ * // → { name: "Solana Devnet", id: "solana", chainId: "solana:devnet", isTestnet: true }
  *
  * // Unknown network
  * getChainName(999999)
- * // → { name: "Unknown", id: "unknown", chainId: 999999 }
+ * // → { name: "Unknown", id: "unknown", chainId: 999999, isTestnet: false }
  * ```
  */
 export function getChainName(chainId: number | string): ChainInfo {
@@ -65,8 +93,25 @@ export function getChainName(chainId: number | string): ChainInfo {
     id: UNKNOWN_NETWORK.toLowerCase(),
     filePath: UNKNOWN_NETWORK.toLowerCase(),
     chainId,
+    isTestnet: isSolanaDev(chainId),
   };
 
+  // Registered chains take precedence over library metadata
+  const registeredChain = getRegisteredChain(chainId);
+
+  if (registeredChain) {
+    const id = toNetworkId(registeredChain.name);
+
+    return {
+      name: registeredChain.name,
+      id,
+      filePath: id,
+      chainId,
+      isTestnet: registeredChain.isTestnet ?? false,
+      iconUrl: registeredChain.iconUrl,
+    };
+  }
+
   // Handle numeric IDs (EVM standard)
   if (typeof chainId === 'number') {
     const network = networks.find((n) => n.chainId === chainId);
@@ -80,6 +125,7 @@ export function getChainName(chainId: number | string): ChainInfo {
       id: network.id,
       filePath: network.filePath?.split(':')[1],
       chainId,
+      isTestnet: isTestnetByName(chainId, network.name),
     };
   }
 
@@ -99,5 +145,6 @@ export function getChainName(chainId: number | string): ChainInfo {
     id: network.id,
     filePath: network.filePath?.split(':')[1],
     chainId,
+    isTestnet: isTestnetByName(chainId, name),
   };
 }
@@ -0,0 +1,134 @@
+/**
+ * @file This file contains the built-in icon resolvers used by `GithubFallbackIcon`
+ * to load SVGs that are not bundled with `@web3icons/react`.
+ */
+
+/**
+ * Base URL for fetching raw SVG icons from the web3icons GitHub repository.
+ */
+export const WEB3ICONS_GITHUB_RAW_URL = 'https://raw.githubusercontent.com/0xa3k5/web3icons/refs/heads/main/raw-svgs';
+
+/**
+ * Resolves an icon path (e.g., `"networks/background/ethereum.svg"`) to SVG markup.
+ *
+ * Resolvers are tried in order by `GithubFallbackIcon`; the first one that
+ * returns a non-empty string wins. Returning `null` passes to the next resolver.
+ */
+export interface IconResolver {
+  /** Identifier of the resolver, useful for debugging. */
+  id: string;
+  /**
+   * Whether the resolver performs network requests.
+   * Remote resolvers are skipped when `IconSourceProvider` has `disableRemote` set.
+   */
+  remote: boolean;
+  /**
+   * Loads the icon for the given path.
+   * @returns Raw SVG markup, an `data:` URL, or `null` when the icon is unavailable.
+   */
+  resolve: (path: string) => Promise<string | null>;
+}
+
+/**
+ * Fetches an SVG from `${baseUrl}/${path}`.
+ * Any non-OK response is treated as a missing icon.
+ */
+async function fetchSvg(baseUrl: string, path: string): Promise<string | null> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/${path}`);
+
+  if (!response.ok) {
+    return null;
+  }
+
+  return response.text();
+}
+
+/**
+ * Creates a resolver that fetches icons from the web3icons GitHub repository.
+ * This is the default behavior when no `IconSourceProvider` is present.
+ *
+ * @returns Remote {@link IconResolver}
+ */
+export function createGithubIconResolver(): IconResolver {
+  return {
+    id: 'github',
+    remote: true,
+    resolve: (path) => fetchSvg(WEB3ICONS_GITHUB_RAW_URL, path),
+  };
+}
+
+/**
+ * Creates a resolver that fetches icons from a self-hosted base URL
+ * mirroring the web3icons `raw-svgs` directory layout.
+ *
+ * Same-origin base URLs are not considered remote, so they keep working
+ * when remote fetching is disabled.
+ *
+ * @param baseUrl - Base URL of the mirrored icons (e.g., `"/static/web3icons"`)
+ * @returns {@link IconResolver}
+ *
+ * @example
+ * ```ts
+ * createLocalIconResolver('/static/web3icons');
+ * // resolves "networks/background/ethereum.svg" → GET /static/web3icons/networks/background/ethereum.svg
+ * ```
+ */
+export function createLocalIconResolver(baseUrl: string): IconResolver {
+  return {
+    id: `local:${baseUrl}`,
+    remote: /^https?:\/\//i.test(baseUrl),
+    resolve: (path) => fetchSvg(baseUrl, path),
+  };
+}
+
+/**
+ * Creates a resolver backed by a bundled map of icon paths to SVG markup (or `data:` URLs).
+ * Performs no network requests.
+ *
+ * @param icons - Map of icon path → SVG markup
+ * @returns {@link IconResolver}
+ *
+ * @example
+ * ```ts
+ * import myChainSvg from './icons/my-chain.svg?raw';
+ *
+ * createStaticIconResolver({ 'networks/background/my-chain.svg': myChainSvg });
+ * ```
+ */
+export function createStaticIconResolver(icons: Record<string, string>): IconResolver {
+  return {
+    id: 'static',
+    remote: false,
+    resolve: async (path) => icons[path] ?? null,
+  };
+}
+
+/**
+ * Creates a resolver from a custom async loader (e.g., dynamic imports, IndexedDB, an internal CDN).
+ * Errors thrown by the loader are treated as a missing icon.
+ *
+ * @param loader - Function returning SVG markup for the given path, or `null`/`undefined`
+ * @param options - Resolver metadata; loaders are assumed local unless `remote` is set
+ * @returns {@link IconResolver}
+ *
+ * @example
+ * ```ts
+ * createCustomIconResolver((path) => import(`./icons/${path}?raw`).then((m) => m.default));
+ * ```
+ */
+export function createCustomIconResolver(
+  loader: (path: string) => Promise<string | null | undefined>,
+  { id = 'custom', remote = false }: { id?: string; remote?: boolean } = {},
+): IconResolver {
+  return {
+    id,
+    remote,
+    resolve: async (path) => {
+      try {
+        return (await loader(path)) ?? null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
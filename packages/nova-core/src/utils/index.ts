@@ -1,8 +1,20 @@
+export * from './chainRegistry';
 export * from './classes';
 export * from './cn';
 export * from './deepMerge';
+export * from './fuzzyMatch';
 export * from './getChainName';
+export * from './iconResolvers';
 export * from './isSolanaDev';
 export * from './isTouchDevice';
+export * from './modalStack';
+export * from './nameCache';
+export * from './nameResolvers';
+export * from './persistedList';
+export * from './qrCode';
+export * from './storage';
+export * from './svgCache';
 export * from './svgUtils';
 export * from './textCenterEllipsis';
+export * from './theme';
+export * from './themePresets';
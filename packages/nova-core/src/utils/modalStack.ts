@@ -0,0 +1,170 @@
+/**
+ * @file This file contains the global stack of open Nova modals. It provides reference-counted
+ * scroll locking, z-index layering and "topmost first" closing for stacked and nested dialogs.
+ */
+
+/**
+ * A modal registered in the stack.
+ */
+export interface ModalStackEntry {
+  /** Unique modal identifier (the `modalId` prop of `DialogContent`, or a generated one). */
+  id: string;
+  /** Requests the modal to close (calls the `onOpenChange(false)` of its `Dialog`). */
+  close: () => void;
+}
+
+/**
+ * z-index of the bottom-most modal overlay. Each stacked modal is placed
+ * two levels above the previous one (overlay first, content right above it).
+ */
+export const MODAL_BASE_Z_INDEX = 50;
+const MODAL_Z_INDEX_STEP = 2;
+
+/** CSS class applied to `<body>` while at least one modal is open. */
+const SCROLL_LOCK_CLASS = 'NovaModalOpen';
+
+const EMPTY_STACK: readonly ModalStackEntry[] = [];
+
+let modalStack: readonly ModalStackEntry[] = EMPTY_STACK;
+let scrollLocks = 0;
+const listeners = new Set<() => void>();
+
+/**
+ * Locks page scrolling while the stack is non-empty or a lock is held. The class is only removed
+ * once the last modal closes, so closing a nested modal keeps the lock in place.
+ */
+function updateScrollLock(): void {
+  if (typeof document === 'undefined') return;
+  document.body.classList.toggle(SCROLL_LOCK_CLASS, modalStack.length > 0 || scrollLocks > 0);
+}
+
+/**
+ * Adds the `NovaModalOpen` class to `<body>` until the returned function is called,
+ * e.g. while a modal overlay is rendered. Locks are reference-counted with the modal stack.
+ *
+ * @returns {() => void} Releases the lock.
+ */
+export function lockModalScroll(): () => void {
+  scrollLocks += 1;
+  updateScrollLock();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    scrollLocks -= 1;
+    updateScrollLock();
+  };
+}
+
+function setModalStack(next: readonly ModalStackEntry[]): void {
+  modalStack = next.length > 0 ? next : EMPTY_STACK;
+  updateScrollLock();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Adds a modal on top of the stack. Re-registering an existing ID updates it in place.
+ *
+ * @param entry - The modal to register
+ */
+export function pushModal(entry: ModalStackEntry): void {
+  const index = modalStack.findIndex((modal) => modal.id === entry.id);
+
+  if (index === -1) {
+    setModalStack([...modalStack, entry]);
+    return;
+  }
+
+  const next = [...modalStack];
+  next[index] = entry;
+  setModalStack(next);
+}
+
+/**
+ * Removes a modal from the stack (without closing it).
+ *
+ * @param id - The modal identifier
+ */
+export function removeModal(id: string): void {
+  if (!modalStack.some((modal) => modal.id === id)) return;
+  setModalStack(modalStack.filter((modal) => modal.id !== id));
+}
+
+/**
+ * Returns the currently open modals, bottom-most first.
+ * The array is replaced (never mutated) on every change.
+ */
+export function getModalStack(): readonly ModalStackEntry[] {
+  return modalStack;
+}
+
+/**
+ * Returns the topmost open modal, if any.
+ */
+export function getTopmostModal(): ModalStackEntry | undefined {
+  return modalStack[modalStack.length - 1];
+}
+
+/**
+ * Checks whether the given modal is the topmost one.
+ *
+ * @param id - The modal identifier
+ */
+export function isTopmostModal(id: string): boolean {
+  return getTopmostModal()?.id === id;
+}
+
+/**
+ * Returns the z-indexes for a modal's overlay and content based on its stack position.
+ *
+ * @param id - The modal identifier
+ * @param stack - Stack snapshot to read from (e.g. the value of `useModalStack()`)
+ * @returns z-indexes, or `undefined` if the modal is not in the stack
+ */
+export function getModalZIndex(
+  id: string,
+  stack: readonly ModalStackEntry[] = modalStack,
+): { overlay: number; content: number } | undefined {
+  const index = stack.findIndex((modal) => modal.id === id);
+  if (index === -1) return undefined;
+
+  const overlay = MODAL_BASE_Z_INDEX + index * MODAL_Z_INDEX_STEP;
+  return { overlay, content: overlay + 1 };
+}
+
+/**
+ * Closes a specific modal.
+ *
+ * @param id - The modal identifier
+ */
+export function closeModal(id: string): void {
+  modalStack.find((modal) => modal.id === id)?.close();
+}
+
+/**
+ * Closes the topmost modal only.
+ */
+export function closeTopmostModal(): void {
+  getTopmostModal()?.close();
+}
+
+/**
+ * Closes every open modal, topmost first.
+ */
+export function closeAllModals(): void {
+  [...modalStack].reverse().forEach((modal) => modal.close());
+}
+
+/**
+ * Subscribes to stack changes.
+ *
+ * @param listener - Called after every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToModalStack(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
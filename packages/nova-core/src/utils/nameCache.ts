@@ -0,0 +1,141 @@
+/**
+ * @file This file contains an LRU cache for resolved address names, with expiry and optional persistence.
+ */
+
+import { createPersistedList } from './persistedList';
+
+/**
+ * The result of resolving an address to a human-readable name.
+ */
+export interface ResolvedName {
+  /** The resolved name (e.g., "alice.eth"), or `null` when no resolver knows the address. */
+  name: string | null;
+  /** The avatar URL associated with the name, or `null`. */
+  avatar: string | null;
+  /** The id of the resolver that provided the name. */
+  resolverId?: string;
+}
+
+/**
+ * A cached resolution.
+ */
+export interface NameCacheEntry {
+  value: ResolvedName;
+  /** Timestamp (ms) after which the entry is stale and resolved again. */
+  expiresAt: number;
+}
+
+/**
+ * Cache contract used by the name resolver registry.
+ * Key: `${chainId ?? '*'}:${normalizedAddress}` (see `getNameKey`).
+ */
+export interface NameCache {
+  /** Returns the entry, including stale ones, and marks it as recently used. */
+  get: (key: string) => NameCacheEntry | undefined;
+  /** Stores a resolution for `ttl` ms. */
+  set: (key: string, value: ResolvedName, ttl: number) => void;
+  delete: (key: string) => void;
+  clear: () => void;
+  /** Maximum number of entries kept. The registry keeps the state of as many addresses. */
+  maxEntries?: number;
+}
+
+/**
+ * Options for {@link createNameCache}.
+ */
+export interface NameCacheOptions {
+  /**
+   * Web Storage used to persist entries between page loads (e.g., `window.localStorage`).
+   * When omitted, the cache lives in memory only.
+   */
+  storage?: Storage;
+  /**
+   * Storage key under which all entries are serialized.
+   * @default 'nova:name-cache'
+   */
+  storageKey?: string;
+  /**
+   * Maximum number of entries kept. The least recently used entries are evicted first.
+   * @default 500
+   */
+  maxEntries?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'nova:name-cache';
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Checks the shape of a persisted entry, dropping expired ones.
+ */
+const isLiveEntry = (item: unknown): item is [string, NameCacheEntry] =>
+  Array.isArray(item) &&
+  typeof item[0] === 'string' &&
+  typeof item[1]?.expiresAt === 'number' &&
+  item[1].expiresAt > Date.now();
+
+/**
+ * Creates a least-recently-used cache for resolved names that can be shared between
+ * registries and, optionally, persisted to Web Storage. Expired entries are kept until
+ * they are resolved again, so the last known name is shown while it is refreshed.
+ *
+ * @param options - {@link NameCacheOptions}
+ * @returns A new {@link NameCache} instance
+ *
+ * @example
+ * ```ts
+ * // In-memory only
+ * const cache = createNameCache();
+ *
+ * // Persisted across reloads
+ * const persistentCache = createNameCache({ storage: window.localStorage, maxEntries: 1000 });
+ * ```
+ */
+export function createNameCache({
+  storage,
+  storageKey = DEFAULT_STORAGE_KEY,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+}: NameCacheOptions = {}): NameCache {
+  // The map keeps the LRU order, the list mirrors it to storage
+  const persistedList = createPersistedList<[string, NameCacheEntry]>({
+    storage: storage ?? 'memory',
+    storageKey,
+    isValid: isLiveEntry,
+    normalize: (items) => items.slice(Math.max(0, items.length - maxEntries)),
+  });
+  const entries = new Map<string, NameCacheEntry>(persistedList.get());
+
+  const persist = () => {
+    if (storage) persistedList.set(Array.from(entries.entries()));
+  };
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (entry) {
+        // Move to the most recently used position
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set: (key, value, ttl) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttl });
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+      persist();
+    },
+    delete: (key) => {
+      entries.delete(key);
+      persist();
+    },
+    clear: () => {
+      entries.clear();
+      persist();
+    },
+    maxEntries,
+  };
+}
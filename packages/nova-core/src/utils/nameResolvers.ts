@@ -0,0 +1,407 @@
+/**
+ * @file This file contains the name resolver registry, which turns addresses into human-readable names
+ * (ENS, Solana Name Service, Basenames, or a custom directory) through prioritized resolvers and a shared cache.
+ */
+
+import { createNameCache, NameCache, ResolvedName } from './nameCache';
+
+/**
+ * A source of names for addresses.
+ */
+export interface NameResolver {
+  /** Unique id. Registering a resolver with an existing id replaces it. */
+  id: string;
+  /**
+   * Resolvers are tried from the highest to the lowest priority until one returns a name.
+   * Resolvers with the same priority are tried in registration order.
+   * @default 0
+   */
+  priority?: number;
+  /** Whether the resolver can resolve the address on the chain. Unsupported addresses skip the resolver. */
+  supports?: (address: string, chainId?: number | string) => boolean;
+  /** Returns the name of the address, or `null` when it has none. */
+  resolveName: (address: string, chainId?: number | string) => Promise<string | null | undefined>;
+  /** Returns the avatar URL of a name returned by this resolver. */
+  resolveAvatar?: (name: string, address: string, chainId?: number | string) => Promise<string | null | undefined>;
+}
+
+/**
+ * Resolution state of an address, as rendered by `useResolvedName`.
+ */
+export interface NameResolutionState extends ResolvedName {
+  /** Whether the address is being resolved. */
+  isLoading: boolean;
+  /** Error message when every supporting resolver failed, `null` otherwise. */
+  error: string | null;
+}
+
+/**
+ * Prioritized set of resolvers sharing one cache.
+ */
+export interface NameResolverRegistry {
+  /** Adds or replaces a resolver. Returns a function that unregisters it. */
+  register: (resolver: NameResolver) => () => void;
+  /** Removes the resolver with the given id. */
+  unregister: (id: string) => void;
+  /** The registered resolvers, sorted by priority. */
+  getResolvers: () => NameResolver[];
+  /**
+   * Resolves an address. Fresh cached results are returned without calling the resolvers,
+   * and concurrent requests for the same address share one resolution.
+   */
+  resolve: (address: string, chainId?: number | string, options?: { force?: boolean }) => Promise<ResolvedName>;
+  /** The current resolution state of an address. The same object is returned until the state changes. */
+  getState: (address: string, chainId?: number | string) => NameResolutionState;
+  /** Subscribes to state changes. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for {@link createNameResolverRegistry}.
+ */
+export interface NameResolverRegistryOptions {
+  /** Resolvers registered initially. */
+  resolvers?: NameResolver[];
+  /**
+   * Cache of the resolved names. Pass a `createNameCache({ storage })` instance to persist
+   * names between page loads or to share them across registries.
+   * @default createNameCache()
+   */
+  cache?: NameCache;
+  /**
+   * Time in ms during which a resolved name is not resolved again.
+   * @default 3600000
+   */
+  ttl?: number;
+  /**
+   * Time in ms during which an address without a name is not resolved again.
+   * @default 300000
+   */
+  negativeTtl?: number;
+}
+
+/**
+ * Lookup functions of a name service, e.g. the `getEnsName` / `getEnsAvatar` actions of a viem client.
+ */
+export interface NameServiceLookup {
+  /** Returns the primary name of the address. */
+  getName: (address: string, chainId?: number | string) => Promise<string | null | undefined>;
+  /** Returns the avatar URL of a name. */
+  getAvatar?: (name: string) => Promise<string | null | undefined>;
+  /** Overrides the default priority of the resolver. */
+  priority?: number;
+}
+
+/**
+ * An entry of a custom address directory: a name, or a name and an avatar.
+ */
+export type NameDirectoryEntry = string | { name: string; avatar?: string | null };
+
+const DEFAULT_TTL = 60 * 60 * 1000;
+/** Number of addresses whose state is kept when the cache doesn't set `maxEntries`. */
+const DEFAULT_MAX_TRACKED_KEYS = 500;
+const DEFAULT_NEGATIVE_TTL = 5 * 60 * 1000;
+const EMPTY_NAME: ResolvedName = { name: null, avatar: null };
+
+/** Chain IDs of Base mainnet and Base Sepolia. */
+const BASE_CHAIN_IDS = [8453, 84532];
+
+/**
+ * Checks whether a value is an EVM address (`0x` followed by 40 hex characters).
+ */
+export function isEvmAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+/**
+ * Checks whether a value looks like a Solana address (32 to 44 base58 characters).
+ */
+export function isSolanaAddress(address: string): boolean {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+}
+
+/**
+ * Returns the cache key of an address on a chain. EVM addresses are case-insensitive.
+ */
+export const getNameKey = (address: string, chainId?: number | string) =>
+  `${chainId ?? '*'}:${isEvmAddress(address) ? address.toLowerCase() : address}`;
+
+/**
+ * Tries the resolvers in order and returns the first name found, with its avatar.
+ */
+async function resolveWith(
+  resolvers: NameResolver[],
+  address: string,
+  chainId?: number | string,
+): Promise<{ value: ResolvedName; error: string | null }> {
+  let error: string | null = null;
+
+  for (const resolver of resolvers) {
+    try {
+      const name = await resolver.resolveName(address, chainId);
+      if (!name) continue;
+
+      let avatar: string | null = null;
+      try {
+        avatar = (await resolver.resolveAvatar?.(name, address, chainId)) ?? null;
+      } catch (avatarError) {
+        // Avatar failed, but name succeeded - not critical
+        console.warn(`Failed to resolve the avatar of ${name}:`, avatarError);
+      }
+
+      return { value: { name, avatar, resolverId: resolver.id }, error: null };
+    } catch (resolverError) {
+      console.warn(`Name resolver "${resolver.id}" failed for ${address}:`, resolverError);
+      error = resolverError instanceof Error ? resolverError.message : 'Failed to resolve name';
+    }
+  }
+
+  return { value: EMPTY_NAME, error };
+}
+
+/**
+ * Creates a registry resolving addresses through prioritized resolvers.
+ * Results, including addresses without a name, are cached until they expire; while an expired
+ * name is resolved again, the last known one is still returned by `getState`.
+ * Registering or removing a resolver drops the cached "no name" results so they are resolved again.
+ * The state of at most `cache.maxEntries` recently used addresses is kept.
+ *
+ * @param options - {@link NameResolverRegistryOptions}
+ * @returns A new {@link NameResolverRegistry} instance
+ *
+ * @example
+ * ```ts
+ * const registry = createNameResolverRegistry({
+ *   resolvers: [
+ *     createDirectoryResolver({ '0x1234…': 'Treasury' }),
+ *     createEnsResolver({ getName: (address) => client.getEnsName({ address }) }),
+ *   ],
+ *   cache: createNameCache({ storage: window.localStorage }),
+ * });
+ *
+ * const { name } = await registry.resolve('0x1234…', 1);
+ * ```
+ */
+export function createNameResolverRegistry({
+  resolvers: initialResolvers = [],
+  cache = createNameCache(),
+  ttl = DEFAULT_TTL,
+  negativeTtl = DEFAULT_NEGATIVE_TTL,
+}: NameResolverRegistryOptions = {}): NameResolverRegistry {
+  let resolvers: NameResolver[] = [];
+  const pending = new Map<string, Promise<ResolvedName>>();
+  const errors = new Map<string, { message: string; retryAt: number }>();
+  const snapshots = new Map<string, NameResolutionState>();
+  const knownKeys = new Set<string>();
+  const listeners = new Set<() => void>();
+  const maxTrackedKeys = cache.maxEntries ?? DEFAULT_MAX_TRACKED_KEYS;
+
+  // Keeps the most recently used addresses, so the state of the registry stays as bounded as its cache
+  const trackKey = (key: string) => {
+    knownKeys.delete(key);
+    knownKeys.add(key);
+    while (knownKeys.size > maxTrackedKeys) {
+      const oldestKey = knownKeys.values().next().value;
+      if (oldestKey === undefined) break;
+      knownKeys.delete(oldestKey);
+      snapshots.delete(oldestKey);
+      errors.delete(oldestKey);
+    }
+  };
+
+  const notify = (key?: string) => {
+    if (key) snapshots.delete(key);
+    else snapshots.clear();
+    listeners.forEach((listener) => listener());
+  };
+
+  const setResolvers = (nextResolvers: NameResolver[]) => {
+    // Array.prototype.sort is stable, so equal priorities keep the registration order
+    resolvers = [...nextResolvers].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    // Addresses without a name may be resolved by the new set of resolvers
+    knownKeys.forEach((key) => {
+      if (cache.get(key)?.value.name === null) cache.delete(key);
+    });
+    errors.clear();
+    notify();
+  };
+
+  const unregister = (id: string) => {
+    if (resolvers.some((resolver) => resolver.id === id)) {
+      setResolvers(resolvers.filter((resolver) => resolver.id !== id));
+    }
+  };
+
+  setResolvers(initialResolvers);
+
+  return {
+    register: (resolver) => {
+      setResolvers([...resolvers.filter(({ id }) => id !== resolver.id), resolver]);
+      return () => {
+        // Only remove the resolver if it has not been replaced in the meantime
+        if (resolvers.includes(resolver)) unregister(resolver.id);
+      };
+    },
+    unregister,
+    getResolvers: () => resolvers,
+    resolve: (address, chainId, { force = false } = {}) => {
+      const key = getNameKey(address, chainId);
+      trackKey(key);
+
+      const pendingRequest = pending.get(key);
+      if (pendingRequest) return pendingRequest;
+
+      const cached = cache.get(key);
+      if (!force) {
+        if (cached && cached.expiresAt > Date.now()) return Promise.resolve(cached.value);
+        // Failed addresses are not retried before `negativeTtl`, unless forced
+        const failure = errors.get(key);
+        if (failure && failure.retryAt > Date.now()) return Promise.resolve(cached?.value ?? EMPTY_NAME);
+      }
+
+      const candidates = resolvers.filter((resolver) => resolver.supports?.(address, chainId) ?? true);
+      if (!candidates.length) return Promise.resolve(cached?.value ?? EMPTY_NAME);
+
+      const request = resolveWith(candidates, address, chainId)
+        .then(({ value, error }) => {
+          if (error) {
+            // Keep the last known name
+            errors.set(key, { message: error, retryAt: Date.now() + negativeTtl });
+            return cached?.value ?? value;
+          }
+          errors.delete(key);
+          cache.set(key, value, value.name ? ttl : negativeTtl);
+          return value;
+        })
+        .finally(() => {
+          pending.delete(key);
+          notify(key);
+        });
+
+      pending.set(key, request);
+      notify(key);
+      return request;
+    },
+    getState: (address, chainId) => {
+      const key = getNameKey(address, chainId);
+      let snapshot = snapshots.get(key);
+      if (!snapshot) {
+        trackKey(key);
+        const cached = cache.get(key)?.value ?? EMPTY_NAME;
+        snapshot = { ...cached, isLoading: pending.has(key), error: errors.get(key)?.message ?? null };
+        snapshots.set(key, snapshot);
+      }
+      return snapshot;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Creates a resolver for Ethereum Name Service primary names of EVM addresses.
+ * ENS reverse records live on Ethereum mainnet, so the resolver is used on every EVM chain.
+ *
+ * @param lookup - {@link NameServiceLookup}, e.g. backed by viem's `getEnsName` and `getEnsAvatar`
+ * @returns {NameResolver} The `ens` resolver (priority 10).
+ */
+export function createEnsResolver({ getName, getAvatar, priority = 10 }: NameServiceLookup): NameResolver {
+  return {
+    id: 'ens',
+    priority,
+    supports: (address) => isEvmAddress(address),
+    resolveName: getName,
+    resolveAvatar: getAvatar && ((name) => getAvatar(name)),
+  };
+}
+
+/**
+ * Creates a resolver for Basenames, the ENS-compatible names of Base.
+ * It only applies on Base chains, where it takes precedence over ENS.
+ *
+ * @param lookup - {@link NameServiceLookup} plus the chain IDs the names apply to (default: Base and Base Sepolia)
+ * @returns {NameResolver} The `basenames` resolver (priority 20).
+ */
+export function createBasenameResolver({
+  getName,
+  getAvatar,
+  priority = 20,
+  chainIds = BASE_CHAIN_IDS,
+}: NameServiceLookup & { chainIds?: (number | string)[] }): NameResolver {
+  return {
+    id: 'basenames',
+    priority,
+    supports: (address, chainId) =>
+      isEvmAddress(address) && chainId !== undefined && chainIds.some((id) => String(id) === String(chainId)),
+    resolveName: getName,
+    resolveAvatar: getAvatar && ((name) => getAvatar(name)),
+  };
+}
+
+/**
+ * Creates a resolver for Solana Name Service (`.sol`) names of Solana addresses.
+ *
+ * @param lookup - {@link NameServiceLookup}, e.g. backed by the reverse lookup of `@bonfida/spl-name-service`
+ * @returns {NameResolver} The `sns` resolver (priority 10).
+ */
+export function createSnsResolver({ getName, getAvatar, priority = 10 }: NameServiceLookup): NameResolver {
+  return {
+    id: 'sns',
+    priority,
+    supports: (address) => isSolanaAddress(address),
+    resolveName: getName,
+    resolveAvatar: getAvatar && ((name) => getAvatar(name)),
+  };
+}
+
+/**
+ * Creates a resolver from a static directory of known addresses, such as the wallets of an organization.
+ * EVM addresses are matched case-insensitively. With the default priority, directory names win over name services.
+ *
+ * @param directory - Names (or names and avatars) by address
+ * @param options - Resolver `id` (default: 'directory'), `priority` (default: 100) and the `chainIds` it applies to (default: all)
+ * @returns {NameResolver} The directory resolver.
+ *
+ * @example
+ * ```ts
+ * const teamResolver = createDirectoryResolver({
+ *   '0x71C7656EC7ab88b098defB751B7401B5f6d8976F': { name: 'Treasury', avatar: '/avatars/treasury.png' },
+ *   '7EcDhSYGxXyscszYEp35KHN8vvw3svAuLKTzXwCFLtV': 'Payroll',
+ * });
+ * ```
+ */
+export function createDirectoryResolver(
+  directory: Record<string, NameDirectoryEntry>,
+  {
+    id = 'directory',
+    priority = 100,
+    chainIds,
+  }: { id?: string; priority?: number; chainIds?: (number | string)[] } = {},
+): NameResolver {
+  const entries = new Map(
+    Object.entries(directory).map(([address, entry]) => [
+      isEvmAddress(address) ? address.toLowerCase() : address,
+      typeof entry === 'string' ? { name: entry, avatar: null } : entry,
+    ]),
+  );
+  const getEntry = (address: string) => entries.get(isEvmAddress(address) ? address.toLowerCase() : address);
+
+  return {
+    id,
+    priority,
+    supports: (address, chainId) =>
+      !!getEntry(address) && (!chainIds || chainIds.some((chain) => String(chain) === String(chainId))),
+    resolveName: async (address) => getEntry(address)?.name ?? null,
+    resolveAvatar: async (_name, address) => getEntry(address)?.avatar ?? null,
+  };
+}
+
+/**
+ * Default registry used by `useResolvedName` outside of a `NameResolverProvider`.
+ * It starts without resolvers; `NovaConnectProvider` registers the wallet adapters' name services in it.
+ */
+export const defaultNameResolverRegistry = createNameResolverRegistry();
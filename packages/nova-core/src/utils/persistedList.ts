@@ -0,0 +1,121 @@
+/**
+ * @file A list kept in memory and mirrored as JSON to a pluggable storage, with change listeners.
+ * The building block of the persisted histories, caches and inboxes of the Nova packages.
+ */
+
+import { NovaStorageOption, resolveStorage } from './storage';
+
+/**
+ * Persisted list store.
+ */
+export interface PersistedList<T> {
+  /** Current items */
+  get: () => T[];
+  /** Replaces the items (after `normalize`), persists them and notifies the listeners */
+  set: (items: T[]) => void;
+  /** Subscribes to changes. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for {@link createPersistedList}.
+ */
+export interface PersistedListOptions<T> {
+  /**
+   * Where the items are persisted.
+   * @default 'memory'
+   */
+  storage?: NovaStorageOption;
+  /** Storage key (or cookie name) */
+  storageKey: string;
+  /** Filters the persisted items, e.g. dropping malformed or expired ones */
+  isValid?: (item: unknown) => item is T;
+  /** Applied to the items read from storage and on every `set`, e.g. to sort and trim them */
+  normalize?: (items: T[]) => T[];
+  /** Items used while nothing is persisted */
+  initialItems?: T[];
+  /**
+   * Whether an empty list removes the storage entry. Set to `false` when `initialItems` must not come back
+   * once the user emptied the list.
+   * @default true
+   */
+  removeWhenEmpty?: boolean;
+}
+
+/**
+ * Reads previously persisted items from storage.
+ * Any parse or access error is treated as nothing persisted.
+ */
+function readPersistedItems<T>(
+  storage: ReturnType<typeof resolveStorage>,
+  storageKey: string,
+  isValid?: (item: unknown) => item is T,
+): T[] | undefined {
+  if (!storage) return undefined;
+  try {
+    const raw = storage.getItem(storageKey);
+    if (!raw) return undefined;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return undefined;
+    return isValid ? parsed.filter(isValid) : (parsed as T[]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Creates a list store persisted to the given storage. Write errors (quota, disabled storage)
+ * keep the list in memory only.
+ *
+ * @param options - {@link PersistedListOptions}
+ * @returns {PersistedList<T>} The list store.
+ *
+ * @example
+ * ```ts
+ * const recent = createPersistedList<string>({
+ *   storage: 'localStorage',
+ *   storageKey: 'app:recent-searches',
+ *   isValid: (item): item is string => typeof item === 'string',
+ *   normalize: (items) => items.slice(0, 10),
+ * });
+ * recent.set(['nova', ...recent.get()]);
+ * ```
+ */
+export function createPersistedList<T>({
+  storage: storageOption = 'memory',
+  storageKey,
+  isValid,
+  normalize = (items) => items,
+  initialItems = [],
+  removeWhenEmpty = true,
+}: PersistedListOptions<T>): PersistedList<T> {
+  const storage = resolveStorage(storageOption);
+  const listeners = new Set<() => void>();
+
+  let items = normalize(readPersistedItems(storage, storageKey, isValid) ?? initialItems);
+
+  return {
+    get: () => items,
+    set: (next) => {
+      items = normalize(next);
+      if (storage) {
+        try {
+          if (items.length || !removeWhenEmpty) {
+            storage.setItem(storageKey, JSON.stringify(items));
+          } else {
+            storage.removeItem(storageKey);
+          }
+        } catch {
+          // Quota or access errors keep the list in memory only
+        }
+      }
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * @file Pluggable key-value storage used to persist user preferences and caches, such as the connector history,
+ * pinned networks, resolved names and transaction notifications.
+ */
+
+/**
+ * Key-value storage. `localStorage` and `sessionStorage` satisfy it,
+ * {@link createCookieStorage} stores values in cookies, and any custom backend can implement it.
+ */
+export interface NovaStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+/**
+ * Built-in storage backends, or a custom {@link NovaStorage}.
+ */
+export type NovaStorageOption = 'localStorage' | 'sessionStorage' | 'cookie' | 'memory' | NovaStorage;
+
+/**
+ * Creates a {@link NovaStorage} backed by cookies, e.g. to share preferences between subdomains.
+ *
+ * @param options - Cookie attributes. `maxAgeDays` defaults to 365, `path` to `/`, `sameSite` to `Lax`.
+ */
+export function createCookieStorage(
+  options: { maxAgeDays?: number; path?: string; domain?: string; sameSite?: 'Strict' | 'Lax' | 'None' } = {},
+): NovaStorage {
+  const { maxAgeDays = 365, path = '/', domain, sameSite = 'Lax' } = options;
+  const attributes = [
+    `path=${path}`,
+    `SameSite=${sameSite}`,
+    domain && `domain=${domain}`,
+    sameSite === 'None' && 'Secure',
+  ]
+    .filter(Boolean)
+    .join('; ');
+
+  return {
+    getItem: (key) => {
+      if (typeof document === 'undefined') return null;
+      const prefix = `${encodeURIComponent(key)}=`;
+      const cookie = document.cookie.split('; ').find((part) => part.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    },
+    setItem: (key, value) => {
+      if (typeof document === 'undefined') return;
+      document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; max-age=${maxAgeDays * 86400}; ${attributes}`;
+    },
+    removeItem: (key) => {
+      if (typeof document === 'undefined') return;
+      document.cookie = `${encodeURIComponent(key)}=; max-age=0; ${attributes}`;
+    },
+  };
+}
+
+/**
+ * Resolves a storage option to a storage instance. Web Storage that is unavailable
+ * (SSR, disabled cookies, private mode) resolves to `undefined`, i.e. in-memory only.
+ *
+ * @param option - {@link NovaStorageOption}
+ * @returns {NovaStorage | undefined} The storage, or `undefined` for in-memory persistence.
+ */
+export function resolveStorage(option: NovaStorageOption): NovaStorage | undefined {
+  if (typeof option === 'object') return option;
+  if (option === 'memory') return undefined;
+  if (option === 'cookie') return createCookieStorage();
+  try {
+    return typeof window !== 'undefined' ? window[option] : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @file This file contains a small key-value cache for resolved SVG icons, with optional persistence.
+ */
+
+import { createPersistedList } from './persistedList';
+
+/**
+ * Minimal cache contract used by icon components to store resolved SVGs.
+ * Key: `${iconPath}|${firstPathFill ?? ''}` → Value: base64 encoded SVG data URL
+ */
+export interface SvgCache {
+  get: (key: string) => string | undefined;
+  set: (key: string, value: string) => void;
+  has: (key: string) => boolean;
+  delete: (key: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Options for {@link createSvgCache}.
+ */
+export interface SvgCacheOptions {
+  /**
+   * Web Storage used to persist entries between page loads (e.g., `window.localStorage`).
+   * When omitted, the cache lives in memory only.
+   */
+  storage?: Storage;
+  /**
+   * Storage key under which all entries are serialized.
+   * @default 'nova:svg-cache'
+   */
+  storageKey?: string;
+  /**
+   * Maximum number of entries kept, including the ones loaded from storage. The oldest entries are evicted first.
+   * @default Infinity (unbounded)
+   */
+  maxEntries?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'nova:svg-cache';
+const DEFAULT_MAX_ENTRIES = Infinity;
+
+/**
+ * Checks the shape of a persisted entry.
+ */
+const isSvgCacheEntry = (item: unknown): item is [string, string] =>
+  Array.isArray(item) && typeof item[0] === 'string' && typeof item[1] === 'string';
+
+/**
+ * Creates an SVG cache that can be shared between icon components and,
+ * optionally, persisted to Web Storage.
+ *
+ * @param options - {@link SvgCacheOptions}
+ * @returns A new {@link SvgCache} instance
+ *
+ * @example
+ * ```ts
+ * // In-memory only
+ * const cache = createSvgCache();
+ *
+ * // Persisted across reloads
+ * const persistentCache = createSvgCache({ storage: window.localStorage });
+ * ```
+ */
+export function createSvgCache({
+  storage,
+  storageKey = DEFAULT_STORAGE_KEY,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+}: SvgCacheOptions = {}): SvgCache {
+  // The map keeps the insertion order, the list mirrors it to storage.
+  // Trimming keeps the most recently stored entries when the persisted list exceeds the limit.
+  const persistedList = createPersistedList<[string, string]>({
+    storage: storage ?? 'memory',
+    storageKey,
+    isValid: isSvgCacheEntry,
+    normalize: (items) => items.slice(Math.max(0, items.length - maxEntries)),
+  });
+  const entries = new Map<string, string>(persistedList.get());
+
+  const persist = () => {
+    if (storage) persistedList.set(Array.from(entries.entries()));
+  };
+
+  return {
+    get: (key) => entries.get(key),
+    has: (key) => entries.has(key),
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+      persist();
+    },
+    delete: (key) => {
+      entries.delete(key);
+      persist();
+    },
+    clear: () => {
+      entries.clear();
+      persist();
+    },
+  };
+}
+
+/**
+ * Default in-memory cache shared by all icon components rendered
+ * outside of an `IconSourceProvider` (or inside one without a custom cache).
+ * Persists until page reload.
+ */
+export const defaultSvgCache = createSvgCache();
@@ -0,0 +1,168 @@
+/**
+ * @file This file contains the typed theme model and its conversion into `--tuwa-*` CSS variables.
+ */
+
+import { deepMerge } from './deepMerge';
+
+/**
+ * Semantic colors of a Nova theme. Every key maps to one `--tuwa-*` CSS variable.
+ */
+export interface NovaThemeColors {
+  successBg: string;
+  successText: string;
+  successIcon: string;
+
+  errorBg: string;
+  errorText: string;
+  errorIcon: string;
+
+  pendingBg: string;
+  pendingText: string;
+  pendingIcon: string;
+
+  infoBg: string;
+  infoText: string;
+  infoIcon: string;
+
+  textPrimary: string;
+  textSecondary: string;
+  textTertiary: string;
+  textAccent: string;
+  textOnAccent: string;
+
+  bgPrimary: string;
+  bgSecondary: string;
+  bgMuted: string;
+
+  borderPrimary: string;
+  borderSecondary: string;
+
+  standardButtonBg: string;
+  standardButtonHover: string;
+
+  testnetIcons: string;
+}
+
+/**
+ * Gradient stops used by primary (call-to-action) buttons.
+ */
+export interface NovaThemeButtonGradients {
+  from: string;
+  to: string;
+  fromHover: string;
+  toHover: string;
+}
+
+/**
+ * A complete Nova theme.
+ */
+export interface NovaTheme {
+  /** Whether the theme is light or dark. Used for `color-scheme` and by `auto` mode. */
+  colorScheme: 'light' | 'dark';
+  /** Semantic colors. */
+  colors: NovaThemeColors;
+  /** Gradient stops of primary buttons. */
+  buttonGradients: NovaThemeButtonGradients;
+  /** Corner radii. */
+  radii: {
+    /** Radius used by cards, modals and buttons (`--tuwa-rounded-corners`). */
+    corners: string;
+  };
+  /** Font families. */
+  fonts?: {
+    /** Font stack applied to every `font-mono` element inside the themed subtree. */
+    mono?: string;
+  };
+  /** Width of focus rings (`--tuwa-ring-width`). */
+  ringWidth: string;
+}
+
+/**
+ * Partial theme used to override a preset.
+ */
+export type NovaThemeOverrides = {
+  colorScheme?: NovaTheme['colorScheme'];
+  colors?: Partial<NovaThemeColors>;
+  buttonGradients?: Partial<NovaThemeButtonGradients>;
+  radii?: Partial<NovaTheme['radii']>;
+  fonts?: NovaTheme['fonts'];
+  ringWidth?: string;
+};
+
+/**
+ * Mapping of theme color keys to CSS variable names.
+ */
+const COLOR_VARIABLES: Record<keyof NovaThemeColors, string> = {
+  successBg: '--tuwa-success-bg',
+  successText: '--tuwa-success-text',
+  successIcon: '--tuwa-success-icon',
+  errorBg: '--tuwa-error-bg',
+  errorText: '--tuwa-error-text',
+  errorIcon: '--tuwa-error-icon',
+  pendingBg: '--tuwa-pending-bg',
+  pendingText: '--tuwa-pending-text',
+  pendingIcon: '--tuwa-pending-icon',
+  infoBg: '--tuwa-info-bg',
+  infoText: '--tuwa-info-text',
+  infoIcon: '--tuwa-info-icon',
+  textPrimary: '--tuwa-text-primary',
+  textSecondary: '--tuwa-text-secondary',
+  textTertiary: '--tuwa-text-tertiary',
+  textAccent: '--tuwa-text-accent',
+  textOnAccent: '--tuwa-text-on-accent',
+  bgPrimary: '--tuwa-bg-primary',
+  bgSecondary: '--tuwa-bg-secondary',
+  bgMuted: '--tuwa-bg-muted',
+  borderPrimary: '--tuwa-border-primary',
+  borderSecondary: '--tuwa-border-secondary',
+  standardButtonBg: '--tuwa-standart-button-bg',
+  standardButtonHover: '--tuwa-standart-button-hover',
+  testnetIcons: '--tuwa-testnet-icons',
+};
+
+/**
+ * Creates a theme by deep-merging overrides into a base theme.
+ *
+ * @param base - Base theme, usually one of `novaThemePresets`
+ * @param overrides - Values to override
+ * @returns A new, complete {@link NovaTheme}
+ *
+ * @example
+ * ```ts
+ * const brandTheme = createNovaTheme(novaThemePresets.dark, {
+ *   colors: { textAccent: '#1ad699', textOnAccent: '#05291d' },
+ *   radii: { corners: '12px' },
+ * });
+ * ```
+ */
+export function createNovaTheme(base: NovaTheme, overrides: NovaThemeOverrides = {}): NovaTheme {
+  return deepMerge(base, overrides as Partial<NovaTheme>);
+}
+
+/**
+ * Converts a theme into a map of `--tuwa-*` CSS variables, ready to be used as an inline `style`.
+ *
+ * @param theme - The theme to convert
+ * @returns Record of CSS variable name → value
+ */
+export function themeToCssVariables(theme: NovaTheme): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  (Object.keys(COLOR_VARIABLES) as (keyof NovaThemeColors)[]).forEach((key) => {
+    variables[COLOR_VARIABLES[key]] = theme.colors[key];
+  });
+
+  variables['--tuwa-button-gradient-from'] = theme.buttonGradients.from;
+  variables['--tuwa-button-gradient-to'] = theme.buttonGradients.to;
+  variables['--tuwa-button-gradient-from-hover'] = theme.buttonGradients.fromHover;
+  variables['--tuwa-button-gradient-to-hover'] = theme.buttonGradients.toHover;
+
+  variables['--tuwa-rounded-corners'] = theme.radii.corners;
+  variables['--tuwa-ring-width'] = theme.ringWidth;
+
+  if (theme.fonts?.mono) {
+    variables['--tuwa-font-mono'] = theme.fonts.mono;
+  }
+
+  return variables;
+}
@@ -0,0 +1,189 @@
+/**
+ * @file This file contains the built-in Nova theme presets.
+ */
+
+import { NovaTheme } from './theme';
+
+/**
+ * Names of the built-in theme presets.
+ */
+export type NovaThemePresetName = 'light' | 'dark' | 'dim' | 'high-contrast';
+
+/**
+ * Default light theme. Mirrors the `:root` variables of `variables.css`.
+ */
+const lightTheme: NovaTheme = {
+  colorScheme: 'light',
+  colors: {
+    successBg: '#dcfce7',
+    successText: '#15803d',
+    successIcon: '#22c55e',
+    errorBg: '#fee2e2',
+    errorText: '#b91c1c',
+    errorIcon: '#ef4444',
+    pendingBg: '#fef9c3',
+    pendingText: '#854d0e',
+    pendingIcon: '#ca8a04',
+    infoBg: '#f3f4f6',
+    infoText: '#4b5563',
+    infoIcon: '#6b7280',
+    textPrimary: '#111827',
+    textSecondary: '#6b7280',
+    textTertiary: '#9ca3af',
+    textAccent: '#2563eb',
+    textOnAccent: '#ffffff',
+    bgPrimary: '#ffffff',
+    bgSecondary: '#f9fafb',
+    bgMuted: '#f3f4f6',
+    borderPrimary: '#e5e7eb',
+    borderSecondary: '#f3f4f6',
+    standardButtonBg: '#f3f4f6',
+    standardButtonHover: '#e5e7eb',
+    testnetIcons: '#c4bfb8',
+  },
+  buttonGradients: {
+    from: '#2563eb',
+    to: '#9333ea',
+    fromHover: '#1d4ed8',
+    toHover: '#7e22ce',
+  },
+  radii: { corners: '4px' },
+  ringWidth: '2px',
+};
+
+/**
+ * Default dark theme. Mirrors the `.dark` variables of `variables.css`.
+ */
+const darkTheme: NovaTheme = {
+  colorScheme: 'dark',
+  colors: {
+    successBg: '#14532d',
+    successText: '#86efac',
+    successIcon: '#4ade80',
+    errorBg: '#7f1d1d',
+    errorText: '#fca5a5',
+    errorIcon: '#f87171',
+    pendingBg: '#713f12',
+    pendingText: '#fde047',
+    pendingIcon: '#facc15',
+    infoBg: '#374151',
+    infoText: '#d1d5db',
+    infoIcon: '#9ca3af',
+    textPrimary: '#f9fafb',
+    textSecondary: '#9ca3af',
+    textTertiary: '#6b7280',
+    textAccent: '#60a5fa',
+    textOnAccent: '#ffffff',
+    bgPrimary: '#111827',
+    bgSecondary: '#1f2937',
+    bgMuted: '#374151',
+    borderPrimary: '#374151',
+    borderSecondary: '#1f2937',
+    standardButtonBg: '#374151',
+    standardButtonHover: '#1f2937',
+    testnetIcons: '#c4bfb8',
+  },
+  buttonGradients: {
+    from: '#3b82f6',
+    to: '#a855f7',
+    fromHover: '#2563eb',
+    toHover: '#9333ea',
+  },
+  radii: { corners: '4px' },
+  ringWidth: '2px',
+};
+
+/**
+ * Low-glare dark theme with slate surfaces and softened accents.
+ */
+const dimTheme: NovaTheme = {
+  colorScheme: 'dark',
+  colors: {
+    successBg: 'rgba(34, 197, 94, 0.15)',
+    successText: '#86efac',
+    successIcon: '#4ade80',
+    errorBg: 'rgba(239, 68, 68, 0.15)',
+    errorText: '#fca5a5',
+    errorIcon: '#f87171',
+    pendingBg: 'rgba(234, 179, 8, 0.15)',
+    pendingText: '#fde68a',
+    pendingIcon: '#facc15',
+    infoBg: '#334155',
+    infoText: '#cbd5e1',
+    infoIcon: '#94a3b8',
+    textPrimary: '#e2e8f0',
+    textSecondary: '#94a3b8',
+    textTertiary: '#64748b',
+    textAccent: '#818cf8',
+    textOnAccent: '#0f172a',
+    bgPrimary: '#1e293b',
+    bgSecondary: '#273449',
+    bgMuted: '#334155',
+    borderPrimary: '#334155',
+    borderSecondary: '#273449',
+    standardButtonBg: '#334155',
+    standardButtonHover: '#475569',
+    testnetIcons: '#94a3b8',
+  },
+  buttonGradients: {
+    from: '#6366f1',
+    to: '#38bdf8',
+    fromHover: '#4f46e5',
+    toHover: '#0ea5e9',
+  },
+  radii: { corners: '8px' },
+  ringWidth: '2px',
+};
+
+/**
+ * Maximum contrast theme for accessibility: pure black surfaces, white text and
+ * solid, saturated status colors.
+ */
+const highContrastTheme: NovaTheme = {
+  colorScheme: 'dark',
+  colors: {
+    successBg: '#000000',
+    successText: '#00ff7f',
+    successIcon: '#00ff7f',
+    errorBg: '#000000',
+    errorText: '#ff5c5c',
+    errorIcon: '#ff5c5c',
+    pendingBg: '#000000',
+    pendingText: '#ffd900',
+    pendingIcon: '#ffd900',
+    infoBg: '#000000',
+    infoText: '#ffffff',
+    infoIcon: '#ffffff',
+    textPrimary: '#ffffff',
+    textSecondary: '#ffffff',
+    textTertiary: '#e5e5e5',
+    textAccent: '#ffd900',
+    textOnAccent: '#000000',
+    bgPrimary: '#000000',
+    bgSecondary: '#000000',
+    bgMuted: '#1a1a1a',
+    borderPrimary: '#ffffff',
+    borderSecondary: '#ffffff',
+    standardButtonBg: '#000000',
+    standardButtonHover: '#333333',
+    testnetIcons: '#ffffff',
+  },
+  buttonGradients: {
+    from: '#ffd900',
+    to: '#ffd900',
+    fromHover: '#ffffff',
+    toHover: '#ffffff',
+  },
+  radii: { corners: '4px' },
+  ringWidth: '3px',
+};
+
+/**
+ * Built-in theme presets, keyed by name.
+ */
+export const novaThemePresets: Record<NovaThemePresetName, NovaTheme> = {
+  light: lightTheme,
+  dark: darkTheme,
+  dim: dimTheme,
+  'high-contrast': highContrastTheme,
+};
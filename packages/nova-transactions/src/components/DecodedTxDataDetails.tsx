@@ -0,0 +1,199 @@
+/**
+ * @file This file contains the `DecodedTxDataDetails` component, which displays the decoded contract call
+ * or instructions of a transaction in `TransactionDetails`.
+ */
+
+import { cn } from '@tuwaio/nova-core';
+
+import { useLabels } from '../providers';
+import { DecodedTxData, DecodedTxDataArg } from '../utils';
+import { HashLink } from './HashLink';
+
+export type DecodedTxDataDetailsClassNames = {
+  /** Classes for the function or instruction name */
+  name?: string;
+  /** Classes for the contract or program name */
+  target?: string;
+  /** Classes for an instruction block */
+  instruction?: string;
+  /** Classes for an argument or account row */
+  row?: string;
+  /** Classes for the row label */
+  rowLabel?: string;
+  /** Classes for the row value */
+  rowValue?: string;
+  /** Classes for the signer / writable account flags */
+  accountFlag?: string;
+};
+
+export type DecodedTxDataDetailsProps = {
+  /** The decoded data */
+  data: DecodedTxData;
+  /** Returns the explorer URL of an address, used for address arguments and accounts */
+  getAddressUrl?: (address: string) => string | undefined;
+  /** The chain of the transaction, used to resolve addresses to names */
+  chainId?: number | string;
+  /** Optional additional CSS classes for the container. */
+  className?: string;
+  /** Granular classNames for sub-elements */
+  classNames?: DecodedTxDataDetailsClassNames;
+};
+
+/** Argument types displayed as explorer links. */
+const ADDRESS_TYPES = ['address', 'pubkey', 'publicKey'];
+
+/**
+ * Displays a decoded contract call (function and arguments) or the instructions of a Solana transaction
+ * (program, instruction name, arguments and accounts). Addresses link to the block explorer and show their resolved names.
+ */
+export function DecodedTxDataDetails({
+  data,
+  getAddressUrl,
+  chainId,
+  className,
+  classNames,
+}: DecodedTxDataDetailsProps) {
+  const {
+    transactionDetails: { decoded: labels },
+  } = useLabels();
+
+  const renderRow = (key: string, label: string, value: string, isAddress: boolean, flags?: string[]) => (
+    <div
+      key={key}
+      className={cn(
+        'novatx:flex novatx:min-w-0 novatx:items-center novatx:justify-between novatx:gap-3 novatx:py-1.5',
+        classNames?.row,
+      )}
+    >
+      <span
+        className={cn(
+          'novatx:shrink-0 novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-text-tertiary)]',
+          classNames?.rowLabel,
+        )}
+      >
+        {label}
+        {flags?.map((flag) => (
+          <span
+            key={flag}
+            className={cn(
+              'novatx:ml-1.5 novatx:rounded novatx:bg-[var(--tuwa-bg-muted)] novatx:px-1 novatx:text-[9px] novatx:font-bold novatx:uppercase novatx:text-[var(--tuwa-text-secondary)]',
+              classNames?.accountFlag,
+            )}
+          >
+            {flag}
+          </span>
+        ))}
+      </span>
+      {isAddress ? (
+        <HashLink
+          hash={value}
+          explorerUrl={getAddressUrl?.(value)}
+          resolveName
+          chainId={chainId}
+          variant="compact"
+          className={classNames?.rowValue}
+        />
+      ) : (
+        <span
+          className={cn(
+            'novatx:min-w-0 novatx:break-all novatx:text-right novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-text-primary)]',
+            classNames?.rowValue,
+          )}
+        >
+          {value}
+        </span>
+      )}
+    </div>
+  );
+
+  const renderArgs = (args: DecodedTxDataArg[], keyPrefix: string) =>
+    args.map((arg, index) =>
+      renderRow(
+        `${keyPrefix}-arg-${index}`,
+        arg.name ?? `#${index}`,
+        arg.value,
+        !!arg.type && ADDRESS_TYPES.includes(arg.type),
+      ),
+    );
+
+  const nameClassName = cn(
+    'novatx:font-mono novatx:text-sm novatx:font-bold novatx:text-[var(--tuwa-text-accent)]',
+    classNames?.name,
+  );
+  const targetClassName = cn('novatx:text-xs novatx:text-[var(--tuwa-text-secondary)]', classNames?.target);
+  const subheadingClassName =
+    'novatx:mt-2 novatx:block novatx:text-[10px] novatx:font-black novatx:uppercase novatx:tracking-widest novatx:text-[var(--tuwa-text-tertiary)]';
+
+  if (data.type === 'call') {
+    return (
+      <div className={cn('novatx:flex novatx:flex-col novatx:gap-1', className)}>
+        <div className="novatx:flex novatx:flex-wrap novatx:items-baseline novatx:gap-2">
+          <span className={nameClassName}>{data.functionName}</span>
+          {data.contractName && (
+            <span className={targetClassName}>
+              {labels.contract}: {data.contractName}
+            </span>
+          )}
+        </div>
+        {data.args.length > 0 && (
+          <>
+            <span className={subheadingClassName}>{labels.arguments}</span>
+            <div className="novatx:divide-y novatx:divide-[var(--tuwa-border-primary)]">
+              {renderArgs(data.args, 'call')}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <ol className={cn('novatx:flex novatx:flex-col novatx:gap-3', className)}>
+      {data.instructions.map((instruction, index) => (
+        <li
+          key={`${instruction.programId}-${index}`}
+          className={cn(
+            'novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-muted)]/50 novatx:p-3',
+            classNames?.instruction,
+          )}
+        >
+          <div className="novatx:flex novatx:flex-wrap novatx:items-baseline novatx:gap-2">
+            <span className="novatx:font-mono novatx:text-[10px] novatx:text-[var(--tuwa-text-tertiary)]">
+              #{index + 1}
+            </span>
+            <span className={nameClassName}>{instruction.name ?? labels.instruction}</span>
+            <span className={targetClassName} title={instruction.programId}>
+              {labels.program}: {instruction.programName ?? instruction.programId}
+            </span>
+          </div>
+          {!!instruction.args?.length && (
+            <>
+              <span className={subheadingClassName}>{labels.arguments}</span>
+              <div className="novatx:divide-y novatx:divide-[var(--tuwa-border-primary)]">
+                {renderArgs(instruction.args, `instruction-${index}`)}
+              </div>
+            </>
+          )}
+          {instruction.accounts.length > 0 && (
+            <>
+              <span className={subheadingClassName}>{labels.accounts}</span>
+              <div className="novatx:divide-y novatx:divide-[var(--tuwa-border-primary)]">
+                {instruction.accounts.map((account, accountIndex) =>
+                  renderRow(
+                    `instruction-${index}-account-${accountIndex}`,
+                    account.name ?? `#${accountIndex}`,
+                    account.address,
+                    true,
+                    [account.isSigner && labels.signer, account.isWritable && labels.writable].filter(
+                      (flag): flag is string => !!flag,
+                    ),
+                  ),
+                )}
+              </div>
+            </>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * @file This file contains the `DecodedTxErrorDetails` component, which displays an error decoded by the error decoder pipeline.
+ */
+
+import { cn } from '@tuwaio/nova-core';
+
+import { DecodedTxError } from '../utils';
+
+export type DecodedTxErrorDetailsClassNames = {
+  /** Classes for the error name */
+  name?: string;
+  /** Classes for the arguments list */
+  args?: string;
+  /** Classes for an argument row */
+  arg?: string;
+  /** Classes for the friendly message */
+  message?: string;
+};
+
+export type DecodedTxErrorDetailsProps = {
+  /** The decoded error */
+  decodedError: DecodedTxError;
+  /** Optional additional CSS classes for the container. */
+  className?: string;
+  /** Granular classNames for sub-elements */
+  classNames?: DecodedTxErrorDetailsClassNames;
+};
+
+/**
+ * Displays the friendly message, name and arguments of a decoded error, e.g.
+ * "Your token balance is too low." followed by `ERC20InsufficientBalance(sender: 0x…, balance: 5, needed: 10)`.
+ */
+export function DecodedTxErrorDetails({ decodedError, className, classNames }: DecodedTxErrorDetailsProps) {
+  const { name, args, message } = decodedError;
+
+  return (
+    <div className={cn('novatx:flex novatx:flex-col novatx:gap-1', className)}>
+      {message && (
+        <p
+          className={cn(
+            'novatx:text-xs novatx:font-medium novatx:text-[var(--tuwa-error-text)] novatx:wrap-break-word',
+            classNames?.message,
+          )}
+        >
+          {message}
+        </p>
+      )}
+      <p
+        className={cn(
+          'novatx:font-mono novatx:text-xs novatx:font-bold novatx:text-[var(--tuwa-error-text)]',
+          classNames?.name,
+        )}
+      >
+        {name}
+      </p>
+      {!!args?.length && (
+        <dl className={cn('novatx:flex novatx:flex-col novatx:gap-0.5 novatx:pl-2', classNames?.args)}>
+          {args.map((arg, index) => (
+            <div
+              key={`${arg.name ?? index}`}
+              className={cn('novatx:flex novatx:gap-1.5 novatx:font-mono novatx:text-xs', classNames?.arg)}
+            >
+              <dt className="novatx:shrink-0 novatx:text-[var(--tuwa-text-tertiary)]">{arg.name ?? `#${index}`}:</dt>
+              <dd className="novatx:break-all novatx:text-[var(--tuwa-error-text)]">{arg.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
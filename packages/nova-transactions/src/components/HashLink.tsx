@@ -4,7 +4,7 @@
  */
 
 import { ArrowTopRightOnSquareIcon, CheckIcon, DocumentDuplicateIcon } from '@heroicons/react/24/solid';
-import { cn, textCenterEllipsis, useCopyToClipboard } from '@tuwaio/nova-core';
+import { cn, textCenterEllipsis, useCopyToClipboard, useResolvedName } from '@tuwaio/nova-core';
 
 import { useLabels } from '../providers';
 
@@ -15,6 +15,13 @@ export type HashLinkProps = {
   label?: string;
   /** An optional URL to a block explorer. If provided, the hash becomes a clickable link. */
   explorerUrl?: string;
+  /**
+   * Whether the hash is an address to display as its resolved name (ENS, SNS, Basenames…) once known.
+   * The full address stays available in the tooltip and is still the copied value.
+   */
+  resolveName?: boolean;
+  /** The chain of the address, used to pick chain-specific name resolvers. */
+  chainId?: number | string;
   /** The visual style of the component. 'default' is larger, 'compact' is smaller. */
   variant?: 'default' | 'compact';
   /** Additional CSS classes to apply to the container element for custom styling. */
@@ -34,9 +41,19 @@ export type HashLinkProps = {
   };
 };
 
-export function HashLink({ label, hash, explorerUrl, variant = 'default', className, classNames }: HashLinkProps) {
+export function HashLink({
+  label,
+  hash,
+  explorerUrl,
+  resolveName = false,
+  chainId,
+  variant = 'default',
+  className,
+  classNames,
+}: HashLinkProps) {
   const { isCopied, copy } = useCopyToClipboard();
   const { actions, txError } = useLabels();
+  const { name } = useResolvedName(resolveName ? hash : null, chainId);
 
   const containerClasses = cn(
     'novatx:flex novatx:items-center novatx:justify-between',
@@ -56,7 +73,11 @@ export function HashLink({ label, hash, explorerUrl, variant = 'default', classN
     classNames?.label,
   );
 
-  const hashContent = <span className={cn('', classNames?.hash)}>{textCenterEllipsis(hash, 5, 5)}</span>;
+  const hashContent = (
+    <span className={cn('', classNames?.hash)} title={name ? hash : undefined}>
+      {name ? (name.length > 24 ? textCenterEllipsis(name, 10, 10) : name) : textCenterEllipsis(hash, 5, 5)}
+    </span>
+  );
 
   return (
     <div className={containerClasses}>
@@ -6,15 +6,16 @@ import { cn } from '@tuwaio/nova-core';
 import { TransactionStatus } from '@tuwaio/pulsar-core';
 import { ReactNode } from 'react';
 
+import { getStatusAwareText } from '../utils';
+
 /**
- * A mapping from transaction status to an array index and a theme-aware color class.
- * The index corresponds to the position in the `source` array prop: `[pending, success, error, replaced]`.
+ * A mapping from transaction status to a theme-aware color class.
  */
-const STATUS_CONFIG = {
-  [TransactionStatus.Success]: { index: 1, colorClass: 'novatx:text-[var(--tuwa-success-text)]' },
-  [TransactionStatus.Failed]: { index: 2, colorClass: 'novatx:text-[var(--tuwa-error-text)]' },
-  [TransactionStatus.Replaced]: { index: 3, colorClass: 'novatx:text-[var(--tuwa-text-secondary)]' },
-  default: { index: 0, colorClass: 'novatx:text-[var(--tuwa-text-primary)]' }, // For pending or undefined status
+const STATUS_COLOR_CLASSES = {
+  [TransactionStatus.Success]: 'novatx:text-[var(--tuwa-success-text)]',
+  [TransactionStatus.Failed]: 'novatx:text-[var(--tuwa-error-text)]',
+  [TransactionStatus.Replaced]: 'novatx:text-[var(--tuwa-text-secondary)]',
+  default: 'novatx:text-[var(--tuwa-text-primary)]', // For pending or undefined status
 } as const;
 
 export type StatusAwareTextProps = {
@@ -47,21 +48,11 @@ export function StatusAwareText({
   className,
   applyColor = false,
 }: StatusAwareTextProps): ReactNode {
-  let displayText: string | undefined;
-  let colorClass = '';
-
-  if (typeof source === 'string') {
-    displayText = source;
-  } else if (Array.isArray(source)) {
-    const statusKey = txStatus || 'default';
-    const config = STATUS_CONFIG[statusKey] ?? STATUS_CONFIG.default;
-    displayText = source[config.index];
-    if (applyColor) {
-      colorClass = config.colorClass;
-    }
-  } else {
-    displayText = fallback;
-  }
+  const isStatusAware = Array.isArray(source);
+  const displayText =
+    typeof source === 'string' || isStatusAware ? getStatusAwareText({ status: txStatus }, source) : fallback;
+  const colorClass =
+    isStatusAware && applyColor ? (STATUS_COLOR_CLASSES[txStatus || 'default'] ?? STATUS_COLOR_CLASSES.default) : '';
 
   if (!displayText) {
     return null;
@@ -3,12 +3,13 @@
  */
 
 import { cn, getChainName, NetworkIcon } from '@tuwaio/nova-core';
-import { selectAdapterByKey, setChainId } from '@tuwaio/orbit-core';
+import { setChainId } from '@tuwaio/orbit-core';
 import { Transaction, TransactionStatus } from '@tuwaio/pulsar-core';
 import { ComponentType, JSX, ReactNode } from 'react';
 import { ToastContainerProps, ToastContentProps } from 'react-toastify';
 
-import { NovaTransactionsProviderProps, useLabels } from '../providers';
+import { NovaTransactionsProviderProps, useDecodedTxError, useLabels, useTxReplacementAction } from '../providers';
+import { canReplaceTransaction } from '../utils';
 import { StatusAwareText, StatusAwareTextProps } from './StatusAwareText';
 import { TransactionKey, TransactionKeyProps } from './TransactionKey';
 import { TransactionStatusBadge, TransactionStatusBadgeProps } from './TransactionStatusBadge';
@@ -40,6 +41,8 @@ export type ToastTransactionCustomization<T extends Transaction> = {
     title?: string;
     /** Classes for the description text */
     description?: string;
+    /** Classes for the decoded error line of failed transactions */
+    decodedError?: string;
     /** Classes for the transaction key section */
     transactionKey?: string;
     /** Classes for the default hash label */
@@ -83,7 +86,7 @@ export type ToastTransactionProps<T extends Transaction> = {
   customization?: ToastTransactionCustomization<T>;
   closeToast?: ToastContentProps['closeToast'];
   toastProps?: ToastContainerProps;
-} & Pick<NovaTransactionsProviderProps<T>, 'adapter' | 'connectedWalletAddress'>;
+} & Pick<NovaTransactionsProviderProps<T>, 'adapter' | 'connectedWalletAddress' | 'txReplacement'>;
 
 const DefaultSpeedUpButton = ({ onClick, children, className }: CustomActionButtonProps) => (
   <button
@@ -157,27 +160,21 @@ export function ToastTransaction<T extends Transaction>({
   customization,
   connectedWalletAddress,
   adapter,
+  txReplacement,
 }: ToastTransactionProps<T>): JSX.Element {
   const { actions, toast } = useLabels();
+  const decodedError = useDecodedTxError(tx.error);
 
-  const foundAdapter = selectAdapterByKey({ adapterKey: tx.adapter, adapter });
-
-  const canBeReplaced = !!(
-    tx.tracker === 'ethereum' &&
-    tx.pending &&
-    (!tx.confirmations || Number(tx.confirmations) < 1) &&
-    foundAdapter?.speedUpTxAction &&
-    foundAdapter?.cancelTxAction &&
-    tx.from.toLowerCase() === connectedWalletAddress?.toLowerCase() &&
-    ['metamask'].includes(tx.connectorType.split(':')[1])
-  );
+  const canBeReplaced = canReplaceTransaction(tx, { adapter, connectedWalletAddress, config: txReplacement });
+  // Opens the provider's fee editor, like the tracking modal does
+  const startReplacement = useTxReplacementAction({ adapter, config: txReplacement });
 
   const handleCancel = () => {
-    if (canBeReplaced) foundAdapter.cancelTxAction!(tx);
+    if (canBeReplaced) startReplacement(tx, 'cancel');
   };
 
   const handleSpeedUp = () => {
-    if (canBeReplaced) foundAdapter.speedUpTxAction!(tx);
+    if (canBeReplaced) startReplacement(tx, 'speedUp');
   };
 
   const {
@@ -230,6 +227,18 @@ export function ToastTransaction<T extends Transaction>({
             variant="description"
             className={classNames?.description}
           />
+          {decodedError && (
+            <p
+              title={decodedError.name}
+              className={cn(
+                'novatx:mt-1 novatx:line-clamp-2 novatx:text-xs novatx:text-[var(--tuwa-error-text)]',
+                classNames?.decodedError,
+              )}
+            >
+              <span className="novatx:font-mono novatx:font-bold">{decodedError.name}</span>
+              {decodedError.message && `: ${decodedError.message}`}
+            </p>
+          )}
         </div>
       </div>
 
@@ -10,7 +10,9 @@ import { cn, useCopyToClipboard } from '@tuwaio/nova-core';
 import { ComponentPropsWithoutRef, ComponentType, JSX, ReactNode } from 'react';
 import { ToastContentProps } from 'react-toastify';
 
-import { useLabels } from '../providers';
+import { useDecodedTxError, useLabels } from '../providers';
+import { DecodedTxError } from '../utils';
+import { DecodedTxErrorDetails, DecodedTxErrorDetailsClassNames } from './DecodedTxErrorDetails';
 
 // =============================================================================
 // Customization sub-types
@@ -48,6 +50,10 @@ export type ToastValidationErrorFieldProps = {
 export type ToastValidationErrorMessageProps = {
   /** The error message string. */
   message: string;
+  /** The error decoded by the registered error decoders, when recognized. */
+  decodedError?: DecodedTxError;
+  /** Classes for the decoded error details. */
+  decodedErrorClassNames?: DecodedTxErrorDetailsClassNames;
   /** Optional additional CSS classes. */
   className?: string;
 };
@@ -85,6 +91,8 @@ export type ToastValidationErrorClassNames = {
   messageContainer?: string;
   /** Classes applied to the mono message `<p>`. */
   messageText?: string;
+  /** Classes applied to the decoded error details (name, arguments and message). */
+  decodedError?: DecodedTxErrorDetailsClassNames;
   /** Classes applied to the copy button. */
   copyButton?: string;
 };
@@ -139,6 +147,12 @@ export type ToastValidationErrorProps = {
    * Falls back to `message` when not provided.
    */
   rawError?: string;
+  /**
+   * The caught error itself. When the registered error decoders recognize it
+   * (revert reason, custom error, program error), its decoded name, arguments
+   * and message are shown instead of `message`.
+   */
+  error?: unknown;
   /**
    * The name of the field that triggered the validation failure.
    * When provided (e.g. `"title"`, `"description"`), a small badge is rendered
@@ -194,20 +208,29 @@ const DefaultFieldBadge = ({ fieldLabel, fieldName, className }: ToastValidation
   </div>
 );
 
-const DefaultMessage = ({ message, className }: ToastValidationErrorMessageProps) => (
+const DefaultMessage = ({
+  message,
+  decodedError,
+  decodedErrorClassNames,
+  className,
+}: ToastValidationErrorMessageProps) => (
   <div
     className={cn(
       'novatx:mt-2 novatx:max-h-20 novatx:overflow-y-auto novatx:rounded novatx:bg-[var(--tuwa-bg-secondary)] novatx:p-2',
     )}
   >
-    <p
-      className={cn(
-        'novatx:wrap-break-word novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-error-text)]',
-        className,
-      )}
-    >
-      {message}
-    </p>
+    {decodedError ? (
+      <DecodedTxErrorDetails decodedError={decodedError} classNames={decodedErrorClassNames} />
+    ) : (
+      <p
+        className={cn(
+          'novatx:wrap-break-word novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-error-text)]',
+          className,
+        )}
+      >
+        {message}
+      </p>
+    )}
   </div>
 );
 
@@ -234,7 +257,8 @@ const DefaultCopyContent = ({ icon, isCopied, copyLabel, copiedLabel }: ToastVal
  * - Error color tokens (`--tuwa-error-*`)
  * - `ExclamationTriangleIcon` header icon
  * - Optional field badge identifying the offending input
- * - Scrollable monospace message body
+ * - Scrollable monospace message body, or the decoded error when a registered
+ *   error decoder recognizes it
  * - One-click copy-to-clipboard with feedback
  *
  * @example
@@ -254,12 +278,14 @@ const DefaultCopyContent = ({ icon, isCopied, copyLabel, copiedLabel }: ToastVal
 export function ToastValidationError({
   message,
   rawError,
+  error,
   fieldName,
   className,
   customization,
 }: ToastValidationErrorProps): JSX.Element {
   const { validationError: labels } = useLabels();
   const { isCopied, copy } = useCopyToClipboard();
+  const decodedError = useDecodedTxError(error);
 
   const textToCopy = rawError ?? message;
 
@@ -323,7 +349,12 @@ export function ToastValidationError({
       {fieldName && <FieldBadge fieldLabel={labels.field} fieldName={fieldName} className={cls.fieldBadge} />}
 
       {/* Message body */}
-      <Message message={message} className={cls.messageText} />
+      <Message
+        message={message}
+        decodedError={decodedError}
+        decodedErrorClassNames={cls.decodedError}
+        className={cls.messageText}
+      />
 
       {/* Copy button */}
       <button
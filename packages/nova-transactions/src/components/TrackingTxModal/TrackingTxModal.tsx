@@ -1,13 +1,30 @@
 /**
  * @file This file contains the `TrackingTxModal`, the main UI for displaying the detailed lifecycle of a single transaction.
  */
-import { CloseIcon, cn, Dialog, DialogClose, DialogContent, DialogHeader, DialogTitle } from '@tuwaio/nova-core';
+import {
+  CloseIcon,
+  cn,
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogVariant,
+} from '@tuwaio/nova-core';
 import { selectAdapterByKey } from '@tuwaio/orbit-core';
 import { InitialTransaction, InitialTransactionParams, Transaction, TransactionStatus } from '@tuwaio/pulsar-core';
 import { MotionProps } from 'framer-motion';
-import { ComponentPropsWithoutRef, ComponentType, ReactNode } from 'react';
+import { ComponentPropsWithoutRef, ComponentType, ReactNode, useState } from 'react';
 
 import { NovaTransactionsProviderProps, useLabels } from '../../providers';
+import {
+  canEditReplacementFees,
+  canReplaceTransaction,
+  getReplacementFeeEditorOptions,
+  ReplacementFees,
+  sendTxReplacement,
+  TxReplacementMode,
+} from '../../utils';
 import {
   TxErrorBlock,
   TxErrorBlockClassNames,
@@ -17,6 +34,9 @@ import {
   TxInfoBlockProps,
   TxProgressIndicator,
   TxProgressIndicatorProps,
+  TxReplacementFeeEditor,
+  TxReplacementFeeEditorClassNames,
+  TxReplacementFeeEditorProps,
   TxStatusVisual,
   TxStatusVisualClassNames,
   TxStatusVisualProps,
@@ -48,6 +68,7 @@ export type TrackingTxModalCustomization<T extends Transaction> = {
     ProgressIndicator?: ComponentType<TxProgressIndicatorProps>;
     InfoBlock?: ComponentType<TxInfoBlockProps<T>>;
     ErrorBlock?: ComponentType<TxErrorBlockProps>;
+    FeeEditor?: ComponentType<TxReplacementFeeEditorProps>;
   };
   /** Granular classNames for all sub-elements */
   classNames?: {
@@ -101,11 +122,23 @@ export type TrackingTxModalCustomization<T extends Transaction> = {
     /** Granular classNames */
     classNames?: TxErrorBlockClassNames;
   };
+  /** Customization for TxReplacementFeeEditor */
+  feeEditorCustomization?: {
+    /** Container className */
+    className?: string;
+    /** Granular classNames */
+    classNames?: TxReplacementFeeEditorClassNames;
+  };
+  /** Behavior configuration */
+  config?: {
+    /** Dialog layout on touch devices (e.g. `'sheet'`). Defaults to the regular modal */
+    mobileVariant?: DialogVariant;
+  };
 };
 
 export type TrackingTxModalProps<T extends Transaction> = Pick<
   NovaTransactionsProviderProps<T>,
-  'executeTxAction' | 'initialTx' | 'transactionsPool' | 'adapter' | 'connectedWalletAddress'
+  'executeTxAction' | 'initialTx' | 'transactionsPool' | 'adapter' | 'connectedWalletAddress' | 'txReplacement'
 > & {
   onClose: (txKey?: string) => void;
   onOpenAllTransactions: () => void;
@@ -123,6 +156,7 @@ export function TrackingTxModal<T extends Transaction>({
   executeTxAction,
   initialTx,
   connectedWalletAddress,
+  txReplacement,
 }: TrackingTxModalProps<T>) {
   const activeTx = initialTx?.lastTxKey ? transactionsPool[initialTx.lastTxKey] : undefined;
 
@@ -141,13 +175,7 @@ export function TrackingTxModal<T extends Transaction>({
   const foundAdapter = txToDisplay ? selectAdapterByKey({ adapterKey: txToDisplay.adapter, adapter }) : undefined;
 
   const canRetry = !!(isFailed && txToDisplay && initialTx?.actionFunction && executeTxAction);
-  const canReplace = !!(
-    foundAdapter?.speedUpTxAction &&
-    foundAdapter?.cancelTxAction &&
-    activeTx?.pending &&
-    (!activeTx.confirmations || Number(activeTx.confirmations) < 1) &&
-    activeTx.tracker === 'ethereum'
-  );
+  const canReplace = canReplaceTransaction(activeTx, { adapter, connectedWalletAddress, config: txReplacement });
 
   const handleRetry = () => {
     if (!canRetry || !foundAdapter?.retryTxAction) return;
@@ -171,30 +199,56 @@ export function TrackingTxModal<T extends Transaction>({
     foundAdapter.retryTxAction({ tx: retryParams, txKey: activeTx?.txKey ?? '', onClose, executeTxAction });
   };
 
-  const isWithActions = canReplace && activeTx && ['metamask'].includes(activeTx?.connectorType.split(':')[1]);
+  const canEditFees = canEditReplacementFees(activeTx, txReplacement);
+  const [replacement, setReplacement] = useState<{ txKey: string; mode: TxReplacementMode }>();
+  // The editor closes by itself when the transaction can no longer be replaced (e.g. it got mined meanwhile)
+  const replacementMode =
+    canReplace && canEditFees && replacement?.txKey === activeTx?.txKey ? replacement?.mode : undefined;
+  const feeEditorOptions =
+    activeTx && replacementMode
+      ? getReplacementFeeEditorOptions(activeTx, replacementMode, txReplacement?.feeEditor)
+      : undefined;
 
-  const handleCancel = () => {
-    if (isWithActions) foundAdapter.cancelTxAction!(activeTx);
+  /**
+   * Sends the replacement with the chosen fees, through `txReplacement.onReplace` or the adapter.
+   */
+  const sendReplacement = (mode: TxReplacementMode, fees?: ReplacementFees) => {
+    if (!canReplace || !activeTx) return;
+    sendTxReplacement(activeTx, mode, { adapter, config: txReplacement, fees }).catch((error) =>
+      console.error(`Failed to send the ${mode} replacement of ${activeTx.txKey}:`, error),
+    );
+    setReplacement(undefined);
   };
 
-  const handleSpeedUp = () => {
-    if (isWithActions) foundAdapter.speedUpTxAction!(activeTx);
+  const startReplacement = (mode: TxReplacementMode) => {
+    if (canEditFees && activeTx) {
+      setReplacement({ txKey: activeTx.txKey, mode });
+    } else {
+      sendReplacement(mode);
+    }
   };
 
+  const handleCancel = () => startReplacement('cancel');
+  const handleSpeedUp = () => startReplacement('speedUp');
+
   const CustomHeader = customization?.components?.Header;
   const CustomFooter = customization?.components?.Footer;
   const CustomStatusVisual = customization?.components?.StatusVisual;
   const CustomProgressIndicator = customization?.components?.ProgressIndicator;
   const CustomInfoBlock = customization?.components?.InfoBlock;
   const CustomErrorBlock = customization?.components?.ErrorBlock;
+  const FeeEditor = customization?.components?.FeeEditor ?? TxReplacementFeeEditor;
 
   if (!txToDisplay) return null;
 
   const classNames = customization?.classNames;
+  const isEditingFees = !!replacementMode;
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose(activeTx?.txKey)}>
       <DialogContent
+        modalId="nova-tracking-tx-modal"
+        mobileVariant={customization?.config?.mobileVariant}
         className={cn('novatx:w-full novatx:sm:max-w-md', customization?.modalProps?.className)}
         {...customization?.modalProps}
       >
@@ -249,23 +303,41 @@ export function TrackingTxModal<T extends Transaction>({
                 stepClassNames={customization?.progressIndicatorCustomization?.stepClassNames}
               />
             )}
-            {CustomInfoBlock ? (
-              <CustomInfoBlock tx={txToDisplay} adapter={adapter} />
-            ) : (
-              <TxInfoBlock tx={txToDisplay} adapter={adapter} customization={customization?.infoBlockCustomization} />
-            )}
-            {CustomErrorBlock ? (
-              <CustomErrorBlock error={activeTx?.error || initialTx?.error} />
-            ) : (
-              <TxErrorBlock
-                error={activeTx?.error || initialTx?.error}
-                className={customization?.errorBlockCustomization?.className}
-                classNames={customization?.errorBlockCustomization?.classNames}
+            {replacementMode && feeEditorOptions ? (
+              <FeeEditor
+                key={replacementMode}
+                mode={replacementMode}
+                {...feeEditorOptions}
+                onConfirm={(fees) => sendReplacement(replacementMode, fees)}
+                onBack={() => setReplacement(undefined)}
+                className={customization?.feeEditorCustomization?.className}
+                classNames={customization?.feeEditorCustomization?.classNames}
               />
+            ) : (
+              <>
+                {CustomInfoBlock ? (
+                  <CustomInfoBlock tx={txToDisplay} adapter={adapter} />
+                ) : (
+                  <TxInfoBlock
+                    tx={txToDisplay}
+                    adapter={adapter}
+                    customization={customization?.infoBlockCustomization}
+                  />
+                )}
+                {CustomErrorBlock ? (
+                  <CustomErrorBlock error={activeTx?.error || initialTx?.error} />
+                ) : (
+                  <TxErrorBlock
+                    error={activeTx?.error || initialTx?.error}
+                    className={customization?.errorBlockCustomization?.className}
+                    classNames={customization?.errorBlockCustomization?.classNames}
+                  />
+                )}
+              </>
             )}
           </main>
 
-          {CustomFooter ? (
+          {isEditingFees ? null : CustomFooter ? (
             <CustomFooter
               onClose={() => onClose(activeTx?.txKey)}
               onOpenAllTransactions={onOpenAllTransactions}
@@ -273,8 +345,8 @@ export function TrackingTxModal<T extends Transaction>({
               isFailed={isFailed}
               canReplace={canReplace}
               onRetry={canRetry ? handleRetry : undefined}
-              onSpeedUp={isWithActions ? handleSpeedUp : undefined}
-              onCancel={isWithActions ? handleCancel : undefined}
+              onSpeedUp={canReplace ? handleSpeedUp : undefined}
+              onCancel={canReplace ? handleCancel : undefined}
               connectedWalletAddress={connectedWalletAddress}
             />
           ) : (
@@ -285,8 +357,8 @@ export function TrackingTxModal<T extends Transaction>({
               isFailed={isFailed}
               canReplace={canReplace}
               onRetry={canRetry ? handleRetry : undefined}
-              onSpeedUp={isWithActions ? handleSpeedUp : undefined}
-              onCancel={isWithActions ? handleCancel : undefined}
+              onSpeedUp={canReplace ? handleSpeedUp : undefined}
+              onCancel={canReplace ? handleCancel : undefined}
               connectedWalletAddress={connectedWalletAddress}
               classNames={classNames}
             />
@@ -7,7 +7,8 @@ import { cn, useCopyToClipboard } from '@tuwaio/nova-core';
 import type { TuwaErrorState } from '@tuwaio/orbit-core';
 import { useMemo } from 'react';
 
-import { useLabels } from '../../providers';
+import { useDecodedTxError, useLabels } from '../../providers';
+import { DecodedTxErrorDetails, DecodedTxErrorDetailsClassNames } from '../DecodedTxErrorDetails';
 
 export type TxErrorBlockClassNames = {
   /** Classes for the container */
@@ -24,6 +25,8 @@ export type TxErrorBlockClassNames = {
   messageContainer?: string;
   /** Classes for the message text */
   messageText?: string;
+  /** Classes for the decoded error details (name, arguments and message) */
+  decodedError?: DecodedTxErrorDetailsClassNames;
 };
 
 export type TxErrorBlockProps = {
@@ -39,10 +42,12 @@ export type TxErrorBlockProps = {
  * A component that displays a formatted block for a transaction error message.
  * It includes a title, an icon, the error message in a scrollable area,
  * and a button to copy the message to the clipboard.
+ * Errors recognized by the registered error decoders are shown decoded, the raw error stays copyable.
  */
 export function TxErrorBlock({ error, className, classNames }: TxErrorBlockProps) {
   const { isCopied, copy } = useCopyToClipboard();
   const { actions, txError } = useLabels();
+  const decodedError = useDecodedTxError(error);
 
   // Serialize error for display and copy
   const { displayMessage, copyMessage } = useMemo(() => {
@@ -55,7 +60,7 @@ export function TxErrorBlock({ error, className, classNames }: TxErrorBlockProps
   }, [error]);
 
   // Don't render anything if there is no error message.
-  if (!error || !displayMessage) {
+  if (!error || (!displayMessage && !decodedError)) {
     return null;
   }
 
@@ -103,14 +108,18 @@ export function TxErrorBlock({ error, className, classNames }: TxErrorBlockProps
           classNames?.messageContainer,
         )}
       >
-        <p
-          className={cn(
-            'novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-error-text)] novatx:break-all',
-            classNames?.messageText,
-          )}
-        >
-          {displayMessage}
-        </p>
+        {decodedError ? (
+          <DecodedTxErrorDetails decodedError={decodedError} classNames={classNames?.decodedError} />
+        ) : (
+          <p
+            className={cn(
+              'novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-error-text)] novatx:break-all',
+              classNames?.messageText,
+            )}
+          >
+            {displayMessage}
+          </p>
+        )}
       </div>
     </div>
   );
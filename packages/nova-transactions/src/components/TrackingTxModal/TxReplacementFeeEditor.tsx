@@ -0,0 +1,269 @@
+/**
+ * @file This file contains the `TxReplacementFeeEditor` component, the fee step shown before a speed-up
+ * or cancel replacement transaction is sent.
+ */
+
+import { cn } from '@tuwaio/nova-core';
+import { useId, useState } from 'react';
+
+import { useLabels } from '../../providers';
+import {
+  bumpReplacementFees,
+  defaultReplacementFeePresets,
+  formatWei,
+  MIN_REPLACEMENT_FEE_BUMP_PERCENT,
+  parseGwei,
+  ReplacementFees,
+  TxReplacementMode,
+  validateReplacementFees,
+} from '../../utils';
+
+export type TxReplacementFeeEditorClassNames = {
+  /** Classes for the container */
+  container?: string;
+  /** Classes for the editor title */
+  title?: string;
+  /** Classes for the current fees block */
+  currentFees?: string;
+  /** Classes for a preset button */
+  preset?: string;
+  /** Classes added to the selected preset button */
+  presetActive?: string;
+  /** Classes for the custom fee inputs */
+  input?: string;
+  /** Classes for the estimated cost row */
+  estimatedCost?: string;
+  /** Classes for the validation message */
+  error?: string;
+  /** Classes for the confirm button */
+  confirmButton?: string;
+  /** Classes for the back button */
+  backButton?: string;
+};
+
+export type TxReplacementFeeEditorProps = {
+  /** Whether the replacement speeds up or cancels the transaction */
+  mode: TxReplacementMode;
+  /** Fees of the pending transaction */
+  currentFees: ReplacementFees;
+  /** Fee increases (%) offered as presets. Defaults to `[10, 25, 50]`. */
+  presets?: number[];
+  /** Minimum increase (%) of both fees accepted by nodes. Defaults to `10`. */
+  minBumpPercent?: number;
+  /** Gas limit of the replacement, used for the estimated cost. Without it, the cost is shown as unavailable. */
+  gasLimit?: bigint;
+  /** Symbol of the chain's native currency, e.g. `ETH` */
+  nativeCurrencySymbol?: string;
+  /** Sends the replacement with the chosen fees */
+  onConfirm: (fees: ReplacementFees) => void;
+  /** Leaves the editor without sending anything */
+  onBack: () => void;
+  className?: string;
+  classNames?: TxReplacementFeeEditorClassNames;
+};
+
+type FeeSelection = { type: 'preset'; percent: number } | { type: 'custom'; maxFee: string; priorityFee: string };
+
+/**
+ * Fee editor for replacement transactions: shows the pending transaction's fees, offers fee increase presets
+ * and custom values, the estimated maximum cost, and validates the minimum bump required by nodes.
+ */
+export function TxReplacementFeeEditor({
+  mode,
+  currentFees,
+  presets = defaultReplacementFeePresets,
+  minBumpPercent = MIN_REPLACEMENT_FEE_BUMP_PERCENT,
+  gasLimit,
+  nativeCurrencySymbol = 'ETH',
+  onConfirm,
+  onBack,
+  className,
+  classNames,
+}: TxReplacementFeeEditorProps) {
+  const {
+    trackingModal: { feeEditor },
+  } = useLabels();
+  const inputId = useId();
+
+  const [selection, setSelection] = useState<FeeSelection>({ type: 'preset', percent: presets[0] ?? minBumpPercent });
+
+  const minimumFees = bumpReplacementFees(currentFees, minBumpPercent);
+
+  const nextFees: ReplacementFees | undefined = (() => {
+    if (selection.type === 'preset') return bumpReplacementFees(currentFees, selection.percent);
+    const maxFeePerGas = parseGwei(selection.maxFee);
+    const maxPriorityFeePerGas = parseGwei(selection.priorityFee);
+    return maxFeePerGas !== undefined && maxPriorityFeePerGas !== undefined
+      ? { maxFeePerGas, maxPriorityFeePerGas }
+      : undefined;
+  })();
+
+  const error = nextFees ? validateReplacementFees(currentFees, nextFees, minBumpPercent) : 'invalid';
+  const estimatedCost = nextFees && gasLimit ? nextFees.maxFeePerGas * gasLimit : undefined;
+
+  const selectCustom = () => {
+    const fees = nextFees ?? minimumFees;
+    setSelection({
+      type: 'custom',
+      maxFee: formatWei(fees.maxFeePerGas, 9, 9),
+      priorityFee: formatWei(fees.maxPriorityFeePerGas, 9, 9),
+    });
+  };
+
+  const presetClassName = (isActive: boolean) =>
+    cn(
+      'novatx:cursor-pointer novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:px-3 novatx:py-1.5 novatx:text-xs novatx:font-mono novatx:font-bold novatx:transition-colors',
+      isActive
+        ? 'novatx:border-[var(--tuwa-text-accent)] novatx:bg-[var(--tuwa-text-accent)] novatx:text-[var(--tuwa-bg-primary)]'
+        : 'novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-secondary)] novatx:text-[var(--tuwa-text-secondary)] novatx:hover:text-[var(--tuwa-text-primary)]',
+      classNames?.preset,
+      isActive && classNames?.presetActive,
+    );
+
+  const feeRow = (label: string, value: bigint) => (
+    <div className="novatx:flex novatx:justify-between novatx:text-xs">
+      <span className="novatx:text-[var(--tuwa-text-secondary)]">{label}</span>
+      <span className="novatx:font-mono novatx:text-[var(--tuwa-text-primary)]">
+        {formatWei(value, 9, 4)} {feeEditor.gwei}
+      </span>
+    </div>
+  );
+
+  const customInput = (field: 'maxFee' | 'priorityFee', label: string, minimum: bigint) =>
+    selection.type === 'custom' && (
+      <div className="novatx:flex novatx:flex-col novatx:gap-1">
+        <label htmlFor={`${inputId}-${field}`} className="novatx:text-xs novatx:text-[var(--tuwa-text-secondary)]">
+          {label} ({feeEditor.gwei})
+        </label>
+        <input
+          id={`${inputId}-${field}`}
+          inputMode="decimal"
+          autoComplete="off"
+          value={selection[field]}
+          onChange={(event) => setSelection({ ...selection, [field]: event.target.value })}
+          className={cn(
+            'novatx:w-full novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-secondary)] novatx:px-3 novatx:py-2 novatx:font-mono novatx:text-sm novatx:text-[var(--tuwa-text-primary)] novatx:outline-none novatx:focus:border-[var(--tuwa-text-accent)]',
+            classNames?.input,
+          )}
+        />
+        <span className="novatx:text-[10px] novatx:text-[var(--tuwa-text-tertiary)]">
+          {feeEditor.minimum} {formatWei(minimum, 9, 4)} {feeEditor.gwei}
+        </span>
+      </div>
+    );
+
+  return (
+    <div className={cn('novatx:flex novatx:flex-col novatx:gap-4', classNames?.container, className)}>
+      <h4
+        className={cn(
+          'novatx:text-sm novatx:font-mono novatx:font-bold novatx:text-[var(--tuwa-text-primary)]',
+          classNames?.title,
+        )}
+      >
+        {mode === 'speedUp' ? feeEditor.speedUpTitle : feeEditor.cancelTitle}
+      </h4>
+
+      <div
+        className={cn(
+          'novatx:flex novatx:flex-col novatx:gap-1.5 novatx:rounded-[var(--tuwa-rounded-corners)] novatx:bg-[var(--tuwa-bg-muted)] novatx:p-3',
+          classNames?.currentFees,
+        )}
+      >
+        <span className="novatx:text-[10px] novatx:font-bold novatx:uppercase novatx:tracking-widest novatx:text-[var(--tuwa-text-tertiary)]">
+          {feeEditor.currentFees}
+        </span>
+        {feeRow(feeEditor.maxFee, currentFees.maxFeePerGas)}
+        {feeRow(feeEditor.priorityFee, currentFees.maxPriorityFeePerGas)}
+      </div>
+
+      <div role="group" aria-label={feeEditor.presets} className="novatx:flex novatx:flex-wrap novatx:gap-2">
+        {presets.map((percent) => {
+          const isActive = selection.type === 'preset' && selection.percent === percent;
+          return (
+            <button
+              key={percent}
+              type="button"
+              aria-pressed={isActive}
+              onClick={() => setSelection({ type: 'preset', percent })}
+              className={presetClassName(isActive)}
+            >
+              +{percent}%
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          aria-pressed={selection.type === 'custom'}
+          onClick={selectCustom}
+          className={presetClassName(selection.type === 'custom')}
+        >
+          {feeEditor.custom}
+        </button>
+      </div>
+
+      {selection.type === 'custom' ? (
+        <div className="novatx:grid novatx:grid-cols-2 novatx:gap-3">
+          {customInput('maxFee', feeEditor.maxFee, minimumFees.maxFeePerGas)}
+          {customInput('priorityFee', feeEditor.priorityFee, minimumFees.maxPriorityFeePerGas)}
+        </div>
+      ) : (
+        nextFees && (
+          <div className="novatx:flex novatx:flex-col novatx:gap-1.5">
+            {feeRow(feeEditor.maxFee, nextFees.maxFeePerGas)}
+            {feeRow(feeEditor.priorityFee, nextFees.maxPriorityFeePerGas)}
+          </div>
+        )
+      )}
+
+      {nextFees && (
+        <div
+          className={cn(
+            'novatx:flex novatx:justify-between novatx:border-t novatx:border-[var(--tuwa-border-primary)] novatx:pt-3 novatx:text-sm',
+            classNames?.estimatedCost,
+          )}
+        >
+          <span className="novatx:text-[var(--tuwa-text-secondary)]">{feeEditor.estimatedCost}</span>
+          {estimatedCost !== undefined ? (
+            <span className="novatx:font-mono novatx:font-bold novatx:text-[var(--tuwa-text-primary)]">
+              {formatWei(estimatedCost, 18)} {nativeCurrencySymbol}
+            </span>
+          ) : (
+            <span className="novatx:text-xs novatx:text-[var(--tuwa-text-tertiary)]">
+              {feeEditor.estimatedCostUnavailable}
+            </span>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className={cn('novatx:text-xs novatx:text-[var(--tuwa-error-text)]', classNames?.error)}>
+          {feeEditor.errors[error]}
+        </p>
+      )}
+
+      <div className="novatx:flex novatx:justify-end novatx:gap-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className={cn(
+            'novatx:cursor-pointer novatx:rounded-[var(--tuwa-rounded-corners)] novatx:bg-[var(--tuwa-bg-muted)] novatx:px-4 novatx:py-2 novatx:text-sm novatx:font-mono novatx:font-semibold novatx:text-[var(--tuwa-text-primary)] novatx:transition-colors novatx:hover:bg-[var(--tuwa-border-primary)]',
+            classNames?.backButton,
+          )}
+        >
+          {feeEditor.back}
+        </button>
+        <button
+          type="button"
+          disabled={!!error}
+          onClick={() => nextFees && onConfirm(nextFees)}
+          className={cn(
+            'novatx:cursor-pointer novatx:rounded-[var(--tuwa-rounded-corners)] novatx:bg-gradient-to-r novatx:from-[var(--tuwa-button-gradient-from)] novatx:to-[var(--tuwa-button-gradient-to)] novatx:px-4 novatx:py-2 novatx:text-sm novatx:font-mono novatx:font-semibold novatx:text-[var(--tuwa-text-on-accent)] novatx:transition-opacity novatx:hover:opacity-90 novatx:disabled:cursor-not-allowed novatx:disabled:opacity-50',
+            classNames?.confirmButton,
+          )}
+        >
+          {feeEditor.confirm}
+        </button>
+      </div>
+    </div>
+  );
+}
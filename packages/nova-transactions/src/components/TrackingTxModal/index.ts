@@ -2,4 +2,5 @@ export * from './TrackingTxModal';
 export * from './TxErrorBlock';
 export * from './TxInfoBlock';
 export * from './TxProgressIndicator';
+export * from './TxReplacementFeeEditor';
 export * from './TxStatusVisual';
@@ -18,7 +18,7 @@ import {
   LinkIcon,
 } from '@heroicons/react/24/outline';
 import { CheckIcon } from '@heroicons/react/24/solid';
-import { cn, getChainName, NetworkIcon, useCopyToClipboard } from '@tuwaio/nova-core';
+import { cn, getChainName, NetworkIcon, useCopyToClipboard, useResolvedName } from '@tuwaio/nova-core';
 import { OrbitAdapter, selectAdapterByKey, setChainId } from '@tuwaio/orbit-core';
 import {
   EvmTransaction,
@@ -30,7 +30,14 @@ import {
 import dayjs from 'dayjs';
 import { ComponentType, ReactNode, useMemo } from 'react';
 
-import { NovaTransactionsProviderProps, useLabels } from '../providers';
+import { useDecodedTxData } from '../hooks';
+import { NovaTransactionsProviderProps, useLabels, useTxReplacementAction } from '../providers';
+import { canReplaceTransaction } from '../utils';
+import {
+  DecodedTxDataDetails,
+  DecodedTxDataDetailsClassNames,
+  DecodedTxDataDetailsProps,
+} from './DecodedTxDataDetails';
 
 // --- Sub-components Prop Types ---
 
@@ -38,6 +45,8 @@ import { NovaTransactionsProviderProps, useLabels } from '../providers';
 export type CopyableFieldProps = {
   label: string;
   value: string;
+  /** Human-readable name displayed instead of the value (e.g., the resolved name of an address). The value is still copied. */
+  displayName?: string | null;
   mono?: boolean;
   className?: string;
   children?: ReactNode;
@@ -74,6 +83,9 @@ export type MetadataRowProps = {
   };
 };
 
+/** Props for the Speed Up and Cancel buttons */
+export type TransactionDetailsActionButtonProps = { onClick: () => void; children: ReactNode; className?: string };
+
 /** Props for a JSON/Code block */
 export type JsonBlockProps = {
   label: string;
@@ -150,7 +162,15 @@ const CopyButton = ({ value, className, size = 'md' }: { value: string; classNam
   );
 };
 
-const DefaultCopyableField = ({ label, value, mono = true, className, children, classNames }: CopyableFieldProps) => {
+const DefaultCopyableField = ({
+  label,
+  value,
+  displayName,
+  mono = true,
+  className,
+  children,
+  classNames,
+}: CopyableFieldProps) => {
   return (
     <div className={cn('novatx:space-y-1.5', className)}>
       <FieldLabel className={classNames?.label}>{label}</FieldLabel>
@@ -164,7 +184,7 @@ const DefaultCopyableField = ({ label, value, mono = true, className, children,
             )}
             title={value}
           >
-            {value}
+            {displayName || value}
           </code>
         )}
         <CopyButton value={value} className={classNames?.copyButton} />
@@ -244,6 +264,32 @@ const DefaultJsonBlock = ({ label, data, className, classNames }: JsonBlockProps
   );
 };
 
+const DefaultSpeedUpButton = ({ onClick, children, className }: TransactionDetailsActionButtonProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={cn(
+      'novatx:cursor-pointer novatx:rounded-[var(--tuwa-rounded-corners)] novatx:bg-gradient-to-r novatx:from-[var(--tuwa-button-gradient-from)] novatx:to-[var(--tuwa-button-gradient-to)] novatx:px-3 novatx:py-1.5 novatx:text-xs novatx:font-mono novatx:font-bold novatx:text-[var(--tuwa-text-on-accent)] novatx:transition-opacity novatx:hover:opacity-90',
+      className,
+    )}
+  >
+    {children}
+  </button>
+);
+
+const DefaultCancelButton = ({ onClick, children, className }: TransactionDetailsActionButtonProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={cn(
+      'novatx:cursor-pointer novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:px-3 novatx:py-1.5 novatx:text-xs novatx:font-mono novatx:font-bold novatx:text-[var(--tuwa-text-secondary)] novatx:transition-colors novatx:hover:bg-[var(--tuwa-bg-muted)] novatx:hover:text-[var(--tuwa-text-primary)]',
+      className,
+    )}
+  >
+    {children}
+  </button>
+);
+
 // --- Customization Types ---
 
 export type TransactionDetailsCustomization = {
@@ -259,7 +305,17 @@ export type TransactionDetailsCustomization = {
     coreInfoCard?: string;
     networkBadge?: string;
     metadataSection?: string;
+    /** Classes for the decoded contract call / instructions section */
+    decodedSection?: string;
+    /** Granular classes for the decoded data */
+    decodedData?: DecodedTxDataDetailsClassNames;
     executionSection?: string;
+    /** Classes for the Speed Up / Cancel buttons container */
+    actionsContainer?: string;
+    /** Classes for the Speed Up button */
+    speedUpButton?: string;
+    /** Classes for the Cancel button */
+    cancelButton?: string;
   };
   /** Custom components to override default elements */
   components?: {
@@ -269,10 +325,16 @@ export type TransactionDetailsCustomization = {
     DetailItem?: ComponentType<DetailItemProps>;
     MetadataRow?: ComponentType<MetadataRowProps>;
     JsonBlock?: ComponentType<JsonBlockProps>;
+    DecodedData?: ComponentType<DecodedTxDataDetailsProps>;
+    SpeedUpButton?: ComponentType<TransactionDetailsActionButtonProps>;
+    CancelButton?: ComponentType<TransactionDetailsActionButtonProps>;
   };
 };
 
-export type TransactionDetailsProps<T extends Transaction> = Pick<NovaTransactionsProviderProps<T>, 'adapter'> & {
+export type TransactionDetailsProps<T extends Transaction> = Pick<
+  NovaTransactionsProviderProps<T>,
+  'adapter' | 'connectedWalletAddress' | 'txReplacement' | 'txDataDecoders'
+> & {
   tx: T;
   onBack: () => void;
   className?: string;
@@ -349,6 +411,9 @@ export function TransactionDetails<T extends Transaction>({
   adapter,
   className,
   customization,
+  connectedWalletAddress,
+  txReplacement,
+  txDataDecoders,
 }: TransactionDetailsProps<T>) {
   const { transactionDetails, statuses, actions } = useLabels();
 
@@ -358,6 +423,17 @@ export function TransactionDetails<T extends Transaction>({
 
   const explorerUrl = foundAdapter?.getExplorerTxUrl?.(tx);
 
+  const canReplace = canReplaceTransaction(tx, { adapter, connectedWalletAddress, config: txReplacement });
+  // Opens the provider's fee editor, like the tracking modal does
+  const startReplacement = useTxReplacementAction({ adapter, config: txReplacement });
+
+  const decodedData = useDecodedTxData(tx, txDataDecoders);
+  const getAddressUrl = (address: string) =>
+    foundAdapter?.getExplorerUrl?.(
+      tx.adapter === OrbitAdapter.SOLANA ? `/account/${address}` : `/address/${address}`,
+      tx.chainId,
+    );
+
   // Components from customization or defaults
   const {
     SectionCard: CSectionCard = SectionCard,
@@ -366,6 +442,9 @@ export function TransactionDetails<T extends Transaction>({
     DetailItem: CDetailItem = DefaultDetailItem,
     MetadataRow: CMetadataRow = DefaultMetadataRow,
     JsonBlock: CJsonBlock = DefaultJsonBlock,
+    DecodedData = DecodedTxDataDetails,
+    SpeedUpButton = DefaultSpeedUpButton,
+    CancelButton = DefaultCancelButton,
   } = customization?.components ?? {};
 
   const classNames = customization?.classNames;
@@ -374,6 +453,10 @@ export function TransactionDetails<T extends Transaction>({
   const solanaTx = tx.adapter === OrbitAdapter.SOLANA ? (tx as unknown as SolanaTransaction) : null;
   const starknetTx = tx.adapter === OrbitAdapter.Starknet ? (tx as unknown as StarknetTransaction) : null;
 
+  // Show the resolved names of the sender and recipient (ENS, SNS…)
+  const { name: fromName } = useResolvedName(tx.from, tx.chainId);
+  const { name: toName } = useResolvedName(evmTx?.to, tx.chainId);
+
   return (
     <div className={cn('novatx:flex novatx:flex-col novatx:gap-6 novatx:p-4', className, classNames?.container)}>
       {/* ── Header ── */}
@@ -409,6 +492,16 @@ export function TransactionDetails<T extends Transaction>({
             </p>
           </div>
         </div>
+        {canReplace && (
+          <div className={cn('novatx:flex novatx:items-center novatx:gap-2', classNames?.actionsContainer)}>
+            <SpeedUpButton onClick={() => startReplacement(tx, 'speedUp')} className={classNames?.speedUpButton}>
+              {actions.speedUp}
+            </SpeedUpButton>
+            <CancelButton onClick={() => startReplacement(tx, 'cancel')} className={classNames?.cancelButton}>
+              {actions.cancel}
+            </CancelButton>
+          </div>
+        )}
       </div>
 
       {/* ── Core Transaction Card ── */}
@@ -523,9 +616,9 @@ export function TransactionDetails<T extends Transaction>({
           </div>
 
           <div className="novatx:grid novatx:grid-cols-1 novatx:gap-8 sm:novatx:grid-cols-2">
-            <CCopyableField label={transactionDetails.from} value={tx.from} />
+            <CCopyableField label={transactionDetails.from} value={tx.from} displayName={fromName} />
             {evmTx?.to ? (
-              <CCopyableField label={transactionDetails.to} value={evmTx.to} />
+              <CCopyableField label={transactionDetails.to} value={evmTx.to} displayName={toName} />
             ) : (
               <CDetailItem label={transactionDetails.to} value="—" />
             )}
@@ -576,6 +669,25 @@ export function TransactionDetails<T extends Transaction>({
         </div>
       </CSectionCard>
 
+      {/* ── Decoded Call / Instructions Section (only with a decoder registered for the adapter) ── */}
+      {(decodedData.isLoading || decodedData.data) && (
+        <CSectionCard className={cn('novatx:p-4', classNames?.decodedSection)}>
+          <CSectionHeading>{transactionDetails.decoded.title}</CSectionHeading>
+          {decodedData.data ? (
+            <DecodedData
+              data={decodedData.data}
+              getAddressUrl={getAddressUrl}
+              chainId={tx.chainId}
+              classNames={classNames?.decodedData}
+            />
+          ) : (
+            <p className="novatx:animate-pulse novatx:font-mono novatx:text-xs novatx:text-[var(--tuwa-text-tertiary)]">
+              {transactionDetails.decoded.loading}
+            </p>
+          )}
+        </CSectionCard>
+      )}
+
       {/* ── Execution Data Section (Unified) ── */}
       <CSectionCard className={cn('novatx:p-4', classNames?.executionSection)}>
         <CSectionHeading>{transactionDetails.executionData}</CSectionHeading>
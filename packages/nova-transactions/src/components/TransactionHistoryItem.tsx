@@ -3,7 +3,7 @@
  * in a list format for the transaction history view.
  */
 
-import { cn, NetworkIcon } from '@tuwaio/nova-core';
+import { cn, getChainName, NetworkIcon } from '@tuwaio/nova-core';
 import { setChainId } from '@tuwaio/orbit-core';
 import { Transaction } from '@tuwaio/pulsar-core';
 import dayjs from 'dayjs';
@@ -138,6 +138,7 @@ export function TransactionHistoryItem<T extends Transaction>({
               'novatx:flex novatx:h-10 novatx:w-10 novatx:flex-shrink-0 novatx:items-center novatx:justify-center novatx:rounded-full novatx:bg-[var(--tuwa-bg-muted)]',
               classNames?.iconWrapper,
             )}
+            title={getChainName(setChainId(tx.chainId)).name}
           >
             <Icon chainId={tx.chainId} className={classNames?.icon} />
           </div>
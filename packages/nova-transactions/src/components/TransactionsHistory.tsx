@@ -1,18 +1,58 @@
 /**
  * @file This file contains the `TransactionsHistory` component, which displays a list of past and pending transactions.
- * Supports infinite scrolling when `pagination` props are provided.
+ * Supports infinite scrolling when `pagination` props are provided, filtering by status, network and type,
+ * free-text search, date sections and CSV/JSON export. Long lists are virtualized: only the rows close to the visible area are rendered.
  */
 
-import { cn } from '@tuwaio/nova-core';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { cn, useVirtualList } from '@tuwaio/nova-core';
 import { selectAllTransactionsByActiveWallet, Transaction, TxInMemoryPagination } from '@tuwaio/pulsar-core';
-import { ComponentType, useCallback, useEffect, useRef, useState } from 'react';
+import { ComponentType, useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
 
 import { NovaTransactionsProviderProps, useLabels } from '../providers';
+import {
+  defaultTransactionsHistoryFilters,
+  downloadTransactionsExport,
+  exportTransactions,
+  filterTransactions,
+  groupTransactionsByDate,
+  hasActiveTransactionsHistoryFilters,
+  loadPersistedTransactionsHistoryFilters,
+  persistTransactionsHistoryFilters,
+  TransactionDateGroupId,
+  TransactionExportColumn,
+  TransactionExportFormat,
+  TransactionsHistoryFilters,
+} from '../utils';
 import { TransactionDetails, TransactionDetailsCustomization } from './TransactionDetails';
 import { TransactionHistoryItem, TransactionHistoryItemProps } from './TransactionHistoryItem';
+import { TransactionsHistoryToolbar, TransactionsHistoryToolbarProps } from './TransactionsHistoryToolbar';
 
 type CustomPlaceholderProps = { title: string; message: string; className?: string };
 
+/** Props exposed to a custom date section header component */
+export type TransactionsHistoryDateGroupHeaderProps = {
+  id: string;
+  groupId: TransactionDateGroupId;
+  label: string;
+  className?: string;
+};
+
+/** Props exposed to a custom export actions component */
+export type TransactionsHistoryExportProps = {
+  /** Offered formats */
+  formats: TransactionExportFormat[];
+  /** Exports the active wallet's history in the given format */
+  onExport: (format: TransactionExportFormat) => void;
+  className?: string;
+  buttonClassName?: string;
+};
+
+/** A row of the history list: a date section header or a transaction */
+type HistoryRow<T extends Transaction> =
+  | { type: 'header'; key: string; groupId: TransactionDateGroupId }
+  | { type: 'item'; key: string; tx: T; groupId?: TransactionDateGroupId };
+
 /** Props exposed to a custom Loader component */
 export type TransactionsHistoryLoaderProps = {
   className?: string;
@@ -48,6 +88,23 @@ export type TransactionsHistoryCustomization<T extends Transaction> = {
     errorContainer?: string;
     /** Classes for the error indicator icon */
     errorIcon?: string;
+    // --- Filters and date sections classNames ---
+    /** Classes for the filters toolbar container */
+    toolbar?: string;
+    /** Classes for the search input */
+    searchInput?: string;
+    /** Classes for a filter chip */
+    filterChip?: string;
+    /** Classes added to a selected filter chip */
+    filterChipActive?: string;
+    /** Classes for the clear filters button */
+    clearFiltersButton?: string;
+    /** Classes for the sticky date section headers */
+    dateGroupHeader?: string;
+    /** Classes for the export actions container */
+    exportActions?: string;
+    /** Classes for an export button */
+    exportButton?: string;
     // --- TransactionHistoryItem classNames ---
     /** Classes for individual transaction item container */
     itemContainer?: string;
@@ -92,6 +149,52 @@ export type TransactionsHistoryCustomization<T extends Transaction> = {
     HistoryItem?: ComponentType<TransactionHistoryItemProps<T>>;
     /** Custom loader component rendered at the bottom during pagination loading */
     Loader?: ComponentType<TransactionsHistoryLoaderProps>;
+    /** Custom filters toolbar (search field and filter chips) */
+    Toolbar?: ComponentType<TransactionsHistoryToolbarProps>;
+    /** Custom header of a date section, also used as the header pinned at the top while scrolling */
+    DateGroupHeader?: ComponentType<TransactionsHistoryDateGroupHeaderProps>;
+    /** Custom export actions */
+    ExportActions?: ComponentType<TransactionsHistoryExportProps>;
+  };
+  /** Behavior configuration */
+  config?: {
+    /**
+     * Force the filters toolbar on or off. By default it is shown from `filtersThreshold` transactions, or while
+     * filters are active. The active filters apply either way.
+     */
+    showFilters?: boolean;
+    /** Number of transactions from which the filters toolbar is shown (default: 5) */
+    filtersThreshold?: number;
+    /** Split the list into "Today", "Yesterday", "Last week"... sections (default: true) */
+    groupByDate?: boolean;
+    /** Keep the selected filters in `sessionStorage` across openings of the history (default: true) */
+    persistFilters?: boolean;
+    /** Storage key of the persisted filters (default: `nova:transactions-history-filters`) */
+    filtersStorageKey?: string;
+    /** Windowed rendering of long lists */
+    virtualization?: {
+      /** Render only the rows close to the visible area (default: true) */
+      enabled?: boolean;
+      /** Number of rows from which the list is virtualized (default: 50) */
+      threshold?: number;
+      /** Height (px) assumed for a history item until it is measured (default: 88) */
+      estimatedItemHeight?: number;
+      /** Extra distance (px) rendered above and below the visible area (default: 480) */
+      overscan?: number;
+    };
+    /** Export of the active wallet's history */
+    export?: {
+      /** Show the export actions (default: true) */
+      enabled?: boolean;
+      /** Offered formats (default: `['csv', 'json']`) */
+      formats?: TransactionExportFormat[];
+      /** Exported columns, built-in keys or custom columns (default: `defaultTransactionExportColumns`) */
+      columns?: TransactionExportColumn<T>[];
+      /** File name without extension (default: `transactions-YYYY-MM-DD`) */
+      fileName?: string;
+      /** Receives the export instead of downloading it as a file */
+      onExport?: (content: string, format: TransactionExportFormat) => void;
+    };
   };
   /** Customization for the detailed transaction view */
   detailsCustomization?: TransactionDetailsCustomization;
@@ -99,7 +202,7 @@ export type TransactionsHistoryCustomization<T extends Transaction> = {
 
 export type TransactionsHistoryProps<T extends Transaction> = Pick<
   NovaTransactionsProviderProps<T>,
-  'adapter' | 'transactionsPool' | 'connectedWalletAddress'
+  'adapter' | 'transactionsPool' | 'connectedWalletAddress' | 'txReplacement' | 'txDataDecoders'
 > & {
   className?: string;
   customization?: TransactionsHistoryCustomization<T>;
@@ -109,11 +212,87 @@ export type TransactionsHistoryProps<T extends Transaction> = Pick<
   initialTxKey?: string | null;
   /** Whether transaction details can be viewed by clicking on history items. Defaults to true. */
   canViewDetails?: boolean;
+  /** Controlled filters. When set, the component doesn't keep or persist filters itself. */
+  filters?: TransactionsHistoryFilters;
+  /** Initial filters of an uncontrolled history, overridden by persisted filters */
+  defaultFilters?: Partial<TransactionsHistoryFilters>;
+  /** Called whenever the user changes the filters */
+  onFiltersChange?: (filters: TransactionsHistoryFilters) => void;
 };
 
 /** Duration (ms) for the error indicator to stay visible before fading out. */
 const ERROR_DISPLAY_DURATION = 2500;
 
+/** Default storage key of the persisted filters. */
+const FILTERS_STORAGE_KEY = 'nova:transactions-history-filters';
+
+/** Height (px) assumed for a date section header until it is measured. */
+const ESTIMATED_HEADER_HEIGHT = 30;
+
+/**
+ * Returns the unique values of a list, in order of appearance.
+ */
+function uniqueBy<V>(values: V[], getKey: (value: V) => string = String): V[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = getKey(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Default header of a date section.
+ */
+function DefaultDateGroupHeader({ id, label, className }: TransactionsHistoryDateGroupHeaderProps) {
+  return (
+    <div
+      id={id}
+      className={cn(
+        'novatx:border-b novatx:border-[var(--tuwa-border-secondary)] novatx:bg-[var(--tuwa-bg-secondary)] novatx:px-3 novatx:py-1.5',
+        'novatx:text-xs novatx:font-semibold novatx:uppercase novatx:tracking-wide novatx:text-[var(--tuwa-text-tertiary)]',
+        className,
+      )}
+    >
+      {label}
+    </div>
+  );
+}
+
+/**
+ * Default export actions: one button per format.
+ */
+function DefaultExportActions({ formats, onExport, className, buttonClassName }: TransactionsHistoryExportProps) {
+  const {
+    transactionsModal: { history },
+  } = useLabels();
+
+  return (
+    <div
+      role="group"
+      aria-label={history.export.label}
+      className={cn('novatx:flex novatx:justify-end novatx:gap-2', className)}
+    >
+      {formats.map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => onExport(format)}
+          className={cn(
+            'novatx:flex novatx:cursor-pointer novatx:items-center novatx:gap-1.5 novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-secondary)] novatx:px-2.5 novatx:py-1 novatx:text-xs novatx:font-medium novatx:text-[var(--tuwa-text-secondary)] novatx:transition-colors novatx:hover:text-[var(--tuwa-text-primary)]',
+            'novatx:focus:outline-none novatx:focus-visible:ring-2 novatx:focus-visible:ring-[var(--tuwa-border-primary)]',
+            buttonClassName,
+          )}
+        >
+          <ArrowDownTrayIcon className="novatx:h-4 novatx:w-4" aria-hidden="true" />
+          {history.export[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 /**
  * Default loader component rendered at the bottom of the list during pagination loading.
  */
@@ -200,8 +379,42 @@ export function TransactionsHistory<T extends Transaction>({
   pagination,
   initialTxKey,
   canViewDetails = true,
+  filters: controlledFilters,
+  defaultFilters,
+  onFiltersChange,
+  txReplacement,
+  txDataDecoders,
 }: TransactionsHistoryProps<T>) {
-  const { transactionsModal } = useLabels();
+  const { transactionsModal, statuses } = useLabels();
+  const groupIdPrefix = useId();
+
+  const {
+    showFilters: showFiltersConfig,
+    filtersThreshold = 5,
+    groupByDate = true,
+    persistFilters = true,
+    filtersStorageKey = FILTERS_STORAGE_KEY,
+    virtualization,
+    export: exportConfig,
+  } = customization?.config ?? {};
+
+  const [internalFilters, setInternalFilters] = useState<TransactionsHistoryFilters>(() => ({
+    ...defaultTransactionsHistoryFilters,
+    ...defaultFilters,
+    ...(persistFilters ? loadPersistedTransactionsHistoryFilters(filtersStorageKey) : undefined),
+  }));
+  const filters = controlledFilters ?? internalFilters;
+
+  const handleFiltersChange = useCallback(
+    (nextFilters: TransactionsHistoryFilters) => {
+      if (!controlledFilters) {
+        setInternalFilters(nextFilters);
+        if (persistFilters) persistTransactionsHistoryFilters(filtersStorageKey, nextFilters);
+      }
+      onFiltersChange?.(nextFilters);
+    },
+    [controlledFilters, persistFilters, filtersStorageKey, onFiltersChange],
+  );
 
   const [selectedTxKey, setSelectedTxKey] = useState<string | null>(canViewDetails ? (initialTxKey ?? null) : null);
 
@@ -213,17 +426,92 @@ export function TransactionsHistory<T extends Transaction>({
     }
   }, [initialTxKey, canViewDetails]);
 
-  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Kept in state, so the observer follows the sentinel between the list and the empty filter state
+  const [sentinel, setSentinel] = useState<HTMLDivElement | null>(null);
   const prevIsErrorRef = useRef(false);
   const [showError, setShowError] = useState(false);
   const errorTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
 
-  const sortedTransactions = (() => {
+  const sortedTransactions = useMemo(() => {
     if (!connectedWalletAddress) return [];
     const transactions = selectAllTransactionsByActiveWallet(transactionsPool, connectedWalletAddress);
     return transactions.sort((a, b) => (b.localTimestamp ?? 0) - (a.localTimestamp ?? 0));
+  }, [transactionsPool, connectedWalletAddress]);
+
+  // The threshold only hides the toolbar: active filters always apply, and keep the toolbar shown so they can be cleared
+  const showFilters =
+    showFiltersConfig ??
+    (sortedTransactions.length >= filtersThreshold || hasActiveTransactionsHistoryFilters(filters));
+  const visibleTransactions = useMemo(
+    () => filterTransactions(sortedTransactions, filters),
+    [sortedTransactions, filters],
+  );
+
+  // Memoized with the row callbacks, so the virtual list only recomputes its offsets when the rows change
+  const rows = useMemo(
+    (): HistoryRow<T>[] =>
+      groupByDate
+        ? groupTransactionsByDate(visibleTransactions).flatMap((group): HistoryRow<T>[] => [
+            { type: 'header', key: `header:${group.id}`, groupId: group.id },
+            ...group.transactions.map((tx): HistoryRow<T> => ({ type: 'item', key: tx.txKey, tx, groupId: group.id })),
+          ])
+        : visibleTransactions.map((tx) => ({ type: 'item', key: tx.txKey, tx })),
+    [visibleTransactions, groupByDate],
+  );
+  const groupIds = useMemo(() => rows.flatMap((row) => (row.type === 'header' ? [row.groupId] : [])), [rows]);
+
+  const estimatedItemHeight = virtualization?.estimatedItemHeight ?? 88;
+  const getRowKey = useCallback((index: number) => rows[index].key, [rows]);
+  const estimateSize = useCallback(
+    (index: number) => (rows[index].type === 'header' ? ESTIMATED_HEADER_HEIGHT : estimatedItemHeight),
+    [rows, estimatedItemHeight],
+  );
+  const list = useVirtualList({
+    count: rows.length,
+    getRowKey,
+    estimateSize,
+    overscan: virtualization?.overscan,
+    enabled: (virtualization?.enabled ?? true) && rows.length >= (virtualization?.threshold ?? 50),
+  });
+
+  // Header of the section at the top of the visible area, kept pinned while its rows scroll
+  const activeGroupId = (() => {
+    if (!groupByDate) return undefined;
+    for (let index = Math.min(list.firstVisibleIndex, rows.length - 1); index >= 0; index--) {
+      const row = rows[index];
+      if (row.type === 'header') return row.groupId;
+    }
+    return undefined;
   })();
 
+  const handleExport = (format: TransactionExportFormat) => {
+    if (!connectedWalletAddress) return;
+    const content = exportTransactions(transactionsPool, {
+      format,
+      walletAddress: connectedWalletAddress,
+      adapter,
+      columns: exportConfig?.columns,
+      headers: transactionsModal.history.export.columns,
+      statusLabels: statuses,
+    });
+    if (exportConfig?.onExport) {
+      exportConfig.onExport(content, format);
+    } else {
+      downloadTransactionsExport(content, format, exportConfig?.fileName);
+    }
+  };
+
+  // Bring the transaction back into view when returning from its details
+  const restoreTxKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (selectedTxKey || !restoreTxKeyRef.current) return;
+    const index = rows.findIndex((row) => row.key === restoreTxKeyRef.current);
+    restoreTxKeyRef.current = null;
+    if (index >= 0) list.scrollToIndex(index);
+    // Runs only when the list is shown again
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTxKey]);
+
   /**
    * Detect isError rising edge (false → true) and show the error indicator.
    * Uses a timer ref to auto-hide after the display duration.
@@ -267,21 +555,24 @@ export function TransactionsHistory<T extends Transaction>({
    * Observes only when pagination is active and more pages are available.
    */
   useEffect(() => {
-    if (!pagination?.hasMore || !sentinelRef.current) return;
+    if (!pagination?.hasMore || !sentinel) return;
 
     const observer = new IntersectionObserver(handleIntersection, {
       threshold: 0.1,
     });
 
-    observer.observe(sentinelRef.current);
+    observer.observe(sentinel);
 
     return () => observer.disconnect();
-  }, [pagination?.hasMore, handleIntersection]);
+  }, [pagination?.hasMore, sentinel, handleIntersection]);
 
   const {
     Placeholder = HistoryPlaceholder,
     HistoryItem = TransactionHistoryItem,
     Loader = DefaultLoader,
+    Toolbar = TransactionsHistoryToolbar,
+    DateGroupHeader = DefaultDateGroupHeader,
+    ExportActions = DefaultExportActions,
   } = customization?.components ?? {};
 
   const renderContent = () => {
@@ -321,26 +612,46 @@ export function TransactionsHistory<T extends Transaction>({
         originalHashCopyButton: customization?.classNames?.itemOriginalHashCopyButton,
       };
 
-      return (
-        <div
-          className={cn(
-            'NovaCustomScroll novatx:sm:max-h-[400px] novatx:overflow-y-auto novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-primary)]',
-            customization?.classNames?.listWrapper,
-          )}
-        >
-          {sortedTransactions.map((tx) => (
-            <HistoryItem
-              key={tx.txKey}
-              tx={tx}
-              adapter={adapter}
-              canViewDetails={canViewDetails}
-              customization={{ classNames: itemClassNames }}
-              onSelectTx={() => canViewDetails && setSelectedTxKey(tx.txKey)}
-            />
-          ))}
+      const renderItem = (tx: T) => (
+        <HistoryItem
+          key={tx.txKey}
+          tx={tx}
+          adapter={adapter}
+          canViewDetails={canViewDetails}
+          customization={{ classNames: itemClassNames }}
+          onSelectTx={() => canViewDetails && setSelectedTxKey(tx.txKey)}
+        />
+      );
+
+      const exportActions = (exportConfig?.enabled ?? true) && (
+        <ExportActions
+          formats={exportConfig?.formats ?? ['csv', 'json']}
+          onExport={handleExport}
+          className={customization?.classNames?.exportActions}
+          buttonClassName={customization?.classNames?.exportButton}
+        />
+      );
+
+      const toolbar = showFilters && (
+        <Toolbar
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          chainIds={uniqueBy(sortedTransactions.map((tx) => tx.chainId))}
+          types={uniqueBy(sortedTransactions.map((tx) => tx.type))}
+          className={customization?.classNames?.toolbar}
+          classNames={{
+            searchInput: customization?.classNames?.searchInput,
+            chip: customization?.classNames?.filterChip,
+            chipActive: customization?.classNames?.filterChipActive,
+            clearButton: customization?.classNames?.clearFiltersButton,
+          }}
+        />
+      );
 
+      const paginationStatus = (
+        <>
           {/* Infinite scroll sentinel — observed by IntersectionObserver */}
-          {pagination?.hasMore && <div ref={sentinelRef} className="novatx:h-px" aria-hidden="true" />}
+          {pagination?.hasMore && <div ref={setSentinel} className="novatx:h-px" aria-hidden="true" />}
 
           {/* Bottom loader visible during pagination fetch */}
           {pagination?.isLoading && (
@@ -357,7 +668,88 @@ export function TransactionsHistory<T extends Transaction>({
               iconClassName={customization?.classNames?.errorIcon}
             />
           )}
-        </div>
+        </>
+      );
+
+      if (visibleTransactions.length === 0) {
+        return (
+          <>
+            {exportActions}
+            {toolbar}
+            <Placeholder
+              title={transactionsModal.history.filters.noResultsTitle}
+              message={transactionsModal.history.filters.noResultsMessage}
+              className={customization?.classNames?.placeholderContainer}
+              classNames={{
+                title: customization?.classNames?.placeholderTitle,
+                message: customization?.classNames?.placeholderMessage,
+              }}
+            />
+            {/* Older pages may still match the filters */}
+            {paginationStatus}
+          </>
+        );
+      }
+
+      return (
+        <>
+          {exportActions}
+          {toolbar}
+          <div
+            ref={list.containerRef}
+            className={cn(
+              'NovaCustomScroll novatx:sm:max-h-[400px] novatx:overflow-y-auto novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-primary)]',
+              customization?.classNames?.listWrapper,
+            )}
+          >
+            {/* Pinned copy of the current section header, the in-list header may not be rendered */}
+            {activeGroupId && (
+              <div className="novatx:sticky novatx:top-0 novatx:z-10 novatx:h-0" aria-hidden="true">
+                <DateGroupHeader
+                  id={`${groupIdPrefix}-pinned`}
+                  groupId={activeGroupId}
+                  label={transactionsModal.history.dateGroups[activeGroupId]}
+                  className={customization?.classNames?.dateGroupHeader}
+                />
+              </div>
+            )}
+
+            {/* Group names read with each transaction, as the rows of a section are not wrapped in one element */}
+            {groupIds.map((groupId) => (
+              <span key={groupId} id={`${groupIdPrefix}-${groupId}-label`} hidden>
+                {transactionsModal.history.dateGroups[groupId]}
+              </span>
+            ))}
+
+            {list.paddingTop > 0 && <div style={{ height: list.paddingTop }} aria-hidden="true" />}
+
+            {rows.slice(list.startIndex, list.endIndex).map((row) => (
+              <div
+                key={row.key}
+                data-row-key={row.key}
+                ref={list.measureRow}
+                aria-describedby={
+                  row.type === 'item' && row.groupId ? `${groupIdPrefix}-${row.groupId}-label` : undefined
+                }
+              >
+                {row.type === 'header' ? (
+                  <DateGroupHeader
+                    id={`${groupIdPrefix}-${row.groupId}`}
+                    groupId={row.groupId}
+                    label={transactionsModal.history.dateGroups[row.groupId]}
+                    className={customization?.classNames?.dateGroupHeader}
+                  />
+                ) : (
+                  renderItem(row.tx)
+                )}
+              </div>
+            ))}
+
+            {list.paddingBottom > 0 && <div style={{ height: list.paddingBottom }} aria-hidden="true" />}
+
+            {paginationStatus}
+          </div>
+        </>
       );
     }
 
@@ -381,8 +773,14 @@ export function TransactionsHistory<T extends Transaction>({
         <TransactionDetails
           tx={selectedTx}
           adapter={adapter}
-          onBack={() => setSelectedTxKey(null)}
+          onBack={() => {
+            restoreTxKeyRef.current = selectedTxKey;
+            setSelectedTxKey(null);
+          }}
           customization={customization?.detailsCustomization}
+          connectedWalletAddress={connectedWalletAddress}
+          txReplacement={txReplacement}
+          txDataDecoders={txDataDecoders}
         />
       );
     }
@@ -0,0 +1,219 @@
+/**
+ * @file This file contains the `TransactionsHistoryToolbar` component, the search field and filter chips
+ * (status, network and type) of the transactions history.
+ */
+
+import { cn, getChainName } from '@tuwaio/nova-core';
+import { setChainId } from '@tuwaio/orbit-core';
+import { ReactNode } from 'react';
+
+import { useLabels } from '../providers';
+import {
+  defaultTransactionsHistoryFilters,
+  hasActiveTransactionsHistoryFilters,
+  TransactionsHistoryFilters,
+  TransactionStatusFilter,
+  transactionStatusFilters,
+} from '../utils';
+
+export type TransactionsHistoryToolbarProps = {
+  /** Current filters */
+  filters: TransactionsHistoryFilters;
+  /** Called with the next filters */
+  onFiltersChange: (filters: TransactionsHistoryFilters) => void;
+  /** Chains offered as filters (the chains of the wallet's transactions) */
+  chainIds: (string | number)[];
+  /** Transaction types offered as filters */
+  types: string[];
+  className?: string;
+  classNames?: {
+    /** Classes for the search input */
+    searchInput?: string;
+    /** Classes for a filter chip */
+    chip?: string;
+    /** Classes added to a selected filter chip */
+    chipActive?: string;
+    /** Classes for the clear filters button */
+    clearButton?: string;
+  };
+};
+
+/**
+ * Toggles a value in a list.
+ */
+function toggleValue<V>(list: V[], value: V): V[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+function FilterChip({
+  isActive,
+  onClick,
+  children,
+  className,
+  activeClassName,
+}: {
+  isActive: boolean;
+  onClick: () => void;
+  children: ReactNode;
+  className?: string;
+  activeClassName?: string;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={isActive}
+      onClick={onClick}
+      className={cn(
+        'novatx:cursor-pointer novatx:whitespace-nowrap novatx:rounded-full novatx:border novatx:px-3 novatx:py-1 novatx:text-xs novatx:font-medium novatx:transition-colors',
+        'novatx:focus:outline-none novatx:focus-visible:ring-2 novatx:focus-visible:ring-[var(--tuwa-border-primary)]',
+        isActive
+          ? 'novatx:border-[var(--tuwa-text-accent)] novatx:bg-[var(--tuwa-text-accent)] novatx:text-[var(--tuwa-bg-primary)]'
+          : 'novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-secondary)] novatx:text-[var(--tuwa-text-secondary)] novatx:hover:text-[var(--tuwa-text-primary)]',
+        className,
+        isActive && activeClassName,
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function ChipGroup({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div
+      role="group"
+      aria-label={label}
+      className="novatx:flex novatx:items-center novatx:gap-2 novatx:overflow-x-auto"
+    >
+      <span className="novatx:flex-shrink-0 novatx:text-xs novatx:font-semibold novatx:text-[var(--tuwa-text-tertiary)]">
+        {label}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Search field and filter chips of the transactions history. Network and type chips are shown
+ * only when the wallet's transactions span more than one network or type.
+ */
+export function TransactionsHistoryToolbar({
+  filters,
+  onFiltersChange,
+  chainIds,
+  types,
+  className,
+  classNames,
+}: TransactionsHistoryToolbarProps) {
+  const {
+    statuses,
+    transactionsModal: { history },
+  } = useLabels();
+
+  const statusLabels: Record<TransactionStatusFilter, string> = {
+    pending: statuses.pending,
+    success: statuses.success,
+    failed: statuses.failed,
+    replaced: statuses.replaced,
+  };
+
+  const update = (patch: Partial<TransactionsHistoryFilters>) => onFiltersChange({ ...filters, ...patch });
+
+  const chip = (key: string | number, label: string, isActive: boolean, onClick: () => void) => (
+    <FilterChip
+      key={key}
+      isActive={isActive}
+      onClick={onClick}
+      className={classNames?.chip}
+      activeClassName={classNames?.chipActive}
+    >
+      {label}
+    </FilterChip>
+  );
+
+  return (
+    <div
+      role="search"
+      aria-label={history.filters.label}
+      className={cn('novatx:flex novatx:flex-col novatx:gap-2', className)}
+    >
+      <div className="novatx:relative">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(event) => update({ search: event.target.value })}
+          placeholder={history.filters.searchPlaceholder}
+          aria-label={history.filters.search}
+          autoComplete="off"
+          spellCheck={false}
+          className={cn(
+            'novatx:w-full novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:bg-[var(--tuwa-bg-secondary)] novatx:px-3 novatx:py-2 novatx:pr-8 novatx:text-sm novatx:text-[var(--tuwa-text-primary)] novatx:placeholder:text-[var(--tuwa-text-tertiary)] novatx:outline-none novatx:focus:border-[var(--tuwa-text-accent)] novatx:[&::-webkit-search-cancel-button]:appearance-none',
+            classNames?.searchInput,
+          )}
+        />
+        {filters.search && (
+          <button
+            type="button"
+            onClick={() => update({ search: '' })}
+            aria-label={history.filters.clearSearch}
+            className="novatx:absolute novatx:right-2 novatx:top-1/2 novatx:-translate-y-1/2 novatx:cursor-pointer novatx:p-1 novatx:text-[var(--tuwa-text-secondary)] novatx:hover:text-[var(--tuwa-text-primary)]"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+              className="novatx:h-4 novatx:w-4"
+              aria-hidden="true"
+            >
+              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <ChipGroup label={history.filters.status}>
+        {transactionStatusFilters.map((status) =>
+          chip(status, statusLabels[status], filters.statuses.includes(status), () =>
+            update({ statuses: toggleValue(filters.statuses, status) }),
+          ),
+        )}
+      </ChipGroup>
+
+      {chainIds.length > 1 && (
+        <ChipGroup label={history.filters.chain}>
+          {chainIds.map((chainId) => {
+            const isActive = filters.chainIds.some((selected) => String(selected) === String(chainId));
+            return chip(chainId, getChainName(setChainId(chainId)).name, isActive, () =>
+              update({
+                chainIds: isActive
+                  ? filters.chainIds.filter((selected) => String(selected) !== String(chainId))
+                  : [...filters.chainIds, chainId],
+              }),
+            );
+          })}
+        </ChipGroup>
+      )}
+
+      {types.length > 1 && (
+        <ChipGroup label={history.filters.type}>
+          {types.map((type) =>
+            chip(type, type, filters.types.includes(type), () => update({ types: toggleValue(filters.types, type) })),
+          )}
+        </ChipGroup>
+      )}
+
+      {hasActiveTransactionsHistoryFilters(filters) && (
+        <button
+          type="button"
+          onClick={() => onFiltersChange(defaultTransactionsHistoryFilters)}
+          className={cn(
+            'novatx:cursor-pointer novatx:self-start novatx:text-xs novatx:font-medium novatx:text-[var(--tuwa-text-accent)] novatx:hover:underline',
+            classNames?.clearButton,
+          )}
+        >
+          {history.filters.clear}
+        </button>
+      )}
+    </div>
+  );
+}
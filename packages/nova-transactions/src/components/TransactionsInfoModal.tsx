@@ -36,7 +36,12 @@ export type TransactionsInfoModalCustomization<T extends Transaction> = {
 
 export type TransactionsInfoModalProps<T extends Transaction> = Pick<
   NovaTransactionsProviderProps<T>,
-  'adapter' | 'connectedAdapterType' | 'connectedWalletAddress' | 'transactionsPool'
+  | 'adapter'
+  | 'connectedAdapterType'
+  | 'connectedWalletAddress'
+  | 'transactionsPool'
+  | 'txReplacement'
+  | 'txDataDecoders'
 > & {
   isOpen?: boolean;
   setIsOpen: (value: boolean) => void;
@@ -89,6 +94,8 @@ export function TransactionsInfoModal<T extends Transaction>({
   transactionsPool,
   pagination,
   selectedTxKey,
+  txReplacement,
+  txDataDecoders,
 }: TransactionsInfoModalProps<T>) {
   const { transactionsModal } = useLabels();
 
@@ -100,6 +107,7 @@ export function TransactionsInfoModal<T extends Transaction>({
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && closeModal()}>
       <DialogContent
+        modalId="nova-transactions-info-modal"
         className={cn('novatx:w-full novatx:sm:max-w-2xl', customization?.modalProps?.className)}
         {...customization?.modalProps}
       >
@@ -130,6 +138,8 @@ export function TransactionsInfoModal<T extends Transaction>({
               connectedWalletAddress={connectedWalletAddress}
               customization={customization?.historyCustomization}
               pagination={pagination}
+              txReplacement={txReplacement}
+              txDataDecoders={txDataDecoders}
             />
           ) : (
             <TransactionsHistory
@@ -139,6 +149,8 @@ export function TransactionsInfoModal<T extends Transaction>({
               customization={customization?.historyCustomization}
               pagination={pagination}
               initialTxKey={selectedTxKey}
+              txReplacement={txReplacement}
+              txDataDecoders={txDataDecoders}
             />
           )}
         </div>
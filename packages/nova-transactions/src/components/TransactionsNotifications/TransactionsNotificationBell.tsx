@@ -0,0 +1,147 @@
+/**
+ * @file This file contains the `TransactionsNotificationBell` component, a bell button with an unread badge
+ * opening the transaction notifications panel.
+ */
+
+import { BellIcon } from '@heroicons/react/24/outline';
+import { cn } from '@tuwaio/nova-core';
+import { ComponentType, useEffect, useId, useRef, useState } from 'react';
+
+import { useTransactionNotifications } from '../../hooks';
+import { useLabels } from '../../providers';
+import {
+  TransactionsNotificationsPanel,
+  TransactionsNotificationsPanelClassNames,
+  TransactionsNotificationsPanelProps,
+} from './TransactionsNotificationsPanel';
+
+/**
+ * Customization options for the TransactionsNotificationBell component.
+ */
+export type TransactionsNotificationBellCustomization = {
+  /** Custom components */
+  components?: {
+    /** Custom notifications panel */
+    Panel?: ComponentType<TransactionsNotificationsPanelProps>;
+  };
+  /** Granular classNames for sub-elements */
+  classNames?: {
+    /** Classes for the bell button */
+    button?: string;
+    /** Classes for the unread badge */
+    badge?: string;
+    /** Classes for the popover wrapping the panel */
+    popover?: string;
+    /** Classes for the default panel sub-elements */
+    panel?: TransactionsNotificationsPanelClassNames;
+  };
+  /** Behavior options */
+  config?: {
+    /** Highest unread count displayed, larger counts show as e.g. `9+` (default: 9) */
+    maxBadgeCount?: number;
+    /** Close the panel when a notification is clicked (default: true) */
+    closeOnNotificationClick?: boolean;
+  };
+};
+
+export type TransactionsNotificationBellProps = Pick<
+  TransactionsNotificationsPanelProps,
+  'store' | 'onNotificationClick'
+> & {
+  /** Optional additional CSS classes for the container. */
+  className?: string;
+  /** An object to customize and override the default internal components. */
+  customization?: TransactionsNotificationBellCustomization;
+};
+
+/**
+ * A bell button showing the number of unread transaction notifications. It opens a popover with the
+ * notifications panel, closed by clicking outside or pressing Escape.
+ *
+ * Pass the same store to `NovaTransactionsProvider` (`notificationsStore`), which records the status changes.
+ */
+export function TransactionsNotificationBell({
+  store,
+  onNotificationClick,
+  className,
+  customization,
+}: TransactionsNotificationBellProps) {
+  const { notifications: labels } = useLabels();
+  const { unreadCount } = useTransactionNotifications(store);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const popoverId = useId();
+
+  const { Panel = TransactionsNotificationsPanel } = customization?.components ?? {};
+  const classNames = customization?.classNames;
+  const { maxBadgeCount = 9, closeOnNotificationClick = true } = customization?.config ?? {};
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className={cn('novatx:relative novatx:inline-flex', className)}>
+      <button
+        type="button"
+        aria-label={unreadCount ? `${labels.open} (${unreadCount} ${labels.unread})` : labels.open}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? popoverId : undefined}
+        onClick={() => setIsOpen((open) => !open)}
+        className={cn(
+          'novatx:relative novatx:flex novatx:h-10 novatx:w-10 novatx:cursor-pointer novatx:items-center novatx:justify-center novatx:rounded-full novatx:bg-[var(--tuwa-bg-muted)] novatx:text-[var(--tuwa-text-secondary)] novatx:transition-colors novatx:hover:text-[var(--tuwa-text-primary)]',
+          classNames?.button,
+        )}
+      >
+        <BellIcon aria-hidden="true" className="novatx:h-5 novatx:w-5" />
+        {unreadCount > 0 && (
+          <span
+            aria-hidden="true"
+            className={cn(
+              'novatx:absolute novatx:-top-1 novatx:-right-1 novatx:flex novatx:h-5 novatx:min-w-5 novatx:items-center novatx:justify-center novatx:rounded-full novatx:bg-[var(--tuwa-error-icon)] novatx:px-1 novatx:text-[10px] novatx:font-bold novatx:text-white',
+              classNames?.badge,
+            )}
+          >
+            {unreadCount > maxBadgeCount ? `${maxBadgeCount}+` : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          id={popoverId}
+          role="dialog"
+          aria-label={labels.title}
+          className={cn(
+            'novatx:absolute novatx:top-full novatx:right-0 novatx:z-50 novatx:mt-2 novatx:w-80 novatx:max-w-[calc(100vw-2rem)] novatx:overflow-hidden novatx:rounded-[var(--tuwa-rounded-corners)] novatx:border novatx:border-[var(--tuwa-border-primary)] novatx:shadow-xl',
+            classNames?.popover,
+          )}
+        >
+          <Panel
+            store={store}
+            classNames={classNames?.panel}
+            onNotificationClick={(notification) => {
+              if (closeOnNotificationClick) setIsOpen(false);
+              onNotificationClick?.(notification);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
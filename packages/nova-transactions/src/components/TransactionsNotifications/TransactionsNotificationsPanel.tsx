@@ -0,0 +1,183 @@
+/**
+ * @file This file contains the `TransactionsNotificationsPanel` component, the list of transaction status changes
+ * of a notifications store, with mark-as-read and clear-all actions.
+ */
+
+import { ArrowPathIcon, CheckCircleIcon, PaperAirplaneIcon, XCircleIcon } from '@heroicons/react/24/solid';
+import { cn, NetworkIcon } from '@tuwaio/nova-core';
+import { setChainId } from '@tuwaio/orbit-core';
+import { TransactionStatus } from '@tuwaio/pulsar-core';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+
+import { useTransactionNotifications } from '../../hooks';
+import { useLabels } from '../../providers';
+import { TransactionNotification, TransactionNotificationKind, TransactionNotificationsStore } from '../../utils';
+import { StatusAwareText } from '../StatusAwareText';
+
+dayjs.extend(relativeTime);
+
+/**
+ * Icon, icon color and transaction status (for status-aware titles) of each notification kind.
+ */
+const KIND_CONFIG: Record<
+  TransactionNotificationKind,
+  { Icon: typeof CheckCircleIcon; iconClasses: string; status?: TransactionStatus }
+> = {
+  submitted: { Icon: PaperAirplaneIcon, iconClasses: 'novatx:text-[var(--tuwa-pending-icon)]' },
+  succeeded: {
+    Icon: CheckCircleIcon,
+    iconClasses: 'novatx:text-[var(--tuwa-success-icon)]',
+    status: TransactionStatus.Success,
+  },
+  failed: { Icon: XCircleIcon, iconClasses: 'novatx:text-[var(--tuwa-error-icon)]', status: TransactionStatus.Failed },
+  replaced: {
+    Icon: ArrowPathIcon,
+    iconClasses: 'novatx:text-[var(--tuwa-info-icon)]',
+    status: TransactionStatus.Replaced,
+  },
+};
+
+export type TransactionsNotificationsPanelClassNames = {
+  /** Classes for the panel header */
+  header?: string;
+  /** Classes for the panel title */
+  title?: string;
+  /** Classes for the header action buttons */
+  action?: string;
+  /** Classes for the list */
+  list?: string;
+  /** Classes for a notification */
+  item?: string;
+  /** Classes added to an unread notification */
+  itemUnread?: string;
+  /** Classes for the notification title */
+  itemTitle?: string;
+  /** Classes for the status change and time line */
+  itemMeta?: string;
+  /** Classes for the empty state */
+  empty?: string;
+};
+
+export type TransactionsNotificationsPanelProps = {
+  /** Store created with `createTransactionNotificationsStore` */
+  store: TransactionNotificationsStore;
+  /** Called when a notification is clicked, after it is marked as read (e.g. to open the transaction details) */
+  onNotificationClick?: (notification: TransactionNotification) => void;
+  /** Optional additional CSS classes for the container. */
+  className?: string;
+  /** Granular classNames for sub-elements */
+  classNames?: TransactionsNotificationsPanelClassNames;
+};
+
+/**
+ * Lists the transaction status changes of a notifications store, newest first, with unread markers,
+ * "Mark all as read" and "Clear all" actions.
+ */
+export function TransactionsNotificationsPanel({
+  store,
+  onNotificationClick,
+  className,
+  classNames,
+}: TransactionsNotificationsPanelProps) {
+  const { notifications: labels } = useLabels();
+  const { notifications, unreadCount, markAsRead, markAllAsRead, clearAll } = useTransactionNotifications(store);
+
+  const actionClassName = cn(
+    'novatx:cursor-pointer novatx:text-xs novatx:font-semibold novatx:text-[var(--tuwa-text-accent)] novatx:transition-opacity novatx:hover:opacity-80 novatx:disabled:cursor-not-allowed novatx:disabled:opacity-50',
+    classNames?.action,
+  );
+
+  return (
+    <div className={cn('novatx:flex novatx:flex-col novatx:bg-[var(--tuwa-bg-primary)]', className)}>
+      <div
+        className={cn(
+          'novatx:flex novatx:items-center novatx:justify-between novatx:gap-3 novatx:border-b novatx:border-[var(--tuwa-border-primary)] novatx:px-4 novatx:py-3',
+          classNames?.header,
+        )}
+      >
+        <h3
+          className={cn(
+            'novatx:text-sm novatx:font-mono novatx:font-bold novatx:text-[var(--tuwa-text-primary)]',
+            classNames?.title,
+          )}
+        >
+          {labels.title}
+        </h3>
+        <div className="novatx:flex novatx:items-center novatx:gap-3">
+          <button type="button" disabled={!unreadCount} onClick={markAllAsRead} className={actionClassName}>
+            {labels.markAllAsRead}
+          </button>
+          <button type="button" disabled={!notifications.length} onClick={clearAll} className={actionClassName}>
+            {labels.clearAll}
+          </button>
+        </div>
+      </div>
+
+      {notifications.length === 0 ? (
+        <div className={cn('novatx:px-4 novatx:py-8 novatx:text-center', classNames?.empty)}>
+          <p className="novatx:text-sm novatx:font-semibold novatx:text-[var(--tuwa-text-primary)]">
+            {labels.emptyTitle}
+          </p>
+          <p className="novatx:mt-1 novatx:text-xs novatx:text-[var(--tuwa-text-secondary)]">{labels.emptyMessage}</p>
+        </div>
+      ) : (
+        <ul className={cn('novatx:max-h-96 novatx:overflow-y-auto', classNames?.list)}>
+          {notifications.map((notification) => {
+            const { Icon, iconClasses, status } = KIND_CONFIG[notification.kind];
+            return (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    markAsRead(notification.id);
+                    onNotificationClick?.(notification);
+                  }}
+                  className={cn(
+                    'novatx:flex novatx:w-full novatx:cursor-pointer novatx:items-start novatx:gap-3 novatx:border-b novatx:border-[var(--tuwa-border-secondary)] novatx:px-4 novatx:py-3 novatx:text-left novatx:transition-colors novatx:last:border-b-0 novatx:hover:bg-[var(--tuwa-bg-secondary)]',
+                    classNames?.item,
+                    !notification.read && cn('novatx:bg-[var(--tuwa-bg-muted)]/50', classNames?.itemUnread),
+                  )}
+                >
+                  <div className="novatx:relative novatx:h-8 novatx:w-8 novatx:flex-shrink-0 novatx:text-[var(--tuwa-text-secondary)]">
+                    <NetworkIcon chainId={setChainId(notification.chainId)} />
+                    <Icon
+                      aria-hidden="true"
+                      className={cn(
+                        'novatx:absolute novatx:-right-1 novatx:-bottom-1 novatx:h-4 novatx:w-4 novatx:rounded-full novatx:bg-[var(--tuwa-bg-primary)]',
+                        iconClasses,
+                      )}
+                    />
+                  </div>
+                  <div className="novatx:min-w-0 novatx:flex-1">
+                    <StatusAwareText
+                      txStatus={status}
+                      source={notification.title}
+                      fallback={notification.type}
+                      variant="title"
+                      className={cn('novatx:truncate', classNames?.itemTitle)}
+                    />
+                    <p
+                      className={cn(
+                        'novatx:mt-0.5 novatx:text-xs novatx:text-[var(--tuwa-text-secondary)]',
+                        classNames?.itemMeta,
+                      )}
+                    >
+                      {labels.kinds[notification.kind]} · {dayjs(notification.createdAt).fromNow()}
+                    </p>
+                  </div>
+                  {!notification.read && (
+                    <span
+                      aria-label={labels.unread}
+                      className="novatx:mt-1.5 novatx:h-2 novatx:w-2 novatx:flex-shrink-0 novatx:rounded-full novatx:bg-[var(--tuwa-text-accent)]"
+                    />
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export * from './TransactionsNotificationBell';
+export * from './TransactionsNotificationsPanel';
@@ -10,6 +10,7 @@ import { ButtonHTMLAttributes, ReactNode, useEffect, useState } from 'react';
 import { NovaTransactionsLabels } from '../i18n/types';
 import { useLabels } from '../providers';
 import { useNovaTransactionsError } from '../providers/NovaTransactionsErrorContext';
+import { requestSystemNotificationPermissionIfEnabled } from '../utils/systemNotifications';
 
 type ButtonStatus = 'idle' | 'loading' | 'succeed' | 'failed' | 'replaced';
 
@@ -107,7 +108,8 @@ export type TxActionButtonProps<T extends Transaction> = Omit<ButtonHTMLAttribut
  *
  * When rendered inside a `NovaTransactionsProvider`, any error thrown by `action()`
  * before the transaction reaches the pool is automatically surfaced as a
- * top-center validation error toast — no extra wiring required.
+ * top-center validation error toast — no extra wiring required. With `features.systemNotifications`,
+ * the click also asks for the native notifications permission.
  *
  * @template T The specific transaction type, extending the base `Transaction`.
  */
@@ -171,6 +173,8 @@ export function TxActionButton<T extends Transaction>({
   }, [status, resetTimeout]);
 
   const handleClick = async () => {
+    // Requested before awaiting, while the browser still treats the call as part of the click
+    requestSystemNotificationPermissionIfEnabled();
     setStatus('loading');
     try {
       await action();
@@ -0,0 +1,147 @@
+/**
+ * @file This file contains the `TxReplacementModal`, the dialog showing the replacement fee editor for the
+ * Speed Up and Cancel actions of toasts and transaction details.
+ */
+
+import {
+  CloseIcon,
+  cn,
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogVariant,
+} from '@tuwaio/nova-core';
+import { Transaction } from '@tuwaio/pulsar-core';
+import { ComponentPropsWithoutRef, ComponentType } from 'react';
+
+import { useLabels } from '../providers';
+import {
+  getReplacementFeeEditorOptions,
+  ReplacementFees,
+  TxReplacementFeeEditorConfig,
+  TxReplacementMode,
+} from '../utils';
+import { StatusAwareText } from './StatusAwareText';
+import {
+  TxReplacementFeeEditor,
+  TxReplacementFeeEditorClassNames,
+  TxReplacementFeeEditorProps,
+} from './TrackingTxModal/TxReplacementFeeEditor';
+
+export type TxReplacementModalCustomization = {
+  modalProps?: Partial<ComponentPropsWithoutRef<typeof DialogContent>>;
+  components?: {
+    FeeEditor?: ComponentType<TxReplacementFeeEditorProps>;
+  };
+  classNames?: {
+    /** Classes for the header */
+    header?: string;
+    /** Classes for the header title */
+    headerTitle?: string;
+    /** Classes for the close button */
+    closeButton?: string;
+    /** Classes for the content wrapper */
+    main?: string;
+  };
+  /** Customization for TxReplacementFeeEditor */
+  feeEditorCustomization?: {
+    /** Container className */
+    className?: string;
+    /** Granular classNames */
+    classNames?: TxReplacementFeeEditorClassNames;
+  };
+  /** Behavior configuration */
+  config?: {
+    /** Dialog layout on touch devices (e.g. `'sheet'`). Defaults to the regular modal */
+    mobileVariant?: DialogVariant;
+  };
+};
+
+export type TxReplacementModalProps<T extends Transaction> = {
+  /** The transaction being replaced. The modal is closed without it. */
+  tx?: T;
+  /** Whether the replacement speeds up or cancels the transaction */
+  mode?: TxReplacementMode;
+  /** Sends the replacement with the chosen fees */
+  onConfirm: (fees: ReplacementFees) => void;
+  /** Closes the modal without sending anything */
+  onClose: () => void;
+  /** Fee editor options, see `TxReplacementConfig.feeEditor` */
+  feeEditorConfig?: TxReplacementFeeEditorConfig<T>;
+  className?: string;
+  customization?: TxReplacementModalCustomization;
+};
+
+/**
+ * A dialog around `TxReplacementFeeEditor`, used by `NovaTransactionsProvider` so that Speed Up and Cancel
+ * in toasts and transaction details go through the same fee editor as the tracking modal.
+ */
+export function TxReplacementModal<T extends Transaction>({
+  tx,
+  mode,
+  onConfirm,
+  onClose,
+  feeEditorConfig,
+  className,
+  customization,
+}: TxReplacementModalProps<T>) {
+  const { actions } = useLabels();
+
+  const editorOptions = tx && mode ? getReplacementFeeEditorOptions(tx, mode, feeEditorConfig) : undefined;
+  const FeeEditor = customization?.components?.FeeEditor ?? TxReplacementFeeEditor;
+  const classNames = customization?.classNames;
+
+  return (
+    <Dialog open={!!editorOptions} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        modalId="nova-tx-replacement-modal"
+        mobileVariant={customization?.config?.mobileVariant}
+        className={cn('novatx:w-full novatx:sm:max-w-md', customization?.modalProps?.className)}
+        {...customization?.modalProps}
+      >
+        {tx && mode && editorOptions && (
+          <div className={cn('novatx:relative novatx:flex novatx:w-full novatx:flex-col', className)}>
+            <DialogHeader className={classNames?.header}>
+              <DialogTitle className={classNames?.headerTitle}>
+                <StatusAwareText
+                  txStatus={tx.status}
+                  source={tx.title}
+                  fallback={tx.type}
+                  variant="title"
+                  className="novatx:text-lg"
+                />
+              </DialogTitle>
+              <DialogClose asChild>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  aria-label={actions.close}
+                  className={cn(
+                    'novatx:cursor-pointer novatx:rounded-[var(--tuwa-rounded-corners)] novatx:p-1 novatx:text-[var(--tuwa-text-tertiary)] novatx:transition-colors novatx:hover:bg-[var(--tuwa-bg-muted)] novatx:hover:text-[var(--tuwa-text-primary)]',
+                    classNames?.closeButton,
+                  )}
+                >
+                  <CloseIcon />
+                </button>
+              </DialogClose>
+            </DialogHeader>
+
+            <main className={cn('novatx:p-4', classNames?.main)}>
+              <FeeEditor
+                key={`${tx.txKey}-${mode}`}
+                mode={mode}
+                {...editorOptions}
+                onConfirm={onConfirm}
+                onBack={onClose}
+                className={customization?.feeEditorCustomization?.className}
+                classNames={customization?.feeEditorCustomization?.classNames}
+              />
+            </main>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
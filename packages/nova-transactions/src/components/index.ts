@@ -1,3 +1,5 @@
+export * from './DecodedTxDataDetails';
+export * from './DecodedTxErrorDetails';
 export * from './HashLink';
 export * from './StatusAwareText';
 export * from './ToastTransaction';
@@ -7,6 +9,9 @@ export * from './TransactionDetails';
 export * from './TransactionHistoryItem';
 export * from './TransactionKey';
 export * from './TransactionsHistory';
+export * from './TransactionsHistoryToolbar';
 export * from './TransactionsInfoModal';
+export * from './TransactionsNotifications';
 export * from './TransactionStatusBadge';
 export * from './TxActionButton';
+export * from './TxReplacementModal';
@@ -0,0 +1,2 @@
+export * from './useDecodedTxData';
+export * from './useTransactionNotifications';
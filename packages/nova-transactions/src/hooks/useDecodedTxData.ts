@@ -0,0 +1,41 @@
+/**
+ * @file This file contains the `useDecodedTxData` hook, which decodes the contract call or instructions of a transaction.
+ */
+
+import { Transaction } from '@tuwaio/pulsar-core';
+import { useEffect, useState } from 'react';
+
+import { DecodedTxData, decodeTxData, TxDataDecoders } from '../utils';
+
+/**
+ * A hook decoding the data of a transaction with the decoder registered for its adapter.
+ * The decoder is loaded on first use. The previous result is kept while the transaction updates.
+ *
+ * @param tx - The transaction
+ * @param decoders - Decoder loaders, by adapter
+ * @returns The decoded data (`undefined` when not decoded), and whether decoding is in progress.
+ */
+export function useDecodedTxData<T extends Transaction>(
+  tx: T,
+  decoders?: TxDataDecoders<T>,
+): { data?: DecodedTxData; isLoading: boolean } {
+  const hasDecoder = !!decoders?.[tx.adapter];
+  const [result, setResult] = useState<{ txKey: string; data?: DecodedTxData }>();
+
+  useEffect(() => {
+    if (!hasDecoder) return;
+    let isCancelled = false;
+
+    decodeTxData(tx, decoders).then(
+      (data) => !isCancelled && setResult({ txKey: tx.txKey, data }),
+      () => !isCancelled && setResult({ txKey: tx.txKey, data: undefined }),
+    );
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [tx, decoders, hasDecoder]);
+
+  const isCurrent = result?.txKey === tx.txKey;
+  return { data: isCurrent ? result.data : undefined, isLoading: hasDecoder && !isCurrent };
+}
@@ -0,0 +1,31 @@
+/**
+ * @file This file contains the `useTransactionNotifications` hook, which subscribes to a transaction notifications store.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+import { TransactionNotification, TransactionNotificationsStore } from '../utils';
+
+/**
+ * A hook returning the notifications and the unread count of a transaction notifications store,
+ * re-rendering on every change.
+ *
+ * @param store - Store created with `createTransactionNotificationsStore`
+ * @returns The notifications (newest first), the unread count, and the store actions.
+ */
+export function useTransactionNotifications(store: TransactionNotificationsStore): {
+  notifications: TransactionNotification[];
+  unreadCount: number;
+} & Pick<TransactionNotificationsStore, 'markAsRead' | 'markAllAsRead' | 'remove' | 'clearAll'> {
+  const notifications = useSyncExternalStore(store.subscribe, store.getNotifications, store.getNotifications);
+  const unreadCount = useSyncExternalStore(store.subscribe, store.getUnreadCount, store.getUnreadCount);
+
+  return {
+    notifications,
+    unreadCount,
+    markAsRead: store.markAsRead,
+    markAllAsRead: store.markAllAsRead,
+    remove: store.remove,
+    clearAll: store.clearAll,
+  };
+}
@@ -18,11 +18,70 @@ export const defaultLabels: NovaTransactionsLabels = {
       connectWalletMessage: 'Please connect your wallet to see your past activity.',
       noTransactionsTitle: 'No Transactions Yet',
       noTransactionsMessage: 'Once you interact with the app, your transaction history will appear here.',
+      filters: {
+        label: 'Filter transactions',
+        search: 'Search transactions',
+        searchPlaceholder: 'Search by title, description or hash...',
+        clearSearch: 'Clear search',
+        status: 'Status',
+        chain: 'Network',
+        type: 'Type',
+        clear: 'Clear filters',
+        noResultsTitle: 'No Matching Transactions',
+        noResultsMessage: 'Try a different search or clear the filters.',
+      },
+      dateGroups: {
+        today: 'Today',
+        yesterday: 'Yesterday',
+        lastWeek: 'Last week',
+        lastMonth: 'Last month',
+        older: 'Older',
+      },
+      export: {
+        label: 'Export transactions',
+        csv: 'Export CSV',
+        json: 'Export JSON',
+        columns: {
+          txKey: 'Tx Key',
+          hash: 'Tx Hash',
+          chainId: 'Chain ID',
+          chainName: 'Network',
+          status: 'Status',
+          type: 'Type',
+          title: 'Title',
+          description: 'Description',
+          submittedAt: 'Submitted At',
+          finishedAt: 'Finished At',
+          explorerUrl: 'Explorer URL',
+          replacedTxHash: 'Replaced Tx Hash',
+        },
+      },
     },
   },
   toast: {
     openTransaction: 'Open transaction',
   },
+  notifications: {
+    title: 'Notifications',
+    open: 'Open notifications',
+    unread: 'unread',
+    markAllAsRead: 'Mark all as read',
+    clearAll: 'Clear all',
+    emptyTitle: 'No Notifications',
+    emptyMessage: 'Updates of your transactions will appear here.',
+    kinds: {
+      submitted: 'Submitted',
+      succeeded: 'Succeeded',
+      failed: 'Failed',
+      replaced: 'Replaced',
+    },
+  },
+  systemNotifications: {
+    fallbackTitle: 'Transaction',
+    succeeded: 'Transaction succeeded',
+    failed: 'Transaction failed',
+    replaced: 'Transaction replaced',
+  },
   statuses: {
     pending: 'Pending',
     success: 'Success',
@@ -67,6 +126,27 @@ export const defaultLabels: NovaTransactionsLabels = {
       processing: 'Processing',
       succeed: 'Succeed',
     },
+    feeEditor: {
+      speedUpTitle: 'Speed up transaction',
+      cancelTitle: 'Cancel transaction',
+      currentFees: 'Current fees',
+      maxFee: 'Max fee',
+      priorityFee: 'Priority fee',
+      presets: 'Fee increase',
+      custom: 'Custom',
+      gwei: 'Gwei',
+      estimatedCost: 'Estimated max cost',
+      estimatedCostUnavailable: 'No estimate (unknown gas limit)',
+      minimum: 'Min.',
+      confirm: 'Confirm',
+      back: 'Back',
+      errors: {
+        maxFeeTooLow: 'The max fee is too low to replace the pending transaction.',
+        priorityFeeTooLow: 'The priority fee is too low to replace the pending transaction.',
+        priorityAboveMax: 'The priority fee cannot exceed the max fee.',
+        invalid: 'Enter a valid amount in Gwei.',
+      },
+    },
   },
   trackedTxButton: {
     loading: 'Processing...',
@@ -125,5 +205,16 @@ export const defaultLabels: NovaTransactionsLabels = {
       synced: 'Synced',
       syncedTooltip: 'Synced to Quasar Cloud',
     },
+    decoded: {
+      title: 'Decoded',
+      loading: 'Decoding…',
+      contract: 'Contract',
+      arguments: 'Arguments',
+      program: 'Program',
+      instruction: 'Instruction',
+      accounts: 'Accounts',
+      signer: 'Signer',
+      writable: 'Writable',
+    },
   },
 };
@@ -21,6 +21,78 @@ export type NovaTransactionsLabels = {
       noTransactionsTitle: string;
       /** The message displayed when there are no transactions to show. */
       noTransactionsMessage: string;
+      /** Labels for the filters toolbar of the history. */
+      filters: {
+        /** Accessible label of the filters toolbar. */
+        label: string;
+        /** Accessible label of the search input. */
+        search: string;
+        /** Placeholder of the search input. */
+        searchPlaceholder: string;
+        /** Accessible label of the button clearing the search input. */
+        clearSearch: string;
+        /** Label of the status filter group. */
+        status: string;
+        /** Label of the network filter group. */
+        chain: string;
+        /** Label of the transaction type filter group. */
+        type: string;
+        /** Text of the button resetting all filters. */
+        clear: string;
+        /** The title displayed when no transaction matches the filters. */
+        noResultsTitle: string;
+        /** The message displayed when no transaction matches the filters. */
+        noResultsMessage: string;
+      };
+      /** Headers of the date sections of the history. */
+      dateGroups: {
+        /** Transactions from today. */
+        today: string;
+        /** Transactions from yesterday. */
+        yesterday: string;
+        /** Transactions from the last 7 days. */
+        lastWeek: string;
+        /** Transactions from the last 30 days. */
+        lastMonth: string;
+        /** Older transactions. */
+        older: string;
+      };
+      /** Labels of the history export action. */
+      export: {
+        /** Accessible label of the export actions group. */
+        label: string;
+        /** Text of the button exporting the history as CSV. */
+        csv: string;
+        /** Text of the button exporting the history as JSON. */
+        json: string;
+        /** Column headers of CSV exports. */
+        columns: {
+          /** Transaction key column. */
+          txKey: string;
+          /** On-chain hash column. */
+          hash: string;
+          /** Chain ID column. */
+          chainId: string;
+          /** Network name column. */
+          chainName: string;
+          /** Status column. */
+          status: string;
+          /** Transaction type column. */
+          type: string;
+          /** Title column. */
+          title: string;
+          /** Description column. */
+          description: string;
+          /** Submission time column. */
+          submittedAt: string;
+          /** Completion time column. */
+          finishedAt: string;
+          /** Block explorer link column. */
+          explorerUrl: string;
+          /** Replacement transaction hash column. */
+          replacedTxHash: string;
+        };
+      };
     };
   };
   /** Labels related to toast notifications. */
@@ -28,6 +100,45 @@ export type NovaTransactionsLabels = {
     /** Text for the button/link within a toast to open the wallet modal. */
     openTransaction: string;
   };
+  /** Labels for the notification bell and panel. */
+  notifications: {
+    /** The title of the notifications panel. */
+    title: string;
+    /** Accessible label of the notification bell. */
+    open: string;
+    /** Accessible suffix of the unread count, e.g. "3 unread". */
+    unread: string;
+    /** Text for the button marking all notifications as read. */
+    markAllAsRead: string;
+    /** Text for the button removing all notifications. */
+    clearAll: string;
+    /** The title displayed when there are no notifications. */
+    emptyTitle: string;
+    /** The message displayed when there are no notifications. */
+    emptyMessage: string;
+    /** Labels of the reported status changes. */
+    kinds: {
+      /** The transaction was submitted. */
+      submitted: string;
+      /** The transaction succeeded. */
+      succeeded: string;
+      /** The transaction failed. */
+      failed: string;
+      /** The transaction was replaced (sped up or cancelled). */
+      replaced: string;
+    };
+  };
+  /** Labels for the native browser notifications of finished transactions. */
+  systemNotifications: {
+    /** Title used when the transaction has neither a title nor a type. */
+    fallbackTitle: string;
+    /** Status shown in the body of a successful transaction's notification. */
+    succeeded: string;
+    /** Status shown in the body of a failed transaction's notification. */
+    failed: string;
+    /** Status shown in the body of a replaced transaction's notification. */
+    replaced: string;
+  };
   /** Standard labels for transaction statuses. */
   statuses: {
     /** Text for a pending transaction. */
@@ -114,6 +225,46 @@ export type NovaTransactionsLabels = {
       /** Label for the "succeed" or final step. */
       succeed: string;
     };
+    /** Labels for the fee editor shown before a speed-up or cancel replacement. */
+    feeEditor: {
+      /** Title of the editor when speeding up a transaction. */
+      speedUpTitle: string;
+      /** Title of the editor when cancelling a transaction. */
+      cancelTitle: string;
+      /** Heading of the pending transaction's fees. */
+      currentFees: string;
+      /** Label of the max fee per gas. */
+      maxFee: string;
+      /** Label of the max priority fee per gas. */
+      priorityFee: string;
+      /** Label of the fee increase presets. */
+      presets: string;
+      /** Label of the custom fees preset. */
+      custom: string;
+      /** Unit shown next to gas prices. */
+      gwei: string;
+      /** Label of the estimated maximum cost of the replacement. */
+      estimatedCost: string;
+      /** Shown instead of the estimated cost when the gas limit of the replacement is unknown. */
+      estimatedCostUnavailable: string;
+      /** Prefix of the minimum accepted value of a fee. */
+      minimum: string;
+      /** Label of the button sending the replacement. */
+      confirm: string;
+      /** Label of the button leaving the editor. */
+      back: string;
+      /** Validation messages. */
+      errors: {
+        /** The max fee is not bumped enough to replace the transaction. */
+        maxFeeTooLow: string;
+        /** The priority fee is not bumped enough to replace the transaction. */
+        priorityFeeTooLow: string;
+        /** The priority fee exceeds the max fee. */
+        priorityAboveMax: string;
+        /** A custom fee is not a valid number. */
+        invalid: string;
+      };
+    };
   };
   /** Labels for the main transaction action button. */
   trackedTxButton: {
@@ -222,5 +373,26 @@ export type NovaTransactionsLabels = {
       synced: string;
       syncedTooltip: string;
     };
+    /** Labels for the decoded contract call or instructions section. */
+    decoded: {
+      /** Title of the section. */
+      title: string;
+      /** Text shown while the decoder loads. */
+      loading: string;
+      /** Label for the called contract. */
+      contract: string;
+      /** Label for the arguments list. */
+      arguments: string;
+      /** Label for the program of an instruction. */
+      program: string;
+      /** Fallback name of an instruction that could not be decoded. */
+      instruction: string;
+      /** Label for the accounts list of an instruction. */
+      accounts: string;
+      /** Flag of a signer account. */
+      signer: string;
+      /** Flag of a writable account. */
+      writable: string;
+    };
   };
 };
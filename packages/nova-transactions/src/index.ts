@@ -1,3 +1,5 @@
 export * from './components';
+export * from './hooks';
 export * from './i18n/en';
 export * from './i18n/types';
+export * from './utils';
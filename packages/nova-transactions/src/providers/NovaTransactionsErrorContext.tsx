@@ -12,7 +12,8 @@
  * **global function** — it communicates with any mounted `ToastContainer` via an
  * internal event bus, regardless of where in the tree the caller lives.
  *
- * - The **context** stores only the optional `customization` and the `enabled` flag.
+ * - The **context** stores the optional `customization`, the `enabled` flag and the
+ *   registered error decoders (see `useDecodedTxError`).
  *   It is provided by `NovaTransactionsProvider` for components that happen to be
  *   inside its subtree (if the consumer wraps content).
  * - The **hook** builds and fires the toast directly using `toast()`, so it works
@@ -20,10 +21,11 @@
  *   `VALIDATION_ERROR_CONTAINER_ID` is mounted.
  */
 
-import { createContext, JSX, useCallback, useContext } from 'react';
+import { createContext, JSX, useCallback, useContext, useMemo } from 'react';
 import { toast, ToastContentProps } from 'react-toastify';
 
 import { ToastValidationError, ToastValidationErrorCustomization } from '../components/ToastValidationError';
+import { DecodedTxError, decodeTxError, TxErrorDecoder } from '../utils';
 
 // =============================================================================
 // Shared constant — used by both the context and the ToastContainer in the provider.
@@ -38,7 +40,7 @@ import { ToastValidationError, ToastValidationErrorCustomization } from '../comp
 export const VALIDATION_ERROR_CONTAINER_ID = 'nova-validation-errors';
 
 // =============================================================================
-// Context — stores only the optional customization and feature flag.
+// Context — stores the optional customization, feature flag and error decoders.
 // =============================================================================
 
 /**
@@ -57,12 +59,17 @@ export type NovaTransactionsErrorContextValue = {
    * @defaultValue `true`
    */
   enabled: boolean;
+  /**
+   * Error decoders registered by the app, tried before the built-in ones.
+   * Mirrors `NovaTransactionsProvider`'s `errorDecoders` prop.
+   */
+  decoders?: TxErrorDecoder[];
 };
 
 const defaultContextValue: NovaTransactionsErrorContextValue = { enabled: true };
 
 /**
- * Internal context that forwards `customization` and the `enabled` flag from
+ * Internal context that forwards `customization`, the `enabled` flag and the error decoders from
  * `NovaTransactionsProvider` to any descendant component.
  *
  * The default value keeps `enabled: true` and uses no customization, so
@@ -123,6 +130,7 @@ export function useNovaTransactionsError(): {
             {...props}
             message={message}
             rawError={rawError}
+            error={error}
             fieldName={fieldName}
             customization={customization}
           />
@@ -140,3 +148,15 @@ export function useNovaTransactionsError(): {
 
   return { showPreSubmitErrorToast };
 }
+
+/**
+ * Hook that decodes an error with the decoders registered on `NovaTransactionsProvider`
+ * and the built-in ones (`Error(string)`, `Panic(uint256)`, Anchor errors).
+ *
+ * @param error - A string, a thrown error or a `TuwaErrorState`
+ * @returns {DecodedTxError | undefined} The decoded error, or `undefined` when it is not recognized.
+ */
+export function useDecodedTxError(error: unknown): DecodedTxError | undefined {
+  const { decoders } = useContext(NovaTransactionsErrorContext);
+  return useMemo(() => decodeTxError(error, decoders), [error, decoders]);
+}
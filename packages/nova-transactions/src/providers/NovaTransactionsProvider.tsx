@@ -14,23 +14,52 @@ import {
   TxAdapter,
   TxInMemoryPagination,
 } from '@tuwaio/pulsar-core';
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { memo, ReactNode, useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { toast, ToastContainer, ToastContainerProps, ToastContentProps, TypeOptions } from 'react-toastify';
 
 import {
   ToastTransaction,
   ToastTransactionCustomization,
+  ToastTransactionProps,
   ToastValidationError,
   ToastValidationErrorCustomization,
   TrackingTxModal,
   TrackingTxModalCustomization,
   TransactionsInfoModal,
   TransactionsInfoModalCustomization,
+  TxReplacementModal,
+  TxReplacementModalCustomization,
 } from '../components';
 import { defaultLabels } from '../i18n/en';
 import { NovaTransactionsLabels } from '../i18n/types';
+import {
+  AnimationFrameBatcher,
+  canEditReplacementFees,
+  canReplaceTransaction,
+  createAnimationFrameBatcher,
+  createTransactionsSubscriptionStore,
+  enableSystemNotificationPermissionRequests,
+  getDefaultSystemNotificationContent,
+  GetSystemNotificationContent,
+  getTransactionNotificationKind,
+  hasTransactionChanged,
+  ReplacementFees,
+  requestSystemNotificationPermission,
+  sendTxReplacement,
+  showSystemNotification,
+  TransactionNotificationsStore,
+  TransactionsSubscriptionStore,
+  TxDataDecoders,
+  TxErrorDecoder,
+  TxReplacementConfig,
+  TxReplacementMode,
+} from '../utils';
 import { NovaTransactionsErrorContext, VALIDATION_ERROR_CONTAINER_ID } from './NovaTransactionsErrorContext';
 import { NovaTransactionsLabelsProvider } from './NovaTransactionsLabelsProvider';
+import {
+  NovaTransactionsReplacementContext,
+  NovaTransactionsReplacementContextValue,
+} from './NovaTransactionsReplacementContext';
 
 /**
  * Maps a transaction's final status to the corresponding toast type for visual feedback.
@@ -41,6 +70,24 @@ const STATUS_TO_TOAST_TYPE: Record<string, TypeOptions> = {
   [TransactionStatus.Replaced]: 'info',
 };
 
+/**
+ * A transaction toast reading its transaction from the subscription store, so a pool update only
+ * re-renders the toasts of the transactions that changed.
+ */
+const SubscribedToastTransaction = memo(function SubscribedToastTransaction<T extends Transaction>({
+  txKey,
+  store,
+  ...props
+}: Omit<ToastTransactionProps<T>, 'tx'> & { txKey: string; store: TransactionsSubscriptionStore<T> }) {
+  const subscribe = useCallback((listener: () => void) => store.subscribe(txKey, listener), [store, txKey]);
+  const getSnapshot = useCallback(() => store.get(txKey), [store, txKey]);
+  const tx = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  return tx ? <ToastTransaction {...props} tx={tx} /> : null;
+}) as <T extends Transaction>(
+  props: Omit<ToastTransactionProps<T>, 'tx'> & { txKey: string; store: TransactionsSubscriptionStore<T> },
+) => ReactNode;
+
 /**
  * Defines the props for the `NovaTransactionsProvider` component.
  *
@@ -57,6 +104,28 @@ export type NovaTransactionsProviderProps<T extends Transaction> = {
   transactionsPool: TransactionPool<T>;
   /** Partial label overrides for i18n. Merged with the built-in English defaults. */
   labels?: Partial<NovaTransactionsLabels>;
+  /**
+   * Wallets offering Speed Up and Cancel for pending EVM transactions, in toasts, the tracking modal
+   * and transaction details, and how replacements with edited fees are sent. Every connector is allowed by default.
+   */
+  txReplacement?: TxReplacementConfig<T>;
+  /**
+   * Decoders turning revert data and program errors into readable errors in the tracking modal,
+   * toasts and the pre-submission error toast. Tried in order, before the built-in `Error(string)`,
+   * `Panic(uint256)` and Anchor decoders. Keep the array stable (e.g. module-level) to avoid re-decoding.
+   */
+  errorDecoders?: TxErrorDecoder[];
+  /**
+   * Decoders for the "Decoded" section of the transaction details (contract call or instructions), by adapter.
+   * Each one is a lazy loader, so its code is only downloaded when a transaction of the adapter is inspected.
+   * The section is hidden for adapters without a decoder.
+   */
+  txDataDecoders?: TxDataDecoders<T>;
+  /**
+   * Store receiving a notification for every status change (submitted, succeeded, failed, replaced).
+   * Pass the same store to `TransactionsNotificationBell` to display them.
+   */
+  notificationsStore?: TransactionNotificationsStore;
   /**
    * Feature flags to selectively enable or disable UI sub-systems.
    * All features are **enabled** by default.
@@ -64,6 +133,8 @@ export type NovaTransactionsProviderProps<T extends Transaction> = {
   features?: {
     /** Enables bottom-right transaction progress toasts. @defaultValue `true` */
     toasts?: boolean;
+    /** Enables recording status changes in `notificationsStore`. @defaultValue `true` */
+    notifications?: boolean;
     /** Enables the full-screen transaction history modal. @defaultValue `true` */
     transactionsModal?: boolean;
     /** Enables the step-by-step tracking modal that opens on submission. @defaultValue `true` */
@@ -75,6 +146,13 @@ export type NovaTransactionsProviderProps<T extends Transaction> = {
      * @defaultValue `true`
      */
     validationErrorToast?: boolean;
+    /**
+     * Enables native browser notifications for transactions that finish while the tab is hidden.
+     * The permission is requested when a transaction is executed. Clicking a notification focuses the tab
+     * and opens the transaction in the history modal.
+     * @defaultValue `false`
+     */
+    systemNotifications?: boolean;
   };
   /** Customization overrides for individual UI sub-systems. */
   customization?: {
@@ -86,11 +164,20 @@ export type NovaTransactionsProviderProps<T extends Transaction> = {
     transactionsInfoModal?: TransactionsInfoModalCustomization<T>;
     /** Overrides for the step-by-step tracking modal. */
     trackingTxModal?: TrackingTxModalCustomization<T>;
+    /** Overrides for the fee editor dialog opened by Speed Up and Cancel in toasts and transaction details. */
+    txReplacementModal?: TxReplacementModalCustomization;
     /**
      * Overrides for the top-center pre-submission validation error toast.
      * See `ToastValidationErrorCustomization` for available slots.
      */
     validationErrorToast?: ToastValidationErrorCustomization;
+    /** Overrides for the native browser notifications. */
+    systemNotifications?: {
+      /** Returns the notification content, or `undefined` to skip the notification. */
+      getContent?: GetSystemNotificationContent<T>;
+      /** URL of the notification icon, e.g. the app logo. */
+      icon?: string;
+    };
   };
   /** Pagination state for infinite scroll, forwarded to TransactionsInfoModal and TransactionsHistory. */
   pagination?: TxInMemoryPagination;
@@ -107,6 +194,8 @@ export type NovaTransactionsProviderProps<T extends Transaction> = {
  *   `beforeTxProcess` rejection, or missing adapter).
  * - **Transaction history modal** — paginated full-screen history.
  * - **Tracking modal** — step-by-step view for the most recent transaction.
+ * - **Notifications** — status changes recorded in `notificationsStore` for `TransactionsNotificationBell`.
+ * - **System notifications** (opt-in) — native notifications for transactions finishing in a hidden tab.
  *
  * Place this component once at the top level of your application, passing the live
  * Pulsar store state as props.
@@ -122,6 +211,10 @@ export function NovaTransactionsProvider<T extends Transaction>({
   executeTxAction,
   closeTxTrackedModal,
   labels,
+  txReplacement,
+  errorDecoders,
+  txDataDecoders,
+  notificationsStore,
   features,
   customization,
   pagination,
@@ -130,6 +223,9 @@ export function NovaTransactionsProvider<T extends Transaction>({
   const [isTransactionsInfoModalOpen, setIsTransactionsInfoModalOpen] = useState(false);
   const [selectedTxKey, setSelectedTxKey] = useState<string | null>(null);
   const prevTransactionsRef = useRef<TransactionPool<T>>(transactionsPool);
+  const [toastTransactionsStore] = useState(() => createTransactionsSubscriptionStore<T>());
+  const toastTypesRef = useRef(new Map<string, TypeOptions>());
+  const [replacementRequest, setReplacementRequest] = useState<{ txKey: string; mode: TxReplacementMode } | null>(null);
 
   const toastContainerId = 'nova-transactions';
 
@@ -138,9 +234,11 @@ export function NovaTransactionsProvider<T extends Transaction>({
   const enabledFeatures = useMemo(
     () => ({
       toasts: features?.toasts ?? true,
+      notifications: features?.notifications ?? true,
       transactionsModal: features?.transactionsModal ?? true,
       trackingTxModal: features?.trackingTxModal ?? true,
       validationErrorToast: features?.validationErrorToast ?? true,
+      systemNotifications: features?.systemNotifications ?? false,
     }),
     [features],
   );
@@ -166,6 +264,7 @@ export function NovaTransactionsProvider<T extends Transaction>({
             {...props}
             message={message}
             rawError={rawError}
+            error={error}
             fieldName={fieldName}
             customization={customization?.validationErrorToast}
           />
@@ -191,6 +290,10 @@ export function NovaTransactionsProvider<T extends Transaction>({
    */
   const wrappedExecuteTxAction = useCallback(
     async (...args: Parameters<ITxTrackingStore<T>['executeTxAction']>) => {
+      if (enabledFeatures.systemNotifications) {
+        // Requested before awaiting, while the browser still treats the call as part of the user interaction.
+        void requestSystemNotificationPermission();
+      }
       try {
         await executeTxAction(...args);
       } catch (e) {
@@ -204,80 +307,206 @@ export function NovaTransactionsProvider<T extends Transaction>({
         throw e;
       }
     },
-    [executeTxAction, initialTx?.lastTxKey, showPreSubmitErrorToast],
+    [executeTxAction, initialTx?.lastTxKey, showPreSubmitErrorToast, enabledFeatures.systemNotifications],
   );
 
-  // Memoized function to show or update a transaction progress toast.
-  const showOrUpdateToast = useCallback(
-    (tx: T) => {
-      if (!enabledFeatures.toasts) return;
+  /**
+   * Sends a speed-up or cancel replacement, logging failures (e.g. rejected in the wallet).
+   */
+  const sendReplacement = useCallback(
+    (tx: T, mode: TxReplacementMode, fees?: ReplacementFees) => {
+      sendTxReplacement(tx, mode, { adapter, config: txReplacement, fees }).catch((error) =>
+        console.error(`Failed to send the ${mode} replacement of ${tx.txKey}:`, error),
+      );
+    },
+    [adapter, txReplacement],
+  );
 
-      const type = tx.pending ? 'info' : (STATUS_TO_TOAST_TYPE[tx.status!] ?? 'info');
+  // Speed Up and Cancel in toasts and transaction details open the fee editor dialog when fees can be edited
+  const replacementContextValue = useMemo<NovaTransactionsReplacementContextValue>(
+    () => ({
+      requestReplacement: (tx, mode) => {
+        if (canEditReplacementFees(tx as T, txReplacement)) {
+          setReplacementRequest({ txKey: tx.txKey, mode });
+        } else {
+          sendReplacement(tx as T, mode);
+        }
+      },
+    }),
+    [txReplacement, sendReplacement],
+  );
 
-      const content = (props: ToastContentProps) => (
-        <ToastTransaction
-          {...props}
-          tx={tx}
-          openTxInfoModal={
-            enabledFeatures.transactionsModal
-              ? (txKey) => {
-                  if (txKey && typeof txKey === 'string') {
-                    setSelectedTxKey(txKey);
-                  } else {
-                    setSelectedTxKey(null);
-                  }
-                  setIsTransactionsInfoModalOpen(true);
-                }
-              : undefined
-          }
+  // The dialog closes by itself when the transaction can no longer be replaced (e.g. it got mined meanwhile)
+  const replacementTx = replacementRequest ? transactionsPool[replacementRequest.txKey] : undefined;
+  const isReplacementModalOpen =
+    !!replacementTx && canReplaceTransaction(replacementTx, { adapter, connectedWalletAddress, config: txReplacement });
+
+  const openTxInfoModal = useCallback((txKey?: string) => {
+    setSelectedTxKey(txKey && typeof txKey === 'string' ? txKey : null);
+    setIsTransactionsInfoModalOpen(true);
+  }, []);
+
+  // Memoized function creating the content of a transaction toast, re-created when the shared toast props change.
+  const renderToastContent = useCallback(
+    (txKey: string) =>
+      ({ closeToast }: ToastContentProps) => (
+        <SubscribedToastTransaction
+          txKey={txKey}
+          store={toastTransactionsStore}
+          closeToast={closeToast}
+          openTxInfoModal={enabledFeatures.transactionsModal ? openTxInfoModal : undefined}
           customization={customization?.toast}
           adapter={adapter}
           connectedWalletAddress={connectedWalletAddress}
+          txReplacement={txReplacement}
         />
-      );
+      ),
+    [
+      toastTransactionsStore,
+      enabledFeatures.transactionsModal,
+      openTxInfoModal,
+      customization?.toast,
+      adapter,
+      connectedWalletAddress,
+      txReplacement,
+    ],
+  );
+
+  /**
+   * Shows or updates a transaction progress toast. An active toast re-renders through its store subscription,
+   * and is only updated in the toast container when its type changes.
+   */
+  const showOrUpdateToast = useCallback(
+    (tx: T) => {
+      if (!enabledFeatures.toasts) return;
+
+      toastTransactionsStore.set(tx);
+      const type = tx.pending ? 'info' : (STATUS_TO_TOAST_TYPE[tx.status!] ?? 'info');
 
-      if (toast.isActive(tx.txKey)) {
-        toast.update(tx.txKey, { render: content, type, containerId: toastContainerId });
+      if (toast.isActive(tx.txKey, toastContainerId)) {
+        if (toastTypesRef.current.get(tx.txKey) !== type) {
+          toast.update(tx.txKey, { type, containerId: toastContainerId });
+        }
       } else {
-        toast(content, { toastId: tx.txKey, type, closeOnClick: false, containerId: toastContainerId });
+        toast(renderToastContent(tx.txKey), {
+          toastId: tx.txKey,
+          type,
+          closeOnClick: false,
+          containerId: toastContainerId,
+        });
       }
+      toastTypesRef.current.set(tx.txKey, type);
+    },
+    [enabledFeatures.toasts, toastTransactionsStore, renderToastContent],
+  );
+
+  // Toast updates are batched per animation frame, keeping the latest version of each transaction.
+  // Updates queued in a replaced batcher are applied right away instead of being dropped, unless the transaction
+  // left the pool in the meantime.
+  const toastBatcherRef = useRef<AnimationFrameBatcher<T>>(undefined);
+  useEffect(() => {
+    const batcher = createAnimationFrameBatcher<T>((txs) =>
+      txs.forEach((tx) => {
+        if (prevTransactionsRef.current[tx.txKey]) showOrUpdateToast(tx);
+      }),
+    );
+    toastBatcherRef.current = batcher;
+    return () => batcher.flush();
+  }, [showOrUpdateToast]);
+
+  /**
+   * Shows a native notification for a transaction that finished while the tab is hidden.
+   * Clicking it opens the transaction in the history modal.
+   */
+  const showSystemNotificationForTx = useCallback(
+    (tx: T) => {
+      if (typeof document === 'undefined' || !document.hidden) return;
+
+      const defaultContent = getDefaultSystemNotificationContent(tx, mergedLabels.systemNotifications);
+      if (!defaultContent) return;
+
+      const systemNotificationsCustomization = customization?.systemNotifications;
+      const content = systemNotificationsCustomization?.getContent
+        ? systemNotificationsCustomization.getContent(tx, defaultContent)
+        : defaultContent;
+      if (!content) return;
+
+      showSystemNotification(
+        tx.txKey,
+        { icon: systemNotificationsCustomization?.icon, ...content },
+        enabledFeatures.transactionsModal
+          ? () => {
+              setSelectedTxKey(tx.txKey);
+              setIsTransactionsInfoModalOpen(true);
+            }
+          : undefined,
+      );
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [transactionsPool, enabledFeatures, customization?.toast, adapter, connectedWalletAddress],
+    [mergedLabels.systemNotifications, customization?.systemNotifications, enabledFeatures.transactionsModal],
   );
 
-  // Effect 1: Handles toasts for NEW or CHANGED transactions.
+  // Lets `TxActionButton` ask for the notifications permission on click, wherever it is rendered.
+  useEffect(() => {
+    if (enabledFeatures.systemNotifications) return enableSystemNotificationPermissionRequests();
+  }, [enabledFeatures.systemNotifications]);
+
+  // Effect 1: Handles toasts and notifications for NEW or CHANGED transactions.
   useEffect(() => {
     const prevPool = prevTransactionsRef.current;
 
     Object.values(transactionsPool).forEach((currentTx) => {
       const prevTx = prevPool[currentTx.txKey];
 
-      // Case 1: A new transaction is added and is pending.
-      if (!prevTx && currentTx.pending) {
-        showOrUpdateToast(currentTx);
-        return;
+      if (enabledFeatures.notifications && notificationsStore) {
+        const notificationKind = getTransactionNotificationKind(prevTx, currentTx);
+        if (notificationKind) notificationsStore.notify(currentTx, notificationKind);
       }
 
-      // Case 2: An existing transaction has been updated.
-      if (prevTx && JSON.stringify(prevTx) !== JSON.stringify(currentTx)) {
-        showOrUpdateToast(currentTx);
+      if (enabledFeatures.systemNotifications && !prevTx && currentTx.pending) {
+        // Transactions executed without `TxActionButton` (e.g. the app's own `executeTxAction` call) ask here.
+        // Browsers that require a user interaction ignore this request.
+        void requestSystemNotificationPermission();
+      }
+
+      if (enabledFeatures.systemNotifications && prevTx?.pending && !currentTx.pending) {
+        showSystemNotificationForTx(currentTx);
+      }
+
+      // Case 1: A new transaction is added and is pending.
+      // Case 2: An existing transaction has been updated in one of the fields shown by the toast.
+      if ((!prevTx && currentTx.pending) || (prevTx && hasTransactionChanged(prevTx, currentTx))) {
+        toastBatcherRef.current?.schedule(currentTx.txKey, currentTx);
       }
     });
 
-    prevTransactionsRef.current = transactionsPool;
-  }, [transactionsPool, showOrUpdateToast]);
+    // Transactions removed from the pool are dropped from the toasts store, and their toasts are closed.
+    toastTransactionsStore.prune(new Set(Object.keys(transactionsPool))).forEach((txKey) => {
+      toast.dismiss({ id: txKey, containerId: toastContainerId });
+      toastTypesRef.current.delete(txKey);
+    });
 
-  // Effect 2: Handles toast UPDATES when the connected wallet address change.
+    prevTransactionsRef.current = transactionsPool;
+  }, [
+    transactionsPool,
+    enabledFeatures.notifications,
+    enabledFeatures.systemNotifications,
+    notificationsStore,
+    showSystemNotificationForTx,
+    toastTransactionsStore,
+  ]);
+
+  // Effect 2: Handles toast UPDATES when the shared toast props (e.g. the connected wallet address) change.
   useEffect(() => {
     // This ensures that visible toasts re-render to show/hide wallet-specific actions
-    // like "Speed Up", even for completed transactions.
-    Object.values(transactionsPool).forEach((tx) => {
-      if (toast.isActive(tx.txKey, toastContainerId)) {
-        showOrUpdateToast(tx);
+    // like "Speed Up", even for completed transactions. Pool updates don't run this effect.
+    toastTypesRef.current.forEach((_, txKey) => {
+      if (toast.isActive(txKey, toastContainerId)) {
+        toast.update(txKey, { render: renderToastContent(txKey), containerId: toastContainerId });
+      } else {
+        toastTypesRef.current.delete(txKey);
       }
     });
-  }, [connectedWalletAddress, showOrUpdateToast, transactionsPool]);
+  }, [renderToastContent]);
 
   const isTrackingModalOpen =
     !!initialTx?.withTrackedModal && transactionsPool[initialTx?.lastTxKey ?? '']?.isTrackedModalOpen;
@@ -300,71 +529,89 @@ export function NovaTransactionsProvider<T extends Transaction>({
     () => ({
       customization: customization?.validationErrorToast,
       enabled: enabledFeatures.validationErrorToast,
+      decoders: errorDecoders,
     }),
-    [customization?.validationErrorToast, enabledFeatures.validationErrorToast],
+    [customization?.validationErrorToast, enabledFeatures.validationErrorToast, errorDecoders],
   );
 
   return (
     <NovaTransactionsLabelsProvider labels={mergedLabels}>
       <NovaTransactionsErrorContext.Provider value={errorContextValue}>
-        {shouldShowToasts && (
-          <ToastContainer
-            position="bottom-right"
-            stacked
-            autoClose={false}
-            hideProgressBar
-            closeOnClick={false}
-            icon={false}
-            closeButton={CustomizedCloseButton}
-            containerId={toastContainerId}
-            toastClassName="novatx:!p-0 novatx:!bg-transparent novatx:!shadow-none novatx:!min-h-0"
-            {...toastProps}
-          />
-        )}
-
-        {enabledFeatures.transactionsModal && (
-          <TransactionsInfoModal
-            isOpen={isTransactionsInfoModalOpen}
-            setIsOpen={(open) => {
-              setIsTransactionsInfoModalOpen(open);
-              if (!open) setSelectedTxKey(null);
+        <NovaTransactionsReplacementContext.Provider value={replacementContextValue}>
+          {shouldShowToasts && (
+            <ToastContainer
+              position="bottom-right"
+              stacked
+              autoClose={false}
+              hideProgressBar
+              closeOnClick={false}
+              icon={false}
+              closeButton={CustomizedCloseButton}
+              containerId={toastContainerId}
+              toastClassName="novatx:!p-0 novatx:!bg-transparent novatx:!shadow-none novatx:!min-h-0"
+              {...toastProps}
+            />
+          )}
+
+          {enabledFeatures.transactionsModal && (
+            <TransactionsInfoModal
+              isOpen={isTransactionsInfoModalOpen}
+              setIsOpen={(open) => {
+                setIsTransactionsInfoModalOpen(open);
+                if (!open) setSelectedTxKey(null);
+              }}
+              selectedTxKey={selectedTxKey}
+              customization={customization?.transactionsInfoModal}
+              adapter={adapter}
+              connectedWalletAddress={connectedWalletAddress}
+              connectedAdapterType={connectedAdapterType}
+              transactionsPool={transactionsPool}
+              pagination={pagination}
+              txReplacement={txReplacement}
+              txDataDecoders={txDataDecoders}
+            />
+          )}
+
+          {enabledFeatures.validationErrorToast && (
+            <ToastContainer
+              containerId={VALIDATION_ERROR_CONTAINER_ID}
+              position="top-center"
+              autoClose={6000}
+              pauseOnHover
+              hideProgressBar={false}
+              closeOnClick={false}
+              icon={false}
+              closeButton={CustomizedCloseButton}
+              toastClassName="novatx:!p-0 novatx:!bg-transparent novatx:!shadow-none novatx:!min-h-0"
+            />
+          )}
+
+          {enabledFeatures.trackingTxModal && (
+            <TrackingTxModal
+              initialTx={initialTx}
+              onClose={closeTxTrackedModal}
+              onOpenAllTransactions={() => setIsTransactionsInfoModalOpen(true)}
+              transactionsPool={transactionsPool}
+              customization={customization?.trackingTxModal}
+              executeTxAction={wrappedExecuteTxAction}
+              adapter={adapter}
+              connectedWalletAddress={connectedWalletAddress}
+              txReplacement={txReplacement}
+            />
+          )}
+
+          <TxReplacementModal
+            tx={isReplacementModalOpen ? replacementTx : undefined}
+            mode={replacementRequest?.mode}
+            feeEditorConfig={txReplacement?.feeEditor}
+            onConfirm={(fees) => {
+              if (replacementTx && replacementRequest) sendReplacement(replacementTx, replacementRequest.mode, fees);
+              setReplacementRequest(null);
             }}
-            selectedTxKey={selectedTxKey}
-            customization={customization?.transactionsInfoModal}
-            adapter={adapter}
-            connectedWalletAddress={connectedWalletAddress}
-            connectedAdapterType={connectedAdapterType}
-            transactionsPool={transactionsPool}
-            pagination={pagination}
-          />
-        )}
-
-        {enabledFeatures.validationErrorToast && (
-          <ToastContainer
-            containerId={VALIDATION_ERROR_CONTAINER_ID}
-            position="top-center"
-            autoClose={6000}
-            pauseOnHover
-            hideProgressBar={false}
-            closeOnClick={false}
-            icon={false}
-            closeButton={CustomizedCloseButton}
-            toastClassName="novatx:!p-0 novatx:!bg-transparent novatx:!shadow-none novatx:!min-h-0"
-          />
-        )}
-
-        {enabledFeatures.trackingTxModal && (
-          <TrackingTxModal
-            initialTx={initialTx}
-            onClose={closeTxTrackedModal}
-            onOpenAllTransactions={() => setIsTransactionsInfoModalOpen(true)}
-            transactionsPool={transactionsPool}
-            customization={customization?.trackingTxModal}
-            executeTxAction={wrappedExecuteTxAction}
-            adapter={adapter}
-            connectedWalletAddress={connectedWalletAddress}
+            onClose={() => setReplacementRequest(null)}
+            customization={customization?.txReplacementModal}
           />
-        )}
+        </NovaTransactionsReplacementContext.Provider>
       </NovaTransactionsErrorContext.Provider>
     </NovaTransactionsLabelsProvider>
   );
@@ -0,0 +1,56 @@
+/**
+ * @file Internal React Context routing the Speed Up and Cancel actions of toasts and transaction details
+ * to the fee editor dialog rendered by `NovaTransactionsProvider`.
+ */
+
+import { Transaction, TxAdapter } from '@tuwaio/pulsar-core';
+import { createContext, useCallback, useContext } from 'react';
+
+import { sendTxReplacement, TxReplacementConfig, TxReplacementMode } from '../utils';
+
+/**
+ * The shape of the value stored in `NovaTransactionsReplacementContext`.
+ */
+export type NovaTransactionsReplacementContextValue = {
+  /**
+   * Opens the fee editor dialog for a transaction, or sends the replacement right away
+   * when its fees cannot be edited.
+   */
+  requestReplacement?: (tx: Transaction, mode: TxReplacementMode) => void;
+};
+
+/**
+ * Internal context provided by `NovaTransactionsProvider`. Outside of it, replacements are sent
+ * right away and the adapter picks the fees.
+ */
+export const NovaTransactionsReplacementContext = createContext<NovaTransactionsReplacementContextValue>({});
+
+/**
+ * Hook returning the function starting a speed-up or cancel replacement: through the provider's fee editor
+ * dialog when rendered inside `NovaTransactionsProvider`, otherwise directly through the adapter.
+ *
+ * @param params - Adapters and {@link TxReplacementConfig}, used when no provider handles the request
+ * @returns `(tx, mode) => void`
+ */
+export function useTxReplacementAction<T extends Transaction>({
+  adapter,
+  config,
+}: {
+  adapter: TxAdapter<T> | TxAdapter<T>[];
+  config?: TxReplacementConfig<T>;
+}): (tx: T, mode: TxReplacementMode) => void {
+  const { requestReplacement } = useContext(NovaTransactionsReplacementContext);
+
+  return useCallback(
+    (tx: T, mode: TxReplacementMode) => {
+      if (requestReplacement) {
+        requestReplacement(tx, mode);
+        return;
+      }
+      sendTxReplacement(tx, mode, { adapter, config }).catch((error) =>
+        console.error(`Failed to send the ${mode} replacement of ${tx.txKey}:`, error),
+      );
+    },
+    [requestReplacement, adapter, config],
+  );
+}
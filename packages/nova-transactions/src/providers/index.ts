@@ -1,3 +1,4 @@
 export * from './NovaTransactionsErrorContext';
 export * from './NovaTransactionsLabelsProvider';
 export * from './NovaTransactionsProvider';
+export * from './NovaTransactionsReplacementContext';
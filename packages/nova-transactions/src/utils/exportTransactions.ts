@@ -0,0 +1,223 @@
+/**
+ * @file Serialization of the transactions history to CSV or JSON, for accounting and support exports.
+ */
+
+import { getChainName } from '@tuwaio/nova-core';
+import { selectAdapterByKey, setChainId } from '@tuwaio/orbit-core';
+import {
+  selectAllTransactions,
+  selectAllTransactionsByActiveWallet,
+  Transaction,
+  TransactionPool,
+  TxAdapter,
+} from '@tuwaio/pulsar-core';
+import dayjs from 'dayjs';
+
+import { getStatusAwareText } from './statusAwareText';
+import { getTransactionStatusFilter, TransactionStatusFilter } from './transactionsHistoryFilters';
+
+/**
+ * Output format of an export.
+ */
+export type TransactionExportFormat = 'csv' | 'json';
+
+/**
+ * Built-in export columns.
+ */
+export type TransactionExportColumnKey =
+  | 'txKey'
+  | 'hash'
+  | 'chainId'
+  | 'chainName'
+  | 'status'
+  | 'type'
+  | 'title'
+  | 'description'
+  | 'submittedAt'
+  | 'finishedAt'
+  | 'explorerUrl'
+  | 'replacedTxHash';
+
+/**
+ * Values of the built-in columns for a transaction. Timestamps are ISO 8601 strings.
+ */
+export type TransactionExportRecord = Record<TransactionExportColumnKey, string | number | undefined>;
+
+/**
+ * A custom export column, computed from the transaction and its built-in values.
+ */
+export type TransactionExportCustomColumn<T extends Transaction> = {
+  /** Key of the value in JSON exports */
+  key: string;
+  /** Column header in CSV exports */
+  header: string;
+  /** Computes the value of the column */
+  value: (tx: T, record: TransactionExportRecord) => string | number | boolean | null | undefined;
+};
+
+/**
+ * A column of an export: a built-in column or a custom one.
+ */
+export type TransactionExportColumn<T extends Transaction> =
+  TransactionExportColumnKey | TransactionExportCustomColumn<T>;
+
+/**
+ * Options for {@link exportTransactions}.
+ */
+export type ExportTransactionsOptions<T extends Transaction> = {
+  /**
+   * Output format.
+   * @default 'csv'
+   */
+  format?: TransactionExportFormat;
+  /** Only export the transactions of this wallet. All transactions of the pool are exported otherwise. */
+  walletAddress?: string;
+  /** Adapters used to build explorer URLs. The `explorerUrl` column stays empty without them. */
+  adapter?: TxAdapter<T> | TxAdapter<T>[];
+  /**
+   * Exported columns, in order.
+   * @default defaultTransactionExportColumns
+   */
+  columns?: TransactionExportColumn<T>[];
+  /** Headers of the built-in columns in CSV exports (e.g. translated labels). Defaults to the column keys. */
+  headers?: Partial<Record<TransactionExportColumnKey, string>>;
+  /** Labels of the statuses in the `status` column. Defaults to the status keys (`pending`, `success`, ...). */
+  statusLabels?: Partial<Record<TransactionStatusFilter, string>>;
+};
+
+/** Columns exported by default. */
+export const defaultTransactionExportColumns: TransactionExportColumnKey[] = [
+  'txKey',
+  'hash',
+  'chainId',
+  'chainName',
+  'status',
+  'type',
+  'title',
+  'description',
+  'submittedAt',
+  'finishedAt',
+  'explorerUrl',
+  'replacedTxHash',
+];
+
+/**
+ * Formats a timestamp in seconds as an ISO 8601 string.
+ */
+function formatTimestamp(timestamp?: number): string | undefined {
+  return timestamp ? dayjs.unix(timestamp).toISOString() : undefined;
+}
+
+/**
+ * Computes the values of the built-in export columns for a transaction.
+ *
+ * @param tx - The transaction
+ * @param options - Adapters for explorer URLs and status labels
+ * @returns {TransactionExportRecord} The built-in column values.
+ */
+export function getTransactionExportRecord<T extends Transaction>(
+  tx: T,
+  { adapter, statusLabels }: Pick<ExportTransactionsOptions<T>, 'adapter' | 'statusLabels'> = {},
+): TransactionExportRecord {
+  const status = getTransactionStatusFilter(tx);
+  const foundAdapter = adapter ? selectAdapterByKey({ adapterKey: tx.adapter, adapter }) : undefined;
+
+  return {
+    txKey: tx.txKey,
+    hash: 'hash' in tx ? tx.hash : undefined,
+    chainId: tx.chainId,
+    chainName: getChainName(setChainId(tx.chainId)).name,
+    status: status ? (statusLabels?.[status] ?? status) : undefined,
+    type: tx.type,
+    title: getStatusAwareText(tx, tx.title),
+    description: getStatusAwareText(tx, tx.description),
+    submittedAt: formatTimestamp(tx.localTimestamp),
+    finishedAt: formatTimestamp(tx.finishedTimestamp),
+    explorerUrl: foundAdapter?.getExplorerTxUrl?.(tx),
+    replacedTxHash: 'replacedTxHash' in tx ? tx.replacedTxHash : undefined,
+  };
+}
+
+/**
+ * Escapes a CSV cell. Cells starting with a formula character are prefixed with `'`
+ * so spreadsheet applications don't evaluate them.
+ */
+function toCsvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes the transactions of a pool to CSV or JSON, most recent first.
+ * Works without the UI, e.g. in a "Download history" button or a support script.
+ *
+ * @param transactionsPool - The transactions pool of the Pulsar store
+ * @param options - {@link ExportTransactionsOptions}
+ * @returns {string} The CSV or JSON content.
+ *
+ * @example
+ * ```ts
+ * const csv = exportTransactions(transactionsPool, {
+ *   walletAddress,
+ *   adapter,
+ *   columns: [...defaultTransactionExportColumns, { key: 'amount', header: 'Amount', value: (tx) => tx.payload?.amount }],
+ * });
+ * ```
+ */
+export function exportTransactions<T extends Transaction>(
+  transactionsPool: TransactionPool<T>,
+  options: ExportTransactionsOptions<T> = {},
+): string {
+  const { format = 'csv', walletAddress, columns = defaultTransactionExportColumns, headers } = options;
+
+  const transactions = (
+    walletAddress
+      ? selectAllTransactionsByActiveWallet(transactionsPool, walletAddress)
+      : selectAllTransactions(transactionsPool)
+  ).sort((a, b) => (b.localTimestamp ?? 0) - (a.localTimestamp ?? 0));
+
+  const rows = transactions.map((tx) => {
+    const record = getTransactionExportRecord(tx, options);
+    return columns.map((column) => (typeof column === 'string' ? record[column] : column.value(tx, record)));
+  });
+
+  const keys = columns.map((column) => (typeof column === 'string' ? column : column.key));
+
+  if (format === 'json') {
+    const objects = rows.map((row) => Object.fromEntries(keys.map((key, index) => [key, row[index] ?? null])));
+    return JSON.stringify(objects, null, 2);
+  }
+
+  const headerRow = columns.map((column) =>
+    typeof column === 'string' ? (headers?.[column] ?? column) : column.header,
+  );
+  return [headerRow, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Saves an export as a file in the browser.
+ *
+ * @param content - The output of {@link exportTransactions}
+ * @param format - Format of the content
+ * @param fileName - File name without extension
+ */
+export function downloadTransactionsExport(
+  content: string,
+  format: TransactionExportFormat,
+  fileName = `transactions-${dayjs().format('YYYY-MM-DD')}`,
+): void {
+  const type = format === 'json' ? 'application/json' : 'text/csv;charset=utf-8';
+  // The BOM makes spreadsheet applications read non-ASCII titles correctly
+  const blob = new Blob(format === 'csv' ? ['\uFEFF', content] : [content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,11 @@
+export * from './exportTransactions';
+export * from './replacementFees';
+export * from './statusAwareText';
+export * from './systemNotifications';
+export * from './transactionNotifications';
+export * from './transactionsHistoryFilters';
+export * from './transactionsPoolChanges';
+export * from './transactionsSubscriptionStore';
+export * from './txDataDecoding';
+export * from './txErrorDecoding';
+export * from './txReplacement';
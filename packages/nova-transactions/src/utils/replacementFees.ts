@@ -0,0 +1,125 @@
+/**
+ * @file Fee calculations for speed-up and cancel replacement transactions (EIP-1559).
+ */
+
+import { EvmTransaction, Transaction } from '@tuwaio/pulsar-core';
+
+/**
+ * Kind of replacement transaction.
+ */
+export type TxReplacementMode = 'speedUp' | 'cancel';
+
+/**
+ * EIP-1559 fees of a transaction, in wei.
+ */
+export type ReplacementFees = {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * Reason a replacement is rejected by {@link validateReplacementFees}.
+ * - `maxFeeTooLow` / `priorityFeeTooLow`: the fee is not bumped enough for nodes to accept the replacement
+ * - `priorityAboveMax`: the priority fee exceeds the max fee
+ */
+export type ReplacementFeeError = 'maxFeeTooLow' | 'priorityFeeTooLow' | 'priorityAboveMax';
+
+/**
+ * Minimum bump (%) of both fees required by most nodes (e.g. Geth's default `txpool.pricebump`)
+ * to accept a transaction replacing another one with the same nonce.
+ */
+export const MIN_REPLACEMENT_FEE_BUMP_PERCENT = 10;
+
+/** Bumps (%) offered as presets by the fee editor. */
+export const defaultReplacementFeePresets = [10, 25, 50];
+
+/** Gas used by a cancellation, a 0-value transfer to the sender itself. */
+export const CANCEL_GAS_LIMIT = 21000n;
+
+const GWEI = 1_000_000_000n;
+
+/**
+ * Reads the current fees of a pending transaction.
+ *
+ * @param tx - The transaction
+ * @returns {ReplacementFees | undefined} The fees, or `undefined` when the transaction has no EIP-1559 fees.
+ */
+export function getTransactionFees(tx: Transaction): ReplacementFees | undefined {
+  const { maxFeePerGas, maxPriorityFeePerGas } = tx as Partial<EvmTransaction>;
+  if (!maxFeePerGas || !maxPriorityFeePerGas) return undefined;
+  try {
+    return { maxFeePerGas: BigInt(maxFeePerGas), maxPriorityFeePerGas: BigInt(maxPriorityFeePerGas) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Bumps a fee by a percentage, rounding up so a 10% bump always passes the node's check.
+ *
+ * @param value - Fee in wei
+ * @param percent - Bump in percent
+ */
+export function bumpFee(value: bigint, percent: number): bigint {
+  const basisPoints = BigInt(Math.round(percent * 100));
+  return (value * (10000n + basisPoints) + 9999n) / 10000n;
+}
+
+/**
+ * Bumps both fees by a percentage.
+ *
+ * @param fees - Current fees
+ * @param percent - Bump in percent
+ */
+export function bumpReplacementFees(fees: ReplacementFees, percent: number): ReplacementFees {
+  return {
+    maxFeePerGas: bumpFee(fees.maxFeePerGas, percent),
+    maxPriorityFeePerGas: bumpFee(fees.maxPriorityFeePerGas, percent),
+  };
+}
+
+/**
+ * Checks that replacement fees are accepted by nodes: both fees bumped by at least `minBumpPercent`,
+ * and the priority fee not above the max fee.
+ *
+ * @param current - Fees of the pending transaction
+ * @param next - Fees of the replacement
+ * @param minBumpPercent - Required bump in percent
+ * @returns {ReplacementFeeError | undefined} The first failing rule, or `undefined` when the fees are valid.
+ */
+export function validateReplacementFees(
+  current: ReplacementFees,
+  next: ReplacementFees,
+  minBumpPercent = MIN_REPLACEMENT_FEE_BUMP_PERCENT,
+): ReplacementFeeError | undefined {
+  if (next.maxPriorityFeePerGas > next.maxFeePerGas) return 'priorityAboveMax';
+  if (next.maxFeePerGas < bumpFee(current.maxFeePerGas, minBumpPercent)) return 'maxFeeTooLow';
+  if (next.maxPriorityFeePerGas < bumpFee(current.maxPriorityFeePerGas, minBumpPercent)) return 'priorityFeeTooLow';
+  return undefined;
+}
+
+/**
+ * Formats a wei amount in a larger unit, trimming trailing zeros.
+ *
+ * @param value - Amount in wei
+ * @param decimals - Decimals of the unit (9 for gwei, 18 for ether)
+ * @param maxFractionDigits - Maximum number of fraction digits shown
+ */
+export function formatWei(value: bigint, decimals: number, maxFractionDigits = 6): string {
+  const base = 10n ** BigInt(decimals);
+  const whole = value / base;
+  const fraction = (value % base).toString().padStart(decimals, '0').slice(0, maxFractionDigits).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Parses a gwei amount typed by the user.
+ *
+ * @param value - Decimal gwei amount, e.g. `1.5`
+ * @returns {bigint | undefined} The amount in wei, or `undefined` when the input is not a positive number.
+ */
+export function parseGwei(value: string): bigint | undefined {
+  const match = /^(\d*)(?:\.(\d{0,9}))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+  return BigInt(match[1] || '0') * GWEI + BigInt((match[2] ?? '').padEnd(9, '0') || '0');
+}
@@ -0,0 +1,37 @@
+/**
+ * @file Picks the text matching a transaction's status from a status-aware title or description.
+ */
+
+import { Transaction, TransactionStatus } from '@tuwaio/pulsar-core';
+
+/**
+ * Index of the text matching each final status in `[pending, success, error, replaced]` tuples.
+ * Pending transactions (or transactions without a status) use index `0`.
+ */
+const STATUS_TEXT_INDEX: Record<TransactionStatus, number> = {
+  [TransactionStatus.Success]: 1,
+  [TransactionStatus.Failed]: 2,
+  [TransactionStatus.Replaced]: 3,
+};
+
+/**
+ * Picks the text of a status-aware title or description: a single string is returned as is,
+ * and a `[pending, success, error, replaced]` tuple yields the entry matching the transaction's status.
+ *
+ * @param tx - The transaction, or just its `status` (and `pending` flag)
+ * @param source - The transaction `title` or `description`
+ * @returns {string | undefined} The text, or `undefined` when the source has none for the status.
+ *
+ * @example
+ * ```ts
+ * getStatusAwareText({ status: TransactionStatus.Failed }, ['Swapping', 'Swapped', 'Swap failed', 'Swap replaced']);
+ * // 'Swap failed'
+ * ```
+ */
+export function getStatusAwareText(
+  tx: Partial<Pick<Transaction, 'status' | 'pending'>>,
+  source?: string | readonly string[],
+): string | undefined {
+  if (typeof source === 'string' || !source) return source;
+  return source[(!tx.pending && tx.status && STATUS_TEXT_INDEX[tx.status]) || 0];
+}
@@ -0,0 +1,135 @@
+/**
+ * @file Native browser notifications (Notification API) for transactions that finish while the tab is hidden.
+ */
+
+import { getChainName } from '@tuwaio/nova-core';
+import { setChainId } from '@tuwaio/orbit-core';
+import { Transaction, TransactionStatus } from '@tuwaio/pulsar-core';
+
+import { NovaTransactionsLabels } from '../i18n/types';
+import { getStatusAwareText } from './statusAwareText';
+
+/**
+ * Content of a native notification.
+ */
+export interface SystemNotificationContent {
+  /** Notification title */
+  title: string;
+  /** Notification body */
+  body?: string;
+  /** URL of the notification icon */
+  icon?: string;
+}
+
+/**
+ * Returns the content of the native notification of a transaction, or `undefined` to skip it.
+ * Receives the default content built from the transaction title, status and chain name.
+ */
+export type GetSystemNotificationContent<T extends Transaction> = (
+  tx: T,
+  defaultContent: SystemNotificationContent,
+) => SystemNotificationContent | undefined;
+
+/**
+ * Checks whether the browser supports native notifications.
+ */
+export function isSystemNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Requests the permission to show native notifications, if it was not granted or denied yet.
+ * Call it from a user interaction (e.g. a click), as some browsers ignore requests made without one.
+ *
+ * @returns {Promise<NotificationPermission | 'unsupported'>} The permission, or `unsupported` without the Notification API.
+ */
+export async function requestSystemNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!isSystemNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+}
+
+// Number of mounted `NovaTransactionsProvider`s with system notifications enabled. A module-level counter,
+// since `TxActionButton` usually lives outside of the provider (which renders no children).
+let permissionRequestsEnabledCount = 0;
+
+/**
+ * Lets `requestSystemNotificationPermissionIfEnabled` prompt for the permission,
+ * called by `NovaTransactionsProvider` while `features.systemNotifications` is on.
+ *
+ * @returns {() => void} A function disabling the requests again.
+ */
+export function enableSystemNotificationPermissionRequests(): () => void {
+  permissionRequestsEnabledCount += 1;
+  return () => {
+    permissionRequestsEnabledCount -= 1;
+  };
+}
+
+/**
+ * Requests the native notifications permission when a mounted `NovaTransactionsProvider` has system notifications
+ * enabled. Called by `TxActionButton` on click, while the browser treats the call as part of the user interaction.
+ */
+export function requestSystemNotificationPermissionIfEnabled(): void {
+  if (permissionRequestsEnabledCount > 0) void requestSystemNotificationPermission();
+}
+
+/**
+ * Builds the default native notification content of a finished transaction:
+ * its title for the final status (or its type) and "<status> · <chain name>" as the body.
+ *
+ * @param tx - The finished transaction
+ * @param labels - Labels of the native notifications
+ * @returns {SystemNotificationContent | undefined} The content, or `undefined` while the transaction is pending.
+ */
+export function getDefaultSystemNotificationContent<T extends Transaction>(
+  tx: T,
+  labels: NovaTransactionsLabels['systemNotifications'],
+): SystemNotificationContent | undefined {
+  if (tx.pending || !tx.status) return undefined;
+
+  const title = getStatusAwareText(tx, tx.title);
+  const statusLabel = {
+    [TransactionStatus.Success]: labels.succeeded,
+    [TransactionStatus.Failed]: labels.failed,
+    [TransactionStatus.Replaced]: labels.replaced,
+  }[tx.status];
+
+  return {
+    title: title || tx.type || labels.fallbackTitle,
+    body: `${statusLabel} · ${getChainName(setChainId(tx.chainId)).name}`,
+  };
+}
+
+/**
+ * Shows a native notification when the permission is granted. Notifications of the same transaction
+ * replace each other.
+ *
+ * @param txKey - Key of the transaction, used as the notification tag
+ * @param content - {@link SystemNotificationContent}
+ * @param onClick - Called when the notification is clicked, after the window is focused and the notification closed
+ * @returns {Notification | undefined} The notification, or `undefined` when it could not be shown.
+ */
+export function showSystemNotification(
+  txKey: string,
+  content: SystemNotificationContent,
+  onClick?: () => void,
+): Notification | undefined {
+  if (!isSystemNotificationSupported() || Notification.permission !== 'granted') return undefined;
+  try {
+    const notification = new Notification(content.title, { body: content.body, icon: content.icon, tag: txKey });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      onClick?.();
+    };
+    return notification;
+  } catch {
+    // Browsers only allowing notifications from a service worker (e.g. Chrome on Android)
+    return undefined;
+  }
+}
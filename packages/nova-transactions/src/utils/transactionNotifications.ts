@@ -0,0 +1,199 @@
+/**
+ * @file Persistent inbox of transaction status changes (submitted, succeeded, failed, replaced), with pluggable
+ * storage, used by the notification bell and panel.
+ */
+
+import { createPersistedList, NovaStorage, NovaStorageOption } from '@tuwaio/nova-core';
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+import { Transaction, TransactionStatus } from '@tuwaio/pulsar-core';
+
+/**
+ * Key-value storage used to persist the notifications. `localStorage` and `sessionStorage` satisfy it,
+ * and any custom backend can implement it.
+ */
+export type TransactionNotificationsStorage = NovaStorage;
+
+/**
+ * Built-in storage backends, or a custom {@link TransactionNotificationsStorage}.
+ */
+export type TransactionNotificationsStorageOption = NovaStorageOption;
+
+/**
+ * Status change reported by a notification.
+ */
+export type TransactionNotificationKind = 'submitted' | 'succeeded' | 'failed' | 'replaced';
+
+/**
+ * A notification of the inbox. It keeps a snapshot of the transaction fields shown in the panel,
+ * so it can still be displayed after the transaction left the pool.
+ */
+export interface TransactionNotification {
+  /** Unique id of the notification */
+  id: string;
+  /** Status change reported by the notification */
+  kind: TransactionNotificationKind;
+  /** Key of the transaction */
+  txKey: string;
+  /** Transaction type, used as the title fallback */
+  type: string;
+  /** Transaction title, a single string or one per status */
+  title?: string | readonly string[];
+  /** Transaction description, a single string or one per status */
+  description?: string | readonly string[];
+  /** Chain of the transaction */
+  chainId: number | string;
+  /** Adapter of the transaction */
+  adapter: OrbitAdapter;
+  /** Wallet that sent the transaction */
+  from: string;
+  /** Timestamp of the status change (ms) */
+  createdAt: number;
+  /** Whether the notification was read */
+  read: boolean;
+}
+
+/**
+ * Transaction notifications store.
+ */
+export interface TransactionNotificationsStore {
+  /** All notifications, newest first */
+  getNotifications: () => TransactionNotification[];
+  /** Number of unread notifications */
+  getUnreadCount: () => number;
+  /** Adds a notification for a status change of the transaction */
+  notify: (tx: Transaction, kind: TransactionNotificationKind) => void;
+  /** Marks a notification as read */
+  markAsRead: (id: string) => void;
+  /** Marks all notifications as read */
+  markAllAsRead: () => void;
+  /** Removes a notification */
+  remove: (id: string) => void;
+  /** Removes all notifications */
+  clearAll: () => void;
+  /** Subscribes to changes. Returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for {@link createTransactionNotificationsStore}.
+ */
+export interface TransactionNotificationsStoreOptions {
+  /**
+   * Where the notifications are persisted.
+   * @default 'localStorage'
+   */
+  storage?: TransactionNotificationsStorageOption;
+  /**
+   * Storage key.
+   * @default 'nova:transaction-notifications'
+   */
+  storageKey?: string;
+  /**
+   * Maximum number of notifications kept. The oldest are evicted first.
+   * @default 50
+   */
+  maxEntries?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'nova:transaction-notifications';
+const DEFAULT_MAX_ENTRIES = 50;
+
+/**
+ * Maps a transaction's final status to the notification kind.
+ */
+const STATUS_TO_NOTIFICATION_KIND: Record<TransactionStatus, TransactionNotificationKind> = {
+  [TransactionStatus.Success]: 'succeeded',
+  [TransactionStatus.Failed]: 'failed',
+  [TransactionStatus.Replaced]: 'replaced',
+};
+
+/**
+ * Checks the shape of a persisted notification.
+ */
+const isTransactionNotification = (item: unknown): item is TransactionNotification =>
+  typeof (item as TransactionNotification)?.id === 'string' &&
+  typeof (item as TransactionNotification)?.txKey === 'string';
+
+/**
+ * Returns the status change between two versions of a transaction, if it should be notified:
+ * `submitted` for a new pending transaction, and the final status once it stops pending.
+ *
+ * @param prevTx - The transaction before the update, `undefined` for a new transaction
+ * @param currentTx - The updated transaction
+ * @returns {TransactionNotificationKind | undefined} The status change, or `undefined` when nothing is notified.
+ */
+export function getTransactionNotificationKind<T extends Transaction>(
+  prevTx: T | undefined,
+  currentTx: T,
+): TransactionNotificationKind | undefined {
+  if (!prevTx) return currentTx.pending ? 'submitted' : undefined;
+  if (currentTx.pending || !currentTx.status) return undefined;
+  if (!prevTx.pending && prevTx.status === currentTx.status) return undefined;
+  return STATUS_TO_NOTIFICATION_KIND[currentTx.status];
+}
+
+/**
+ * Creates a transaction notifications store, optionally persisted to the given storage.
+ * Pass the same store to `NovaTransactionsProvider` (which records the status changes)
+ * and to `TransactionsNotificationBell` (which displays them).
+ *
+ * @param options - {@link TransactionNotificationsStoreOptions}
+ * @returns {TransactionNotificationsStore} The notifications store.
+ *
+ * @example
+ * ```ts
+ * export const notificationsStore = createTransactionNotificationsStore({ storage: 'sessionStorage' });
+ * ```
+ */
+export function createTransactionNotificationsStore(
+  options: TransactionNotificationsStoreOptions = {},
+): TransactionNotificationsStore {
+  const { storageKey = DEFAULT_STORAGE_KEY, maxEntries = DEFAULT_MAX_ENTRIES } = options;
+  const list = createPersistedList<TransactionNotification>({
+    storage: options.storage ?? 'localStorage',
+    storageKey,
+    isValid: isTransactionNotification,
+    normalize: (notifications) => notifications.slice(0, maxEntries),
+  });
+
+  const countUnread = () => list.get().filter((item) => !item.read).length;
+  let unreadCount = countUnread();
+  // Subscribed first, so the count is up to date when the other listeners run
+  list.subscribe(() => {
+    unreadCount = countUnread();
+  });
+
+  return {
+    getNotifications: list.get,
+    getUnreadCount: () => unreadCount,
+    notify: (tx, kind) => {
+      const createdAt = Date.now();
+      const notification: TransactionNotification = {
+        id: `${tx.txKey}:${kind}:${createdAt}`,
+        kind,
+        txKey: tx.txKey,
+        type: tx.type,
+        title: tx.title,
+        description: tx.description,
+        chainId: tx.chainId,
+        adapter: tx.adapter,
+        from: tx.from,
+        createdAt,
+        read: false,
+      };
+      list.set([notification, ...list.get()]);
+    },
+    markAsRead: (id) => {
+      const notifications = list.get();
+      if (!notifications.some((item) => item.id === id && !item.read)) return;
+      list.set(notifications.map((item) => (item.id === id ? { ...item, read: true } : item)));
+    },
+    markAllAsRead: () => {
+      if (!unreadCount) return;
+      list.set(list.get().map((item) => (item.read ? item : { ...item, read: true })));
+    },
+    remove: (id) => list.set(list.get().filter((item) => item.id !== id)),
+    clearAll: () => list.set([]),
+    subscribe: list.subscribe,
+  };
+}
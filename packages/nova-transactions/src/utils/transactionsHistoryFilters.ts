@@ -0,0 +1,177 @@
+/**
+ * @file Filtering, search and date grouping helpers for the transactions history.
+ */
+
+import { Transaction, TransactionStatus } from '@tuwaio/pulsar-core';
+import dayjs from 'dayjs';
+
+/**
+ * Status a transaction can be filtered by. Pending transactions have no final status yet.
+ */
+export type TransactionStatusFilter = 'pending' | 'success' | 'failed' | 'replaced';
+
+/**
+ * Filters of the transactions history. Empty lists match every transaction.
+ */
+export type TransactionsHistoryFilters = {
+  /** Statuses to show */
+  statuses: TransactionStatusFilter[];
+  /** Chains to show */
+  chainIds: (string | number)[];
+  /** Transaction types (`tx.type`) to show */
+  types: string[];
+  /** Free-text search over title, description, type and hashes */
+  search: string;
+};
+
+/**
+ * Date section of the transactions history.
+ */
+export type TransactionDateGroupId = 'today' | 'yesterday' | 'lastWeek' | 'lastMonth' | 'older';
+
+/**
+ * Transactions of a date section, most recent first.
+ */
+export type TransactionDateGroup<T extends Transaction> = {
+  id: TransactionDateGroupId;
+  transactions: T[];
+};
+
+/** Filters that match every transaction. */
+export const defaultTransactionsHistoryFilters: TransactionsHistoryFilters = {
+  statuses: [],
+  chainIds: [],
+  types: [],
+  search: '',
+};
+
+/** Statuses in the order they are offered as filters. */
+export const transactionStatusFilters: TransactionStatusFilter[] = ['pending', 'success', 'failed', 'replaced'];
+
+/**
+ * Maps a transaction to its status filter.
+ *
+ * @param tx - The transaction
+ * @returns {TransactionStatusFilter | undefined} The status filter, or `undefined` for a finished transaction without status.
+ */
+export function getTransactionStatusFilter(tx: Transaction): TransactionStatusFilter | undefined {
+  if (tx.pending) return 'pending';
+  switch (tx.status) {
+    case TransactionStatus.Success:
+      return 'success';
+    case TransactionStatus.Failed:
+      return 'failed';
+    case TransactionStatus.Replaced:
+      return 'replaced';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether any filter narrows the list.
+ *
+ * @param filters - The filters to check
+ */
+export function hasActiveTransactionsHistoryFilters(filters: TransactionsHistoryFilters): boolean {
+  return (
+    filters.statuses.length > 0 || filters.chainIds.length > 0 || filters.types.length > 0 || !!filters.search.trim()
+  );
+}
+
+/**
+ * Collects the texts a transaction can be found by.
+ */
+function getSearchableTexts(tx: Transaction): string[] {
+  const texts = [tx.txKey, tx.type, tx.title, tx.description].flat();
+  if ('hash' in tx) texts.push(tx.hash, tx.replacedTxHash);
+  return texts.filter((text): text is string => typeof text === 'string');
+}
+
+/**
+ * Applies the history filters to a list of transactions, keeping their order.
+ *
+ * @param transactions - Transactions to filter
+ * @param filters - {@link TransactionsHistoryFilters}
+ * @returns {T[]} The matching transactions.
+ *
+ * @example
+ * ```ts
+ * filterTransactions(transactions, { ...defaultTransactionsHistoryFilters, statuses: ['failed'], search: 'swap' });
+ * ```
+ */
+export function filterTransactions<T extends Transaction>(transactions: T[], filters: TransactionsHistoryFilters): T[] {
+  const query = filters.search.trim().toLowerCase();
+
+  return transactions.filter((tx) => {
+    if (filters.statuses.length) {
+      const status = getTransactionStatusFilter(tx);
+      if (!status || !filters.statuses.includes(status)) return false;
+    }
+    if (filters.chainIds.length && !filters.chainIds.some((chainId) => String(chainId) === String(tx.chainId))) {
+      return false;
+    }
+    if (filters.types.length && !filters.types.includes(tx.type)) return false;
+    if (query && !getSearchableTexts(tx).some((text) => text.toLowerCase().includes(query))) return false;
+    return true;
+  });
+}
+
+/**
+ * Splits transactions sorted by time (most recent first) into date sections:
+ * today, yesterday, the last 7 days, the last 30 days and older. Empty sections are omitted.
+ *
+ * @param transactions - Transactions sorted by `localTimestamp`, most recent first
+ * @param now - Reference time (ms), defaults to the current time
+ * @returns {TransactionDateGroup<T>[]} The date sections, in order.
+ */
+export function groupTransactionsByDate<T extends Transaction>(
+  transactions: T[],
+  now: number = Date.now(),
+): TransactionDateGroup<T>[] {
+  const today = dayjs(now).startOf('day');
+  const boundaries: [TransactionDateGroupId, number][] = [
+    ['today', today.unix()],
+    ['yesterday', today.subtract(1, 'day').unix()],
+    ['lastWeek', today.subtract(7, 'day').unix()],
+    ['lastMonth', today.subtract(30, 'day').unix()],
+    ['older', -Infinity],
+  ];
+
+  const groups = boundaries.map(([id]) => ({ id, transactions: [] as T[] }));
+  transactions.forEach((tx) => {
+    const index = boundaries.findIndex(([, start]) => (tx.localTimestamp ?? 0) >= start);
+    groups[index].transactions.push(tx);
+  });
+
+  return groups.filter((group) => group.transactions.length > 0);
+}
+
+/**
+ * Reads filters saved by {@link persistTransactionsHistoryFilters} from `sessionStorage`.
+ *
+ * @param storageKey - Storage key
+ * @returns {TransactionsHistoryFilters | undefined} The saved filters, if any and readable.
+ */
+export function loadPersistedTransactionsHistoryFilters(storageKey: string): TransactionsHistoryFilters | undefined {
+  try {
+    const raw = typeof window !== 'undefined' ? window.sessionStorage.getItem(storageKey) : null;
+    return raw ? { ...defaultTransactionsHistoryFilters, ...JSON.parse(raw) } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Saves filters to `sessionStorage`, so they survive closing and reopening the history for the rest of the session.
+ *
+ * @param storageKey - Storage key
+ * @param filters - Filters to save
+ */
+export function persistTransactionsHistoryFilters(storageKey: string, filters: TransactionsHistoryFilters): void {
+  try {
+    window.sessionStorage.setItem(storageKey, JSON.stringify(filters));
+  } catch {
+    // Unavailable storage keeps the filters for the current view only
+  }
+}
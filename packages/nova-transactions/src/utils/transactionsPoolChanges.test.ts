@@ -0,0 +1,106 @@
+import { Transaction } from '@tuwaio/pulsar-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createAnimationFrameBatcher, hasTransactionChanged } from './transactionsPoolChanges';
+import { createTransactionsSubscriptionStore } from './transactionsSubscriptionStore';
+
+const createTx = (txKey: string, fields: Record<string, unknown> = {}) =>
+  ({ txKey, pending: true, title: 'Swap', ...fields }) as unknown as Transaction;
+
+describe('hasTransactionChanged', () => {
+  it('ignores the same reference and untracked fields', () => {
+    const tx = createTx('0x1');
+    expect(hasTransactionChanged(tx, tx)).toBe(false);
+    expect(hasTransactionChanged(tx, { ...tx, isTrackedModalOpen: true })).toBe(false);
+  });
+
+  it('detects changes of the fields shown by the toasts', () => {
+    const tx = createTx('0x1', { nonce: 1, maxFeePerGas: '1' });
+    expect(hasTransactionChanged(tx, { ...tx, confirmations: 1 })).toBe(true);
+    expect(hasTransactionChanged(tx, { ...tx, nonce: 2 } as Transaction)).toBe(true);
+    expect(hasTransactionChanged(tx, { ...tx, maxFeePerGas: '2' } as Transaction)).toBe(true);
+  });
+
+  it('compares status-aware texts by item and errors by message', () => {
+    const tx = createTx('0x1', { title: ['Swapping', 'Swapped', 'Failed', 'Replaced'], error: { message: 'oops' } });
+    const sameContentTx = { ...tx, title: ['Swapping', 'Swapped', 'Failed', 'Replaced'], error: { message: 'oops' } };
+    expect(hasTransactionChanged(tx, sameContentTx as Transaction)).toBe(false);
+    expect(hasTransactionChanged(tx, { ...tx, error: { message: 'reverted' } } as Transaction)).toBe(true);
+  });
+});
+
+describe('createAnimationFrameBatcher', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('flushes the latest value of each key once per frame', () => {
+    const onFlush = vi.fn();
+    const batcher = createAnimationFrameBatcher<number>(onFlush);
+
+    batcher.schedule('a', 1);
+    batcher.schedule('b', 1);
+    batcher.schedule('a', 2);
+    expect(onFlush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(16);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it('drops the queued values on cancel', () => {
+    const onFlush = vi.fn();
+    const batcher = createAnimationFrameBatcher<number>(onFlush);
+
+    batcher.schedule('a', 1);
+    batcher.cancel();
+    vi.advanceTimersByTime(16);
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
+
+describe('pool updates through the batcher and the subscription store', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('notifies only the subscribers of the changed transactions, once per frame', () => {
+    const store = createTransactionsSubscriptionStore<Transaction>();
+    const batcher = createAnimationFrameBatcher<Transaction>((txs) => txs.forEach((tx) => store.set(tx)));
+    const pool = Array.from({ length: 100 }, (_, index) => createTx(`0x${index}`));
+    pool.forEach((tx) => store.set(tx));
+
+    // Counts the re-renders a toast subscribed to each transaction would do
+    const renders = new Map<string, number>();
+    pool.forEach(({ txKey }) => store.subscribe(txKey, () => renders.set(txKey, (renders.get(txKey) ?? 0) + 1)));
+
+    // Three updates of one transaction and an untracked update of another within the same frame
+    let updatedPool = pool;
+    [1, 2, 3].forEach((confirmations) => {
+      const nextPool = updatedPool.map((tx, index) => {
+        if (index === 0) return { ...tx, confirmations };
+        if (index === 1) return { ...tx, isTrackedModalOpen: confirmations % 2 === 0 };
+        return tx;
+      });
+      nextPool.forEach((tx, index) => {
+        if (hasTransactionChanged(updatedPool[index], tx)) batcher.schedule(tx.txKey, tx);
+      });
+      updatedPool = nextPool;
+    });
+    vi.advanceTimersByTime(16);
+
+    expect([...renders]).toEqual([['0x0', 1]]);
+    expect(store.get('0x0')?.confirmations).toBe(3);
+  });
+
+  it('prunes the transactions that left the pool', () => {
+    const store = createTransactionsSubscriptionStore<Transaction>();
+    const listener = vi.fn();
+    store.set(createTx('0x1'));
+    store.set(createTx('0x2'));
+    store.subscribe('0x2', listener);
+
+    expect(store.prune(new Set(['0x1']))).toEqual(['0x2']);
+    expect(store.get('0x1')).toBeDefined();
+    expect(store.get('0x2')).toBeUndefined();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @file Field-level change detection between two versions of the transactions pool, and a batcher grouping
+ * the resulting updates per animation frame.
+ */
+
+import { Transaction } from '@tuwaio/pulsar-core';
+
+/**
+ * Transaction fields compared to detect an update shown by the toasts: the fields read by `ToastTransaction`
+ * and its default subcomponents (texts, hashes, status badge, confirmations, speed up / cancel availability),
+ * plus the nonce and replacement fees shown by custom toast components and the fee editor.
+ * Updates limited to other fields (e.g. `isTrackedModalOpen`) don't re-render the toasts.
+ */
+export const TRACKED_TRANSACTION_FIELDS = [
+  'status',
+  'pending',
+  'hash',
+  'replacedTxHash',
+  'confirmations',
+  'requiredConfirmations',
+  'error',
+  'isError',
+  'title',
+  'description',
+  'type',
+  'finishedTimestamp',
+  'from',
+  'chainId',
+  'adapter',
+  'tracker',
+  'connectorType',
+  'nonce',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+] as const;
+
+/**
+ * Compares a transaction field. Status-aware texts are compared item by item, errors by message.
+ */
+function isSameFieldValue(prev: unknown, current: unknown): boolean {
+  if (Object.is(prev, current)) return true;
+  if (Array.isArray(prev) && Array.isArray(current)) {
+    return prev.length === current.length && prev.every((item, index) => Object.is(item, current[index]));
+  }
+  if (prev && current && typeof prev === 'object' && typeof current === 'object' && 'message' in prev) {
+    return (prev as { message?: unknown }).message === (current as { message?: unknown }).message;
+  }
+  return false;
+}
+
+/**
+ * Checks whether a transaction changed in one of the tracked fields. Unchanged references return early,
+ * so comparing a large pool where a single transaction was updated costs one reference check per transaction.
+ *
+ * @param prevTx - The previous version of the transaction
+ * @param currentTx - The current version of the transaction
+ * @param fields - Compared fields (default: {@link TRACKED_TRANSACTION_FIELDS})
+ * @returns {boolean} `true` when one of the fields changed.
+ */
+export function hasTransactionChanged<T extends Transaction>(
+  prevTx: T,
+  currentTx: T,
+  fields: readonly string[] = TRACKED_TRANSACTION_FIELDS,
+): boolean {
+  if (prevTx === currentTx) return false;
+  const prev = prevTx as Record<string, unknown>;
+  const current = currentTx as Record<string, unknown>;
+  return fields.some((field) => !isSameFieldValue(prev[field], current[field]));
+}
+
+/**
+ * Batcher collecting values by key and flushing the latest value of each key once per animation frame.
+ */
+export interface AnimationFrameBatcher<V> {
+  /** Queues a value, replacing the value queued for the same key */
+  schedule: (key: string, value: V) => void;
+  /** Flushes the queued values immediately */
+  flush: () => void;
+  /** Drops the queued values */
+  cancel: () => void;
+}
+
+/**
+ * Creates an {@link AnimationFrameBatcher}. Without `requestAnimationFrame` (SSR, tests), a 16 ms timeout is used.
+ *
+ * @param onFlush - Receives the queued values, in scheduling order
+ * @returns {AnimationFrameBatcher<V>} The batcher.
+ *
+ * @example
+ * ```ts
+ * const batcher = createAnimationFrameBatcher<Transaction>((txs) => txs.forEach(updateToast));
+ * batcher.schedule(tx.txKey, tx);
+ * ```
+ */
+export function createAnimationFrameBatcher<V>(onFlush: (values: V[]) => void): AnimationFrameBatcher<V> {
+  const queue = new Map<string, V>();
+  let frame: number | ReturnType<typeof setTimeout> | undefined;
+
+  const hasAnimationFrame = () => typeof requestAnimationFrame === 'function';
+
+  const cancelFrame = () => {
+    if (frame === undefined) return;
+    if (hasAnimationFrame()) {
+      cancelAnimationFrame(frame as number);
+    } else {
+      clearTimeout(frame);
+    }
+    frame = undefined;
+  };
+
+  const flush = () => {
+    cancelFrame();
+    if (!queue.size) return;
+    const values = [...queue.values()];
+    queue.clear();
+    onFlush(values);
+  };
+
+  return {
+    schedule: (key, value) => {
+      queue.delete(key);
+      queue.set(key, value);
+      if (frame === undefined) {
+        frame = hasAnimationFrame() ? requestAnimationFrame(flush) : setTimeout(flush, 16);
+      }
+    },
+    flush,
+    cancel: () => {
+      cancelFrame();
+      queue.clear();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * @file A store of transactions by key with per-transaction subscriptions, so a component displaying
+ * one transaction only re-renders when that transaction changes.
+ */
+
+import { Transaction } from '@tuwaio/pulsar-core';
+
+/**
+ * Transactions store with per-transaction subscriptions.
+ */
+export interface TransactionsSubscriptionStore<T extends Transaction> {
+  /** The latest version of a transaction */
+  get: (txKey: string) => T | undefined;
+  /** Stores the latest version of a transaction and notifies its subscribers */
+  set: (tx: T) => void;
+  /** Subscribes to the changes of a transaction. Returns the unsubscribe function. */
+  subscribe: (txKey: string, listener: () => void) => () => void;
+  /**
+   * Deletes the transactions that are no longer in the pool and notifies their subscribers.
+   * Returns the keys of the deleted transactions.
+   */
+  prune: (txKeys: ReadonlySet<string>) => string[];
+}
+
+/**
+ * Creates a {@link TransactionsSubscriptionStore}.
+ *
+ * @returns {TransactionsSubscriptionStore<T>} The store.
+ *
+ * @example
+ * ```ts
+ * const store = createTransactionsSubscriptionStore<Transaction>();
+ * const tx = useSyncExternalStore((listener) => store.subscribe(txKey, listener), () => store.get(txKey));
+ * ```
+ */
+export function createTransactionsSubscriptionStore<T extends Transaction>(): TransactionsSubscriptionStore<T> {
+  const transactions = new Map<string, T>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  return {
+    get: (txKey) => transactions.get(txKey),
+    set: (tx) => {
+      if (transactions.get(tx.txKey) === tx) return;
+      transactions.set(tx.txKey, tx);
+      listeners.get(tx.txKey)?.forEach((listener) => listener());
+    },
+    subscribe: (txKey, listener) => {
+      const txListeners = listeners.get(txKey) ?? new Set();
+      txListeners.add(listener);
+      listeners.set(txKey, txListeners);
+      return () => {
+        txListeners.delete(listener);
+        if (!txListeners.size) listeners.delete(txKey);
+      };
+    },
+    prune: (txKeys) => {
+      const removedKeys = [...transactions.keys()].filter((txKey) => !txKeys.has(txKey));
+      removedKeys.forEach((txKey) => {
+        transactions.delete(txKey);
+        listeners.get(txKey)?.forEach((listener) => listener());
+      });
+      return removedKeys;
+    },
+  };
+}
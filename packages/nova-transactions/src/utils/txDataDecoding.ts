@@ -0,0 +1,350 @@
+/**
+ * @file Semantic decoding of transaction data for the "Decoded" section of `TransactionDetails`:
+ * contract calls of EVM transactions and instructions of Solana transactions. Decoders are registered
+ * per adapter as lazy loaders, so their code (and ABIs) is only downloaded when a transaction is inspected.
+ */
+
+import { OrbitAdapter } from '@tuwaio/orbit-core';
+import { Transaction } from '@tuwaio/pulsar-core';
+
+/**
+ * A decoded argument. Arguments of type `address` (or `pubkey`) are displayed as explorer links.
+ */
+export type DecodedTxDataArg = {
+  /** Parameter name, when known */
+  name?: string;
+  /** Type, e.g. `uint256` or `address` */
+  type?: string;
+  /** Value formatted for display */
+  value: string;
+};
+
+/**
+ * A decoded EVM contract call.
+ */
+export type DecodedContractCall = {
+  type: 'call';
+  /** Name of the called contract, e.g. `USDC` */
+  contractName?: string;
+  /** Name of the called function, e.g. `transfer` */
+  functionName: string;
+  /** Decoded arguments */
+  args: DecodedTxDataArg[];
+};
+
+/**
+ * An account of a Solana instruction.
+ */
+export type DecodedInstructionAccount = {
+  /** Account address */
+  address: string;
+  /** Role of the account in the instruction, e.g. `source` */
+  name?: string;
+  isSigner?: boolean;
+  isWritable?: boolean;
+};
+
+/**
+ * A decoded Solana instruction.
+ */
+export type DecodedInstruction = {
+  /** Address of the program */
+  programId: string;
+  /** Name of the program, e.g. `Token Program` */
+  programName?: string;
+  /** Name of the instruction, e.g. `transferChecked` */
+  name?: string;
+  /** Accounts of the instruction */
+  accounts: DecodedInstructionAccount[];
+  /** Decoded arguments */
+  args?: DecodedTxDataArg[];
+};
+
+/**
+ * Decoded instructions of a Solana transaction.
+ */
+export type DecodedInstructions = {
+  type: 'instructions';
+  instructions: DecodedInstruction[];
+};
+
+/**
+ * Result of a {@link TxDataDecoder}.
+ */
+export type DecodedTxData = DecodedContractCall | DecodedInstructions;
+
+/**
+ * Decodes the data of a transaction, or returns `undefined` when it does not recognize it.
+ */
+export type TxDataDecoder<T extends Transaction = Transaction> = (
+  tx: T,
+) => DecodedTxData | undefined | Promise<DecodedTxData | undefined>;
+
+/**
+ * Loads a decoder, typically with a dynamic `import()`. Called once, the first time a transaction
+ * of the adapter is inspected.
+ */
+export type TxDataDecoderLoader<T extends Transaction = Transaction> = () => Promise<
+  TxDataDecoder<T> | { default: TxDataDecoder<T> }
+>;
+
+/**
+ * Decoder loaders, by adapter.
+ *
+ * @example
+ * ```ts
+ * const txDataDecoders: TxDataDecoders<TransactionUnion> = {
+ *   [OrbitAdapter.EVM]: () => import('./decoders/evm').then((module) => module.evmDecoder),
+ *   [OrbitAdapter.SOLANA]: () => import('./decoders/solana'),
+ * };
+ * ```
+ */
+export type TxDataDecoders<T extends Transaction = Transaction> = Partial<Record<OrbitAdapter, TxDataDecoderLoader<T>>>;
+
+/**
+ * Result of a function decoding calldata with an ABI, such as viem's `decodeFunctionData`.
+ */
+export type AbiDecodedFunctionData = {
+  functionName: string;
+  args?: readonly unknown[];
+};
+
+/**
+ * A contract ABI registered for calldata decoding.
+ */
+export type TxDataAbiEntry<TAbi extends readonly unknown[] = readonly unknown[]> = {
+  /** The contract ABI (functions only are enough) */
+  abi: TAbi;
+  /** Display name of the contract */
+  name?: string;
+  /** Restricts the ABI to calls to these addresses. Tried for every call when omitted. */
+  addresses?: string[];
+};
+
+/**
+ * A Solana program registered for instruction decoding.
+ */
+export type SolanaProgramDefinition = {
+  /** Display name of the program */
+  name: string;
+  /** Names of the instruction accounts, by position, when they are the same for every instruction */
+  accounts?: string[];
+  /** Decodes the name, arguments and account names of an instruction of the program */
+  decode?: (instruction: {
+    data?: unknown;
+    accounts: DecodedInstructionAccount[];
+    raw: unknown;
+  }) => { name?: string; args?: DecodedTxDataArg[]; accounts?: string[] } | undefined;
+};
+
+/** Names of common Solana programs, shown when the program is not registered. */
+export const knownSolanaPrograms: Record<string, string> = {
+  '11111111111111111111111111111111': 'System Program',
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: 'Token Program',
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: 'Token-2022 Program',
+  ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: 'Associated Token Account Program',
+  ComputeBudget111111111111111111111111111111: 'Compute Budget Program',
+  MemoSq4gqABAXKb96qhbMtfovfnDJK6CeXNdHJhQW5W: 'Memo Program',
+  Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo: 'Memo Program (v1)',
+  Stake11111111111111111111111111111111111111: 'Stake Program',
+  Vote111111111111111111111111111111111111111: 'Vote Program',
+};
+
+// --- Helpers ---
+
+/**
+ * Formats a decoded value for display.
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'bigint' || typeof value === 'number' || typeof value === 'boolean') return value.toString();
+  try {
+    return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Reads an address from a string, a web3.js `PublicKey` or an object with an `address` / `pubkey` field.
+ */
+function toAddress(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (!value || typeof value !== 'object') return undefined;
+  const candidate = value as { toBase58?: () => string; address?: unknown; pubkey?: unknown };
+  if (typeof candidate.toBase58 === 'function') return candidate.toBase58();
+  return toAddress(candidate.address ?? candidate.pubkey);
+}
+
+/**
+ * Reads the accounts of an instruction in the web3.js (`keys`), @solana/kit (`accounts` with `role`)
+ * and parsed RPC (`accounts` as addresses) shapes.
+ */
+function readInstructionAccounts(instruction: Record<string, unknown>): DecodedInstructionAccount[] {
+  const list = (instruction.keys ?? instruction.accounts ?? []) as unknown[];
+  if (!Array.isArray(list)) return [];
+
+  return list.flatMap((item) => {
+    const address = toAddress(item);
+    if (!address) return [];
+    const { isSigner, isWritable, role } = (typeof item === 'object' && item ? item : {}) as {
+      isSigner?: boolean;
+      isWritable?: boolean;
+      role?: number;
+    };
+    // @solana/kit roles: 0 readonly, 1 writable, 2 readonly signer, 3 writable signer
+    return [
+      {
+        address,
+        isSigner: isSigner ?? (role === undefined ? undefined : role >= 2),
+        isWritable: isWritable ?? (role === undefined ? undefined : role % 2 === 1),
+      },
+    ];
+  });
+}
+
+// --- Decoder factories ---
+
+/**
+ * Creates an EVM decoder for contract calls, using a calldata decoding function such as viem's `decodeFunctionData`.
+ * Argument names and types are read from the ABI.
+ *
+ * @param entries - Registered ABIs
+ * @param decodeFunctionData - Decodes calldata with an ABI, throwing when no function matches
+ *
+ * @example
+ * ```ts
+ * // decoders/evm.ts, loaded lazily
+ * import { decodeFunctionData, erc20Abi } from 'viem';
+ *
+ * export const evmDecoder = createAbiTxDataDecoder(
+ *   [{ abi: erc20Abi, name: 'ERC-20' }, { abi: vaultAbi, name: 'Vault', addresses: [VAULT_ADDRESS] }],
+ *   (params) => decodeFunctionData(params),
+ * );
+ * ```
+ */
+export function createAbiTxDataDecoder<TAbi extends readonly unknown[]>(
+  entries: TxDataAbiEntry<TAbi>[],
+  decodeFunctionData: (params: { abi: TAbi; data: `0x${string}` }) => AbiDecodedFunctionData,
+): TxDataDecoder {
+  return (tx) => {
+    const { input, to } = tx as { input?: `0x${string}`; to?: string };
+    if (!input || input === '0x') return undefined;
+
+    for (const entry of entries) {
+      if (entry.addresses && !entry.addresses.some((address) => address.toLowerCase() === to?.toLowerCase())) continue;
+      try {
+        const { functionName, args = [] } = decodeFunctionData({ abi: entry.abi, data: input });
+        const abiItem = (
+          entry.abi as readonly { type?: string; name?: string; inputs?: { name?: string; type: string }[] }[]
+        ).find(
+          (item) =>
+            item.type === 'function' && item.name === functionName && (item.inputs?.length ?? 0) === args.length,
+        );
+        return {
+          type: 'call',
+          contractName: entry.name,
+          functionName,
+          args: args.map((value, index) => ({
+            name: abiItem?.inputs?.[index]?.name || undefined,
+            type: abiItem?.inputs?.[index]?.type,
+            value: formatValue(value),
+          })),
+        };
+      } catch {
+        // Not a function of this ABI, try the next one
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Creates a Solana decoder listing the instructions of a transaction with their program names and accounts.
+ * Registered programs can also decode instruction names and arguments, other programs are named
+ * from {@link knownSolanaPrograms} when possible.
+ *
+ * @param programs - Registered programs, by program id
+ *
+ * @example
+ * ```ts
+ * export const solanaDecoder = createSolanaInstructionDecoder({
+ *   [VAULT_PROGRAM_ID]: { name: 'Vault', accounts: ['vault', 'owner', 'tokenAccount'] },
+ * });
+ * ```
+ */
+export function createSolanaInstructionDecoder(programs: Record<string, SolanaProgramDefinition> = {}): TxDataDecoder {
+  return (tx) => {
+    const { instructions } = tx as { instructions?: unknown[] };
+    if (!instructions?.length) return undefined;
+
+    return {
+      type: 'instructions',
+      instructions: instructions.flatMap((raw) => {
+        if (!raw || typeof raw !== 'object') return [];
+        const instruction = raw as Record<string, unknown>;
+        const programId = toAddress(instruction.programId ?? instruction.programAddress);
+        if (!programId) return [];
+
+        const accounts = readInstructionAccounts(instruction);
+        const program = programs[programId];
+        const decoded = program?.decode?.({ data: instruction.data, accounts, raw });
+        // Instructions parsed by the RPC (`jsonParsed` encoding) carry their type and arguments
+        const parsed = instruction.parsed as { type?: string; info?: Record<string, unknown> } | undefined;
+        const accountNames = decoded?.accounts ?? program?.accounts;
+
+        return [
+          {
+            programId,
+            programName: program?.name ?? (instruction.program as string | undefined) ?? knownSolanaPrograms[programId],
+            name: decoded?.name ?? parsed?.type,
+            accounts: accounts.map((account, index) => ({ ...account, name: accountNames?.[index] })),
+            args:
+              decoded?.args ??
+              (parsed?.info
+                ? Object.entries(parsed.info).map(([name, value]) => ({ name, value: formatValue(value) }))
+                : undefined),
+          },
+        ];
+      }),
+    };
+  };
+}
+
+// --- Loading ---
+
+const loadedDecoders = new WeakMap<object, Promise<unknown>>();
+
+/**
+ * Loads a decoder once and caches it, so every `TransactionDetails` shares the same module.
+ *
+ * @param loader - The decoder loader
+ */
+export function loadTxDataDecoder<T extends Transaction>(loader: TxDataDecoderLoader<T>): Promise<TxDataDecoder<T>> {
+  let promise = loadedDecoders.get(loader) as Promise<TxDataDecoder<T>> | undefined;
+  if (!promise) {
+    promise = loader().then((module) => (typeof module === 'function' ? module : module.default));
+    // A failed load (e.g. a network error) is retried next time
+    promise.catch(() => loadedDecoders.delete(loader));
+    loadedDecoders.set(loader, promise);
+  }
+  return promise;
+}
+
+/**
+ * Decodes the data of a transaction with the decoder registered for its adapter.
+ *
+ * @param tx - The transaction
+ * @param decoders - Decoder loaders, by adapter
+ * @returns {Promise<DecodedTxData | undefined>} The decoded data, or `undefined` when no decoder is registered
+ * for the adapter or the decoder does not recognize the data.
+ */
+export async function decodeTxData<T extends Transaction>(
+  tx: T,
+  decoders: TxDataDecoders<T> | undefined,
+): Promise<DecodedTxData | undefined> {
+  const loader = decoders?.[tx.adapter];
+  if (!loader) return undefined;
+  const decoder = await loadTxDataDecoder(loader);
+  return decoder(tx);
+}
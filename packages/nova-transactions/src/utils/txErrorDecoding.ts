@@ -0,0 +1,421 @@
+/**
+ * @file Error decoder pipeline turning opaque wallet and RPC errors ("execution reverted", "custom program error: 0x1771")
+ * into a readable error name, arguments and message. Apps register decoders for their contracts and programs,
+ * standard Solidity and Anchor errors are decoded out of the box.
+ */
+
+/**
+ * An argument of a decoded error.
+ */
+export type DecodedTxErrorArg = {
+  /** Parameter name, when known */
+  name?: string;
+  /** Solidity type, when known */
+  type?: string;
+  /** Value formatted for display */
+  value: string;
+};
+
+/**
+ * A decoded error.
+ */
+export type DecodedTxError = {
+  /** Error name, e.g. `ERC20InsufficientBalance` */
+  name: string;
+  /** Decoded arguments */
+  args?: DecodedTxErrorArg[];
+  /** Friendly message for users */
+  message?: string;
+};
+
+/**
+ * What a decoder receives, built once from the error by {@link decodeTxError}.
+ */
+export type TxErrorDecoderInput = {
+  /** Message of the error */
+  message: string;
+  /** The original error object (`error.raw` of a `TuwaErrorState`, or the thrown error) */
+  raw: unknown;
+  /** EVM revert data found in the error, e.g. `0x08c379a0...` */
+  revertData?: `0x${string}`;
+  /** Message and serialized raw error, to search for program logs and error codes */
+  text: string;
+};
+
+/**
+ * Decodes an error, or returns `undefined` to let the next decoder try.
+ */
+export type TxErrorDecoder = (input: TxErrorDecoderInput) => DecodedTxError | undefined;
+
+/**
+ * Friendly message of a registered error: a string, or a function of the decoded arguments.
+ */
+export type TxErrorMessage = string | ((args: DecodedTxErrorArg[]) => string);
+
+/**
+ * A custom EVM error registered by signature.
+ */
+export type EvmCustomErrorDefinition = {
+  /** Signature with optional parameter names, e.g. `ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)` */
+  signature: string;
+  /** Friendly message */
+  message?: TxErrorMessage;
+};
+
+/**
+ * An error of a Solana program, by error code.
+ */
+export type SolanaProgramErrorDefinition = {
+  /** Error name, e.g. `SlippageExceeded` */
+  name: string;
+  /** Friendly message */
+  message?: string;
+};
+
+/**
+ * Result of an ABI decoding function such as viem's `decodeErrorResult`.
+ */
+export type AbiDecodedErrorResult = {
+  errorName: string;
+  args?: readonly unknown[];
+  abiItem?: { inputs?: readonly { name?: string; type: string }[] };
+};
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/** Reasons of Solidity panics, by panic code. */
+const PANIC_REASONS: Record<number, string> = {
+  0x00: 'Generic compiler panic.',
+  0x01: 'An assertion failed.',
+  0x11: 'Arithmetic overflow or underflow.',
+  0x12: 'Division or modulo by zero.',
+  0x21: 'Invalid enum value.',
+  0x22: 'Invalid storage byte array encoding.',
+  0x31: 'Pop on an empty array.',
+  0x32: 'Array index out of bounds.',
+  0x41: 'Too much memory allocated.',
+  0x51: 'Call to an uninitialized function.',
+};
+
+// --- Helpers ---
+
+/**
+ * Serializes an error to search it for codes and logs. Never throws, handles bigints and circular references.
+ */
+function stringifyError(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  const seen = new WeakSet();
+  try {
+    return JSON.stringify(value, (_, item) => {
+      if (typeof item === 'bigint') return item.toString();
+      if (item instanceof Error) return { ...item, name: item.name, message: item.message };
+      if (typeof item === 'object' && item !== null) {
+        if (seen.has(item)) return undefined;
+        seen.add(item);
+      }
+      return item;
+    });
+  } catch {
+    return String(value);
+  }
+}
+
+/** Matches ABI-encoded revert data: a 4-byte selector followed by 32-byte words. */
+const REVERT_DATA_PATTERN = /^0x[0-9a-f]{8}(?:[0-9a-f]{64})*$/i;
+
+/**
+ * Finds the revert data in an error. Wallet and RPC libraries nest it under `data`, `cause`, `error` or `info`.
+ */
+function findRevertData(value: unknown, depth = 0): `0x${string}` | undefined {
+  if (typeof value === 'string') return REVERT_DATA_PATTERN.test(value) ? (value as `0x${string}`) : undefined;
+  if (!value || typeof value !== 'object' || depth > 6) return undefined;
+
+  for (const key of ['data', 'cause', 'error', 'info', 'originalError', 'raw']) {
+    const found = findRevertData((value as Record<string, unknown>)[key], depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Formats a decoded value for display.
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'bigint' || typeof value === 'number' || typeof value === 'boolean') return value.toString();
+  return stringifyError(value);
+}
+
+/**
+ * Resolves a friendly message.
+ */
+function resolveMessage(message: TxErrorMessage | undefined, args: DecodedTxErrorArg[]): string | undefined {
+  return typeof message === 'function' ? message(args) : message;
+}
+
+/**
+ * Splits a signature like `Name(uint256 amount, address)` into its name and parameters.
+ * Tuples are not supported: their arguments are left undecoded.
+ */
+function parseSignature(signature: string): { name: string; params?: { type: string; name?: string }[] } {
+  const match = /^\s*(\w+)\s*\((.*)\)\s*$/.exec(signature);
+  if (!match) return { name: signature.trim() };
+
+  const [, name, paramsText] = match;
+  if (paramsText.includes('(')) return { name };
+
+  const params = paramsText
+    .split(',')
+    .map((param) => param.trim())
+    .filter(Boolean)
+    .map((param) => {
+      const [type, ...rest] = param.split(/\s+/).filter((part) => part !== 'indexed');
+      return { type, name: rest[rest.length - 1] };
+    });
+  return { name, params };
+}
+
+/**
+ * Decodes ABI-encoded parameters of elementary types (`address`, `bool`, `(u)intN`, `bytesN`, `bytes`, `string`).
+ *
+ * @returns The formatted values, or `undefined` for unsupported types or malformed data.
+ */
+function decodeAbiParameters(types: string[], data: string): string[] | undefined {
+  const hex = data.replace(/^0x/, '');
+  const word = (offset: number) => hex.slice(offset * 2, offset * 2 + 64);
+  const readNumber = (offset: number) => Number(BigInt(`0x${word(offset) || '0'}`));
+
+  try {
+    return types.map((type, index) => {
+      const head = word(index * 32);
+      if (head.length !== 64) throw new Error('Out of bounds');
+
+      if (type === 'address') return `0x${head.slice(24)}`;
+      if (type === 'bool') return (BigInt(`0x${head}`) !== 0n).toString();
+
+      const intMatch = /^(u?)int(\d*)$/.exec(type);
+      if (intMatch) {
+        const value = BigInt(`0x${head}`);
+        const isSigned = !intMatch[1];
+        return (isSigned && value >= 2n ** 255n ? value - 2n ** 256n : value).toString();
+      }
+
+      const fixedBytesMatch = /^bytes(\d+)$/.exec(type);
+      if (fixedBytesMatch) return `0x${head.slice(0, Number(fixedBytesMatch[1]) * 2)}`;
+
+      if (type === 'bytes' || type === 'string') {
+        const offset = Number(BigInt(`0x${head}`));
+        const length = readNumber(offset);
+        const content = hex.slice((offset + 32) * 2, (offset + 32 + length) * 2);
+        if (content.length !== length * 2) throw new Error('Out of bounds');
+        if (type === 'bytes') return `0x${content}`;
+        const bytes = new Uint8Array(content.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+        return new TextDecoder().decode(bytes);
+      }
+
+      throw new Error(`Unsupported type ${type}`);
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+// --- Decoders ---
+
+/**
+ * Decodes the standard Solidity errors: `Error(string)` (`require` and `revert` reasons) and `Panic(uint256)`.
+ */
+export const standardEvmErrorDecoder: TxErrorDecoder = ({ revertData }) => {
+  if (!revertData) return undefined;
+  const selector = revertData.slice(0, 10).toLowerCase();
+  const params = revertData.slice(10);
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = decodeAbiParameters(['string'], params) ?? [];
+    return reason === undefined
+      ? undefined
+      : { name: 'Error', args: [{ name: 'reason', type: 'string', value: reason }], message: reason };
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    const [code] = decodeAbiParameters(['uint256'], params) ?? [];
+    if (code === undefined) return undefined;
+    const hexCode = `0x${BigInt(code).toString(16).padStart(2, '0')}`;
+    return {
+      name: 'Panic',
+      args: [{ name: 'code', type: 'uint256', value: hexCode }],
+      message: PANIC_REASONS[Number(code)],
+    };
+  }
+
+  return undefined;
+};
+
+/**
+ * Decodes Anchor program errors from the program logs (`Error Code: X. Error Number: N. Error Message: ...`).
+ */
+export const anchorErrorDecoder: TxErrorDecoder = ({ text }) => {
+  const match = /Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.+?)\.?(?:"|\\n|\n|$)/.exec(text);
+  if (!match) return undefined;
+  const [, name, code, message] = match;
+  return { name, args: [{ name: 'code', value: code }], message };
+};
+
+/**
+ * Creates a decoder for custom EVM errors registered by selector.
+ *
+ * The selector is the first 4 bytes of the keccak256 hash of the canonical signature (without parameter names),
+ * as printed by `cast sig` or viem's `toFunctionSelector`.
+ *
+ * @param errors - Signatures or {@link EvmCustomErrorDefinition}s, by selector
+ *
+ * @example
+ * ```ts
+ * createEvmErrorDecoder({
+ *   '0xe450d38c': {
+ *     signature: 'ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+ *     message: 'Your token balance is too low.',
+ *   },
+ *   '0xfb8f41b2': 'ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+ * });
+ * ```
+ */
+export function createEvmErrorDecoder(errors: Record<string, string | EvmCustomErrorDefinition>): TxErrorDecoder {
+  const definitions = Object.fromEntries(
+    Object.entries(errors).map(([selector, definition]) => [
+      selector.toLowerCase(),
+      typeof definition === 'string' ? { signature: definition } : definition,
+    ]),
+  );
+
+  return ({ revertData }) => {
+    const definition = revertData && definitions[revertData.slice(0, 10).toLowerCase()];
+    if (!definition) return undefined;
+
+    const { name, params } = parseSignature(definition.signature);
+    const values = params
+      ? decodeAbiParameters(
+          params.map((param) => param.type),
+          revertData.slice(10),
+        )
+      : undefined;
+    const args = values?.map((value, index) => ({ ...params![index], value }));
+    return { name, args, message: resolveMessage(definition.message, args ?? []) };
+  };
+}
+
+/**
+ * Creates a decoder for the custom errors of contract ABIs, using an ABI decoding function such as
+ * viem's `decodeErrorResult`. Also decodes `Error(string)` and `Panic(uint256)` when the function does.
+ *
+ * @param abi - ABI items of the contracts, errors only are enough
+ * @param decodeErrorResult - Decodes revert data with the ABI, throwing when no error matches
+ * @param messages - Friendly messages, by error name
+ *
+ * @example
+ * ```ts
+ * import { decodeErrorResult } from 'viem';
+ *
+ * createAbiErrorDecoder([...erc20Abi, ...vaultAbi], (params) => decodeErrorResult(params), {
+ *   VaultPaused: 'Deposits are paused, try again later.',
+ * });
+ * ```
+ */
+export function createAbiErrorDecoder<TAbi extends readonly unknown[]>(
+  abi: TAbi,
+  decodeErrorResult: (params: { abi: TAbi; data: `0x${string}` }) => AbiDecodedErrorResult,
+  messages: Record<string, TxErrorMessage> = {},
+): TxErrorDecoder {
+  return ({ revertData }) => {
+    if (!revertData) return undefined;
+    try {
+      const { errorName, args = [], abiItem } = decodeErrorResult({ abi, data: revertData });
+      const decodedArgs = args.map((value, index) => ({
+        name: abiItem?.inputs?.[index]?.name || undefined,
+        type: abiItem?.inputs?.[index]?.type,
+        value: formatValue(value),
+      }));
+      return { name: errorName, args: decodedArgs, message: resolveMessage(messages[errorName], decodedArgs) };
+    } catch {
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Creates a decoder for Solana program errors (`custom program error: 0x1771`, `{"Custom":6001}`).
+ * The failing program is read from the logs when available, otherwise the first program defining the code is used.
+ *
+ * @param programs - Error definitions (or names), by error code, by program id
+ *
+ * @example
+ * ```ts
+ * createSolanaProgramErrorDecoder({
+ *   JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: {
+ *     6001: { name: 'SlippageToleranceExceeded', message: 'The price moved too much, increase the slippage.' },
+ *   },
+ * });
+ * ```
+ */
+export function createSolanaProgramErrorDecoder(
+  programs: Record<string, Record<number, string | SolanaProgramErrorDefinition>>,
+): TxErrorDecoder {
+  return ({ text }) => {
+    const logMatch = /Program (\w+) failed: custom program error: (0x[0-9a-f]+)/i.exec(text);
+    const codeMatch = logMatch ? undefined : /custom program error: (0x[0-9a-f]+)|"Custom"\s*:\s*(\d+)/i.exec(text);
+    const codeText = logMatch?.[2] ?? codeMatch?.[1] ?? codeMatch?.[2];
+    if (!codeText) return undefined;
+
+    const code = Number(codeText);
+    const programErrors = logMatch
+      ? [programs[logMatch[1]]]
+      : Object.values(programs).filter((errors) => errors[code] !== undefined);
+    const definition = programErrors[0]?.[code];
+    if (definition === undefined) return undefined;
+
+    const { name, message } = typeof definition === 'string' ? { name: definition, message: undefined } : definition;
+    return { name, args: [{ name: 'code', value: code.toString() }], message };
+  };
+}
+
+/** Decoders applied after the registered ones. */
+export const defaultTxErrorDecoders: TxErrorDecoder[] = [standardEvmErrorDecoder, anchorErrorDecoder];
+
+/**
+ * Builds the decoder input from an error: a string, a thrown `Error` or a `TuwaErrorState` (`{ message, raw }`).
+ */
+export function getTxErrorDecoderInput(error: unknown): TxErrorDecoderInput {
+  if (typeof error === 'string') return { message: error, raw: error, text: error };
+
+  const { message = '', raw = error } = (error ?? {}) as { message?: string; raw?: unknown };
+  return {
+    message,
+    raw,
+    revertData: findRevertData(raw) ?? findRevertData(error) ?? findRevertData(/0x[0-9a-f]{8,}/i.exec(message)?.[0]),
+    text: `${message}\n${stringifyError(raw)}`,
+  };
+}
+
+/**
+ * Runs an error through the registered decoders, then the {@link defaultTxErrorDecoders}.
+ *
+ * @param error - A string, a thrown error or a `TuwaErrorState`
+ * @param decoders - Decoders registered by the app
+ * @returns {DecodedTxError | undefined} The first successful decoding, or `undefined` when no decoder recognizes the error.
+ */
+export function decodeTxError(error: unknown, decoders: TxErrorDecoder[] = []): DecodedTxError | undefined {
+  if (!error) return undefined;
+  const input = getTxErrorDecoderInput(error);
+
+  for (const decoder of [...decoders, ...defaultTxErrorDecoders]) {
+    try {
+      const decoded = decoder(input);
+      if (decoded) return decoded;
+    } catch {
+      // A failing decoder must not break the error UI, the next one gets a chance
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,200 @@
+/**
+ * @file Capability check for the Speed Up and Cancel actions, which replace a pending EVM transaction
+ * with a new one using the same nonce.
+ */
+
+import { selectAdapterByKey } from '@tuwaio/orbit-core';
+import { Transaction, TransactionTracker, TxAdapter } from '@tuwaio/pulsar-core';
+
+import { CANCEL_GAS_LIMIT, getTransactionFees, ReplacementFees, TxReplacementMode } from './replacementFees';
+
+/**
+ * Options of the fee editor shown before a speed-up or cancel replacement is sent.
+ */
+export type TxReplacementFeeEditorConfig<T extends Transaction = Transaction> = {
+  /**
+   * When `false`, Speed Up and Cancel call the adapter right away and let it pick the fees.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Fee increases (%) offered as presets.
+   * @default [10, 25, 50]
+   */
+  presets?: number[];
+  /**
+   * Minimum increase (%) of both fees accepted by nodes.
+   * @default 10
+   */
+  minBumpPercent?: number;
+  /**
+   * Gas limit of the replacement, used for the estimated cost. Cancellations default to 21000;
+   * without it, the editor states that the cost of a speed-up cannot be estimated.
+   */
+  getGasLimit?: (tx: T, mode: TxReplacementMode) => bigint | undefined;
+  /**
+   * Symbol of the native currency, or a function returning it for a chain.
+   * @default 'ETH'
+   */
+  nativeCurrencySymbol?: string | ((chainId: T['chainId']) => string);
+};
+
+/**
+ * The adapters' `speedUpTxAction` / `cancelTxAction`, called with the fees chosen in the fee editor
+ * as a second argument. Adapters use them as the replacement's `maxFeePerGas` / `maxPriorityFeePerGas`
+ * instead of bumping the pending transaction's fees themselves. Without fees, the adapter picks them.
+ */
+export type TxReplacementAction<T extends Transaction = Transaction> = (
+  tx: T,
+  fees?: ReplacementFees,
+) => Promise<string>;
+
+/**
+ * Configures Speed Up and Cancel. Connectors are matched by name,
+ * the part of `tx.connectorType` after the adapter prefix (`evm:metamask` → `metamask`).
+ */
+export type TxReplacementConfig<T extends Transaction = Transaction> = {
+  /** Only these connectors offer the actions. Every connector does when omitted. */
+  allowConnectors?: string[];
+  /** Connectors that never offer the actions, e.g. wallets that manage nonces themselves. Wins over `allowConnectors`. */
+  denyConnectors?: string[];
+  /**
+   * Sends a replacement with the fees chosen in the fee editor (in wei), e.g. through the wallet client.
+   * Without it, the chosen fees are passed to the adapter's `speedUpTxAction` / `cancelTxAction`
+   * (see {@link TxReplacementAction}).
+   */
+  onReplace?: (params: { tx: T; mode: TxReplacementMode; fees: ReplacementFees }) => Promise<unknown> | void;
+  /** Fee editor options */
+  feeEditor?: TxReplacementFeeEditorConfig<T>;
+};
+
+/**
+ * Returns the connector name of a connector type, lowercased.
+ */
+function getConnectorName(connectorType: string): string {
+  const [, ...nameParts] = connectorType.split(':');
+  return (nameParts.join(':') || connectorType).toLowerCase();
+}
+
+/**
+ * Whether the allow and deny lists let a connector replace transactions.
+ *
+ * @param connectorType - Connector type of the transaction, e.g. `evm:metamask`
+ * @param config - {@link TxReplacementConfig}
+ */
+export function isReplacementAllowedForConnector<T extends Transaction>(
+  connectorType: string,
+  config?: TxReplacementConfig<T>,
+): boolean {
+  const name = getConnectorName(connectorType);
+  const matches = (list: string[]) => list.some((item) => item.toLowerCase() === name);
+
+  if (config?.denyConnectors && matches(config.denyConnectors)) return false;
+  return !config?.allowConnectors || matches(config.allowConnectors);
+}
+
+/**
+ * Whether a transaction can be sped up or cancelled from the UI: it is a pending, unconfirmed EVM transaction
+ * tracked by hash, sent by the connected wallet, its adapter implements `speedUpTxAction` and `cancelTxAction`,
+ * and its connector passes the allow and deny lists.
+ *
+ * @param tx - The transaction
+ * @param params - Adapters, connected wallet and {@link TxReplacementConfig}
+ * @returns {boolean} `true` when Speed Up and Cancel can be offered.
+ */
+export function canReplaceTransaction<T extends Transaction>(
+  tx: T | undefined,
+  {
+    adapter,
+    connectedWalletAddress,
+    config,
+  }: { adapter: TxAdapter<T> | TxAdapter<T>[]; connectedWalletAddress?: string; config?: TxReplacementConfig<T> },
+): boolean {
+  if (!tx?.pending || tx.tracker !== TransactionTracker.Ethereum) return false;
+  if (tx.confirmations && Number(tx.confirmations) >= 1) return false;
+  if (!connectedWalletAddress || tx.from.toLowerCase() !== connectedWalletAddress.toLowerCase()) return false;
+
+  const foundAdapter = selectAdapterByKey({ adapterKey: tx.adapter, adapter });
+  if (!foundAdapter?.speedUpTxAction || !foundAdapter.cancelTxAction) return false;
+
+  return isReplacementAllowedForConnector(tx.connectorType, config);
+}
+
+/**
+ * Whether Speed Up and Cancel open the fee editor for a transaction: the editor is enabled
+ * and the transaction has EIP-1559 fees to start from.
+ *
+ * @param tx - The transaction
+ * @param config - {@link TxReplacementConfig}
+ */
+export function canEditReplacementFees<T extends Transaction>(
+  tx: T | undefined,
+  config?: TxReplacementConfig<T>,
+): boolean {
+  return !!tx && config?.feeEditor?.enabled !== false && !!getTransactionFees(tx);
+}
+
+/**
+ * Resolves the fee editor options of a transaction: its current fees, the presets, the minimum bump,
+ * the gas limit used for the estimated cost and the native currency symbol.
+ *
+ * @param tx - The pending transaction
+ * @param mode - Whether the replacement speeds up or cancels the transaction
+ * @param config - {@link TxReplacementFeeEditorConfig}
+ * @returns The editor options, or `undefined` when the transaction has no EIP-1559 fees.
+ */
+export function getReplacementFeeEditorOptions<T extends Transaction>(
+  tx: T,
+  mode: TxReplacementMode,
+  config?: TxReplacementFeeEditorConfig<T>,
+):
+  | {
+      currentFees: ReplacementFees;
+      presets?: number[];
+      minBumpPercent?: number;
+      gasLimit?: bigint;
+      nativeCurrencySymbol?: string;
+    }
+  | undefined {
+  const currentFees = getTransactionFees(tx);
+  if (!currentFees) return undefined;
+
+  return {
+    currentFees,
+    presets: config?.presets,
+    minBumpPercent: config?.minBumpPercent,
+    gasLimit: config?.getGasLimit?.(tx, mode) ?? (mode === 'cancel' ? CANCEL_GAS_LIMIT : undefined),
+    nativeCurrencySymbol:
+      typeof config?.nativeCurrencySymbol === 'function'
+        ? config.nativeCurrencySymbol(tx.chainId)
+        : config?.nativeCurrencySymbol,
+  };
+}
+
+/**
+ * Sends a speed-up or cancel replacement with the fees chosen in the fee editor: through `config.onReplace`
+ * when set, otherwise through the adapter's `speedUpTxAction` / `cancelTxAction` (see {@link TxReplacementAction}).
+ *
+ * @param tx - The pending transaction
+ * @param mode - Whether the replacement speeds up or cancels the transaction
+ * @param params - Adapters, {@link TxReplacementConfig} and the chosen fees
+ */
+export async function sendTxReplacement<T extends Transaction>(
+  tx: T,
+  mode: TxReplacementMode,
+  {
+    adapter,
+    config,
+    fees,
+  }: { adapter: TxAdapter<T> | TxAdapter<T>[]; config?: TxReplacementConfig<T>; fees?: ReplacementFees },
+): Promise<void> {
+  if (fees && config?.onReplace) {
+    await config.onReplace({ tx, mode, fees });
+    return;
+  }
+
+  const foundAdapter = selectAdapterByKey({ adapterKey: tx.adapter, adapter });
+  const action = (mode === 'speedUp' ? foundAdapter?.speedUpTxAction : foundAdapter?.cancelTxAction) as
+    TxReplacementAction<T> | undefined;
+  await action?.(tx, fees);
+}